@@ -3,6 +3,8 @@ import type { NextConfig } from "next";
 const nextConfig: NextConfig = {
 	/* config options here */
 	reactStrictMode: false,
+	// Ships native ffmpeg binaries, must not be bundled
+	serverExternalPackages: ["@remotion/renderer"],
 };
 
 export default nextConfig;
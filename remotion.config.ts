@@ -0,0 +1,18 @@
+/**
+ * Remotion CLI configuration, used by `npm run render:bundle`
+ */
+
+import path from "node:path";
+import { Config } from "@remotion/cli/config";
+
+// Resolve the "@/..." imports the editor components use
+Config.overrideWebpackConfig((config) => ({
+	...config,
+	resolve: {
+		...config.resolve,
+		alias: {
+			...config.resolve?.alias,
+			"@": path.join(process.cwd(), "src"),
+		},
+	},
+}));
@@ -1,6 +1,6 @@
 import { getCurrentUserId } from "@/constants/auth";
 import EditorWithData from "@/features/editor/editor-with-data";
-import type { FullEDU } from "@/features/editor/transcript/types";
+import type { TranscriptSource } from "@/features/editor/transcript/types";
 import { prepareProjectDataForEditor } from "@/utils/project";
 import type { ProjectData } from "@/utils/project";
 import * as projectActions from "../actions/projects";
@@ -43,18 +43,25 @@ export default async function Page({
 					? uploadsResult.uploads
 					: [];
 
-			// Load transcriptions for uploads
-			let fullEDUs: FullEDU[] = [];
-			if (uploads && uploads.length > 0) {
-				// For now, we'll use the first transcription found
-				// In the future, we might want to combine multiple transcriptions
-				for (const upload of uploads) {
-					const transcriptionResult =
-						await transcriptionActions.getTranscription(upload.id);
-					if (transcriptionResult.success && transcriptionResult.fullEDUs) {
-						fullEDUs = transcriptionResult.fullEDUs;
-						break; // Use first transcription found
-					}
+			// Load the transcription of every upload
+			const transcripts: TranscriptSource[] = [];
+			for (const upload of uploads) {
+				const transcriptionResult = await transcriptionActions.getTranscription(
+					upload.id,
+				);
+				// Jobs still in the queue have no segments yet
+				if (
+					transcriptionResult.success &&
+					transcriptionResult.transcription?.status === "completed" &&
+					transcriptionResult.fullEDUs
+				) {
+					transcripts.push({
+						uploadId: upload.id,
+						fullEDUs: transcriptionResult.fullEDUs,
+						speakers: transcriptionResult.transcription.speakers,
+						language: transcriptionResult.transcription.language,
+						translations: transcriptionResult.translations,
+					});
 				}
 			}
 
@@ -106,7 +113,8 @@ export default async function Page({
 					background: project.background || { type: "solid", value: "#000000" },
 					...(projectSettings || {}),
 				},
-				fullEDUs: fullEDUs,
+				fullEDUs: transcripts[0]?.fullEDUs || [],
+				transcripts,
 				createdAt: project.createdAt.toISOString(),
 				updatedAt: project.updatedAt.toISOString(),
 			};
@@ -0,0 +1,30 @@
+"use server";
+
+import { generateChapters } from "@/lib/llm";
+import type { ChapterProposal, FullEDU } from "@/lib/llm/types";
+
+/**
+ * Propose chapters for a transcript
+ * EDUs are sent without their words, chapters only need EDU text and times
+ */
+export async function suggestChapters(fullEDUs: FullEDU[]): Promise<{
+	success: boolean;
+	chapters?: ChapterProposal[];
+	error?: string;
+}> {
+	try {
+		const chapters = await generateChapters(fullEDUs);
+
+		return {
+			success: true,
+			chapters,
+		};
+	} catch (error) {
+		console.error("Error suggesting chapters:", error);
+		return {
+			success: false,
+			error:
+				error instanceof Error ? error.message : "Failed to suggest chapters",
+		};
+	}
+}
@@ -0,0 +1,47 @@
+"use server";
+
+import * as transcriptionQueries from "@/db/queries/transcriptions";
+import { extractHighlights } from "@/lib/llm";
+import type { HighlightOptions, HighlightProposal } from "@/lib/llm/types";
+import { segmentsToEDUs } from "@/lib/transcription/stored-edus";
+
+/**
+ * Propose short clips from an upload's transcription
+ */
+export async function suggestHighlights(
+	uploadId: string,
+	options?: Partial<HighlightOptions>,
+): Promise<{
+	success: boolean;
+	highlights?: HighlightProposal[];
+	error?: string;
+}> {
+	try {
+		const transcription =
+			await transcriptionQueries.getTranscriptionByUploadId(uploadId);
+
+		if (!transcription || transcription.status !== "completed") {
+			return {
+				success: false,
+				error: "Transcription not found",
+			};
+		}
+
+		const highlights = await extractHighlights(
+			segmentsToEDUs(transcription.segments),
+			options,
+		);
+
+		return {
+			success: true,
+			highlights,
+		};
+	} catch (error) {
+		console.error("Error suggesting highlights:", error);
+		return {
+			success: false,
+			error:
+				error instanceof Error ? error.message : "Failed to suggest highlights",
+		};
+	}
+}
@@ -2,7 +2,13 @@
 
 import { type NewProject, type Project } from "@/db/schema";
 import * as projectQueries from "@/db/queries/projects";
-import type { ProjectData, ProjectMedia } from "@/utils/project";
+import type { ExportSettings } from "@/features/editor/utils/export-settings";
+import type {
+	Chapter,
+	ClipTranscript,
+	ProjectData,
+	ProjectMedia,
+} from "@/utils/project";
 
 /**
  * Validate if a string is a valid UUID v4
@@ -123,6 +129,9 @@ export async function updateProjectSettings(
 		background?: { type: string; value: string };
 		duration?: number;
 		initialMedia?: any;
+		chapters?: Chapter[];
+		exportSettings?: ExportSettings;
+		clipTranscript?: ClipTranscript;
 	},
 ): Promise<{ success: boolean; error?: string }> {
 	try {
@@ -155,15 +164,31 @@ export async function updateProjectSettings(
 		if (settings.duration !== undefined)
 			updateData.duration = Math.round(settings.duration);
 
-		// Handle settings JSONB field updates (like initialMedia)
-		if (settings.initialMedia !== undefined) {
+		// Handle settings JSONB field updates (like initialMedia and chapters)
+		if (
+			settings.initialMedia !== undefined ||
+			settings.chapters !== undefined ||
+			settings.exportSettings !== undefined ||
+			settings.clipTranscript !== undefined
+		) {
 			// Get current project to merge settings
 			const currentProject = await projectQueries.getProjectById(projectId);
 			if (currentProject) {
 				const currentSettings = (currentProject.settings as any) || {};
 				updateData.settings = {
 					...currentSettings,
-					initialMedia: settings.initialMedia,
+					...(settings.initialMedia !== undefined && {
+						initialMedia: settings.initialMedia,
+					}),
+					...(settings.chapters !== undefined && {
+						chapters: settings.chapters,
+					}),
+					...(settings.exportSettings !== undefined && {
+						exportSettings: settings.exportSettings,
+					}),
+					...(settings.clipTranscript !== undefined && {
+						clipTranscript: settings.clipTranscript,
+					}),
 				};
 			}
 		}
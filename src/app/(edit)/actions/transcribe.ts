@@ -1,68 +1,67 @@
 "use server";
 
-import { FullEDU } from "@/lib/llm/types";
-import {
-	getTranscriptionOrchestrator,
-	type OrchestratorOptions,
-} from "@/lib/transcription/orchestrator";
-import {
-	TranscriptionError,
-	TranscriptionErrorType,
-} from "@/lib/transcription/server";
+import * as transcriptionQueries from "@/db/queries/transcriptions";
+import { getTranscriptionJobRunner } from "@/lib/transcription/job-runner";
 
 /**
- * Server action to transcribe audio/video using the orchestrator
- * @param url - URL of the media file to transcribe
+ * Server action to queue transcription of an upload as a background job
+ * Progress is reported through the /api/transcribe/status endpoint
+ * @param uploadId - Database ID of the upload to transcribe
  * @param language - Language code for transcription
- * @returns Array of Elementary Discourse Units (EDUs) with word-level timestamps
+ * @param options.force - Transcribe again even if a result exists or is cached
  */
-export async function transcribeAction(
-	url: string,
+export async function queueTranscriptionAction(
+	uploadId: string,
 	language: string,
-): Promise<FullEDU[]> {
+	options: { force?: boolean } = {},
+): Promise<{ success: boolean; transcriptionId?: string; error?: string }> {
 	try {
-		// Get the transcription orchestrator
-		const orchestrator = getTranscriptionOrchestrator();
+		const existing =
+			await transcriptionQueries.getTranscriptionByUploadId(uploadId);
 
-		// Prepare orchestrator options
-		const options: OrchestratorOptions = {
-			language,
-			diarize: true,
-			wordTimestamps: true,
-		};
+		let transcriptionId: string;
+		if (!existing) {
+			const created = await transcriptionQueries.createTranscription({
+				uploadId,
+				language,
+				segments: [],
+				status: "pending",
+				skipCache: options.force,
+			});
+			transcriptionId = created.id;
+		} else if (existing.status === "processing" && options.force) {
+			return {
+				success: false,
+				error: "Transcription is already in progress",
+			};
+		} else if (existing.status === "failed" || options.force) {
+			// Retry a failed job, or redo a finished one, from scratch
+			await transcriptionQueries.updateTranscription(existing.id, {
+				language,
+				status: "pending",
+				progress: 0,
+				attempts: 0,
+				errorMessage: null,
+				runAfter: null,
+				skipCache: Boolean(options.force),
+			});
+			transcriptionId = existing.id;
+		} else {
+			// Already queued, running or done
+			transcriptionId = existing.id;
+		}
 
-		// Transcribe the media through orchestrator
-		const response = await orchestrator.transcribe(url, options);
+		await getTranscriptionJobRunner().wake();
 
-		return response.edus;
+		return { success: true, transcriptionId };
 	} catch (error) {
-		// Handle transcription errors
-		if (error instanceof TranscriptionError) {
-			console.error(`Transcription error: ${error.type}`, error.message);
-
-			// Map specific error types to user-friendly messages
-			switch (error.type) {
-				case TranscriptionErrorType.AUTHENTICATION_ERROR:
-					throw new Error(
-						"Transcription service authentication failed. Please check API configuration.",
-					);
-				case TranscriptionErrorType.QUOTA_EXCEEDED:
-					throw new Error(
-						"Transcription quota exceeded. Please try again later.",
-					);
-				case TranscriptionErrorType.UNSUPPORTED_FORMAT:
-					throw new Error("Media format not supported for transcription.");
-				case TranscriptionErrorType.LANGUAGE_NOT_SUPPORTED:
-					throw new Error(
-						`Language '${language}' is not supported for transcription.`,
-					);
-				default:
-					throw new Error("Transcription failed. Please try again.");
-			}
-		}
-
-		// Log unexpected errors
-		console.error("Unexpected transcription error:", error);
-		throw new Error("An unexpected error occurred during transcription.");
+		console.error("Error queueing transcription:", error);
+		return {
+			success: false,
+			error:
+				error instanceof Error
+					? error.message
+					: "Failed to queue transcription",
+		};
 	}
 }
@@ -2,7 +2,27 @@
 
 import * as transcriptionQueries from "@/db/queries/transcriptions";
 import type { NewTranscription, Transcription } from "@/db/schema";
-import type { FullEDU } from "@/features/editor/transcript/types";
+import type {
+	FullEDU,
+	TranscriptSpeaker,
+} from "@/features/editor/transcript/types";
+import { OptionsCountrys } from "@/features/editor/data/language";
+import { translateEDUs } from "@/lib/llm";
+import {
+	edusToSegments,
+	segmentsToEDUs,
+	translationsToEDUs,
+} from "@/lib/transcription/stored-edus";
+
+const haveSameBoundaries = (
+	a: Transcription["segments"],
+	b: Transcription["segments"],
+) =>
+	a.length === b.length &&
+	a.every(
+		(segment, index) =>
+			segment.start === b[index].start && segment.end === b[index].end,
+	);
 
 /**
  * Save transcription with fullEDUs to database
@@ -23,22 +43,18 @@ export async function saveTranscription(
 			await transcriptionQueries.getTranscriptionByUploadId(uploadId);
 
 		// Prepare segments data with fullEDUs
-		const segments = fullEDUs.map((edu) => ({
-			id: `edu-${edu.edu_index}`,
-			text: edu.edu_content,
-			start: edu.edu_start,
-			end: edu.edu_end,
-			speaker_id: null,
-			confidence: null,
-			words: edu.words, // Include word-level timestamps
-		}));
+		const segments = edusToSegments(fullEDUs);
 
 		if (existing) {
 			// Update existing transcription
 			const updated = await transcriptionQueries.updateTranscription(
 				existing.id,
 				{
-					segments: segments as any,
+					segments,
+					// Translations follow the EDU boundaries they were made for
+					translations: haveSameBoundaries(existing.segments, segments)
+						? existing.translations
+						: {},
 					language: metadata?.language || existing.language,
 					provider: metadata?.provider || existing.provider,
 					wordCount: metadata?.wordCount || existing.wordCount,
@@ -58,7 +74,7 @@ export async function saveTranscription(
 		const newTranscription: NewTranscription = {
 			uploadId,
 			language: metadata?.language || "en",
-			segments: segments as any,
+			segments,
 			wordCount: metadata?.wordCount,
 			duration: metadata?.duration,
 			status: "completed",
@@ -90,6 +106,7 @@ export async function getTranscription(uploadId: string): Promise<{
 	success: boolean;
 	transcription?: Transcription;
 	fullEDUs?: FullEDU[];
+	translations?: Record<string, FullEDU[]>;
 	error?: string;
 }> {
 	try {
@@ -104,20 +121,13 @@ export async function getTranscription(uploadId: string): Promise<{
 		}
 
 		// Convert segments back to FullEDU format
-		const fullEDUs: FullEDU[] = (transcription.segments as any[]).map(
-			(segment, index) => ({
-				edu_index: index,
-				edu_content: segment.text,
-				edu_start: segment.start,
-				edu_end: segment.end,
-				words: segment.words || [],
-			}),
-		);
+		const fullEDUs = segmentsToEDUs(transcription.segments);
 
 		return {
 			success: true,
 			transcription,
 			fullEDUs,
+			translations: translationsToEDUs(transcription.translations),
 		};
 	} catch (error) {
 		console.error("Error getting transcription:", error);
@@ -138,15 +148,7 @@ export async function updateTranscription(
 ): Promise<{ success: boolean; error?: string }> {
 	try {
 		// Convert fullEDUs to segments format
-		const segments = fullEDUs.map((edu) => ({
-			id: `edu-${edu.edu_index}`,
-			text: edu.edu_content,
-			start: edu.edu_start,
-			end: edu.edu_end,
-			speaker_id: null,
-			confidence: null,
-			words: edu.words,
-		}));
+		const segments = edusToSegments(fullEDUs);
 
 		// Need to get the transcription first to get its ID
 		const existing =
@@ -158,13 +160,10 @@ export async function updateTranscription(
 			};
 		}
 
-		const updated = await transcriptionQueries.updateTranscription(
+		// Also refreshes word count and duration
+		const updated = await transcriptionQueries.updateTranscriptionSegments(
 			existing.id,
-			{
-				segments: segments as any,
-				status: "completed",
-				completedAt: new Date(),
-			},
+			segments,
 		);
 
 		if (!updated) {
@@ -187,6 +186,102 @@ export async function updateTranscription(
 	}
 }
 
+/**
+ * Save the speaker roster of a transcription
+ * Pass fullEDUs as well when words were reassigned to other speakers
+ */
+export async function updateTranscriptionSpeakers(
+	uploadId: string,
+	speakers: TranscriptSpeaker[],
+	fullEDUs?: FullEDU[],
+): Promise<{ success: boolean; error?: string }> {
+	try {
+		const existing =
+			await transcriptionQueries.getTranscriptionByUploadId(uploadId);
+		if (!existing) {
+			return {
+				success: false,
+				error: "Transcription not found",
+			};
+		}
+
+		await transcriptionQueries.updateTranscription(existing.id, {
+			speakers,
+			...(fullEDUs ? { segments: edusToSegments(fullEDUs) } : {}),
+		});
+
+		return { success: true };
+	} catch (error) {
+		console.error("Error updating transcription speakers:", error);
+		return {
+			success: false,
+			error:
+				error instanceof Error
+					? error.message
+					: "Failed to update transcription speakers",
+		};
+	}
+}
+
+/**
+ * Translate a transcription and store it as an additional language
+ * EDU boundaries and timings stay those of the original
+ */
+export async function translateTranscription(
+	uploadId: string,
+	languageCode: string,
+): Promise<{ success: boolean; fullEDUs?: FullEDU[]; error?: string }> {
+	try {
+		const existing =
+			await transcriptionQueries.getTranscriptionByUploadId(uploadId);
+		if (!existing || existing.status !== "completed") {
+			return {
+				success: false,
+				error: "Transcription not found",
+			};
+		}
+
+		const language = OptionsCountrys.find(
+			(option) => option.code === languageCode,
+		);
+		if (!language) {
+			return {
+				success: false,
+				error: `Unsupported language: ${languageCode}`,
+			};
+		}
+		if (language.code === existing.language) {
+			return {
+				success: false,
+				error: `The transcription is already in ${language.name}`,
+			};
+		}
+
+		const fullEDUs = await translateEDUs(segmentsToEDUs(existing.segments), {
+			code: language.code,
+			name: language.name,
+		});
+
+		await transcriptionQueries.updateTranscription(existing.id, {
+			translations: {
+				...existing.translations,
+				[language.code]: edusToSegments(fullEDUs),
+			},
+		});
+
+		return { success: true, fullEDUs };
+	} catch (error) {
+		console.error("Error translating transcription:", error);
+		return {
+			success: false,
+			error:
+				error instanceof Error
+					? error.message
+					: "Failed to translate transcription",
+		};
+	}
+}
+
 /**
  * Delete transcription
  */
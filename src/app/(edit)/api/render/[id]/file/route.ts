@@ -0,0 +1,64 @@
+import { createReadStream, existsSync } from "node:fs";
+import { Readable } from "node:stream";
+import { NextResponse } from "next/server";
+import { getRenderJobById } from "@/db/queries/renders";
+import {
+	EXPORT_FORMATS,
+	ExportFormat,
+} from "@/features/editor/utils/export-settings";
+
+// By file extension, image sequences are served as a tar
+const CONTENT_TYPES: Record<string, string> = {
+	mp4: "video/mp4",
+	webm: "video/webm",
+	mov: "video/quicktime",
+	gif: "image/gif",
+	mp3: "audio/mpeg",
+	wav: "audio/wav",
+	png: "image/png",
+	tar: "application/x-tar",
+	json: "application/json",
+};
+
+/**
+ * Download the output of a completed local render
+ */
+export async function GET(
+	request: Request,
+	{ params }: { params: Promise<{ id: string }> },
+) {
+	try {
+		const { id } = await params;
+		const job = await getRenderJobById(id);
+		if (
+			!job ||
+			job.status !== "completed" ||
+			!job.outputPath ||
+			!existsSync(job.outputPath)
+		) {
+			return NextResponse.json(
+				{ message: "Render output not found" },
+				{ status: 404 },
+			);
+		}
+
+		const extension =
+			EXPORT_FORMATS[job.format as ExportFormat]?.extension || job.format;
+		const stream = Readable.toWeb(
+			createReadStream(job.outputPath),
+		) as ReadableStream;
+		return new Response(stream, {
+			headers: {
+				"Content-Type": CONTENT_TYPES[extension] || "application/octet-stream",
+				"Content-Disposition": `attachment; filename="${job.id}.${extension}"`,
+				...(job.outputSize ? { "Content-Length": String(job.outputSize) } : {}),
+			},
+		});
+	} catch (error) {
+		console.error(error);
+		return NextResponse.json(
+			{ message: "Internal server error" },
+			{ status: 500 },
+		);
+	}
+}
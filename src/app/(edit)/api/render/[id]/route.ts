@@ -1,4 +1,8 @@
 import { NextResponse } from "next/server";
+import { cancelRenderJob, getRenderJobById } from "@/db/queries/renders";
+import { renderConfig, toRenderStatus } from "@/lib/render";
+import { getRenderJobRunner } from "@/lib/render/job-runner";
+
 export async function GET(
 	request: Request,
 	{ params }: { params: Promise<{ id: string }> },
@@ -12,9 +16,23 @@ export async function GET(
 			);
 		}
 
-		const response = await fetch(`https://api.combo.sh/v1/render/${id}`, {
+		if (renderConfig.backend === "local") {
+			const job = await getRenderJobById(id);
+			if (!job) {
+				return NextResponse.json(
+					{ message: "Render job not found" },
+					{ status: 404 },
+				);
+			}
+			return NextResponse.json(
+				{ video: toRenderStatus(job) },
+				{ headers: { "Cache-Control": "no-store" } },
+			);
+		}
+
+		const response = await fetch(`${renderConfig.remoteUrl}/${id}`, {
 			headers: {
-				Authorization: "Bearer cb_bYQbTtE7Yb7R", // JWT Token from environment
+				Authorization: `Bearer ${renderConfig.remoteToken}`, // JWT Token from environment
 			},
 			cache: "no-store",
 		});
@@ -39,3 +57,38 @@ export async function GET(
 		);
 	}
 }
+
+/**
+ * Cancel a local render that hasn't finished
+ */
+export async function DELETE(
+	request: Request,
+	{ params }: { params: Promise<{ id: string }> },
+) {
+	try {
+		const { id } = await params;
+		if (renderConfig.backend !== "local") {
+			return NextResponse.json(
+				{ message: "Remote renders can't be cancelled" },
+				{ status: 400 },
+			);
+		}
+
+		const job = await cancelRenderJob(id);
+		if (!job) {
+			return NextResponse.json(
+				{ message: "Render job is not running" },
+				{ status: 409 },
+			);
+		}
+		getRenderJobRunner().cancel(id);
+
+		return NextResponse.json({ video: toRenderStatus(job) }, { status: 200 });
+	} catch (error) {
+		console.error(error);
+		return NextResponse.json(
+			{ message: "Internal server error" },
+			{ status: 500 },
+		);
+	}
+}
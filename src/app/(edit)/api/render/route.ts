@@ -1,16 +1,98 @@
 import { NextResponse } from "next/server";
+import type { IDesign } from "@designcombo/types";
+import { createRenderJob } from "@/db/queries/renders";
+import {
+	DEFAULT_EXPORT_SETTINGS,
+	ExportSettings,
+	getExportSettingsIssues,
+} from "@/features/editor/utils/export-settings";
+import { cropDesignToRange } from "@/features/editor/utils/export-range";
+import { renderConfig, toRenderStatus } from "@/lib/render";
+import { getRenderJobRunner } from "@/lib/render/job-runner";
+
+/**
+ * Queue a render on this server
+ * Responds in the remote API's shape so the client polls both the same way
+ */
+async function queueLocalRender(body: {
+	design?: IDesign;
+	projectId?: string;
+	options?: Partial<ExportSettings>;
+}) {
+	const { design, projectId, options } = body;
+	if (!design?.trackItemsMap || !design.size) {
+		return NextResponse.json(
+			{ message: "design is required" },
+			{ status: 400 },
+		);
+	}
+
+	const { format, ...settings }: ExportSettings = {
+		...DEFAULT_EXPORT_SETTINGS,
+		...options,
+	};
+	const issues =
+		format === "json"
+			? ["JSON exports don't need rendering"]
+			: getExportSettingsIssues(
+					{ format, ...settings },
+					design.duration ?? Number.POSITIVE_INFINITY,
+				);
+	if (issues.length > 0) {
+		return NextResponse.json({ message: issues.join(" ") }, { status: 400 });
+	}
+
+	const job = await createRenderJob({
+		design: design as unknown as Record<string, any>,
+		projectId: projectId || null,
+		format,
+		options: settings,
+	});
+	await getRenderJobRunner().wake();
+
+	return NextResponse.json({ video: toRenderStatus(job) }, { status: 200 });
+}
 
 export async function POST(request: Request) {
 	try {
 		const body = await request.json(); // Parse the request body
 
-		const response = await fetch("https://api.combo.sh/v1/render", {
+		if (renderConfig.backend === "local") {
+			return await queueLocalRender(body);
+		}
+
+		// The remote API renders MP4 only
+		if ((body.options?.format || "mp4") !== "mp4") {
+			return NextResponse.json(
+				{
+					message:
+						"Only MP4 exports are available. Set RENDER_BACKEND=local for other formats.",
+				},
+				{ status: 400 },
+			);
+		}
+
+		// The remote API renders whole designs, so a range is cut out up front
+		const range = body.options?.range;
+		const design =
+			range && body.design
+				? cropDesignToRange(body.design, range)
+				: body.design;
+
+		const response = await fetch(renderConfig.remoteUrl, {
 			method: "POST",
 			headers: {
 				"Content-Type": "application/json",
-				Authorization: "Bearer cb_bYQbTtE7Yb7R", // JWT Token from environment
+				Authorization: `Bearer ${renderConfig.remoteToken}`, // JWT Token from environment
 			},
-			body: JSON.stringify(body),
+			body: JSON.stringify({
+				design,
+				options: {
+					fps: body.options?.fps,
+					size: body.options?.size,
+					format: "mp4",
+				},
+			}),
 		});
 
 		const responseData = await response.json();
@@ -49,9 +131,9 @@ export async function GET(request: Request) {
 			);
 		}
 
-		const response = await fetch(`https://api.combo.sh/v1/render/${id}`, {
+		const response = await fetch(`${renderConfig.remoteUrl}/${id}`, {
 			headers: {
-				Authorization: `Bearer ${process.env.COMBO_SH_JWT}`, // JWT Token from environment
+				Authorization: `Bearer ${renderConfig.remoteToken}`, // JWT Token from environment
 			},
 		});
 
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getTranscriptionByUploadId } from "@/db/queries/transcriptions";
+
+/**
+ * Status of the background transcription job for an upload
+ */
+export async function GET(request: NextRequest) {
+	try {
+		const uploadId = request.nextUrl.searchParams.get("uploadId");
+		if (!uploadId) {
+			return NextResponse.json(
+				{ success: false, error: "uploadId is required" },
+				{ status: 400 },
+			);
+		}
+
+		const transcription = await getTranscriptionByUploadId(uploadId);
+		if (!transcription) {
+			return NextResponse.json(
+				{ success: false, error: "Transcription not found" },
+				{ status: 404 },
+			);
+		}
+
+		return NextResponse.json(
+			{
+				success: true,
+				transcriptionId: transcription.id,
+				status: transcription.status,
+				progress: transcription.progress,
+				attempts: transcription.attempts,
+				error: transcription.errorMessage,
+			},
+			{ headers: { "Cache-Control": "no-store" } },
+		);
+	} catch (error) {
+		console.error("Transcription status error:", error);
+
+		return NextResponse.json(
+			{
+				success: false,
+				error: (error as Error).message,
+			},
+			{ status: 500 },
+		);
+	}
+}
@@ -3,6 +3,7 @@ import {
 	ArrowRight,
 	ArrowUpRight,
 	AudioLinesIcon,
+	Blend,
 	BookOpen,
 	Check,
 	ChevronLeft,
@@ -247,6 +248,7 @@ export const Icons = {
 		</svg>
 	),
 
+	transition: Blend,
 	trash: Trash,
 	templates: ({ ...props }: LucideProps) => (
 		<svg
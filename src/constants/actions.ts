@@ -39,6 +39,9 @@ export type Action =
 	| "select-all"
 	| "duplicate-selected"
 	| "toggle-snapping"
+	| "set-in-point"
+	| "set-out-point"
+	| "clear-range"
 	| "undo"
 	| "redo"
 	| "copy-selected"
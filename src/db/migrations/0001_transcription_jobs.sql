@@ -0,0 +1,4 @@
+ALTER TABLE "Transcription" ADD COLUMN "progress" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "Transcription" ADD COLUMN "attempts" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "Transcription" ADD COLUMN "run_after" timestamp;--> statement-breakpoint
+ALTER TABLE "Transcription" ADD COLUMN "started_at" timestamp;
\ No newline at end of file
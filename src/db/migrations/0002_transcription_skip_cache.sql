@@ -0,0 +1 @@
+ALTER TABLE "Transcription" ADD COLUMN "skip_cache" boolean DEFAULT false NOT NULL;
\ No newline at end of file
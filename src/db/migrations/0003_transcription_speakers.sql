@@ -0,0 +1 @@
+ALTER TABLE "Transcription" ADD COLUMN "speakers" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "Transcription" ADD COLUMN "translations" jsonb DEFAULT '{}'::jsonb NOT NULL;
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE "RenderJob" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" uuid,
+	"design" jsonb NOT NULL,
+	"format" varchar(16) DEFAULT 'mp4' NOT NULL,
+	"status" varchar(32) DEFAULT 'pending' NOT NULL,
+	"progress" integer DEFAULT 0 NOT NULL,
+	"error_message" text,
+	"output_path" text,
+	"output_size" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"started_at" timestamp,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "RenderJob" ADD CONSTRAINT "RenderJob_project_id_Project_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."Project"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
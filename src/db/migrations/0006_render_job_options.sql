@@ -0,0 +1 @@
+ALTER TABLE "RenderJob" ADD COLUMN "options" jsonb DEFAULT '{}'::jsonb NOT NULL;
\ No newline at end of file
@@ -4,3 +4,4 @@ export * from "./auth";
 export * from "./projects";
 export * from "./uploads";
 export * from "./transcriptions";
+export * from "./renders";
@@ -0,0 +1,139 @@
+import { db } from "../index";
+import { renderJobs, type NewRenderJob, type RenderJob } from "../schema";
+import { and, eq, inArray, isNull, lte, or } from "drizzle-orm";
+
+// ==================== RENDER JOB QUERIES ====================
+
+/**
+ * Create a new render job
+ */
+export async function createRenderJob(data: NewRenderJob) {
+	const [job] = await db.insert(renderJobs).values(data).returning();
+	return job;
+}
+
+/**
+ * Get render job by ID
+ */
+export async function getRenderJobById(id: string) {
+	const [job] = await db
+		.select()
+		.from(renderJobs)
+		.where(eq(renderJobs.id, id))
+		.limit(1);
+	return job;
+}
+
+/**
+ * Update render job
+ */
+export async function updateRenderJob(
+	id: string,
+	data: Partial<Omit<RenderJob, "id" | "createdAt">>,
+) {
+	const [job] = await db
+		.update(renderJobs)
+		.set(data)
+		.where(eq(renderJobs.id, id))
+		.returning();
+	return job;
+}
+
+/**
+ * Get render jobs waiting to run, oldest first
+ */
+export async function getPendingRenderJobs(limit = 10) {
+	return await db
+		.select()
+		.from(renderJobs)
+		.where(eq(renderJobs.status, "pending"))
+		.orderBy(renderJobs.createdAt)
+		.limit(limit);
+}
+
+/**
+ * Claim a pending render job
+ * Returns undefined when another worker claimed or cancelled it first
+ */
+export async function claimRenderJob(id: string) {
+	const [claimed] = await db
+		.update(renderJobs)
+		.set({ status: "rendering", progress: 0, startedAt: new Date() })
+		.where(and(eq(renderJobs.id, id), eq(renderJobs.status, "pending")))
+		.returning();
+	return claimed;
+}
+
+/**
+ * Update render job progress (0-100)
+ * Only a running job is updated, so a late report can't undo a cancel
+ */
+export async function updateRenderJobProgress(id: string, progress: number) {
+	const [job] = await db
+		.update(renderJobs)
+		.set({ progress })
+		.where(and(eq(renderJobs.id, id), eq(renderJobs.status, "rendering")))
+		.returning();
+	return job;
+}
+
+/**
+ * Mark a job completed, as long as it is still rendering
+ * Returns undefined when it was cancelled meanwhile
+ */
+export async function completeRenderJob(
+	id: string,
+	data: Pick<RenderJob, "outputPath" | "outputSize">,
+) {
+	const [job] = await db
+		.update(renderJobs)
+		.set({
+			...data,
+			status: "completed",
+			progress: 100,
+			errorMessage: null,
+			completedAt: new Date(),
+		})
+		.where(and(eq(renderJobs.id, id), eq(renderJobs.status, "rendering")))
+		.returning();
+	return job;
+}
+
+/**
+ * Cancel a job that hasn't finished
+ * Returns undefined when the job already completed, failed or was cancelled
+ */
+export async function cancelRenderJob(id: string) {
+	const [job] = await db
+		.update(renderJobs)
+		.set({ status: "cancelled", completedAt: new Date() })
+		.where(
+			and(
+				eq(renderJobs.id, id),
+				inArray(renderJobs.status, ["pending", "rendering"]),
+			),
+		)
+		.returning();
+	return job;
+}
+
+/**
+ * Put jobs left in "rendering" by a stopped server back in the queue
+ * Only jobs started before the given time count, newer ones may still be
+ * rendering in another process
+ */
+export async function requeueStaleRenderJobs(startedBefore: Date) {
+	return await db
+		.update(renderJobs)
+		.set({ status: "pending", progress: 0 })
+		.where(
+			and(
+				eq(renderJobs.status, "rendering"),
+				or(
+					isNull(renderJobs.startedAt),
+					lte(renderJobs.startedAt, startedBefore),
+				),
+			),
+		)
+		.returning();
+}
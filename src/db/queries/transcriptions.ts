@@ -5,7 +5,7 @@ import {
 	type Transcription,
 	type NewTranscription,
 } from "../schema";
-import { eq, desc, and, inArray } from "drizzle-orm";
+import { eq, desc, and, inArray, isNull, lte, or } from "drizzle-orm";
 
 // ==================== TRANSCRIPTION QUERIES ====================
 
@@ -115,7 +115,8 @@ export async function updateTranscriptionSegments(
 		(count, seg) => count + seg.text.split(/\s+/).length,
 		0,
 	);
-	const duration = segments.length > 0 ? segments[segments.length - 1].end : 0;
+	const duration =
+		segments.length > 0 ? Math.round(segments[segments.length - 1].end) : 0;
 
 	return await updateTranscription(id, {
 		segments,
@@ -158,11 +159,68 @@ export async function getPendingTranscriptions(limit = 10) {
 		})
 		.from(transcriptions)
 		.innerJoin(uploads, eq(transcriptions.uploadId, uploads.id))
-		.where(eq(transcriptions.status, "pending"))
+		.where(
+			and(
+				eq(transcriptions.status, "pending"),
+				or(
+					isNull(transcriptions.runAfter),
+					lte(transcriptions.runAfter, new Date()),
+				),
+			),
+		)
 		.orderBy(transcriptions.createdAt)
 		.limit(limit);
 }
 
+/**
+ * Claim a pending transcription for processing
+ * Returns undefined when another worker claimed it first
+ */
+export async function claimTranscription(id: string) {
+	const [claimed] = await db
+		.update(transcriptions)
+		.set({
+			status: "processing",
+			progress: 0,
+			startedAt: new Date(),
+			runAfter: null,
+		})
+		.where(and(eq(transcriptions.id, id), eq(transcriptions.status, "pending")))
+		.returning();
+	return claimed;
+}
+
+/**
+ * Update transcription job progress (0-100)
+ */
+export async function updateTranscriptionProgress(
+	id: string,
+	progress: number,
+) {
+	return await updateTranscription(id, { progress });
+}
+
+/**
+ * Put jobs left in "processing" by a stopped server back in the queue
+ * Only jobs started before the given time count, newer ones may still be
+ * running in another process
+ */
+export async function requeueStaleTranscriptions(startedBefore: Date) {
+	return await db
+		.update(transcriptions)
+		.set({ status: "pending", progress: 0, runAfter: null })
+		.where(
+			and(
+				eq(transcriptions.status, "processing"),
+				or(
+					isNull(transcriptions.startedAt),
+					lte(transcriptions.startedAt, startedBefore),
+				),
+			),
+		)
+		.returning();
+}
+
 /**
  * Get transcription statistics for a user
  */
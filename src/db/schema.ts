@@ -116,6 +116,18 @@ export const transcriptions = pgTable("Transcription", {
 		>()
 		.notNull(),
 
+	// Named speakers for diarized segments (speaker_id -> name, color)
+	speakers: jsonb("speakers")
+		.$type<Array<{ id: string; name: string; color: string }>>()
+		.notNull()
+		.default([]),
+
+	// Translated segments by language code, same EDU boundaries as `segments`
+	translations: jsonb("translations")
+		.$type<Record<string, unknown[]>>()
+		.notNull()
+		.default({}),
+
 	// 转录统计
 	wordCount: integer("word_count"),
 	duration: integer("duration"), // 总时长（毫秒）
@@ -125,10 +137,40 @@ export const transcriptions = pgTable("Transcription", {
 	provider: varchar("provider", { length: 64 }), // elevenlabs, whisper, etc
 	errorMessage: text("error_message"),
 
+	// Background job state
+	progress: integer("progress").notNull().default(0), // 0-100
+	attempts: integer("attempts").notNull().default(0),
+	runAfter: timestamp("run_after"), // Earliest time a retry may start
+	startedAt: timestamp("started_at"),
+	skipCache: boolean("skip_cache").notNull().default(false), // Forced re-transcription
+
 	createdAt: timestamp("created_at").notNull().defaultNow(),
 	completedAt: timestamp("completed_at"),
 });
 
+// Server-side video renders of a design
+export const renderJobs = pgTable("RenderJob", {
+	id: uuid("id").primaryKey().notNull().defaultRandom(),
+	projectId: uuid("project_id").references(() => projects.id, {
+		onDelete: "set null",
+	}),
+
+	design: jsonb("design").$type<Record<string, any>>().notNull(), // IDesign
+	format: varchar("format", { length: 16 }).notNull().default("mp4"), // ExportFormat
+	options: jsonb("options").$type<Record<string, any>>().notNull().default({}), // ExportSettings
+
+	status: varchar("status", { length: 32 }).notNull().default("pending"), // pending, rendering, completed, failed, cancelled
+	progress: integer("progress").notNull().default(0), // 0-100
+	errorMessage: text("error_message"),
+
+	outputPath: text("output_path"), // File on the server's disk
+	outputSize: integer("output_size"), // Bytes
+
+	createdAt: timestamp("created_at").notNull().defaultNow(),
+	startedAt: timestamp("started_at"),
+	completedAt: timestamp("completed_at"),
+});
+
 // Indexes for transcriptions - temporarily disabled to debug issue
 // export const transcriptionsUploadIdIdx = index(
 // 	"transcriptions_upload_id_idx",
@@ -149,3 +191,6 @@ export type NewUpload = typeof uploads.$inferInsert;
 
 export type Transcription = typeof transcriptions.$inferSelect;
 export type NewTranscription = typeof transcriptions.$inferInsert;
+
+export type RenderJob = typeof renderJobs.$inferSelect;
+export type NewRenderJob = typeof renderJobs.$inferInsert;
@@ -0,0 +1,213 @@
+/**
+ * Animations
+ * Presets that play when an item enters, leaves, or for as long as it shows
+ */
+
+export type AnimationSlot = "in" | "out" | "loop";
+
+export type AnimationPresetId =
+	| "fade"
+	| "slide-left"
+	| "slide-right"
+	| "slide-top"
+	| "slide-bottom"
+	| "pop"
+	| "typewriter"
+	| "word-reveal"
+	| "bounce"
+	| "pulse";
+
+// Slides are in canvas widths and heights, so items start beyond the edge.
+// Reveals are the share of the text that shows
+export type AnimationProperty =
+	| "opacity"
+	| "translateX"
+	| "translateY"
+	| "scale"
+	| "rotate"
+	| "typewriter"
+	| "wordReveal";
+
+export type AnimationEasing =
+	| "linear"
+	| "ease-in"
+	| "ease-out"
+	| "ease-in-out"
+	| "back"
+	| "bounce";
+
+export interface AnimationStep {
+	property: AnimationProperty;
+	// Where an entrance starts, an exit ends and a loop peaks
+	value: number;
+}
+
+interface AnimationPreset {
+	label: string;
+	// Steps of the preset in each slot it can play in
+	slots: Partial<Record<AnimationSlot, AnimationStep[]>>;
+	// Reveals only make sense on items with text
+	textOnly?: boolean;
+	// Defaults, the duration in ms. Loops repeat on a fixed curve, each
+	// cycle lasting the duration
+	duration: number;
+	easing: AnimationEasing;
+}
+
+export const ANIMATION_PRESETS: Record<AnimationPresetId, AnimationPreset> = {
+	fade: {
+		label: "Fade",
+		slots: {
+			in: [{ property: "opacity", value: 0 }],
+			out: [{ property: "opacity", value: 0 }],
+		},
+		duration: 500,
+		easing: "ease-out",
+	},
+	"slide-left": {
+		label: "Slide left",
+		slots: {
+			in: [{ property: "translateX", value: -1 }],
+			out: [{ property: "translateX", value: -1 }],
+		},
+		duration: 600,
+		easing: "ease-out",
+	},
+	"slide-right": {
+		label: "Slide right",
+		slots: {
+			in: [{ property: "translateX", value: 1 }],
+			out: [{ property: "translateX", value: 1 }],
+		},
+		duration: 600,
+		easing: "ease-out",
+	},
+	"slide-top": {
+		label: "Slide top",
+		slots: {
+			in: [{ property: "translateY", value: -1 }],
+			out: [{ property: "translateY", value: -1 }],
+		},
+		duration: 600,
+		easing: "ease-out",
+	},
+	"slide-bottom": {
+		label: "Slide bottom",
+		slots: {
+			in: [{ property: "translateY", value: 1 }],
+			out: [{ property: "translateY", value: 1 }],
+		},
+		duration: 600,
+		easing: "ease-out",
+	},
+	pop: {
+		label: "Pop",
+		slots: {
+			in: [
+				{ property: "scale", value: 0 },
+				{ property: "opacity", value: 0 },
+			],
+			out: [
+				{ property: "scale", value: 0 },
+				{ property: "opacity", value: 0 },
+			],
+		},
+		duration: 400,
+		easing: "back",
+	},
+	typewriter: {
+		label: "Typewriter",
+		slots: {
+			in: [{ property: "typewriter", value: 0 }],
+			out: [{ property: "typewriter", value: 0 }],
+		},
+		textOnly: true,
+		duration: 1000,
+		easing: "linear",
+	},
+	"word-reveal": {
+		label: "Word by word",
+		slots: {
+			in: [{ property: "wordReveal", value: 0 }],
+			out: [{ property: "wordReveal", value: 0 }],
+		},
+		textOnly: true,
+		duration: 1000,
+		easing: "linear",
+	},
+	bounce: {
+		label: "Bounce",
+		slots: {
+			in: [{ property: "translateY", value: -0.3 }],
+			loop: [{ property: "translateY", value: -0.05 }],
+		},
+		duration: 800,
+		easing: "bounce",
+	},
+	pulse: {
+		label: "Pulse",
+		slots: {
+			loop: [{ property: "scale", value: 1.1 }],
+		},
+		duration: 800,
+		easing: "ease-in-out",
+	},
+};
+
+export const ANIMATION_SLOT_LABELS: Record<AnimationSlot, string> = {
+	in: "In",
+	out: "Out",
+	loop: "Loop",
+};
+
+export const ANIMATION_EASING_LABELS: Record<AnimationEasing, string> = {
+	linear: "Linear",
+	"ease-in": "Ease in",
+	"ease-out": "Ease out",
+	"ease-in-out": "Ease in out",
+	back: "Back",
+	bounce: "Bounce",
+};
+
+// Value of each property when nothing animates it
+export const ANIMATION_REST: Record<AnimationProperty, number> = {
+	opacity: 1,
+	translateX: 0,
+	translateY: 0,
+	scale: 1,
+	rotate: 0,
+	typewriter: 1,
+	wordReveal: 1,
+};
+
+// The panel only lets an animation run within these bounds, in ms
+export const MIN_ANIMATION_DURATION = 100;
+export const MAX_ANIMATION_DURATION = 3000;
+
+export interface AnimationCombo {
+	label: string;
+	presets: Partial<Record<AnimationSlot, AnimationPresetId>>;
+	textOnly?: boolean;
+}
+
+// Presets that go well together, applied in one go
+export const ANIMATION_COMBOS: AnimationCombo[] = [
+	{
+		label: "Typed",
+		presets: { in: "typewriter", out: "fade" },
+		textOnly: true,
+	},
+	{
+		label: "Spoken",
+		presets: { in: "word-reveal", out: "fade" },
+		textOnly: true,
+	},
+	{ label: "Soft", presets: { in: "fade", out: "fade" } },
+	{ label: "Pop", presets: { in: "pop", out: "pop" } },
+	{ label: "Swipe", presets: { in: "slide-left", out: "slide-right" } },
+	{ label: "Rise", presets: { in: "slide-bottom", out: "slide-top" } },
+	{ label: "Lively", presets: { in: "bounce", loop: "pulse" } },
+];
+
+// Share of an item that a combo's entrance and exit take at most
+export const MAX_COMBO_SHARE = 0.5;
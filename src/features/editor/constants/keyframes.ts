@@ -0,0 +1,59 @@
+/**
+ * Keyframes
+ * Item properties that can change over time, and the curves between values
+ */
+
+export type KeyframeProperty =
+	| "x"
+	| "y"
+	| "scale"
+	| "rotation"
+	| "opacity"
+	| "blur"
+	| "brightness";
+
+export type KeyframeEasing =
+	| "linear"
+	| "ease-in"
+	| "ease-out"
+	| "ease-in-out"
+	| "hold";
+
+export interface Keyframe {
+	id: string;
+	// ms from the start of the item
+	time: number;
+	value: number;
+	// Curve from this keyframe to the next one
+	easing: KeyframeEasing;
+}
+
+export type ItemKeyframes = Partial<Record<KeyframeProperty, Keyframe[]>>;
+
+interface KeyframePropertyInfo {
+	label: string;
+	unit: string;
+}
+
+export const KEYFRAME_PROPERTIES: Record<
+	KeyframeProperty,
+	KeyframePropertyInfo
+> = {
+	x: { label: "Position X", unit: "px" },
+	y: { label: "Position Y", unit: "px" },
+	scale: { label: "Scale", unit: "%" },
+	rotation: { label: "Rotation", unit: "°" },
+	opacity: { label: "Opacity", unit: "%" },
+	blur: { label: "Blur", unit: "px" },
+	brightness: { label: "Brightness", unit: "%" },
+};
+
+export const EASING_LABELS: Record<KeyframeEasing, string> = {
+	linear: "Linear",
+	"ease-in": "Ease in",
+	"ease-out": "Ease out",
+	"ease-in-out": "Ease in out",
+	hold: "Hold",
+};
+
+export const DEFAULT_EASING: KeyframeEasing = "ease-in-out";
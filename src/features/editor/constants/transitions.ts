@@ -0,0 +1,59 @@
+/**
+ * Transitions
+ * Kinds that can be dropped between two adjacent clips on the timeline.
+ * "none" marks a cut without a transition
+ */
+
+export type TransitionKind =
+	| "none"
+	| "fade"
+	| "slide"
+	| "wipe"
+	| "flip"
+	| "clock-wipe"
+	| "zoom"
+	| "circle";
+
+export type TransitionDirection =
+	| "from-left"
+	| "from-right"
+	| "from-top"
+	| "from-bottom";
+
+interface TransitionInfo {
+	label: string;
+	// Directions the kind can play in, empty when it has none
+	directions: TransitionDirection[];
+}
+
+const SIDES: TransitionDirection[] = [
+	"from-left",
+	"from-right",
+	"from-top",
+	"from-bottom",
+];
+
+export const TRANSITIONS: Record<
+	Exclude<TransitionKind, "none">,
+	TransitionInfo
+> = {
+	fade: { label: "Fade", directions: [] },
+	slide: { label: "Slide", directions: SIDES },
+	wipe: { label: "Wipe", directions: SIDES },
+	flip: { label: "Flip", directions: SIDES },
+	"clock-wipe": { label: "Clock wipe", directions: [] },
+	// Presentations of our own, see player/transitions
+	zoom: { label: "Zoom", directions: [] },
+	circle: { label: "Circle", directions: [] },
+};
+
+export const DIRECTION_LABELS: Record<TransitionDirection, string> = {
+	"from-left": "From left",
+	"from-right": "From right",
+	"from-top": "From top",
+	"from-bottom": "From bottom",
+};
+
+// The timeline only lets a transition be resized within these bounds, in ms
+export const MIN_TRANSITION_DURATION = 500;
+export const MAX_TRANSITION_DURATION = 1500;
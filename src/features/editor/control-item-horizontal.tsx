@@ -516,6 +516,7 @@ const ItemText = ({
 			{ icon: Icons.preset, label: "Preset", id: "textPreset" },
 			{ icon: Icons.style, label: "Styles", id: "textControls" },
 			{ icon: Icons.animation, label: "Animations", id: "animations" },
+			{ icon: Icons.smart, label: "Smart", id: "smart" },
 			{ icon: Icons.fontStroke, label: "Stroke", id: "fontStroke" },
 			{ icon: Icons.fontShadow, label: "Shadow", id: "fontShadow" },
 		]}
@@ -533,6 +534,7 @@ const ItemImage = ({
 			{ icon: Icons.crop, label: "Crop", id: "crop" },
 			{ icon: Icons.basic, label: "Basic", id: "basic" },
 			{ icon: Icons.animation, label: "Animations", id: "animations" },
+			{ icon: Icons.smart, label: "Smart", id: "smart" },
 			{ icon: Icons.outline, label: "Outline", id: "outline" },
 			{ icon: Icons.shadow, label: "Shadow", id: "shadow" },
 		]}
@@ -550,6 +552,7 @@ const ItemVideo = ({
 			{ icon: Icons.crop, label: "Crop", id: "crop" },
 			{ icon: Icons.basic, label: "Basic", id: "basic" },
 			{ icon: Icons.animation, label: "Animations", id: "animations" },
+			{ icon: Icons.smart, label: "Smart", id: "smart" },
 			{ icon: Icons.outline, label: "Outline", id: "outline" },
 			{ icon: Icons.shadow, label: "Shadow", id: "shadow" },
 		]}
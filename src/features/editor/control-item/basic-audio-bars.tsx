@@ -0,0 +1,310 @@
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Slider } from "@/components/ui/slider";
+import { dispatch } from "@designcombo/events";
+import { EDIT_OBJECT } from "@designcombo/state";
+import { ITrackItem } from "@designcombo/types";
+import React, { useEffect, useState } from "react";
+import {
+	MAX_SMOOTHING,
+	VisualizerStyle,
+	getBarCount,
+	toColors,
+} from "../player/lib/visualizer";
+import ColorField from "./common/color-field";
+import NumberField from "./common/number-field";
+
+// Detail fields the visualizer panels edit, across all kinds
+type AudioBarsDetails = VisualizerStyle & {
+	width: number;
+	height: number;
+	linealBarColor?: string;
+	radialBarColor?: string;
+	lineColor?: string | string[];
+	fillColor?: string | string[] | null;
+	strokeColor?: string;
+	lineThickness?: number;
+	gapSize?: number;
+	roundness?: number;
+	lines?: number;
+	copies?: number | null;
+};
+
+const TITLES: Record<string, string> = {
+	linealAudioBars: "Lineal bars",
+	radialAudioBars: "Radial bars",
+	waveAudioBars: "Wave",
+	hillAudioBars: "Hills",
+};
+
+const Smoothing = ({
+	value,
+	onChange,
+}: {
+	value: number;
+	onChange: (v: number) => void;
+}) => {
+	const [localValue, setLocalValue] = useState(value);
+
+	useEffect(() => {
+		setLocalValue(value);
+	}, [value]);
+
+	return (
+		<div className="flex gap-2">
+			<div className="flex flex-1 items-center text-sm text-muted-foreground">
+				Smoothing
+			</div>
+			<div className="flex w-32 items-center">
+				<Slider
+					value={[localValue]}
+					onValueChange={([v]) => setLocalValue(v)}
+					onValueCommit={([v]) => onChange(v)}
+					min={0}
+					max={MAX_SMOOTHING}
+					step={0.05}
+					aria-label="Smoothing"
+				/>
+			</div>
+		</div>
+	);
+};
+
+/**
+ * Color fields for a detail that holds one color or a list, written back in
+ * the same shape
+ */
+const ColorsField = ({
+	label,
+	value,
+	fallback,
+	onChange,
+}: {
+	label: string;
+	value: string | string[] | null | undefined;
+	fallback: string;
+	onChange: (v: string | string[]) => void;
+}) => {
+	const colors = toColors(value, fallback);
+	if (!Array.isArray(value)) {
+		return <ColorField label={label} value={colors[0]} onChange={onChange} />;
+	}
+	return (
+		<>
+			{colors.map((color, index) => (
+				<ColorField
+					key={index}
+					label={`${label} ${index + 1}`}
+					value={color}
+					onChange={(v) =>
+						onChange(colors.map((prev, i) => (i === index ? v : prev)))
+					}
+				/>
+			))}
+		</>
+	);
+};
+
+const BasicAudioBars = ({ trackItem }: { trackItem: ITrackItem }) => {
+	const [properties, setProperties] = useState(trackItem);
+	const details = properties.details as AudioBarsDetails;
+
+	useEffect(() => {
+		setProperties(trackItem);
+	}, [trackItem]);
+
+	const handleChange = (changes: Partial<AudioBarsDetails>) => {
+		dispatch(EDIT_OBJECT, {
+			payload: {
+				[trackItem.id]: {
+					details: changes,
+				},
+			},
+		});
+
+		setProperties((prev) => {
+			return {
+				...prev,
+				details: {
+					...prev.details,
+					...changes,
+				},
+			};
+		});
+	};
+
+	const barCount = (label: string, min: number) => ({
+		key: "barCount",
+		component: (
+			<NumberField
+				label={label}
+				value={getBarCount(properties)}
+				min={min}
+				max={256}
+				onChange={(v) => handleChange({ barCount: v })}
+			/>
+		),
+	});
+
+	const smoothing = {
+		key: "smoothing",
+		component: (
+			<Smoothing
+				value={details.smoothing ?? 0}
+				onChange={(v) => handleChange({ smoothing: v })}
+			/>
+		),
+	};
+
+	const components = {
+		linealAudioBars: [
+			{
+				key: "color",
+				component: (
+					<ColorField
+						label="Color"
+						value={details.linealBarColor || "#ffffff"}
+						onChange={(v) => handleChange({ linealBarColor: v })}
+					/>
+				),
+			},
+			barCount("Bars", 1),
+			{
+				key: "thickness",
+				component: (
+					<NumberField
+						label="Thickness"
+						value={details.lineThickness ?? 5}
+						min={1}
+						max={100}
+						onChange={(v) => handleChange({ lineThickness: v })}
+					/>
+				),
+			},
+			{
+				key: "roundness",
+				component: (
+					<NumberField
+						label="Roundness"
+						value={details.roundness ?? 0}
+						min={0}
+						max={50}
+						onChange={(v) => handleChange({ roundness: v })}
+					/>
+				),
+			},
+			smoothing,
+		],
+		radialAudioBars: [
+			{
+				key: "color",
+				component: (
+					<ColorField
+						label="Color"
+						value={
+							details.radialBarColor || details.linealBarColor || "#ffffff"
+						}
+						onChange={(v) => handleChange({ radialBarColor: v })}
+					/>
+				),
+			},
+			barCount("Bars", 3),
+			{
+				key: "radius",
+				component: (
+					<NumberField
+						label="Radius"
+						value={
+							details.radius ??
+							Math.round(Math.min(details.width, details.height) / 4)
+						}
+						min={0}
+						max={Math.round(Math.min(details.width, details.height) / 2)}
+						onChange={(v) => handleChange({ radius: v })}
+					/>
+				),
+			},
+			smoothing,
+		],
+		waveAudioBars: [
+			{
+				key: "color",
+				component: (
+					<ColorsField
+						label="Color"
+						value={details.lineColor}
+						fallback="#ffffff"
+						onChange={(v) => handleChange({ lineColor: v })}
+					/>
+				),
+			},
+			{
+				key: "lines",
+				component: (
+					<NumberField
+						label="Lines"
+						value={details.lines || toColors(details.lineColor, "").length}
+						min={1}
+						max={10}
+						onChange={(v) => handleChange({ lines: v })}
+					/>
+				),
+			},
+			barCount("Points", 2),
+			smoothing,
+		],
+		hillAudioBars: [
+			{
+				key: "fill",
+				component: (
+					<ColorsField
+						label="Fill"
+						value={details.fillColor}
+						fallback="#ffffff"
+						onChange={(v) => handleChange({ fillColor: v })}
+					/>
+				),
+			},
+			{
+				key: "stroke",
+				component: (
+					<ColorField
+						label="Outline"
+						value={details.strokeColor || "transparent"}
+						onChange={(v) => handleChange({ strokeColor: v })}
+					/>
+				),
+			},
+			{
+				key: "copies",
+				component: (
+					<NumberField
+						label="Copies"
+						value={details.copies || 1}
+						min={1}
+						max={10}
+						onChange={(v) => handleChange({ copies: v })}
+					/>
+				),
+			},
+			barCount("Points", 2),
+			smoothing,
+		],
+	}[properties.type as "linealAudioBars"];
+
+	return (
+		<div className="flex flex-1 flex-col">
+			<div className="text-text-primary flex h-12 flex-none items-center px-4 text-sm font-medium">
+				{TITLES[properties.type] || "Visualizer"}
+			</div>
+			<ScrollArea className="h-full">
+				<div className="flex flex-col gap-2 px-4 py-4">
+					{(components || []).map((comp) => (
+						<React.Fragment key={comp.key}>{comp.component}</React.Fragment>
+					))}
+				</div>
+			</ScrollArea>
+		</div>
+	);
+};
+
+export default BasicAudioBars;
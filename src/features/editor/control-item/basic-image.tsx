@@ -12,7 +12,12 @@ import { dispatch } from "@designcombo/events";
 import { EDIT_OBJECT } from "@designcombo/state";
 import Blur from "./common/blur";
 import Brightness from "./common/brightness";
+import Transform from "./common/transform";
+import Keyframes from "./common/keyframes";
+import Presets from "./presets";
+import Smart from "./smart";
 import useLayoutStore from "../store/use-layout-store";
+import { useKeyframes } from "../hooks/use-keyframes";
 import { Label } from "@/components/ui/label";
 
 const BasicImage = ({
@@ -25,6 +30,7 @@ const BasicImage = ({
 	const showAll = !type;
 	const [properties, setProperties] = useState(trackItem);
 	const { setCropTarget } = useLayoutStore();
+	const keyframes = useKeyframes(trackItem);
 	useEffect(() => {
 		setProperties(trackItem);
 	}, [trackItem]);
@@ -72,65 +78,14 @@ const BasicImage = ({
 	};
 
 	const handleChangeOpacity = (v: number) => {
-		dispatch(EDIT_OBJECT, {
-			payload: {
-				[trackItem.id]: {
-					details: {
-						opacity: v,
-					},
-				},
-			},
-		});
-		setProperties((prev) => {
-			return {
-				...prev,
-				details: {
-					...prev.details,
-					opacity: v,
-				},
-			};
-		});
+		keyframes.setValues({ opacity: v });
 	};
 
 	const onChangeBlur = (v: number) => {
-		dispatch(EDIT_OBJECT, {
-			payload: {
-				[trackItem.id]: {
-					details: {
-						blur: v,
-					},
-				},
-			},
-		});
-		setProperties((prev) => {
-			return {
-				...prev,
-				details: {
-					...prev.details,
-					blur: v,
-				},
-			};
-		});
+		keyframes.setValues({ blur: v });
 	};
 	const onChangeBrightness = (v: number) => {
-		dispatch(EDIT_OBJECT, {
-			payload: {
-				[trackItem.id]: {
-					details: {
-						brightness: v,
-					},
-				},
-			},
-		});
-		setProperties((prev) => {
-			return {
-				...prev,
-				details: {
-					...prev.details,
-					brightness: v,
-				},
-			};
-		});
+		keyframes.setValues({ brightness: v });
 	};
 
 	const onChangeBorderRadius = (v: number) => {
@@ -206,21 +161,55 @@ const BasicImage = ({
 					/>
 					<Opacity
 						onChange={(v: number) => handleChangeOpacity(v)}
-						value={properties.details.opacity ?? 100}
+						value={keyframes.getValue("opacity")}
+						keyframe={keyframes.getToggle("opacity")}
 					/>
 
 					<Blur
 						onChange={(v: number) => onChangeBlur(v)}
-						value={properties.details.blur ?? 0}
+						value={keyframes.getValue("blur")}
+						keyframe={keyframes.getToggle("blur")}
 					/>
 					<Brightness
 						onChange={(v: number) => onChangeBrightness(v)}
-						value={properties.details.brightness ?? 100}
+						value={keyframes.getValue("brightness")}
+						keyframe={keyframes.getToggle("brightness")}
 					/>
 				</div>
 			),
 		},
 
+		{
+			key: "transform",
+			component: (
+				<Transform
+					values={{
+						x: keyframes.getValue("x"),
+						y: keyframes.getValue("y"),
+						scale: keyframes.getValue("scale"),
+						rotation: keyframes.getValue("rotation"),
+					}}
+					onChange={keyframes.setValues}
+					keyframes={{
+						position: keyframes.getToggle(["x", "y"]),
+						scale: keyframes.getToggle("scale"),
+						rotation: keyframes.getToggle("rotation"),
+					}}
+				/>
+			),
+		},
+		{
+			key: "keyframes",
+			component: <Keyframes trackItem={trackItem} />,
+		},
+		{
+			key: "animations",
+			component: <Presets trackItem={trackItem} />,
+		},
+		{
+			key: "smart",
+			component: <Smart trackItem={trackItem} />,
+		},
 		{
 			key: "outline",
 			component: (
@@ -0,0 +1,243 @@
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { ITrackItem } from "@designcombo/types";
+import { ChevronDown } from "lucide-react";
+import React, { useEffect, useState } from "react";
+import useDataState from "../store/use-data-state";
+import useLayoutStore from "../store/use-layout-store";
+import {
+	SubtitleStyle,
+	getSubtitleStyle,
+	updateSubtitleStyle,
+} from "../utils/subtitles";
+import Outline from "./common/outline";
+import ColorField from "./common/color-field";
+import NumberField from "./common/number-field";
+
+const BasicSubtitle = ({ trackItem }: { trackItem: ITrackItem }) => {
+	const [style, setStyle] = useState<SubtitleStyle>(
+		getSubtitleStyle(trackItem),
+	);
+	const { fonts } = useDataState();
+	const { setFloatingControl } = useLayoutStore();
+
+	useEffect(() => {
+		setStyle(getSubtitleStyle(trackItem));
+	}, [trackItem]);
+
+	const handleChange = (change: Partial<SubtitleStyle>) => {
+		setStyle((prev) => ({ ...prev, ...change }));
+		updateSubtitleStyle(trackItem, change);
+	};
+
+	const fontFamilyDisplay =
+		fonts.find((font) => font.postScriptName === style.fontFamily)?.family ||
+		style.fontFamily;
+	const hasBox = style.backgroundColor !== "transparent";
+
+	const components = [
+		{
+			key: "captions",
+			component: (
+				<div className="flex flex-col gap-2 py-4">
+					<Label className="font-sans text-xs font-semibold">Captions</Label>
+					<div className="flex gap-2">
+						<div className="flex flex-1 items-center text-sm text-muted-foreground">
+							Lines
+						</div>
+						<ToggleGroup
+							type="single"
+							size="sm"
+							variant="outline"
+							className="w-32"
+							value={style.lineMode}
+							onValueChange={(value) => {
+								if (value) {
+									handleChange({
+										lineMode: value as SubtitleStyle["lineMode"],
+									});
+								}
+							}}
+						>
+							<ToggleGroupItem value="edu">Sentence</ToggleGroupItem>
+							<ToggleGroupItem value="length">Length</ToggleGroupItem>
+						</ToggleGroup>
+					</div>
+					{style.lineMode === "length" && (
+						<>
+							<NumberField
+								label="Max characters"
+								value={style.maxCharsPerLine}
+								min={5}
+								max={200}
+								onChange={(v) => handleChange({ maxCharsPerLine: v })}
+							/>
+							<NumberField
+								label="Max seconds"
+								value={style.maxLineDurationMs / 1000}
+								min={1}
+								max={30}
+								onChange={(v) =>
+									handleChange({ maxLineDurationMs: Math.round(v * 1000) })
+								}
+							/>
+						</>
+					)}
+					<div className="flex gap-2">
+						<div className="flex flex-1 items-center text-sm text-muted-foreground">
+							Position
+						</div>
+						<ToggleGroup
+							type="single"
+							size="sm"
+							variant="outline"
+							className="w-32"
+							value={style.position}
+							onValueChange={(value) => {
+								if (value) {
+									handleChange({
+										position: value as SubtitleStyle["position"],
+									});
+								}
+							}}
+						>
+							<ToggleGroupItem value="top">Top</ToggleGroupItem>
+							<ToggleGroupItem value="middle">Mid</ToggleGroupItem>
+							<ToggleGroupItem value="bottom">Low</ToggleGroupItem>
+						</ToggleGroup>
+					</div>
+				</div>
+			),
+		},
+		{
+			key: "font",
+			component: (
+				<div className="flex flex-col gap-2 py-4">
+					<Label className="font-sans text-xs font-semibold">Font</Label>
+					<div className="flex gap-2">
+						<div className="flex flex-1 items-center text-sm text-muted-foreground">
+							Font
+						</div>
+						<Button
+							className="flex h-8 w-32 items-center justify-between text-sm"
+							variant="secondary"
+							onClick={() => setFloatingControl("font-family-picker")}
+						>
+							<div className="w-full overflow-hidden text-left">
+								<p className="truncate">{fontFamilyDisplay}</p>
+							</div>
+							<ChevronDown className="text-muted-foreground" size={14} />
+						</Button>
+					</div>
+					<NumberField
+						label="Size"
+						value={style.fontSize || 0}
+						min={0}
+						max={400}
+						onChange={(v) => handleChange({ fontSize: v || undefined })}
+					/>
+					<ColorField
+						label="Color"
+						value={style.color}
+						onChange={(v) => handleChange({ color: v })}
+					/>
+				</div>
+			),
+		},
+		{
+			key: "outline",
+			component: (
+				<Outline
+					label="Outline"
+					onChageBorderWidth={(v: number) => handleChange({ borderWidth: v })}
+					onChangeBorderColor={(v: string) => handleChange({ borderColor: v })}
+					valueBorderWidth={style.borderWidth}
+					valueBorderColor={style.borderColor}
+				/>
+			),
+		},
+		{
+			key: "box",
+			component: (
+				<div className="flex flex-col gap-2 py-4">
+					<Label className="font-sans text-xs font-semibold">
+						<input
+							type="checkbox"
+							checked={hasBox}
+							onChange={(e) =>
+								handleChange({
+									backgroundColor: e.target.checked
+										? "rgba(0, 0, 0, 0.6)"
+										: "transparent",
+								})
+							}
+						/>
+						Background box
+					</Label>
+					{hasBox && (
+						<ColorField
+							label="Color"
+							value={style.backgroundColor}
+							onChange={(v) => handleChange({ backgroundColor: v })}
+						/>
+					)}
+				</div>
+			),
+		},
+		{
+			key: "karaoke",
+			component: (
+				<div className="flex flex-col gap-2 py-4">
+					<Label className="font-sans text-xs font-semibold">
+						<input
+							type="checkbox"
+							checked={style.karaoke}
+							onChange={(e) => handleChange({ karaoke: e.target.checked })}
+						/>
+						Karaoke highlight
+					</Label>
+					{style.karaoke && (
+						<ColorField
+							label="Highlight"
+							value={style.highlightColor}
+							onChange={(v) => handleChange({ highlightColor: v })}
+						/>
+					)}
+				</div>
+			),
+		},
+		{
+			key: "speakers",
+			component: (
+				<div className="flex flex-col gap-2 py-4">
+					<Label className="font-sans text-xs font-semibold">
+						<input
+							type="checkbox"
+							checked={style.colorBySpeaker}
+							onChange={(e) =>
+								handleChange({ colorBySpeaker: e.target.checked })
+							}
+						/>
+						Color by speaker
+					</Label>
+				</div>
+			),
+		},
+	];
+
+	return (
+		<div className="flex lg:h-[calc(100vh-58px)] flex-1 flex-col overflow-hidden min-h-[340px]">
+			<ScrollArea className="h-full">
+				<div className="flex flex-col gap-2 px-4 py-4">
+					{components.map((comp) => (
+						<React.Fragment key={comp.key}>{comp.component}</React.Fragment>
+					))}
+				</div>
+			</ScrollArea>
+		</div>
+	);
+};
+
+export default BasicSubtitle;
@@ -11,6 +11,11 @@ import { TextControls } from "./common/text";
 import { ICompactFont, IFont } from "../interfaces/editor";
 import { DEFAULT_FONT } from "../constants/font";
 import { PresetText } from "./common/preset-text";
+import Transform from "./common/transform";
+import Keyframes from "./common/keyframes";
+import Presets from "./presets";
+import Smart from "./smart";
+import { useKeyframes } from "../hooks/use-keyframes";
 
 interface ITextControlProps {
 	color: string;
@@ -45,6 +50,7 @@ const BasicText = ({
 	type?: string;
 }) => {
 	const showAll = !type;
+	const keyframes = useKeyframes(trackItem);
 	const [properties, setProperties] = useState<ITextControlProps>({
 		color: "#000000",
 		colorDisplay: "#000000",
@@ -358,6 +364,37 @@ const BasicText = ({
 			),
 		},
 
+		{
+			key: "transform",
+			component: (
+				<Transform
+					values={{
+						x: keyframes.getValue("x"),
+						y: keyframes.getValue("y"),
+						scale: keyframes.getValue("scale"),
+						rotation: keyframes.getValue("rotation"),
+					}}
+					onChange={keyframes.setValues}
+					keyframes={{
+						position: keyframes.getToggle(["x", "y"]),
+						scale: keyframes.getToggle("scale"),
+						rotation: keyframes.getToggle("rotation"),
+					}}
+				/>
+			),
+		},
+		{
+			key: "keyframes",
+			component: <Keyframes trackItem={trackItem} />,
+		},
+		{
+			key: "animations",
+			component: <Presets trackItem={trackItem} />,
+		},
+		{
+			key: "smart",
+			component: <Smart trackItem={trackItem} />,
+		},
 		{
 			key: "fontStroke",
 			component: (
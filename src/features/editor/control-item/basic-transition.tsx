@@ -0,0 +1,127 @@
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { ITransition } from "@designcombo/types";
+import { useEffect, useState } from "react";
+import {
+	DIRECTION_LABELS,
+	MAX_TRANSITION_DURATION,
+	MIN_TRANSITION_DURATION,
+	TRANSITIONS,
+	TransitionDirection,
+	TransitionKind,
+} from "../constants/transitions";
+import { useTransitions } from "../hooks/use-transitions";
+
+const Row = ({
+	label,
+	children,
+}: {
+	label: string;
+	children: React.ReactNode;
+}) => (
+	<div className="flex gap-2">
+		<div className="flex flex-1 items-center text-sm text-muted-foreground">
+			{label}
+		</div>
+		<div className="w-32">{children}</div>
+	</div>
+);
+
+const BasicTransition = ({ transition }: { transition: ITransition }) => {
+	const { updateTransition } = useTransitions();
+	const [duration, setDuration] = useState(transition.duration);
+
+	useEffect(() => {
+		setDuration(transition.duration);
+	}, [transition.duration]);
+
+	const kind = transition.kind as TransitionKind;
+	const directions = kind === "none" ? [] : TRANSITIONS[kind]?.directions || [];
+
+	const handleKindChange = (value: string) => {
+		const next = value as TransitionKind;
+		const nextDirections =
+			next === "none" ? [] : TRANSITIONS[next]?.directions || [];
+		updateTransition(transition.id, {
+			kind: next,
+			// Keep the direction when the new kind has it
+			direction: nextDirections.includes(transition.direction)
+				? transition.direction
+				: nextDirections[0],
+		});
+	};
+
+	return (
+		<div className="flex flex-1 flex-col">
+			<div className="text-text-primary flex h-12 flex-none items-center px-4 text-sm font-medium">
+				Transition
+			</div>
+			<ScrollArea className="h-full">
+				<div className="flex flex-col gap-2 px-4 py-4">
+					<Row label="Type">
+						<Select value={kind} onValueChange={handleKindChange}>
+							<SelectTrigger className="w-32" size="sm">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value="none">None</SelectItem>
+								{Object.entries(TRANSITIONS).map(([value, info]) => (
+									<SelectItem key={value} value={value}>
+										{info.label}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</Row>
+
+					{directions.length > 0 && (
+						<Row label="Direction">
+							<Select
+								value={transition.direction || directions[0]}
+								onValueChange={(value) =>
+									updateTransition(transition.id, { direction: value })
+								}
+							>
+								<SelectTrigger className="w-32" size="sm">
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									{directions.map((direction: TransitionDirection) => (
+										<SelectItem key={direction} value={direction}>
+											{DIRECTION_LABELS[direction]}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</Row>
+					)}
+
+					{kind !== "none" && (
+						<Row label={`Duration (${(duration / 1000).toFixed(1)}s)`}>
+							<Slider
+								value={[duration]}
+								onValueChange={([value]) => setDuration(value)}
+								onValueCommit={([value]) =>
+									updateTransition(transition.id, { duration: value })
+								}
+								min={MIN_TRANSITION_DURATION}
+								max={MAX_TRANSITION_DURATION}
+								step={100}
+								aria-label="Transition duration"
+							/>
+						</Row>
+					)}
+				</div>
+			</ScrollArea>
+		</div>
+	);
+};
+
+export default BasicTransition;
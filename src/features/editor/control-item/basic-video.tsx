@@ -12,7 +12,12 @@ import React, { useEffect, useState } from "react";
 import { dispatch } from "@designcombo/events";
 import { EDIT_OBJECT } from "@designcombo/state";
 import Speed from "./common/speed";
+import Transform from "./common/transform";
+import Keyframes from "./common/keyframes";
+import Presets from "./presets";
+import Smart from "./smart";
 import useLayoutStore from "../store/use-layout-store";
+import { useKeyframes } from "../hooks/use-keyframes";
 import { Label } from "@/components/ui/label";
 
 const BasicVideo = ({
@@ -25,6 +30,7 @@ const BasicVideo = ({
 	const showAll = !type;
 	const [properties, setProperties] = useState(trackItem);
 	const { setCropTarget } = useLayoutStore();
+	const keyframes = useKeyframes(trackItem);
 	const handleChangeVolume = (v: number) => {
 		dispatch(EDIT_OBJECT, {
 			payload: {
@@ -90,24 +96,7 @@ const BasicVideo = ({
 	};
 
 	const handleChangeOpacity = (v: number) => {
-		dispatch(EDIT_OBJECT, {
-			payload: {
-				[trackItem.id]: {
-					details: {
-						opacity: v,
-					},
-				},
-			},
-		});
-		setProperties((prev) => {
-			return {
-				...prev,
-				details: {
-					...prev.details,
-					opacity: v,
-				},
-			};
-		});
+		keyframes.setValues({ opacity: v });
 	};
 
 	const onChangeBorderRadius = (v: number) => {
@@ -204,7 +193,8 @@ const BasicVideo = ({
 					/>
 					<Opacity
 						onChange={(v: number) => handleChangeOpacity(v)}
-						value={properties.details.opacity ?? 100}
+						value={keyframes.getValue("opacity")}
+						keyframe={keyframes.getToggle("opacity")}
 					/>
 					<Speed
 						value={properties.playbackRate ?? 1}
@@ -218,6 +208,37 @@ const BasicVideo = ({
 			),
 		},
 
+		{
+			key: "transform",
+			component: (
+				<Transform
+					values={{
+						x: keyframes.getValue("x"),
+						y: keyframes.getValue("y"),
+						scale: keyframes.getValue("scale"),
+						rotation: keyframes.getValue("rotation"),
+					}}
+					onChange={keyframes.setValues}
+					keyframes={{
+						position: keyframes.getToggle(["x", "y"]),
+						scale: keyframes.getToggle("scale"),
+						rotation: keyframes.getToggle("rotation"),
+					}}
+				/>
+			),
+		},
+		{
+			key: "keyframes",
+			component: <Keyframes trackItem={trackItem} />,
+		},
+		{
+			key: "animations",
+			component: <Presets trackItem={trackItem} />,
+		},
+		{
+			key: "smart",
+			component: <Smart trackItem={trackItem} />,
+		},
 		{
 			key: "outline",
 			component: (
@@ -0,0 +1,128 @@
+import { cn } from "@/lib/utils";
+import { useEffect, useState } from "react";
+import {
+	ItemAnimations,
+	getAnimationStyle,
+	getAnimationValues,
+	revealText,
+} from "../../utils/animations";
+
+export const PREVIEW_FPS = 30;
+// Frames the sample rests between an entrance and an exit
+const REST_FRAMES = 12;
+const SAMPLE_TEXT = "Aa Bb";
+
+const getPreviewFrames = (animations: ItemAnimations) => {
+	const length = (slot: keyof ItemAnimations) =>
+		Math.max(
+			0,
+			...(animations[slot]?.composition || []).map(
+				(step) => step.durationInFrames,
+			),
+		);
+	// Loops play twice so their repeat shows
+	return Math.max(
+		length("in") + length("out") + REST_FRAMES,
+		length("loop") * 2,
+	);
+};
+
+/**
+ * A sample of the item that plays its animations in a loop while hovered
+ * Animations have to be made at PREVIEW_FPS
+ */
+const AnimationPreview = ({
+	animations,
+	playing,
+	text,
+}: {
+	animations: ItemAnimations;
+	playing: boolean;
+	text: boolean;
+}) => {
+	const [frame, setFrame] = useState<number | null>(null);
+	const durationInFrames = getPreviewFrames(animations);
+
+	useEffect(() => {
+		if (!playing) {
+			setFrame(null);
+			return;
+		}
+		const start = performance.now();
+		let request = 0;
+		const tick = (now: number) => {
+			setFrame(
+				Math.floor(((now - start) / 1000) * PREVIEW_FPS) % durationInFrames,
+			);
+			request = requestAnimationFrame(tick);
+		};
+		request = requestAnimationFrame(tick);
+		return () => cancelAnimationFrame(request);
+	}, [playing, durationInFrames]);
+
+	const values =
+		frame === null
+			? null
+			: getAnimationValues(animations, frame, durationInFrames, PREVIEW_FPS);
+
+	return (
+		<div className="relative h-12 w-full overflow-hidden rounded-sm bg-background/60">
+			<div
+				className="flex h-full w-full items-center justify-center"
+				// Slides cross the tile like they cross the canvas
+				style={
+					values ? getAnimationStyle(values, { width: 72, height: 48 }) : {}
+				}
+			>
+				{text ? (
+					<span className="text-sm font-semibold">
+						{values ? revealText(SAMPLE_TEXT, values) : SAMPLE_TEXT}
+					</span>
+				) : (
+					<div className="h-6 w-9 rounded-sm bg-primary/70" />
+				)}
+			</div>
+		</div>
+	);
+};
+
+/**
+ * A pickable animation, previewed while hovered
+ */
+const AnimationTile = ({
+	label,
+	animations,
+	selected,
+	text,
+	onClick,
+}: {
+	label: string;
+	animations: ItemAnimations;
+	selected: boolean;
+	text: boolean;
+	onClick: () => void;
+}) => {
+	const [hovered, setHovered] = useState(false);
+
+	return (
+		<button
+			type="button"
+			className={cn(
+				"flex flex-col gap-1 rounded-md border p-1 text-xs text-muted-foreground hover:text-foreground",
+				selected ? "border-primary text-foreground" : "border-transparent",
+			)}
+			onClick={onClick}
+			onMouseEnter={() => setHovered(true)}
+			onMouseLeave={() => setHovered(false)}
+		>
+			<AnimationPreview
+				animations={animations}
+				playing={hovered && Object.keys(animations).length > 0}
+				text={text}
+			/>
+			<span className="truncate">{label}</span>
+		</button>
+	);
+};
+
+export default AnimationTile;
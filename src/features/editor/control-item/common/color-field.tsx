@@ -0,0 +1,66 @@
+import { Input } from "@/components/ui/input";
+import {
+	Popover,
+	PopoverContent,
+	PopoverTrigger,
+} from "@/components/ui/popover";
+import ColorPicker from "@/components/color-picker";
+import { useEffect, useState } from "react";
+
+const ColorField = ({
+	label,
+	value,
+	onChange,
+}: {
+	label: string;
+	value: string;
+	onChange: (v: string) => void;
+}) => {
+	const [localValue, setLocalValue] = useState(value);
+
+	useEffect(() => {
+		setLocalValue(value);
+	}, [value]);
+
+	return (
+		<div className="flex gap-2">
+			<div className="flex flex-1 items-center text-sm text-muted-foreground">
+				{label}
+			</div>
+			<div className="relative w-32">
+				<Popover>
+					<PopoverTrigger asChild>
+						<div className="relative cursor-pointer">
+							<div
+								style={{ background: localValue }}
+								className="absolute left-0.5 top-0.5 h-7 w-7 flex-none rounded-md border border-border"
+							/>
+							<Input
+								className="pointer-events-none h-8 pl-10"
+								value={localValue}
+								onChange={() => {}}
+							/>
+						</div>
+					</PopoverTrigger>
+					<PopoverContent
+						side="bottom"
+						align="end"
+						className="z-[300] w-[280px] p-4"
+					>
+						<ColorPicker
+							value={localValue}
+							format="hex"
+							solid={true}
+							onChange={(v: string) => {
+								setLocalValue(v);
+								onChange(v);
+							}}
+						/>
+					</PopoverContent>
+				</Popover>
+			</div>
+		</div>
+	);
+};
+
+export default ColorField;
@@ -0,0 +1,36 @@
+import { cn } from "@/lib/utils";
+import { Diamond } from "lucide-react";
+import { KeyframeToggleState } from "../../hooks/use-keyframes";
+
+/**
+ * Adds a keyframe at the playhead, or removes the one there
+ * Filled on a keyframe, outlined in the primary color between keyframes
+ */
+const KeyframeToggle = ({
+	label,
+	keyframe,
+}: {
+	label: string;
+	keyframe: KeyframeToggleState;
+}) => {
+	return (
+		<button
+			type="button"
+			onClick={keyframe.onToggle}
+			aria-label={`${keyframe.active ? "Remove" : "Add"} ${label} keyframe`}
+			aria-pressed={keyframe.active}
+			className="flex h-4 w-4 flex-none items-center justify-center"
+		>
+			<Diamond
+				size={10}
+				className={cn(
+					"text-muted-foreground",
+					keyframe.animated && "text-primary",
+					keyframe.active && "fill-primary",
+				)}
+			/>
+		</button>
+	);
+};
+
+export default KeyframeToggle;
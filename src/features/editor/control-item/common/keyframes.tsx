@@ -0,0 +1,112 @@
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { dispatch } from "@designcombo/events";
+import { ITrackItem } from "@designcombo/types";
+import { Diamond, X } from "lucide-react";
+import {
+	EASING_LABELS,
+	KEYFRAME_PROPERTIES,
+	KeyframeEasing,
+	KeyframeProperty,
+} from "../../constants/keyframes";
+import { PLAYER_SEEK } from "../../constants/events";
+import {
+	getKeyframes,
+	removeKeyframe,
+	updateItemKeyframes,
+	updateKeyframe,
+} from "../../utils/keyframes";
+
+/**
+ * Keyframes of an item by property, with the curve out of each one
+ */
+const Keyframes = ({ trackItem }: { trackItem: ITrackItem }) => {
+	const keyframes = getKeyframes(trackItem.details);
+	const properties = (Object.keys(KEYFRAME_PROPERTIES) as KeyframeProperty[])
+		.map((property) => ({ property, list: keyframes[property] || [] }))
+		.filter(({ list }) => list.length > 0);
+
+	if (!properties.length) return null;
+
+	return (
+		<div className="flex flex-col gap-2">
+			<Label className="font-sans text-xs font-semibold">Keyframes</Label>
+			{properties.map(({ property, list }) => {
+				const { label, unit } = KEYFRAME_PROPERTIES[property];
+				return (
+					<div key={property} className="flex flex-col gap-1">
+						<div className="text-sm text-muted-foreground">{label}</div>
+						{list.map((keyframe, index) => (
+							<div key={keyframe.id} className="flex items-center gap-1">
+								<button
+									type="button"
+									className="flex w-14 flex-none items-center gap-1 text-xs hover:text-primary"
+									onClick={() =>
+										dispatch(PLAYER_SEEK, {
+											payload: { time: trackItem.display.from + keyframe.time },
+										})
+									}
+								>
+									<Diamond size={10} className="fill-primary text-primary" />
+									{(keyframe.time / 1000).toFixed(2)}s
+								</button>
+								<div className="flex-1 truncate text-xs text-muted-foreground">
+									{Math.round(keyframe.value)}
+									{unit}
+								</div>
+								{/* The curve runs to the next keyframe, the last one has none */}
+								{index < list.length - 1 && (
+									<Select
+										value={keyframe.easing}
+										onValueChange={(value) =>
+											updateItemKeyframes(
+												trackItem.id,
+												updateKeyframe(keyframes, property, keyframe.id, {
+													easing: value as KeyframeEasing,
+												}),
+											)
+										}
+									>
+										<SelectTrigger className="w-28" size="sm">
+											<SelectValue />
+										</SelectTrigger>
+										<SelectContent>
+											{Object.entries(EASING_LABELS).map(([value, easing]) => (
+												<SelectItem key={value} value={value}>
+													{easing}
+												</SelectItem>
+											))}
+										</SelectContent>
+									</Select>
+								)}
+								<Button
+									size="icon"
+									variant="ghost"
+									className="h-6 w-6 flex-none text-zinc-400"
+									aria-label={`Remove ${label.toLowerCase()} keyframe`}
+									onClick={() =>
+										updateItemKeyframes(
+											trackItem.id,
+											removeKeyframe(keyframes, property, keyframe.id),
+										)
+									}
+								>
+									<X size={14} />
+								</Button>
+							</div>
+						))}
+					</div>
+				);
+			})}
+		</div>
+	);
+};
+
+export default Keyframes;
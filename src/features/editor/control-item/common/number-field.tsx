@@ -0,0 +1,49 @@
+import { Input } from "@/components/ui/input";
+import { useEffect, useState } from "react";
+
+const NumberField = ({
+	label,
+	value,
+	min,
+	max,
+	onChange,
+}: {
+	label: string;
+	value: number;
+	min: number;
+	max: number;
+	onChange: (v: number) => void;
+}) => {
+	const [localValue, setLocalValue] = useState<string | number>(value);
+
+	useEffect(() => {
+		setLocalValue(value);
+	}, [value]);
+
+	return (
+		<div className="flex gap-2">
+			<div className="flex flex-1 items-center text-sm text-muted-foreground">
+				{label}
+			</div>
+			<div className="relative w-32">
+				<Input
+					type="number"
+					className="h-8"
+					min={min}
+					max={max}
+					value={localValue}
+					onChange={(e) => {
+						const newValue = e.target.value;
+						setLocalValue(newValue);
+						const numberValue = Number(newValue);
+						if (newValue !== "" && numberValue >= min && numberValue <= max) {
+							onChange(numberValue);
+						}
+					}}
+				/>
+			</div>
+		</div>
+	);
+};
+
+export default NumberField;
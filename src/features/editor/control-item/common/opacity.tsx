@@ -1,13 +1,17 @@
 import { Input } from "@/components/ui/input";
 import { Slider } from "@/components/ui/slider";
 import { useState, useEffect } from "react";
+import { KeyframeToggleState } from "../../hooks/use-keyframes";
+import KeyframeToggle from "./keyframe-toggle";
 
 const Opacity = ({
 	value,
 	onChange,
+	keyframe,
 }: {
 	value: number;
 	onChange: (v: number) => void;
+	keyframe?: KeyframeToggleState;
 }) => {
 	// Create local state to manage opacity
 	const [localValue, setLocalValue] = useState(value);
@@ -19,7 +23,8 @@ const Opacity = ({
 
 	return (
 		<div className="flex gap-2">
-			<div className="flex flex-1 items-center text-sm text-muted-foreground">
+			<div className="flex flex-1 items-center gap-1 text-sm text-muted-foreground">
+				{keyframe && <KeyframeToggle label="opacity" keyframe={keyframe} />}
 				Opacity
 			</div>
 			<div
@@ -2,45 +2,137 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Slider } from "@/components/ui/slider";
 import { RotateCw } from "lucide-react";
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { KeyframeToggleState } from "../../hooks/use-keyframes";
+import KeyframeToggle from "./keyframe-toggle";
 
-const Transform = () => {
-	const [_, setValue] = useState([10]);
+export interface TransformValues {
+	x: number;
+	y: number;
+	scale: number;
+	rotation: number;
+}
+
+// Input that commits its value on blur or enter
+const ValueInput = ({
+	value,
+	onChange,
+	suffix,
+}: {
+	value: number;
+	onChange: (v: number) => void;
+	suffix?: string;
+}) => {
+	const [localValue, setLocalValue] = useState<string | number>(
+		Math.round(value),
+	);
+
+	useEffect(() => {
+		setLocalValue(Math.round(value));
+	}, [value]);
+
+	const commit = () => {
+		if (localValue !== "" && !Number.isNaN(Number(localValue))) {
+			onChange(Number(localValue));
+		}
+	};
+
+	return (
+		<div className="relative">
+			<Input
+				className="h-8 px-2 text-sm"
+				value={localValue}
+				onChange={(e) => setLocalValue(e.target.value)}
+				onBlur={commit}
+				onKeyDown={(e) => {
+					if (e.key === "Enter") commit();
+				}}
+			/>
+			{suffix && (
+				<div className="absolute right-2.5 top-1/2 -translate-y-1/2 transform text-zinc-200">
+					{suffix}
+				</div>
+			)}
+		</div>
+	);
+};
+
+const ResetButton = ({ onClick }: { onClick: () => void }) => (
+	<div className="flex items-center">
+		<Button
+			size="icon"
+			variant="ghost"
+			className="h-6 w-6 text-zinc-400"
+			onClick={onClick}
+		>
+			<RotateCw size={14} />
+		</Button>
+	</div>
+);
+
+const Heading = ({
+	label,
+	keyframe,
+}: {
+	label: string;
+	keyframe?: KeyframeToggleState;
+}) => (
+	<div className="flex items-center gap-1 text-sm text-zinc-400">
+		{keyframe && (
+			<KeyframeToggle label={label.toLowerCase()} keyframe={keyframe} />
+		)}
+		{label}
+	</div>
+);
+
+const Transform = ({
+	values,
+	onChange,
+	keyframes,
+}: {
+	values: TransformValues;
+	onChange: (values: Partial<TransformValues>) => void;
+	keyframes?: {
+		position: KeyframeToggleState;
+		scale: KeyframeToggleState;
+		rotation: KeyframeToggleState;
+	};
+}) => {
+	const [scale, setScale] = useState(values.scale);
+
+	useEffect(() => {
+		setScale(values.scale);
+	}, [values.scale]);
 
 	return (
 		<div className="flex flex-col gap-2">
 			<div>Transform</div>
 			<div className="flex flex-col gap-2">
-				<div className="text-sm text-zinc-400">Scale</div>
+				<Heading label="Scale" keyframe={keyframes?.scale} />
 				<div
 					style={{
 						display: "grid",
-						gridTemplateColumns: "1fr 40px 24px",
+						gridTemplateColumns: "1fr 56px 24px",
 						gap: "4px",
 					}}
 				>
 					<Slider
-						id="opacity"
-						max={1}
-						step={0.1}
-						onValueChange={setValue}
-						aria-label="Temperature"
+						id="scale"
+						value={[scale]}
+						onValueChange={([v]) => setScale(v)}
+						onValueCommit={([v]) => onChange({ scale: v })}
+						min={10}
+						max={400}
+						step={1}
+						aria-label="Scale"
 					/>
-					<Input className="w-11 px-2 text-center text-sm" defaultValue={100} />
-					<div className="flex items-center">
-						<Button
-							size="icon"
-							variant="ghost"
-							className="h-6 w-6 text-zinc-400"
-						>
-							<RotateCw size={14} />
-						</Button>
-					</div>
+					<ValueInput value={scale} onChange={(v) => onChange({ scale: v })} />
+					<ResetButton onClick={() => onChange({ scale: 100 })} />
 				</div>
 			</div>
 
 			<div className="flex flex-col gap-2">
-				<div className="text-sm text-zinc-400">Position</div>
+				<Heading label="Position" keyframe={keyframes?.position} />
 				<div
 					style={{
 						display: "grid",
@@ -48,33 +140,22 @@ const Transform = () => {
 						gap: "4px",
 					}}
 				>
-					<div className="relative">
-						<Input className="px-2 text-sm" defaultValue={100} />
-						<div className="absolute right-2.5 top-1/2 -translate-y-1/2 transform text-zinc-200">
-							x
-						</div>
-					</div>
-					<div className="relative">
-						<Input className="px-2 text-sm" defaultValue={100} />
-						<div className="absolute right-2.5 top-1/2 -translate-y-1/2 transform text-zinc-200">
-							y
-						</div>
-					</div>
-
-					<div className="flex items-center">
-						<Button
-							size="icon"
-							variant="ghost"
-							className="h-6 w-6 text-zinc-400"
-						>
-							<RotateCw size={14} />
-						</Button>
-					</div>
+					<ValueInput
+						value={values.x}
+						onChange={(v) => onChange({ x: v })}
+						suffix="x"
+					/>
+					<ValueInput
+						value={values.y}
+						onChange={(v) => onChange({ y: v })}
+						suffix="y"
+					/>
+					<ResetButton onClick={() => onChange({ x: 0, y: 0 })} />
 				</div>
 			</div>
 
 			<div className="flex flex-col gap-2">
-				<div className="text-sm text-zinc-400">Rotate</div>
+				<Heading label="Rotate" keyframe={keyframes?.rotation} />
 				<div
 					style={{
 						display: "grid",
@@ -82,17 +163,13 @@ const Transform = () => {
 						gap: "4px",
 					}}
 				>
-					<Input className="px-2 text-sm" defaultValue={100} />
+					<ValueInput
+						value={values.rotation}
+						onChange={(v) => onChange({ rotation: v })}
+						suffix="°"
+					/>
 					<div />
-					<div className="flex items-center">
-						<Button
-							size="icon"
-							variant="ghost"
-							className="h-6 w-6 text-zinc-400"
-						>
-							<RotateCw size={14} />
-						</Button>
-					</div>
+					<ResetButton onClick={() => onChange({ rotation: 0 })} />
 				</div>
 			</div>
 		</div>
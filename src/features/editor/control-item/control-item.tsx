@@ -5,6 +5,7 @@ import {
 	IText,
 	ITrackItem,
 	ITrackItemAndDetails,
+	ITransition,
 	IVideo,
 } from "@designcombo/types";
 import { useEffect, useState } from "react";
@@ -12,6 +13,9 @@ import BasicText from "./basic-text";
 import BasicImage from "./basic-image";
 import BasicVideo from "./basic-video";
 import BasicAudio from "./basic-audio";
+import BasicSubtitle from "./basic-subtitle";
+import BasicTransition from "./basic-transition";
+import BasicAudioBars from "./basic-audio-bars";
 import useStore from "../store/use-store";
 import useLayoutStore from "../store/use-layout-store";
 import { LassoSelect } from "lucide-react";
@@ -19,6 +23,7 @@ import { LassoSelect } from "lucide-react";
 const Container = ({ children }: { children: React.ReactNode }) => {
 	const { activeIds, trackItemsMap, transitionsMap } = useStore();
 	const [trackItem, setTrackItem] = useState<ITrackItem | null>(null);
+	const [transition, setTransition] = useState<ITransition | null>(null);
 	const { setTrackItem: setLayoutTrackItem } = useLayoutStore();
 
 	useEffect(() => {
@@ -28,17 +33,24 @@ const Container = ({ children }: { children: React.ReactNode }) => {
 			if (trackItem) {
 				setTrackItem(trackItem);
 				setLayoutTrackItem(trackItem);
-			} else console.log(transitionsMap[id]);
+				setTransition(null);
+			} else {
+				setTrackItem(null);
+				setLayoutTrackItem(null);
+				setTransition(transitionsMap[id] || null);
+			}
 		} else {
 			setTrackItem(null);
 			setLayoutTrackItem(null);
+			setTransition(null);
 		}
-	}, [activeIds, trackItemsMap]);
+	}, [activeIds, trackItemsMap, transitionsMap]);
 
 	return (
 		<div className="flex w-[272px] flex-none border-l border-border/80 bg-muted hidden lg:block">
 			{React.cloneElement(children as React.ReactElement<any>, {
 				trackItem,
+				transition,
 			})}
 		</div>
 	);
@@ -46,9 +58,14 @@ const Container = ({ children }: { children: React.ReactNode }) => {
 
 const ActiveControlItem = ({
 	trackItem,
+	transition,
 }: {
 	trackItem?: ITrackItemAndDetails;
+	transition?: ITransition | null;
 }) => {
+	if (transition) {
+		return <BasicTransition transition={transition} />;
+	}
 	if (!trackItem) {
 		return (
 			<div className="pb-32 flex flex-1 flex-col items-center justify-center gap-4 text-muted-foreground h-[calc(100vh-58px)]">
@@ -65,6 +82,11 @@ const ActiveControlItem = ({
 					image: <BasicImage trackItem={trackItem as ITrackItem & IImage} />,
 					video: <BasicVideo trackItem={trackItem as ITrackItem & IVideo} />,
 					audio: <BasicAudio trackItem={trackItem as ITrackItem & IAudio} />,
+					subtitle: <BasicSubtitle trackItem={trackItem} />,
+					linealAudioBars: <BasicAudioBars trackItem={trackItem} />,
+					radialAudioBars: <BasicAudioBars trackItem={trackItem} />,
+					waveAudioBars: <BasicAudioBars trackItem={trackItem} />,
+					hillAudioBars: <BasicAudioBars trackItem={trackItem} />,
 				}[trackItem.type as "text"]
 			}
 		</>
@@ -10,6 +10,7 @@ import { loadFonts } from "../../utils/fonts";
 import { dispatch } from "@designcombo/events";
 import { EDIT_OBJECT } from "@designcombo/state";
 import { ITrackItem } from "@designcombo/types";
+import { updateSubtitleStyle } from "../../utils/subtitles";
 
 export const onChangeFontFamily = async (
 	font: ICompactFont,
@@ -25,6 +26,11 @@ export const onChangeFontFamily = async (
 		},
 	]);
 
+	if ((trackItem.type as string) === "subtitle") {
+		updateSubtitleStyle(trackItem, { fontFamily: fontName, fontUrl });
+		return;
+	}
+
 	dispatch(EDIT_OBJECT, {
 		payload: {
 			[trackItem?.id as string]: {
@@ -1,9 +1,173 @@
-const Presets = () => {
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ITrackItem } from "@designcombo/types";
+import { useEffect, useState } from "react";
+import {
+	ANIMATION_EASING_LABELS,
+	ANIMATION_PRESETS,
+	ANIMATION_SLOT_LABELS,
+	AnimationEasing,
+	AnimationPresetId,
+	AnimationSlot,
+	MAX_ANIMATION_DURATION,
+	MIN_ANIMATION_DURATION,
+} from "../constants/animations";
+import useStore from "../store/use-store";
+import {
+	ItemAnimation,
+	createAnimation,
+	getAnimationOptions,
+	getItemAnimations,
+	getSlotPresets,
+	setItemAnimations,
+} from "../utils/animations";
+import AnimationTile, { PREVIEW_FPS } from "./common/animation-tile";
+
+const AnimationSettings = ({
+	trackItem,
+	slot,
+	animation,
+}: {
+	trackItem: ITrackItem;
+	slot: AnimationSlot;
+	animation: ItemAnimation;
+}) => {
+	const { fps } = useStore();
+	const options = getAnimationOptions(animation, fps);
+	const [duration, setDuration] = useState(options.duration);
+
+	useEffect(() => {
+		setDuration(options.duration);
+	}, [options.duration]);
+
+	const update = (changes: { duration?: number; easing?: AnimationEasing }) =>
+		setItemAnimations(trackItem.id, {
+			[slot]: createAnimation(animation.name as AnimationPresetId, slot, fps, {
+				...options,
+				...changes,
+			}),
+		});
+
+	return (
+		<div className="flex flex-col gap-2">
+			<div className="flex gap-2">
+				<div className="flex flex-1 items-center text-sm text-muted-foreground">
+					{slot === "loop" ? "Cycle" : "Duration"} (
+					{(duration / 1000).toFixed(1)}s)
+				</div>
+				<div className="w-32">
+					<Slider
+						value={[duration]}
+						onValueChange={([value]) => setDuration(value)}
+						onValueCommit={([value]) => update({ duration: value })}
+						min={MIN_ANIMATION_DURATION}
+						max={MAX_ANIMATION_DURATION}
+						step={100}
+						aria-label="Animation duration"
+					/>
+				</div>
+			</div>
+			{/* Loops run on a fixed curve */}
+			{slot !== "loop" && (
+				<div className="flex gap-2">
+					<div className="flex flex-1 items-center text-sm text-muted-foreground">
+						Easing
+					</div>
+					<Select
+						value={options.easing}
+						onValueChange={(value) =>
+							update({ easing: value as AnimationEasing })
+						}
+					>
+						<SelectTrigger className="w-32" size="sm">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							{Object.entries(ANIMATION_EASING_LABELS).map(([value, label]) => (
+								<SelectItem key={value} value={value}>
+									{label}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+				</div>
+			)}
+		</div>
+	);
+};
+
+/**
+ * Entrance, exit and loop animations of an item, picked from the presets
+ * Hovering a preset plays it on a sample
+ */
+const Presets = ({ trackItem }: { trackItem: ITrackItem }) => {
+	const { fps } = useStore();
+	const [slot, setSlot] = useState<AnimationSlot>("in");
+	const animations = getItemAnimations(trackItem);
+	const current = animations[slot];
+	const text = trackItem.type === "text";
+
 	return (
-		<div className="flex flex-1 flex-col">
-			<div className="text-md text-text-primary flex h-12 flex-none items-center px-4 font-medium">
-				Presets
+		<div className="flex flex-col gap-2">
+			<Label className="font-sans text-xs font-semibold">Animations</Label>
+			<Tabs
+				value={slot}
+				onValueChange={(value) => setSlot(value as AnimationSlot)}
+			>
+				<TabsList className="w-full">
+					{(Object.keys(ANIMATION_SLOT_LABELS) as AnimationSlot[]).map(
+						(name) => (
+							<TabsTrigger key={name} value={name}>
+								{ANIMATION_SLOT_LABELS[name]}
+								{animations[name] && (
+									<span className="h-1.5 w-1.5 rounded-full bg-primary" />
+								)}
+							</TabsTrigger>
+						),
+					)}
+				</TabsList>
+			</Tabs>
+			<div className="grid grid-cols-3 gap-1">
+				<AnimationTile
+					label="None"
+					animations={{}}
+					selected={!current}
+					text={text}
+					onClick={() => setItemAnimations(trackItem.id, { [slot]: null })}
+				/>
+				{getSlotPresets(slot, text).map((preset) => (
+					<AnimationTile
+						key={preset}
+						label={ANIMATION_PRESETS[preset].label}
+						animations={{
+							[slot]: createAnimation(preset, slot, PREVIEW_FPS),
+						}}
+						selected={current?.name === preset}
+						text={text}
+						onClick={() =>
+							setItemAnimations(trackItem.id, {
+								[slot]: createAnimation(preset, slot, fps),
+							})
+						}
+					/>
+				))}
 			</div>
+			{current && (
+				<AnimationSettings
+					key={`${slot}-${current.name}`}
+					trackItem={trackItem}
+					slot={slot}
+					animation={current}
+				/>
+			)}
 		</div>
 	);
 };
@@ -1,8 +1,55 @@
-const Smart = () => {
+import { Label } from "@/components/ui/label";
+import { ITrackItem } from "@designcombo/types";
+import { ANIMATION_COMBOS, AnimationSlot } from "../constants/animations";
+import useStore from "../store/use-store";
+import {
+	createComboAnimations,
+	getItemAnimations,
+	setItemAnimations,
+} from "../utils/animations";
+import AnimationTile, { PREVIEW_FPS } from "./common/animation-tile";
+
+const SLOTS: AnimationSlot[] = ["in", "out", "loop"];
+
+/**
+ * Combos of animations suited to the item, fitted to its length in one click
+ */
+const Smart = ({ trackItem }: { trackItem: ITrackItem }) => {
+	const { fps } = useStore();
+	const animations = getItemAnimations(trackItem);
+	const text = trackItem.type === "text";
+	const combos = ANIMATION_COMBOS.filter((combo) => text || !combo.textOnly);
+
 	return (
-		<div className="flex flex-1 flex-col">
-			<div className="text-md text-text-primary flex h-12 flex-none items-center px-4 font-medium">
-				Ai things
+		<div className="flex flex-col gap-2">
+			<Label className="font-sans text-xs font-semibold">
+				Smart animations
+			</Label>
+			<div className="grid grid-cols-3 gap-1">
+				{combos.map((combo) => (
+					<AnimationTile
+						key={combo.label}
+						label={combo.label}
+						animations={createComboAnimations(combo, PREVIEW_FPS)}
+						selected={SLOTS.every(
+							(slot) => animations[slot]?.name === combo.presets[slot],
+						)}
+						text={text}
+						onClick={() => {
+							const next = createComboAnimations(
+								combo,
+								fps,
+								trackItem.display.to - trackItem.display.from,
+							);
+							// Slots the combo leaves out are cleared
+							setItemAnimations(trackItem.id, {
+								in: next.in ?? null,
+								out: next.out ?? null,
+								loop: next.loop ?? null,
+							});
+						}}
+					/>
+				))}
 			</div>
 		</div>
 	);
@@ -243,3 +243,19 @@ export const OptionsCountrys = [
 		image: ImageCountry.VI,
 	},
 ];
+
+// Filler words and phrases removed by the transcript auto clean pass, keyed by
+// language code. Matching is case-insensitive and ignores punctuation.
+export const FillerWords: Record<string, string[]> = {
+	en: ["um", "umm", "uh", "uhh", "er", "erm", "ah", "hmm", "like", "you know"],
+	es: ["eh", "em", "este", "pues", "o sea", "bueno"],
+	fr: ["euh", "heu", "ben", "bah", "genre", "tu vois"],
+	de: ["äh", "ähm", "öh", "hm", "halt", "sozusagen"],
+	it: ["ehm", "eh", "cioè", "tipo", "allora"],
+	pt: ["é", "hum", "tipo", "né", "então"],
+	nl: ["eh", "ehm", "uh", "nou", "zeg maar"],
+	ru: ["э", "эм", "ну", "типа", "как бы", "короче"],
+	ja: ["えー", "えっと", "あの", "その", "まあ"],
+	ko: ["음", "어", "그", "저기", "뭐"],
+	zh: ["嗯", "呃", "啊", "额", "那个", "就是", "然后"],
+};
@@ -4,15 +4,19 @@ import { Button } from "@/components/ui/button";
 import { CircleCheckIcon, XIcon } from "lucide-react";
 import { DialogDescription, DialogTitle } from "@radix-ui/react-dialog";
 import { download } from "@/utils/download";
+import { EXPORT_FORMATS } from "./utils/export-settings";
 
 const DownloadProgressModal = () => {
-	const { progress, displayProgressModal, output, actions } =
+	const { progress, displayProgressModal, output, error, actions } =
 		useDownloadState();
-	const isCompleted = progress === 100;
+	const isCompleted = progress === 100 && !!output;
 
 	const handleDownload = async () => {
 		if (output?.url) {
-			await download(output.url, "untitled.mp4");
+			await download(
+				output.url,
+				`untitled.${EXPORT_FORMATS[output.type].extension}`,
+			);
 			console.log("downloading");
 		}
 	};
@@ -31,7 +35,12 @@ const DownloadProgressModal = () => {
 				<div className="flex h-16 items-center border-b px-4 font-medium">
 					Download
 				</div>
-				{isCompleted ? (
+				{error ? (
+					<div className="flex flex-1 flex-col items-center justify-center gap-2">
+						<div className="font-bold">Export failed</div>
+						<div className="text-muted-foreground">{error}</div>
+					</div>
+				) : isCompleted ? (
 					<div className="flex flex-1 flex-col items-center justify-center gap-2 space-y-4">
 						<div className="flex flex-col items-center space-y-1 text-center">
 							<div className="font-semibold">
@@ -39,7 +48,7 @@ const DownloadProgressModal = () => {
 							</div>
 							<div className="font-bold">Exported</div>
 							<div className="text-muted-foreground">
-								You can download the video to your device.
+								You can download the file to your device.
 							</div>
 						</div>
 						<Button onClick={handleDownload}>Download</Button>
@@ -54,7 +63,9 @@ const DownloadProgressModal = () => {
 							<div>Closing the browser will not cancel the export.</div>
 							<div>The video will be saved in your space.</div>
 						</div>
-						<Button variant={"outline"}>Cancel</Button>
+						<Button variant={"outline"} onClick={actions.cancelExport}>
+							Cancel
+						</Button>
 					</div>
 				)}
 			</DialogContent>
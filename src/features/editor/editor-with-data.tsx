@@ -1,10 +1,12 @@
 "use client";
 
+import { isTranscribableMedia } from "@/lib/transcription/client-utils";
 import { useEffect } from "react";
 import Editor from "./editor";
 import useProjectStore from "./store/use-project-store";
 import useStore from "./store/use-store";
 import useTranscriptStore from "./store/use-transcript-store";
+import useUploadStore from "./store/use-upload-store";
 
 interface EditorWithDataProps {
 	projectId: string;
@@ -57,8 +59,8 @@ export default function EditorWithData({
 				) {
 					// CRITICAL: Always load fullEDUs from server, never from localStorage
 					// Transcriptions are too large and should always be fresh from DB
-					if (serverData?.fullEDUs && serverData.fullEDUs.length > 0) {
-						transcriptStore.initEDUs(serverData.fullEDUs);
+					if (serverData?.transcripts?.length > 0) {
+						transcriptStore.setSources(serverData.transcripts);
 
 						// Also update the project data with fullEDUs
 						const currentProjectData = projectStore.projectData;
@@ -146,14 +148,20 @@ export default function EditorWithData({
 					},
 				});
 
-				// Update transcript store if we have EDUs
-				if (serverData.fullEDUs && serverData.fullEDUs.length > 0) {
-					transcriptStore.initEDUs(serverData.fullEDUs);
+				// Update transcript store if we have transcriptions
+				if (serverData.transcripts?.length > 0) {
+					transcriptStore.setSources(serverData.transcripts);
 				}
 			}
 		};
 
 		initializeStores();
+
+		// Pick up transcription jobs still running on the server
+		const transcribableUploadIds = (serverData?.uploads || [])
+			.filter((upload: any) => isTranscribableMedia(upload.contentType || ""))
+			.map((upload: any) => upload.id);
+		useUploadStore.getState().resumeTranscriptions(transcribableUploadIds);
 	}, [projectId, serverData]);
 
 	// Render Editor without props - it will read from Zustand
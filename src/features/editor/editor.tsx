@@ -6,7 +6,6 @@ import {
 } from "@/components/ui/resizable";
 import { useIsLargeScreen } from "@/hooks/use-media-query";
 import { useSceneStore } from "@/store/use-scene-store";
-import { ProjectMedia } from "@/utils/project";
 import { dispatch } from "@designcombo/events";
 import StateManager, {
 	DESIGN_LOAD,
@@ -41,6 +40,9 @@ import { TranscriptEditor } from "./transcript";
 import { FullEDU } from "./transcript/types";
 import { getCompactFontData, loadFonts } from "./utils/fonts";
 import { loadTimelineGranularly } from "./utils/granular-dispatch";
+import { getClipPlacement } from "./utils/highlight-project";
+import { getStoredEDUs } from "./utils/transcript-cuts";
+import { generateSubtitleTrackFromTranscript } from "./utils/transcript-to-timeline";
 
 const stateManager = new StateManager({
 	size: {
@@ -60,11 +62,13 @@ const Editor = ({ projectId }: EditorProps) => {
 		projectData,
 		updateProjectTimeline,
 		updateProjectFullEDUs,
+		updateProjectSettings,
 		clearInitialMedia,
+		forceTimelineSync,
 		setUserId,
 	} = useProjectStore();
 
-	const { fullEDUs, initEDUs } = useTranscriptStore();
+	const { fullEDUs, speakers, uploadId, view, initEDUs } = useTranscriptStore();
 
 	const [projectName, setProjectName] = useState<string>("");
 	const { scene } = useSceneStore();
@@ -89,6 +93,10 @@ const Editor = ({ projectId }: EditorProps) => {
 	const [loaded, setLoaded] = useState(false);
 	const [trackItem, setTrackItem] = useState<ITrackItem | null>(null);
 	const [timelineInitialized, setTimelineInitialized] = useState(false);
+	// Project whose clip transcript is in the transcript store
+	const clipTranscriptProjectRef = useRef<string | null>(null);
+	// Set while a captioned short is saved before its initial media is cleared
+	const savingCaptionsRef = useRef(false);
 	const {
 		setTrackItem: setLayoutTrackItem,
 		setFloatingControl,
@@ -153,7 +161,7 @@ const Editor = ({ projectId }: EditorProps) => {
 				projectData?.initialMedia?.url &&
 				!projectData?.initialMedia?.isPending
 			) {
-				const { type, url } = projectData.initialMedia;
+				const { type, url, clip, subtitles } = projectData.initialMedia;
 
 				// Add the media to timeline
 				setTimeout(async () => {
@@ -168,10 +176,12 @@ const Editor = ({ projectId }: EditorProps) => {
 									previewUrl:
 										"https://cdn.designcombo.dev/caption_previews/static_preset1.webp",
 								},
+								...(clip && getClipPlacement(clip)),
 							},
 							options: {
 								resourceId: "main",
-								scaleMode: "fit",
+								// Shorts are cropped to fill the vertical frame
+								scaleMode: clip ? "fill" : "fit",
 							},
 						});
 					} else if (type === "audio") {
@@ -190,7 +200,8 @@ const Editor = ({ projectId }: EditorProps) => {
 					}
 
 					// Clear initialMedia after successfully adding to timeline
-					await clearInitialMedia();
+					// A short keeps it until its subtitles are on the timeline too
+					if (!subtitles) await clearInitialMedia();
 				}, 500); // Small delay to ensure timeline is ready
 			} else {
 			}
@@ -213,7 +224,7 @@ const Editor = ({ projectId }: EditorProps) => {
 	useEffect(() => {
 		if (!projectData?.initialMedia || !timeline) return;
 
-		const { type, url, isPending } = projectData.initialMedia;
+		const { type, url, isPending, clip, subtitles } = projectData.initialMedia;
 
 		// Skip if media is pending upload
 		if (isPending || !url) {
@@ -252,10 +263,12 @@ const Editor = ({ projectId }: EditorProps) => {
 								previewUrl:
 									"https://cdn.designcombo.dev/caption_previews/static_preset1.webp",
 							},
+							...(clip && getClipPlacement(clip)),
 						},
 						options: {
 							resourceId: "main",
-							scaleMode: "fit",
+							// Shorts are cropped to fill the vertical frame
+							scaleMode: clip ? "fill" : "fit",
 						},
 					});
 				} else if (type === "audio") {
@@ -275,6 +288,8 @@ const Editor = ({ projectId }: EditorProps) => {
 				}
 
 				// Clear initialMedia after successfully adding to timeline
+				// A short keeps it until its subtitles are on the timeline too
+				if (subtitles) return;
 				console.log(
 					"🧹 DEBUG - Clearing initialMedia to prevent re-dispatch on refresh",
 				);
@@ -293,8 +308,81 @@ const Editor = ({ projectId }: EditorProps) => {
 		clearInitialMedia,
 	]);
 
+	// Caption a short once its media is on the timeline
+	// Its initial media is cleared once the captioned timeline is saved, so a
+	// reload in between still adds the subtitles
+	useEffect(() => {
+		const media = projectData?.initialMedia;
+		if (!media?.url || !media.subtitles) return;
+		const mediaAdded = Object.values(trackItemsMap).some(
+			(item) => item?.details?.src === media.url,
+		);
+		if (!mediaAdded) return;
+
+		const captioned = tracks.some((track) =>
+			track.accepts?.includes("subtitle"),
+		);
+		if (!captioned) {
+			const { track, items } = generateSubtitleTrackFromTranscript(
+				media.subtitles.fullEDUs,
+				tracks.length,
+				media.subtitles.speakers,
+			);
+			const result = loadTimelineGranularly({
+				tracks: [...tracks, track],
+				trackItems: {
+					...trackItemsMap,
+					...Object.fromEntries(items.map((item) => [item.id, item])),
+				},
+				transitions: transitionsMap,
+				compositions,
+			});
+			if (!result.valid) {
+				console.error("Failed to add short subtitles:", result.errors);
+			}
+			return;
+		}
+
+		if (savingCaptionsRef.current) return;
+		savingCaptionsRef.current = true;
+		// The short has no upload of its own, its transcript is kept with the
+		// project. One saved before a reload may already carry edits
+		if (!useProjectStore.getState().projectData?.settings?.clipTranscript) {
+			updateProjectSettings({ clipTranscript: media.subtitles });
+		}
+		forceTimelineSync()
+			.then(clearInitialMedia)
+			.finally(() => {
+				savingCaptionsRef.current = false;
+			});
+	}, [
+		projectData?.initialMedia,
+		trackItemsMap,
+		tracks,
+		transitionsMap,
+		compositions,
+		updateProjectSettings,
+		forceTimelineSync,
+		clearInitialMedia,
+	]);
+
+	// Load the transcript of a short
+	const clipTranscript = projectData?.settings?.clipTranscript;
+	useEffect(() => {
+		if (!clipTranscript || clipTranscriptProjectRef.current === projectId) {
+			return;
+		}
+		clipTranscriptProjectRef.current = projectId;
+		initEDUs(clipTranscript.fullEDUs, {
+			uploadId: null,
+			speakers: clipTranscript.speakers,
+		});
+	}, [projectId, clipTranscript, initEDUs]);
+
 	// Initialize transcripts from project data
+	// Projects loaded from the server already have their sources
 	useEffect(() => {
+		if (useTranscriptStore.getState().sources.length > 0) return;
 		if (projectData?.fullEDUs && projectData.fullEDUs.length > 0) {
 			initEDUs(projectData.fullEDUs);
 		}
@@ -335,16 +423,34 @@ const Editor = ({ projectId }: EditorProps) => {
 	]);
 
 	// Save transcripts (debounced) - Now saves full EDU structure
+	// Only a source view shows one upload's transcript in its own times
 	useEffect(() => {
-		if (projectId && fullEDUs.length > 0) {
-			const timeoutId = setTimeout(() => {
+		if (!projectId || fullEDUs.length === 0 || view !== "source") return;
+
+		const timeoutId = setTimeout(() => {
+			const edus = getStoredEDUs(fullEDUs);
+			if (uploadId) {
+				const language = useTranscriptStore
+					.getState()
+					.sources.find((source) => source.uploadId === uploadId)?.language;
 				// Save the full EDU structure to preserve grouping
-				updateProjectFullEDUs(fullEDUs);
-			}, 1000);
+				updateProjectFullEDUs(edus, uploadId, language);
+			} else if (clipTranscriptProjectRef.current === projectId) {
+				// A short's transcript is saved with the project
+				updateProjectSettings({ clipTranscript: { fullEDUs: edus, speakers } });
+			}
+		}, 1000);
 
-			return () => clearTimeout(timeoutId);
-		}
-	}, [projectId, fullEDUs, updateProjectFullEDUs]);
+		return () => clearTimeout(timeoutId);
+	}, [
+		projectId,
+		fullEDUs,
+		speakers,
+		uploadId,
+		view,
+		updateProjectFullEDUs,
+		updateProjectSettings,
+	]);
 
 	// Note: Legacy combo.sh and scene API support has been removed.
 	// All projects now use the unified projectId-based approach.
@@ -0,0 +1,366 @@
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+	DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { useIsMediumScreen } from "@/hooks/use-media-query";
+import type StateManager from "@designcombo/state";
+import { generateId } from "@designcombo/timeline";
+import type { IDesign } from "@designcombo/types";
+import { Download } from "lucide-react";
+import React, { useState } from "react";
+import useProjectStore from "./store/use-project-store";
+import useRangeStore from "./store/use-range-store";
+import useStore from "./store/use-store";
+import { useDownloadState } from "./store/use-download-state";
+import {
+	ExportRange,
+	ExportScope,
+	getItemsRange,
+	getMarkedRange,
+	selectDesignItems,
+} from "./utils/export-range";
+import {
+	AUDIO_BITRATES,
+	AudioBitrate,
+	DEFAULT_EXPORT_SETTINGS,
+	EXPORT_FORMATS,
+	EXPORT_PRESETS,
+	EXPORT_RESOLUTIONS,
+	ExportFormat,
+	ExportResolution,
+	ExportSettings,
+	VIDEO_CODECS,
+	VideoCodec,
+	applyExportPreset,
+	getExportSettingsIssues,
+	getExportSize,
+	getFpsOptions,
+	withFormat,
+} from "./utils/export-settings";
+import { timeToString } from "./utils/time";
+
+const SettingRow = ({
+	label,
+	children,
+}: {
+	label: string;
+	children: React.ReactNode;
+}) => (
+	<div className="flex items-center justify-between gap-4">
+		<Label>{label}</Label>
+		{children}
+	</div>
+);
+
+const ExportDialog = ({ stateManager }: { stateManager: StateManager }) => {
+	const isMediumScreen = useIsMediumScreen();
+	const { settings, actions } = useDownloadState();
+	const { size, duration, activeIds, trackItemsMap } = useStore();
+	const { inPoint, outPoint } = useRangeStore();
+	const [open, setOpen] = useState(false);
+	const [scope, setScope] = useState<ExportScope>("all");
+
+	const ranges: Record<ExportScope, ExportRange | null> = {
+		all: null,
+		range: getMarkedRange(inPoint, outPoint, duration),
+		selection: getItemsRange(
+			activeIds.map((id) => trackItemsMap[id]).filter(Boolean),
+		),
+	};
+	const range = ranges[scope];
+	const scopeUnavailable = scope !== "all" && !range;
+	const formatRange = (value: ExportRange | null) =>
+		value
+			? ` (${timeToString({ time: value.start })}–${timeToString({ time: value.end })})`
+			: "";
+
+	const format = EXPORT_FORMATS[settings.format];
+	const issues = getExportSettingsIssues({ ...settings, range }, duration);
+	const codecCrf =
+		format.codecs.length > 0 ? VIDEO_CODECS[settings.codec].crf : null;
+	const hasAudio =
+		format.kind === "audio"
+			? settings.format === "mp3"
+			: format.kind === "video" && settings.format !== "gif";
+
+	const update = (changes: Partial<ExportSettings>) =>
+		actions.setSettings({ ...settings, ...changes });
+
+	// Start from the settings last used for this project
+	const handleOpenChange = (next: boolean) => {
+		if (next) {
+			const saved =
+				useProjectStore.getState().projectData?.settings.exportSettings;
+			if (saved) {
+				actions.setSettings({ ...DEFAULT_EXPORT_SETTINGS, ...saved });
+			}
+			// Prefer the marked range, then the selection
+			setScope(ranges.range ? "range" : ranges.selection ? "selection" : "all");
+		}
+		setOpen(next);
+	};
+
+	const handleExport = () => {
+		const design: IDesign = {
+			id: generateId(),
+			...stateManager.getState(),
+		};
+		const data =
+			scope === "selection" ? selectDesignItems(design, activeIds) : design;
+
+		// The range comes from the timeline, so it isn't saved with the settings
+		useProjectStore.getState().updateProjectSettings({
+			exportSettings: { ...settings, range: null },
+		});
+		actions.setState({ payload: data, settings: { ...settings, range } });
+		actions.startExport();
+		setOpen(false);
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={handleOpenChange}>
+			<DialogTrigger asChild>
+				<Button
+					className="flex h-7 gap-1 border border-border"
+					size={isMediumScreen ? "sm" : "icon"}
+				>
+					<Download width={18} />{" "}
+					<span className="hidden md:block">Export</span>
+				</Button>
+			</DialogTrigger>
+			<DialogContent className="sm:max-w-[440px]">
+				<DialogHeader>
+					<DialogTitle>Export</DialogTitle>
+					<DialogDescription>
+						Choose a preset or adjust the output settings.
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="space-y-3">
+					<SettingRow label="Range">
+						<Select
+							value={scope}
+							onValueChange={(value) => setScope(value as ExportScope)}
+						>
+							<SelectTrigger className="w-48" size="sm">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value="all">Whole video</SelectItem>
+								<SelectItem value="range" disabled={!ranges.range}>
+									In to out{formatRange(ranges.range)}
+								</SelectItem>
+								<SelectItem value="selection" disabled={!ranges.selection}>
+									Selected items{formatRange(ranges.selection)}
+								</SelectItem>
+							</SelectContent>
+						</Select>
+					</SettingRow>
+
+					<SettingRow label="Preset">
+						<Select
+							onValueChange={(id) => {
+								const preset = EXPORT_PRESETS.find((entry) => entry.id === id);
+								if (preset)
+									actions.setSettings(applyExportPreset(settings, preset));
+							}}
+						>
+							<SelectTrigger className="w-48" size="sm">
+								<SelectValue placeholder="Custom" />
+							</SelectTrigger>
+							<SelectContent>
+								{EXPORT_PRESETS.map((preset) => (
+									<SelectItem key={preset.id} value={preset.id}>
+										{preset.label}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</SettingRow>
+
+					<SettingRow label="Format">
+						<Select
+							value={settings.format}
+							onValueChange={(value) =>
+								actions.setSettings(withFormat(settings, value as ExportFormat))
+							}
+						>
+							<SelectTrigger className="w-48" size="sm">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{Object.entries(EXPORT_FORMATS).map(([value, info]) => (
+									<SelectItem key={value} value={value}>
+										{info.label}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</SettingRow>
+
+					{format.codecs.length > 0 && (
+						<SettingRow label="Codec">
+							<Select
+								value={settings.codec}
+								onValueChange={(value) =>
+									update({ codec: value as VideoCodec, crf: null })
+								}
+							>
+								<SelectTrigger className="w-48" size="sm">
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									{format.codecs.map((codec) => (
+										<SelectItem key={codec} value={codec}>
+											{VIDEO_CODECS[codec].label}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</SettingRow>
+					)}
+
+					{(format.kind === "video" || format.kind === "image") && (
+						<SettingRow label="Resolution">
+							<Select
+								value={settings.resolution}
+								onValueChange={(value) =>
+									update({ resolution: value as ExportResolution })
+								}
+							>
+								<SelectTrigger className="w-48" size="sm">
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									{Object.keys(EXPORT_RESOLUTIONS).map((resolution) => {
+										const { width, height } = getExportSize(
+											size,
+											resolution as ExportResolution,
+										);
+										return (
+											<SelectItem key={resolution} value={resolution}>
+												{resolution} ({width}×{height})
+											</SelectItem>
+										);
+									})}
+								</SelectContent>
+							</Select>
+						</SettingRow>
+					)}
+
+					{(format.kind === "video" || settings.format === "png-sequence") && (
+						<SettingRow label="Frame rate">
+							<Select
+								value={String(settings.fps)}
+								onValueChange={(value) => update({ fps: Number(value) })}
+							>
+								<SelectTrigger className="w-48" size="sm">
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									{getFpsOptions(settings.format).map((fps) => (
+										<SelectItem key={fps} value={String(fps)}>
+											{fps} fps
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</SettingRow>
+					)}
+
+					{codecCrf && (
+						<SettingRow label={`Quality (CRF ${codecCrf[0]}–${codecCrf[1]})`}>
+							<Input
+								type="number"
+								className="h-8 w-48"
+								placeholder="Auto"
+								min={codecCrf[0]}
+								max={codecCrf[1]}
+								value={settings.crf ?? ""}
+								onChange={(e) =>
+									update({
+										crf: e.target.value === "" ? null : Number(e.target.value),
+									})
+								}
+							/>
+						</SettingRow>
+					)}
+
+					{hasAudio && (
+						<SettingRow label="Audio bitrate">
+							<Select
+								value={settings.audioBitrate}
+								onValueChange={(value) =>
+									update({ audioBitrate: value as AudioBitrate })
+								}
+							>
+								<SelectTrigger className="w-48" size="sm">
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									{AUDIO_BITRATES.map((bitrate) => (
+										<SelectItem key={bitrate} value={bitrate}>
+											{bitrate}bps
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</SettingRow>
+					)}
+
+					{settings.format === "png" && (
+						<SettingRow label="Frame at (seconds)">
+							<Input
+								type="number"
+								className="h-8 w-48"
+								min={(range?.start ?? 0) / 1000}
+								max={(range?.end ?? duration) / 1000}
+								step={0.1}
+								value={settings.stillTime / 1000}
+								onChange={(e) =>
+									update({
+										stillTime: Math.round(Number(e.target.value) * 1000),
+									})
+								}
+							/>
+						</SettingRow>
+					)}
+
+					{issues.length > 0 && (
+						<ul className="space-y-1 text-xs text-destructive">
+							{issues.map((issue) => (
+								<li key={issue}>{issue}</li>
+							))}
+						</ul>
+					)}
+				</div>
+
+				<DialogFooter>
+					<Button
+						onClick={handleExport}
+						disabled={issues.length > 0 || scopeUnavailable}
+					>
+						Export {format.label}
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+};
+
+export default ExportDialog;
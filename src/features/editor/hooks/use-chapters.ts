@@ -0,0 +1,106 @@
+import * as chapterActions from "@/app/(edit)/actions/chapters";
+import { Chapter } from "@/utils/project";
+import { generateId } from "@designcombo/timeline";
+import { useCallback, useMemo } from "react";
+import { toast } from "sonner";
+import useProjectStore from "../store/use-project-store";
+import useTranscriptStore from "../store/use-transcript-store";
+import { sortChapters } from "../utils/chapters";
+
+const EMPTY_CHAPTERS: Chapter[] = [];
+
+/**
+ * Chapters of the project, saved with its settings
+ */
+export const useChapters = () => {
+	const chapters =
+		useProjectStore((state) => state.projectData?.settings?.chapters) ||
+		EMPTY_CHAPTERS;
+	const updateProjectSettings = useProjectStore(
+		(state) => state.updateProjectSettings,
+	);
+
+	const sorted = useMemo(() => sortChapters(chapters), [chapters]);
+
+	const setChapters = useCallback(
+		(next: Chapter[]) => {
+			updateProjectSettings({ chapters: sortChapters(next) });
+		},
+		[updateProjectSettings],
+	);
+
+	const addChapter = useCallback(
+		(start: number, title = "New chapter") => {
+			setChapters([...sorted, { id: generateId(), title, start }]);
+		},
+		[sorted, setChapters],
+	);
+
+	const updateChapter = useCallback(
+		(id: string, changes: Partial<Omit<Chapter, "id">>) => {
+			setChapters(
+				sorted.map((chapter) =>
+					chapter.id === id ? { ...chapter, ...changes } : chapter,
+				),
+			);
+		},
+		[sorted, setChapters],
+	);
+
+	const removeChapter = useCallback(
+		(id: string) => {
+			setChapters(sorted.filter((chapter) => chapter.id !== id));
+		},
+		[sorted, setChapters],
+	);
+
+	/**
+	 * Replace the chapters with ones proposed for the displayed transcript
+	 * Source transcripts are mapped onto the timeline, chapters starting on
+	 * words no item plays are dropped
+	 */
+	const generateChapters = useCallback(async (): Promise<boolean> => {
+		const { fullEDUs, getEDUTimeRange } = useTranscriptStore.getState();
+		const result = await chapterActions.suggestChapters(
+			fullEDUs.map(({ words, ...edu }) => ({ ...edu, words: [] })),
+		);
+		if (!result.success || !result.chapters) {
+			toast.error("Failed to generate chapters", {
+				description: result.error,
+			});
+			return false;
+		}
+
+		const next: Chapter[] = [];
+		for (const proposal of result.chapters) {
+			const edu = fullEDUs.find(
+				(candidate) => candidate.edu_index === proposal.startEDU,
+			);
+			const range = edu && getEDUTimeRange(edu);
+			if (!range) continue;
+			next.push({
+				id: generateId(),
+				title: proposal.title,
+				start: range.startTime,
+			});
+		}
+		if (next.length === 0) {
+			toast.error("None of the chapters are on the timeline");
+			return false;
+		}
+
+		// The first chapter opens the video
+		const [first, ...rest] = sortChapters(next);
+		setChapters([{ ...first, start: 0 }, ...rest]);
+		return true;
+	}, [setChapters]);
+
+	return {
+		chapters: sorted,
+		setChapters,
+		addChapter,
+		updateChapter,
+		removeChapter,
+		generateChapters,
+	};
+};
@@ -0,0 +1,74 @@
+import * as projectActions from "@/app/(edit)/actions/projects";
+import { HighlightProposal } from "@/lib/llm/types";
+import { ProjectMedia } from "@/utils/project";
+import { useRouter } from "next/navigation";
+import { useCallback } from "react";
+import { toast } from "sonner";
+import useProjectStore from "../store/use-project-store";
+import useStore from "../store/use-store";
+import useTranscriptStore from "../store/use-transcript-store";
+import { SHORT_SIZE, getClipEDUs } from "../utils/highlight-project";
+import { getSourceItems } from "../utils/timeline-transcript";
+import { useUploadUrls } from "./use-upload-urls";
+
+/**
+ * Turn a highlight of the displayed transcript into a vertical short
+ * The new project is created on the server and opened in the editor
+ */
+export const useHighlightProject = () => {
+	const router = useRouter();
+	const uploadUrls = useUploadUrls();
+
+	const createShort = useCallback(
+		async (proposal: HighlightProposal): Promise<boolean> => {
+			const { userId, projectData } = useProjectStore.getState();
+			const { uploadId, fullEDUs, speakers } = useTranscriptStore.getState();
+			const urls = (uploadId && uploadUrls[uploadId]) || [];
+			if (!userId || !uploadId || urls.length === 0) {
+				toast.error("Source media not found");
+				return false;
+			}
+
+			// Prefer the url and type the timeline already plays
+			const [item] = getSourceItems(urls, useStore.getState().trackItemsMap);
+			const duration = proposal.end - proposal.start;
+			const initialMedia: ProjectMedia = {
+				url: item?.details?.src || urls[0],
+				type: item?.type === "audio" ? "audio" : "video",
+				uploadId,
+				duration,
+				clip: { from: proposal.start, to: proposal.end },
+				subtitles: { fullEDUs: getClipEDUs(fullEDUs, proposal), speakers },
+			};
+
+			const name = projectData?.name
+				? `${projectData.name} - ${proposal.title}`
+				: proposal.title;
+			const created = await projectActions.createProject(
+				userId,
+				initialMedia,
+				name,
+			);
+			if (!created.success || !created.projectId) {
+				toast.error("Failed to create short", { description: created.error });
+				return false;
+			}
+
+			const updated = await projectActions.updateProjectSettings(
+				created.projectId,
+				userId,
+				{ width: SHORT_SIZE.width, height: SHORT_SIZE.height, duration },
+			);
+			if (!updated.success) {
+				toast.error("Failed to create short", { description: updated.error });
+				return false;
+			}
+
+			router.push(`/${created.projectId}`);
+			return true;
+		},
+		[router, uploadUrls],
+	);
+
+	return { createShort };
+};
@@ -0,0 +1,75 @@
+import { ITrackItem } from "@designcombo/types";
+import { useCallback } from "react";
+import { KeyframeProperty } from "../constants/keyframes";
+import useStore from "../store/use-store";
+import {
+	clampItemTime,
+	findKeyframeAt,
+	getItemTime,
+	getKeyframes,
+	getPropertyValue,
+	isAnimated,
+	removeKeyframe,
+	setItemProperties,
+	setKeyframe,
+	updateItemKeyframes,
+} from "../utils/keyframes";
+import { useCurrentPlayerFrame } from "./use-current-frame";
+
+export interface KeyframeToggleState {
+	// The property has keyframes
+	animated: boolean;
+	// One of them is under the playhead
+	active: boolean;
+	onToggle: () => void;
+}
+
+/**
+ * Read and edit an item's properties at the playhead
+ * Edits to animated properties add or move keyframes under the playhead,
+ * the others change the static value
+ */
+export const useKeyframes = (trackItem: ITrackItem) => {
+	const { playerRef, fps } = useStore();
+	const frame = useCurrentPlayerFrame(playerRef);
+	const time = clampItemTime(trackItem, getItemTime(trackItem, frame, fps));
+	const keyframes = getKeyframes(trackItem.details);
+
+	const getValue = (property: KeyframeProperty) =>
+		getPropertyValue(trackItem.details, property, time);
+
+	const setValues = useCallback(
+		(values: Partial<Record<KeyframeProperty, number>>) =>
+			setItemProperties(trackItem, values, time),
+		[trackItem, time],
+	);
+
+	// Properties edited together, like x and y, share one toggle
+	const getToggle = (
+		property: KeyframeProperty | KeyframeProperty[],
+	): KeyframeToggleState => {
+		const properties = Array.isArray(property) ? property : [property];
+		const existing = properties.map((name) =>
+			findKeyframeAt(keyframes[name], time),
+		);
+		const active = existing.every(Boolean);
+		return {
+			animated: properties.some((name) => isAnimated(keyframes, name)),
+			active,
+			onToggle: () => {
+				let next = keyframes;
+				for (const [index, name] of properties.entries()) {
+					const keyframe = existing[index];
+					if (active && keyframe) {
+						next = removeKeyframe(next, name, keyframe.id);
+					} else if (!keyframe) {
+						next = setKeyframe(next, name, time, getValue(name));
+					}
+				}
+				updateItemKeyframes(trackItem.id, next);
+			},
+		};
+	};
+
+	return { time, keyframes, getValue, setValues, getToggle };
+};
@@ -0,0 +1,205 @@
+import * as transcriptionActions from "@/app/(edit)/actions/transcriptions";
+import { ITrackItem } from "@designcombo/types";
+import { useCallback, useMemo } from "react";
+import { toast } from "sonner";
+import useStore from "../store/use-store";
+import useTranscriptStore from "../store/use-transcript-store";
+import { FullEDU, TranscriptSpeaker } from "../transcript/types";
+import { loadTimelineGranularly } from "../utils/granular-dispatch";
+import { buildTimelineTranscript } from "../utils/timeline-transcript";
+import {
+	generateSubtitleTrackFromTranscript,
+	wordsToSubtitleItems,
+} from "../utils/transcript-to-timeline";
+import { useUploadUrls } from "./use-upload-urls";
+
+// Subtitle items without a language show the transcript as spoken
+export const ORIGINAL_LANGUAGE = "original";
+
+/**
+ * Language of the subtitle track
+ * Translations are made per upload and kept on its transcription. The
+ * subtitle track is rebuilt from the chosen language's EDUs, which share
+ * the original EDU timings, keeping its caption style.
+ */
+export const useSubtitleLanguage = () => {
+	const { sources, view, uploadId } = useTranscriptStore();
+	const tracks = useStore((state) => state.tracks);
+	const trackItemsMap = useStore((state) => state.trackItemsMap);
+	const uploadUrls = useUploadUrls();
+
+	// Sources the subtitles are made from
+	const shownSources = useMemo(
+		() =>
+			view === "timeline"
+				? sources
+				: sources.filter((source) => source.uploadId === uploadId),
+		[sources, view, uploadId],
+	);
+
+	// Languages every shown source has a translation for
+	const languages = useMemo(
+		() =>
+			shownSources.length === 0
+				? []
+				: Object.keys(shownSources[0].translations || {}).filter((code) =>
+						shownSources.every((source) => source.translations?.[code]),
+					),
+		[shownSources],
+	);
+
+	const spokenLanguages = useMemo(
+		() =>
+			Array.from(
+				new Set(shownSources.map((source) => source.language).filter(Boolean)),
+			) as string[],
+		[shownSources],
+	);
+
+	const subtitleTrack = tracks.find((track) =>
+		track.accepts?.includes("subtitle"),
+	);
+	const current =
+		(subtitleTrack &&
+			(trackItemsMap[subtitleTrack.items[0]]?.details?.language as string)) ||
+		ORIGINAL_LANGUAGE;
+
+	const translate = useCallback(
+		async (language: string): Promise<boolean> => {
+			for (const source of shownSources) {
+				if (source.translations?.[language]) continue;
+				const result = await transcriptionActions.translateTranscription(
+					source.uploadId,
+					language,
+				);
+				if (!result.success || !result.fullEDUs) {
+					toast.error("Failed to translate transcript", {
+						description: result.error,
+					});
+					return false;
+				}
+				useTranscriptStore
+					.getState()
+					.setSourceTranslation(source.uploadId, language, result.fullEDUs);
+			}
+			return true;
+		},
+		[shownSources],
+	);
+
+	/**
+	 * EDUs and speakers to caption in a language, as the panel shows them
+	 */
+	const getLanguageTranscript = useCallback(
+		(
+			language: string,
+		): { fullEDUs: FullEDU[]; speakers: TranscriptSpeaker[] } => {
+			const store = useTranscriptStore.getState();
+			const translated = (source: (typeof shownSources)[number]) =>
+				language === ORIGINAL_LANGUAGE
+					? source
+					: { ...source, fullEDUs: source.translations?.[language] || [] };
+
+			if (store.view === "timeline") {
+				return buildTimelineTranscript(
+					store.getSources().map(translated),
+					uploadUrls,
+					useStore.getState().trackItemsMap,
+				);
+			}
+			const source = store
+				.getSources()
+				.find((entry) => entry.uploadId === store.uploadId);
+			return {
+				fullEDUs: source ? translated(source).fullEDUs : store.fullEDUs,
+				speakers: store.speakers,
+			};
+		},
+		[uploadUrls],
+	);
+
+	/**
+	 * Rebuild the subtitle track in a language, adding one when missing
+	 */
+	const applyLanguage = useCallback(
+		(language: string): boolean => {
+			const { fullEDUs, speakers } = getLanguageTranscript(language);
+			if (fullEDUs.length === 0) {
+				toast.error("No transcript in this language");
+				return false;
+			}
+
+			const { tracks, trackItemsMap, transitionsMap, compositions, fps, size } =
+				useStore.getState();
+			const track = tracks.find((entry) => entry.accepts?.includes("subtitle"));
+			const trackItems = { ...trackItemsMap };
+			let nextTracks = tracks;
+			const languageDetails =
+				language === ORIGINAL_LANGUAGE ? {} : { language };
+
+			if (track) {
+				// Caption style lives on every item of the track
+				const {
+					text,
+					wordId,
+					eduIndex,
+					speakerId,
+					language: _,
+					...style
+				} = trackItemsMap[track.items[0]]?.details || {};
+				const items = wordsToSubtitleItems(fullEDUs, speakers).map(
+					(item) =>
+						({
+							...item,
+							details: { ...item.details, ...style, ...languageDetails },
+						}) as ITrackItem,
+				);
+				for (const id of track.items) delete trackItems[id];
+				for (const item of items) trackItems[item.id] = item;
+				nextTracks = tracks.map((entry) =>
+					entry.id === track.id
+						? { ...entry, items: items.map((item) => item.id) }
+						: entry,
+				);
+			} else {
+				const generated = generateSubtitleTrackFromTranscript(
+					fullEDUs,
+					tracks.length,
+					speakers,
+				);
+				for (const item of generated.items) {
+					trackItems[item.id] = {
+						...item,
+						details: { ...item.details, ...languageDetails },
+					} as ITrackItem;
+				}
+				nextTracks = [...tracks, generated.track];
+			}
+
+			const result = loadTimelineGranularly({
+				tracks: nextTracks,
+				trackItems,
+				transitions: transitionsMap,
+				compositions,
+				fps,
+				size,
+			});
+			if (!result.valid) {
+				console.error("Failed to switch subtitle language:", result.errors);
+				toast.error("Failed to switch subtitle language");
+				return false;
+			}
+			return true;
+		},
+		[getLanguageTranscript],
+	);
+
+	return {
+		languages,
+		spokenLanguages,
+		current,
+		canTranslate: shownSources.length > 0,
+		translate,
+		applyLanguage,
+	};
+};
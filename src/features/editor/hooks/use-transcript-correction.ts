@@ -0,0 +1,184 @@
+import * as transcriptionActions from "@/app/(edit)/actions/transcriptions";
+import { ITrackItem } from "@designcombo/types";
+import { useCallback } from "react";
+import { toast } from "sonner";
+import useStore from "../store/use-store";
+import useTranscriptStore from "../store/use-transcript-store";
+import { FullEDU, TranscriptSegment } from "../transcript/types";
+import { loadTimelineGranularly } from "../utils/granular-dispatch";
+import {
+	buildSourceTimings,
+	getSourceItems,
+} from "../utils/timeline-transcript";
+import { correctEDUText } from "../utils/transcript-correction";
+import { getStoredEDUs, isWordCut } from "../utils/transcript-cuts";
+import { wordsToSubtitleItems } from "../utils/transcript-to-timeline";
+import { useUploadUrls } from "./use-upload-urls";
+
+export interface EDUTextChange {
+	eduIndex: number;
+	text: string;
+}
+
+interface AppliedCorrection {
+	before: FullEDU;
+	after: FullEDU;
+}
+
+/**
+ * Replace the subtitle items linked to corrected words with items for the
+ * corrected words, keeping each track's caption style
+ * @param urls - Media urls of the transcript's upload, new items are placed
+ * where its clips play the words
+ */
+const regenerateSubtitleItems = (
+	corrections: AppliedCorrection[],
+	urls: string[],
+) => {
+	const { tracks, trackItemsMap, transitionsMap, compositions, fps, size } =
+		useStore.getState();
+	const trackItems = { ...trackItemsMap };
+	let changed = false;
+
+	// Corrected words have new ids, so they are mapped afresh. An upload that
+	// is not on the timeline keeps its source times
+	const sourceItems = getSourceItems(urls, trackItemsMap);
+	const timings =
+		sourceItems.length > 0
+			? buildSourceTimings(
+					corrections.map(({ after }) => after),
+					sourceItems,
+				)
+			: null;
+	const placeWords = (words: TranscriptSegment[]) =>
+		words.flatMap((word) => {
+			if (isWordCut(word)) return [];
+			if (!timings) return [word];
+			const range = timings.words[word.id];
+			return range
+				? [{ ...word, start: range.startTime, end: range.endTime }]
+				: [];
+		});
+
+	const nextTracks = tracks.map((track) => {
+		if (!track.accepts?.includes("subtitle")) return track;
+
+		const linkedIds = track.items.filter(
+			(id) => trackItemsMap[id]?.details?.wordId,
+		);
+		const linkedWordIds = new Set(
+			linkedIds.map((id) => trackItemsMap[id].details.wordId as string),
+		);
+		const affected = corrections.filter(({ before }) =>
+			(before.words as TranscriptSegment[]).some((word) =>
+				linkedWordIds.has(word.id),
+			),
+		);
+		if (affected.length === 0) return track;
+
+		const oldWordIds = new Set(
+			affected.flatMap(({ before }) =>
+				(before.words as TranscriptSegment[]).map((word) => word.id),
+			),
+		);
+		const removedIds = linkedIds.filter((id) =>
+			oldWordIds.has(trackItemsMap[id].details.wordId),
+		);
+
+		// Caption style lives on every item of the track
+		const { text, wordId, eduIndex, speakerId, ...style } =
+			trackItemsMap[removedIds[0]].details;
+		const newItems = wordsToSubtitleItems(
+			affected.map(({ after }) => ({
+				...after,
+				words: placeWords(after.words as TranscriptSegment[]),
+			})),
+		).map(
+			(item) =>
+				({
+					...item,
+					details: { ...item.details, ...style },
+				}) as ITrackItem,
+		);
+
+		for (const id of removedIds) delete trackItems[id];
+		for (const item of newItems) trackItems[item.id] = item;
+		changed = true;
+
+		return {
+			...track,
+			items: [
+				...track.items.filter((id) => !removedIds.includes(id)),
+				...newItems.map((item) => item.id),
+			],
+		};
+	});
+
+	if (!changed) return;
+
+	const result = loadTimelineGranularly({
+		tracks: nextTracks,
+		trackItems,
+		transitions: transitionsMap,
+		compositions,
+		fps,
+		size,
+	});
+	if (!result.valid) {
+		console.error("Failed to update subtitles:", result.errors);
+	}
+};
+
+/**
+ * Text correction of transcript EDUs
+ * Corrected words keep the original timing, linked subtitle items are
+ * regenerated and the transcription is saved
+ */
+export const useTranscriptCorrection = () => {
+	const uploadUrls = useUploadUrls();
+
+	const correctEDUs = useCallback(
+		async (changes: EDUTextChange[]): Promise<boolean> => {
+			const store = useTranscriptStore.getState();
+			const existingIds = new Set(store.getFlatWords().map((word) => word.id));
+
+			const corrections: AppliedCorrection[] = [];
+			for (const change of changes) {
+				const edu = store.fullEDUs.find(
+					(candidate) => candidate.edu_index === change.eduIndex,
+				);
+				if (!edu || !change.text.trim() || edu.edu_content === change.text) {
+					continue;
+				}
+
+				const { edu: after } = correctEDUText(edu, change.text, existingIds);
+				for (const word of after.words) existingIds.add(word.id);
+				corrections.push({ before: edu, after });
+			}
+			if (corrections.length === 0) return false;
+
+			store.replaceEDUs(corrections.map(({ after }) => after));
+			regenerateSubtitleItems(
+				corrections,
+				store.uploadId ? uploadUrls[store.uploadId] || [] : [],
+			);
+
+			const { uploadId, fullEDUs } = useTranscriptStore.getState();
+			if (uploadId) {
+				const result = await transcriptionActions.updateTranscription(
+					uploadId,
+					getStoredEDUs(fullEDUs),
+				);
+				if (!result.success) {
+					toast.error("Failed to save transcript", {
+						description: result.error,
+					});
+				}
+			}
+			return true;
+		},
+		[uploadUrls],
+	);
+
+	return { correctEDUs };
+};
@@ -0,0 +1,117 @@
+import * as transcriptionActions from "@/app/(edit)/actions/transcriptions";
+import { useCallback } from "react";
+import { toast } from "sonner";
+import useStore from "../store/use-store";
+import useTranscriptStore from "../store/use-transcript-store";
+import { loadTimelineGranularly } from "../utils/granular-dispatch";
+import {
+	TimelineSnapshot,
+	getStoredEDUs,
+	getWordRanges,
+	isWordCut,
+	removeSourceRanges,
+	restoreSourceRanges,
+} from "../utils/transcript-cuts";
+import { useUploadUrls } from "./use-upload-urls";
+
+/**
+ * Save the cut list of the transcript on display with its upload
+ */
+const saveCuts = async () => {
+	const { uploadId, fullEDUs } = useTranscriptStore.getState();
+	if (!uploadId) return;
+	const result = await transcriptionActions.updateTranscription(
+		uploadId,
+		getStoredEDUs(fullEDUs),
+	);
+	if (!result.success) {
+		toast.error("Failed to save cuts", { description: result.error });
+	}
+};
+
+/**
+ * Text-based editing: cut or restore transcript words and ripple the
+ * matching media ranges on the timeline
+ */
+export const useTranscriptCuts = () => {
+	const uploadUrls = useUploadUrls();
+
+	const applyToTimeline = useCallback(
+		(update: (snapshot: TimelineSnapshot) => TimelineSnapshot) => {
+			const { tracks, trackItemsMap, transitionsMap, compositions, fps, size } =
+				useStore.getState();
+
+			const next = update({ tracks, trackItemsMap, transitionsMap });
+			if (next.trackItemsMap === trackItemsMap) return true;
+
+			const result = loadTimelineGranularly({
+				tracks: next.tracks,
+				trackItems: next.trackItemsMap,
+				transitions: next.transitionsMap,
+				compositions,
+				fps,
+				size,
+			});
+
+			if (!result.valid) {
+				console.error("Failed to apply transcript edit:", result.errors);
+			}
+			return result.valid;
+		},
+		[],
+	);
+
+	const setWordsCut = useCallback(
+		(wordIds: string[], isCut: boolean): boolean => {
+			const transcriptStore = useTranscriptStore.getState();
+			const words = transcriptStore
+				.getFlatWords()
+				.filter(
+					(word) => wordIds.includes(word.id) && isWordCut(word) !== isCut,
+				);
+			if (words.length === 0) return true;
+
+			// When cutting, include already-cut neighbours so the gaps between
+			// them are removed as well (already removed media is a no-op)
+			const rangeIds = new Set(words.map((word) => word.id));
+			if (isCut) {
+				for (const id of transcriptStore.getCutWordIds()) rangeIds.add(id);
+			}
+			const ranges = getWordRanges(transcriptStore.fullEDUs, rangeIds);
+			// Only clips of the transcript's upload are cut, the rest follows
+			const urls = transcriptStore.uploadId
+				? uploadUrls[transcriptStore.uploadId] || []
+				: [];
+
+			const applied = applyToTimeline((snapshot) =>
+				isCut
+					? removeSourceRanges(snapshot, ranges, urls)
+					: restoreSourceRanges(snapshot, ranges, urls),
+			);
+			if (!applied) {
+				toast.error(isCut ? "Failed to cut words" : "Failed to restore words");
+				return false;
+			}
+
+			transcriptStore.setWordsCut(
+				words.map((word) => word.id),
+				isCut,
+			);
+			saveCuts();
+			return true;
+		},
+		[applyToTimeline, uploadUrls],
+	);
+
+	const cutWords = useCallback(
+		(wordIds: string[]) => setWordsCut(wordIds, true),
+		[setWordsCut],
+	);
+
+	const restoreWords = useCallback(
+		(wordIds: string[]) => setWordsCut(wordIds, false),
+		[setWordsCut],
+	);
+
+	return { cutWords, restoreWords };
+};
@@ -0,0 +1,71 @@
+import { useCallback, useEffect, useMemo } from "react";
+import useProjectStore from "../store/use-project-store";
+import useStore from "../store/use-store";
+import useTranscriptStore from "../store/use-transcript-store";
+import useUploadStore from "../store/use-upload-store";
+import { useUploadUrls } from "./use-upload-urls";
+import { buildTimelineTranscript } from "../utils/timeline-transcript";
+
+/**
+ * Transcripts of the project's uploads
+ * Completed transcriptions join the sources and the timeline view is rebuilt
+ * whenever the timeline changes while it is shown
+ */
+export const useTranscriptSources = () => {
+	const { sources, view, uploadId, showSource, showTimeline } =
+		useTranscriptStore();
+	const { transcriptions, transcriptionStatus, uploads } = useUploadStore();
+	const trackItemsMap = useStore((state) => state.trackItemsMap);
+	const projectData = useProjectStore((state) => state.projectData);
+
+	const uploadUrls = useUploadUrls();
+
+	// Transcriptions completed in this session
+	useEffect(() => {
+		const store = useTranscriptStore.getState();
+		for (const [id, edus] of Object.entries(transcriptions)) {
+			if (transcriptionStatus[id] !== "completed" || !edus?.length) continue;
+			if (store.sources.some((source) => source.uploadId === id)) continue;
+			store.upsertSource({ uploadId: id, fullEDUs: edus, speakers: [] });
+		}
+	}, [transcriptions, transcriptionStatus]);
+
+	useEffect(() => {
+		if (view !== "timeline") return;
+		useTranscriptStore
+			.getState()
+			.setTimelineTranscript(
+				buildTimelineTranscript(sources, uploadUrls, trackItemsMap),
+			);
+	}, [view, sources, uploadUrls, trackItemsMap]);
+
+	const options = useMemo(
+		() =>
+			sources.map((source) => {
+				const upload =
+					projectData?.uploads?.find((entry) => entry.id === source.uploadId) ||
+					uploads.find(
+						(entry) => (entry.uploadId || entry.id) === source.uploadId,
+					);
+				return {
+					uploadId: source.uploadId,
+					name: upload?.fileName || source.uploadId.slice(0, 8),
+				};
+			}),
+		[sources, projectData, uploads],
+	);
+
+	const selectSource = useCallback(
+		(value: string) => {
+			if (value === "timeline") showTimeline();
+			else showSource(value);
+		},
+		[showSource, showTimeline],
+	);
+
+	return {
+		options,
+		selected: view === "timeline" ? "timeline" : uploadId,
+		selectSource,
+	};
+};
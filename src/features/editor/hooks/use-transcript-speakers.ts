@@ -0,0 +1,71 @@
+import * as transcriptionActions from "@/app/(edit)/actions/transcriptions";
+import { useCallback } from "react";
+import { toast } from "sonner";
+import useTranscriptStore from "../store/use-transcript-store";
+import { TranscriptSpeaker } from "../transcript/types";
+import { syncSubtitleSpeakers } from "../utils/subtitles";
+
+/**
+ * Speaker roster edits: rename, recolor, merge and reassign
+ * Changes are saved to the Transcription row and mirrored on subtitle items
+ */
+export const useTranscriptSpeakers = () => {
+	const persist = useCallback(async (withSegments: boolean) => {
+		const { uploadId, speakers, fullEDUs } = useTranscriptStore.getState();
+		syncSubtitleSpeakers(fullEDUs, speakers);
+
+		// Transcripts not loaded from an upload only live in the editor
+		if (!uploadId) return;
+
+		const result = await transcriptionActions.updateTranscriptionSpeakers(
+			uploadId,
+			speakers,
+			withSegments ? fullEDUs : undefined,
+		);
+		if (!result.success) {
+			toast.error("Failed to save speakers", { description: result.error });
+		}
+	}, []);
+
+	const updateSpeaker = useCallback(
+		(id: string, changes: Partial<Omit<TranscriptSpeaker, "id">>) => {
+			useTranscriptStore.getState().updateSpeaker(id, changes);
+			return persist(false);
+		},
+		[persist],
+	);
+
+	const mergeSpeakers = useCallback(
+		(fromId: string, intoId: string) => {
+			useTranscriptStore.getState().mergeSpeakers(fromId, intoId);
+			return persist(true);
+		},
+		[persist],
+	);
+
+	const assignEDUSpeaker = useCallback(
+		(eduIndex: number, speakerId: string) => {
+			useTranscriptStore.getState().assignEDUSpeaker(eduIndex, speakerId);
+			return persist(true);
+		},
+		[persist],
+	);
+
+	// Reassign an EDU to a speaker the provider didn't detect
+	const assignEDUToNewSpeaker = useCallback(
+		(eduIndex: number) => {
+			const store = useTranscriptStore.getState();
+			const speaker = store.addSpeaker();
+			store.assignEDUSpeaker(eduIndex, speaker.id);
+			return persist(true);
+		},
+		[persist],
+	);
+
+	return {
+		updateSpeaker,
+		mergeSpeakers,
+		assignEDUSpeaker,
+		assignEDUToNewSpeaker,
+	};
+};
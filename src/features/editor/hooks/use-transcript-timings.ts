@@ -0,0 +1,31 @@
+import { useEffect } from "react";
+import useStore from "../store/use-store";
+import useTranscriptStore from "../store/use-transcript-store";
+import {
+	buildSourceTimings,
+	getSourceItems,
+} from "../utils/timeline-transcript";
+import { useUploadUrls } from "./use-upload-urls";
+
+/**
+ * Keep the source on display mapped onto the timeline
+ * Recomputed whenever its items are trimmed, moved, split or sped up, so
+ * the active EDU follows composition time and words that are no longer
+ * played are marked unplayed
+ */
+export const useTranscriptTimings = () => {
+	const { view, uploadId, fullEDUs, applySourceTimings } = useTranscriptStore();
+	const trackItemsMap = useStore((state) => state.trackItemsMap);
+	const uploadUrls = useUploadUrls();
+
+	useEffect(() => {
+		// The timeline view already carries composition times
+		if (view !== "source" || !uploadId) return;
+
+		const items = getSourceItems(uploadUrls[uploadId] || [], trackItemsMap);
+		// An upload that is not on the timeline keeps its source times
+		applySourceTimings(
+			items.length > 0 ? buildSourceTimings(fullEDUs, items) : null,
+		);
+	}, [view, uploadId, fullEDUs, trackItemsMap, uploadUrls, applySourceTimings]);
+};
@@ -0,0 +1,54 @@
+import { Transition, timeMsToUnits } from "@designcombo/timeline";
+import { ITransition } from "@designcombo/types";
+import { useCallback } from "react";
+import useStore from "../store/use-store";
+
+export type TransitionChanges = Partial<
+	Pick<ITransition, "kind" | "direction" | "duration">
+>;
+
+/**
+ * Edit transitions between adjacent clips
+ * Transitions live on the timeline canvas, which owns the cuts they sit on,
+ * so changes go through it and it writes them back to the state
+ */
+export const useTransitions = () => {
+	const { timeline, activeIds, transitionsMap } = useStore();
+
+	// The transition selected on the timeline, if it's the only selection
+	const selectedTransition =
+		activeIds.length === 1 ? transitionsMap[activeIds[0]] || null : null;
+
+	const updateTransition = useCallback(
+		(id: string, changes: TransitionChanges) => {
+			const current = timeline?.transitionsMap[id];
+			if (!timeline || !current) return;
+
+			timeline.transitionsMap = {
+				...timeline.transitionsMap,
+				[id]: { ...current, ...changes },
+			};
+
+			// Canvas objects carry the id of the transition they draw
+			const object = (
+				timeline.getObjects("Transition") as (Transition & { id: string })[]
+			).find((candidate) => candidate.id === id);
+			if (object) {
+				const { kind, duration } = timeline.transitionsMap[id];
+				object.set({
+					kind,
+					duration,
+					width: timeMsToUnits(duration, timeline.tScale),
+					visible: kind !== "none",
+				});
+				timeline.alignTransitionsToTrack();
+				timeline.requestRenderAll();
+			}
+
+			timeline.updateState({ updateHistory: true, kind: "update" });
+		},
+		[timeline],
+	);
+
+	return { selectedTransition, updateTransition };
+};
@@ -0,0 +1,39 @@
+import { useMemo } from "react";
+import useProjectStore from "../store/use-project-store";
+import useUploadStore from "../store/use-upload-store";
+
+/**
+ * Every url an upload may be played from, by upload id
+ * Track items only reference their media by url
+ */
+export const useUploadUrls = () => {
+	const uploads = useUploadStore((state) => state.uploads);
+	const projectData = useProjectStore((state) => state.projectData);
+
+	return useMemo(() => {
+		const urls: Record<string, string[]> = {};
+		const add = (
+			id: string | undefined,
+			...candidates: (string | undefined)[]
+		) => {
+			if (!id) return;
+			for (const url of candidates) {
+				if (url && !urls[id]?.includes(url))
+					urls[id] = [...(urls[id] || []), url];
+			}
+		};
+
+		for (const upload of projectData?.uploads || []) {
+			add(upload.id, upload.url, upload.metadata?.uploadedUrl);
+		}
+		add(projectData?.initialMedia?.uploadId, projectData?.initialMedia?.url);
+		for (const upload of uploads) {
+			add(
+				upload.uploadId || upload.id,
+				upload.url,
+				upload.metadata?.uploadedUrl,
+			);
+		}
+		return urls;
+	}, [projectData, uploads]);
+};
@@ -7,6 +7,7 @@ import { Videos } from "./videos";
 import { VoiceOver } from "./voice-over";
 import { useIsLargeScreen } from "@/hooks/use-media-query";
 import { Uploads } from "./uploads";
+import { Transitions } from "./transitions";
 
 const ActiveMenuItem = () => {
 	const { activeMenuItem } = useLayoutStore();
@@ -38,6 +39,9 @@ const ActiveMenuItem = () => {
 	if (activeMenuItem === "uploads") {
 		return <Uploads />;
 	}
+	if (activeMenuItem === "transitions") {
+		return <Transitions />;
+	}
 
 	return null;
 };
@@ -0,0 +1,95 @@
+import Draggable from "@/components/shared/draggable";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+import {
+	DIRECTION_LABELS,
+	TRANSITIONS,
+	TransitionDirection,
+	TransitionKind,
+} from "../constants/transitions";
+import { useIsDraggingOverTimeline } from "../hooks/is-dragging-over-timeline";
+import { useTransitions } from "../hooks/use-transitions";
+
+interface TransitionOption {
+	kind: TransitionKind;
+	direction?: TransitionDirection;
+	label: string;
+}
+
+// One tile per kind and direction
+const OPTIONS: TransitionOption[] = Object.entries(TRANSITIONS).flatMap(
+	([kind, info]) =>
+		info.directions.length
+			? info.directions.map((direction) => ({
+					kind: kind as TransitionKind,
+					direction,
+					label: `${info.label} ${DIRECTION_LABELS[direction].toLowerCase()}`,
+				}))
+			: [{ kind: kind as TransitionKind, label: info.label }],
+);
+
+export const Transitions = () => {
+	const isDraggingOverTimeline = useIsDraggingOverTimeline();
+	const { selectedTransition, updateTransition } = useTransitions();
+
+	// Clicking applies the tile to the cut selected on the timeline
+	const handleClick = (option: TransitionOption) => {
+		if (!selectedTransition) {
+			toast.info(
+				"Drop a transition between two clips, or select a cut on the timeline first.",
+			);
+			return;
+		}
+		updateTransition(selectedTransition.id, {
+			kind: option.kind,
+			direction: option.direction,
+		});
+	};
+
+	return (
+		<div className="flex flex-1 flex-col">
+			<div className="text-text-primary flex h-12 flex-none items-center px-4 text-sm font-medium">
+				Transitions
+			</div>
+			<ScrollArea className="h-full">
+				<div className="grid grid-cols-2 gap-2 px-4 pb-4">
+					{OPTIONS.map((option) => {
+						const tile = (
+							<div className="flex h-16 w-32 items-center justify-center rounded-md border border-border bg-background px-2 text-center text-xs">
+								{option.label}
+							</div>
+						);
+						return (
+							<Draggable
+								key={`${option.kind}-${option.direction || ""}`}
+								// The timeline reads drag data from the lowercased
+								// dataTransfer type, so keys and values stay lowercase
+								data={{
+									type: "transition",
+									kind: option.kind,
+									direction: option.direction,
+								}}
+								renderCustomPreview={tile}
+								shouldDisplayPreview={!isDraggingOverTimeline}
+							>
+								<div
+									onClick={() => handleClick(option)}
+									className={cn(
+										"flex h-16 cursor-pointer items-center justify-center rounded-md border border-border bg-background px-2 text-center text-xs hover:bg-secondary",
+										selectedTransition?.kind === option.kind &&
+											(selectedTransition.direction || undefined) ===
+												option.direction &&
+											"border-primary",
+									)}
+								>
+									{option.label}
+								</div>
+							</Draggable>
+						);
+					})}
+				</div>
+			</ScrollArea>
+		</div>
+	);
+};
@@ -11,7 +11,14 @@ import {
 	FileText,
 	CheckCircle,
 	AlertCircle,
+	RefreshCw,
 } from "lucide-react";
+import {
+	DropdownMenu,
+	DropdownMenuContent,
+	DropdownMenuItem,
+	DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { generateId } from "@designcombo/timeline";
 import { Button } from "@/components/ui/button";
 import useUploadStore from "../store/use-upload-store";
@@ -24,7 +31,9 @@ export const Uploads = () => {
 		pendingUploads,
 		activeUploads,
 		transcriptionStatus,
+		transcriptionProgress,
 		transcriptions,
+		startTranscription,
 	} = useUploadStore();
 
 	// Group completed uploads by type
@@ -146,46 +155,71 @@ export const Uploads = () => {
 	);
 
 	// Helper to get transcription status icon
-	const TranscriptionStatus = ({ uploadId }: { uploadId: string }) => {
+	const TranscriptionStatus = ({
+		uploadId,
+		url,
+	}: {
+		uploadId: string;
+		url?: string;
+	}) => {
 		const status = transcriptionStatus[uploadId];
-		const hasTranscript = transcriptions[uploadId]?.length > 0;
 
 		if (!status || status === "idle") return null;
 
 		if (status === "processing") {
+			const progress = transcriptionProgress[uploadId] || 0;
 			return (
-				<div className="absolute top-1 right-1 bg-background/90 rounded p-0.5">
+				<div className="absolute top-1 right-1 flex items-center gap-0.5 bg-background/90 rounded p-0.5">
 					<Loader2
 						className="w-3 h-3 animate-spin text-blue-500"
 						aria-label="Transcribing..."
 					/>
+					{progress > 0 && (
+						<span className="text-[10px] leading-none text-muted-foreground">
+							{progress}%
+						</span>
+					)}
 				</div>
 			);
 		}
 
-		if (status === "completed" && hasTranscript) {
-			return (
-				<div className="absolute top-1 right-1 bg-background/90 rounded p-0.5">
-					<FileText
-						className="w-3 h-3 text-green-500"
-						aria-label="Transcript available"
-					/>
-				</div>
-			);
-		}
-
-		if (status === "failed") {
-			return (
-				<div className="absolute top-1 right-1 bg-background/90 rounded p-0.5">
-					<AlertCircle
-						className="w-3 h-3 text-red-500"
-						aria-label="Transcription failed"
-					/>
-				</div>
-			);
-		}
+		if (status !== "completed" && status !== "failed") return null;
 
-		return null;
+		// Finished jobs can be redone, bypassing the transcription cache
+		return (
+			<DropdownMenu>
+				<DropdownMenuTrigger asChild>
+					<button
+						type="button"
+						className="absolute top-1 right-1 bg-background/90 rounded p-0.5"
+						onClick={(event) => event.stopPropagation()}
+					>
+						{status === "completed" ? (
+							<FileText
+								className="w-3 h-3 text-green-500"
+								aria-label="Transcript available"
+							/>
+						) : (
+							<AlertCircle
+								className="w-3 h-3 text-red-500"
+								aria-label="Transcription failed"
+							/>
+						)}
+					</button>
+				</DropdownMenuTrigger>
+				<DropdownMenuContent align="end">
+					<DropdownMenuItem
+						onClick={(event) => {
+							event.stopPropagation();
+							startTranscription(uploadId, url, { force: true });
+						}}
+					>
+						<RefreshCw className="w-4 h-4 mr-2" />
+						Transcribe again
+					</DropdownMenuItem>
+				</DropdownMenuContent>
+			</DropdownMenu>
+		);
 	};
 
 	return (
@@ -253,7 +287,10 @@ export const Uploads = () => {
 												onClick={() => handleAddVideo(video)}
 											>
 												<VideoIcon className="w-8 h-8 text-muted-foreground" />
-												<TranscriptionStatus uploadId={uploadId} />
+												<TranscriptionStatus
+													uploadId={uploadId}
+													url={video.metadata?.uploadedUrl || video.url}
+												/>
 											</Card>
 											<div className="text-xs text-muted-foreground truncate w-full text-center">
 												{video.file?.name || video.url || "Video"}
@@ -318,7 +355,10 @@ export const Uploads = () => {
 												onClick={() => handleAddAudio(audio)}
 											>
 												<Music className="w-8 h-8 text-muted-foreground" />
-												<TranscriptionStatus uploadId={uploadId} />
+												<TranscriptionStatus
+													uploadId={uploadId}
+													url={audio.metadata?.uploadedUrl || audio.url}
+												/>
 											</Card>
 											<div className="text-xs text-muted-foreground truncate w-full text-center">
 												{audio.file?.name || audio.url || "Audio"}
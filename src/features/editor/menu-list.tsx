@@ -44,6 +44,12 @@ const MENU_ITEMS = [
 		label: "Audio",
 		ariaLabel: "Add and manage audio content",
 	},
+	{
+		id: "transitions",
+		icon: Icons.transition,
+		label: "Transitions",
+		ariaLabel: "Add transitions between clips",
+	},
 ] as const;
 
 // Memoized menu button component for better performance
@@ -8,19 +8,11 @@ import {
 	PopoverContent,
 	PopoverTrigger,
 } from "@/components/ui/popover";
-import {
-	ChevronDown,
-	Download,
-	ProportionsIcon,
-	ShareIcon,
-} from "lucide-react";
-import { Label } from "@/components/ui/label";
+import { ProportionsIcon, ShareIcon } from "lucide-react";
 
 import type StateManager from "@designcombo/state";
-import { generateId } from "@designcombo/timeline";
-import type { IDesign } from "@designcombo/types";
-import { useDownloadState } from "./store/use-download-state";
 import DownloadProgressModal from "./download-progress-modal";
+import ExportDialog from "./export-dialog";
 import AutosizeInput from "@/components/ui/autosize-input";
 import { debounce } from "lodash";
 import {
@@ -144,85 +136,13 @@ export default function Navbar({
 						Try PRO
 					</Button>
 
-					<DownloadPopover stateManager={stateManager} />
+					<ExportDialog stateManager={stateManager} />
 				</div>
 			</div>
 		</div>
 	);
 }
 
-const DownloadPopover = ({ stateManager }: { stateManager: StateManager }) => {
-	const isMediumScreen = useIsMediumScreen();
-	const { actions, exportType } = useDownloadState();
-	const [isExportTypeOpen, setIsExportTypeOpen] = useState(false);
-	const [open, setOpen] = useState(false);
-
-	const handleExport = () => {
-		const data: IDesign = {
-			id: generateId(),
-			...stateManager.getState(),
-		};
-
-		actions.setState({ payload: data });
-		actions.startExport();
-	};
-
-	return (
-		<Popover open={open} onOpenChange={setOpen}>
-			<PopoverTrigger asChild>
-				<Button
-					className="flex h-7 gap-1 border border-border"
-					size={isMediumScreen ? "sm" : "icon"}
-				>
-					<Download width={18} />{" "}
-					<span className="hidden md:block">Export</span>
-				</Button>
-			</PopoverTrigger>
-			<PopoverContent
-				align="end"
-				className="bg-sidebar z-[250] flex w-60 flex-col gap-4"
-			>
-				<Label>Export settings</Label>
-
-				<Popover open={isExportTypeOpen} onOpenChange={setIsExportTypeOpen}>
-					<PopoverTrigger asChild>
-						<Button className="w-full justify-between" variant="outline">
-							<div>{exportType.toUpperCase()}</div>
-							<ChevronDown width={16} />
-						</Button>
-					</PopoverTrigger>
-					<PopoverContent className="bg-background z-[251] w-[--radix-popover-trigger-width] px-2 py-2">
-						<div
-							className="flex h-7 items-center rounded-sm px-3 text-sm hover:cursor-pointer hover:bg-zinc-800"
-							onClick={() => {
-								actions.setExportType("mp4");
-								setIsExportTypeOpen(false);
-							}}
-						>
-							MP4
-						</div>
-						<div
-							className="flex h-7 items-center rounded-sm px-3 text-sm hover:cursor-pointer hover:bg-zinc-800"
-							onClick={() => {
-								actions.setExportType("json");
-								setIsExportTypeOpen(false);
-							}}
-						>
-							JSON
-						</div>
-					</PopoverContent>
-				</Popover>
-
-				<div>
-					<Button onClick={handleExport} className="w-full">
-						Export
-					</Button>
-				</div>
-			</PopoverContent>
-		</Popover>
-	);
-};
-
 interface ResizeOptionProps {
 	label: string;
 	icon: string;
@@ -1,6 +1,17 @@
 import { ISize, ITrackItem } from "@designcombo/types";
-import { AbsoluteFill, Sequence } from "remotion";
+import {
+	AbsoluteFill,
+	Sequence,
+	useCurrentFrame,
+	useVideoConfig,
+} from "remotion";
 import { calculateFrames } from "../utils/frames";
+import {
+	getAnimationStyle,
+	getAnimationValues,
+	getItemAnimations,
+} from "../utils/animations";
+import { applyKeyframes } from "../utils/keyframes";
 import { calculateContainerStyles } from "./styles";
 
 export interface SequenceItemOptions {
@@ -64,16 +75,58 @@ export const BaseSequence = ({
 				pointerEvents: "none",
 			}}
 		>
-			<AbsoluteFill
-				id={item.id}
-				data-track-item="transition-element"
-				className={`designcombo-scene-item id-${item.id} designcombo-scene-item-type-${item.type}`}
-				style={calculateContainerStyles(details, crop, {
-					pointerEvents: (item.type as string) === "audio" ? "none" : "auto",
-				})}
-			>
+			<SequenceFill item={item} crop={crop} fps={fps}>
 				{children}
-			</AbsoluteFill>
+			</SequenceFill>
 		</Sequence>
 	);
 };
+
+/**
+ * The item's container, with its keyframes applied at the current frame
+ * and its preset animations on the boxes within
+ * Rendered inside the Sequence, so frames count from the start of the item
+ */
+const SequenceFill = ({
+	item,
+	crop,
+	fps,
+	children,
+}: {
+	item: ITrackItem;
+	crop: ITrackItem["details"]["crop"];
+	fps: number;
+	children: React.ReactNode;
+}) => {
+	const frame = useCurrentFrame();
+	// Inside a Sequence the duration is the item's, the size the canvas'
+	const { durationInFrames, width, height, fps: videoFps } = useVideoConfig();
+	const details = applyKeyframes(item.details, (frame / fps) * 1000);
+	const animation = getAnimationValues(
+		getItemAnimations(item),
+		frame,
+		durationInFrames,
+		videoFps,
+	);
+
+	return (
+		<AbsoluteFill
+			id={item.id}
+			data-track-item="transition-element"
+			className={`designcombo-scene-item id-${item.id} designcombo-scene-item-type-${item.type}`}
+			style={calculateContainerStyles(details, crop, {
+				pointerEvents: (item.type as string) === "audio" ? "none" : "auto",
+			})}
+		>
+			<div
+				style={{
+					width: "100%",
+					height: "100%",
+					...getAnimationStyle(animation, { width, height }),
+				}}
+			>
+				<div style={{ width: "100%", height: "100%" }}>{children}</div>
+			</div>
+		</AbsoluteFill>
+	);
+};
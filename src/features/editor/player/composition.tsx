@@ -1,21 +1,32 @@
 import { SequenceItem } from "./sequence-item";
 import React, { useEffect, useState, useMemo } from "react";
 import { dispatch, filter, subject } from "@designcombo/events";
+import { IAudio, ITrackItem, IVideo } from "@designcombo/types";
 import {
 	EDIT_OBJECT,
 	EDIT_TEMPLATE_ITEM,
 	ENTER_EDIT_MODE,
 } from "@designcombo/state";
-import { groupTrackItems } from "../utils/track-items";
+import {
+	getTransitionSeriesLayout,
+	groupTrackItems,
+} from "../utils/track-items";
 import { calculateTextHeight } from "../utils/text";
-import { useCurrentFrame } from "remotion";
+import { continueRender, delayRender, useCurrentFrame } from "remotion";
+import { TransitionSeries, linearTiming } from "@remotion/transitions";
 import useStore from "../store/use-store";
+import { Subtitles } from "./items";
+import { groupSubtitleLines } from "../utils/subtitles";
+import { getTransitionPresentation } from "./transitions";
+import { audioDataManager } from "./lib/audio-data";
+import { isVisualizer } from "./lib/visualizer";
 
 const Composition = () => {
 	const [editableTextId, setEditableTextId] = useState<string | null>(null);
 	const {
 		trackItemIds,
 		trackItemsMap,
+		tracks,
 		fps,
 		sceneMoveableRef,
 		size,
@@ -41,9 +52,47 @@ const Composition = () => {
 		() =>
 			Object.values(trackItemsMap).filter((item) => {
 				return item.type === "video" || item.type === "audio";
-			}),
+			}) as (ITrackItem & (IVideo | IAudio))[],
+		[trackItemsMap],
+	);
+
+	const hasVisualizers = useMemo(
+		() => Object.values(trackItemsMap).some(isVisualizer),
 		[trackItemsMap],
 	);
+	const [, setAudioDataVersion] = useState(0);
+
+	// Visualizers follow the audio mix, so its data has to be loaded before
+	// they draw. This also runs in renders, where the editor doesn't load it
+	useEffect(() => {
+		if (!hasVisualizers) return;
+		const handle = delayRender("Loading audio data for visualizers");
+		audioDataManager.setAudioDataManager(fps);
+		audioDataManager
+			.setItems(mediaItems)
+			.catch((error) => console.error("Failed to load audio data", error))
+			.finally(() => {
+				// Draw the loaded levels even while the player is paused
+				setAudioDataVersion((version) => version + 1);
+				continueRender(handle);
+			});
+	}, [hasVisualizers, mediaItems, fps]);
+
+	// Caption lines for each subtitle track
+	const subtitleTracks = useMemo(
+		() =>
+			tracks
+				.map((track) => ({
+					id: track.id,
+					lines: groupSubtitleLines(
+						track.items
+							.map((id) => trackItemsMap[id])
+							.filter((item) => (item?.type as string) === "subtitle"),
+					),
+				}))
+				.filter((track) => track.lines.length > 0),
+		[tracks, trackItemsMap],
+	);
 
 	const handleTextChange = (id: string, _: string) => {
 		const elRef = document.querySelector(`.id-${id}`) as HTMLDivElement;
@@ -161,36 +210,77 @@ const Composition = () => {
 		return () => subscription.unsubscribe();
 	}, [editableTextId]);
 
+	const renderItem = (item: ITrackItem, isTransition: boolean) => {
+		// Check if handler exists for this item type
+		if (!SequenceItem[item.type]) {
+			return null;
+		}
+
+		return SequenceItem[item.type](item, {
+			fps,
+			handleTextChange,
+			onTextBlur,
+			editableTextId,
+			frame,
+			size,
+			isTransition,
+		});
+	};
+
 	return (
 		<>
-			{groupedItems.map((group, index) => {
+			{groupedItems.map((group) => {
 				if (group.length === 1) {
 					const item = trackItemsMap[group[0].id];
 					if (!item) {
 						return null;
 					}
 
-					// Check if handler exists for this item type
-					if (!SequenceItem[item.type]) {
-						return null;
-					}
-
-					const element = SequenceItem[item.type](item, {
-						fps,
-						handleTextChange,
-						onTextBlur,
-						editableTextId,
-						frame,
-						size,
-						isTransition: false,
-					});
+					const element = renderItem(item, false);
 					// Return null for subtitle items (no preview rendering)
 					if (!element) return null;
 					// Add key to the returned element
 					return <React.Fragment key={item.id}>{element}</React.Fragment>;
 				}
-				return null;
+
+				// Clips linked by transitions play as one series
+				const { from, elements } = getTransitionSeriesLayout(group, fps);
+				return (
+					<TransitionSeries key={group[0].id} from={from}>
+						{elements.map((element) => {
+							if (element.type === "transition") {
+								return (
+									<TransitionSeries.Transition
+										key={element.transition.id}
+										presentation={getTransitionPresentation(
+											element.transition,
+											size,
+										)}
+										timing={linearTiming({
+											durationInFrames: element.durationInFrames,
+										})}
+									/>
+								);
+							}
+							return (
+								<TransitionSeries.Sequence
+									key={element.item.id}
+									durationInFrames={element.durationInFrames}
+								>
+									{renderItem(element.item, true)}
+								</TransitionSeries.Sequence>
+							);
+						})}
+					</TransitionSeries>
+				);
 			})}
+			{subtitleTracks.map((track) => (
+				<Subtitles
+					key={track.id}
+					lines={track.lines}
+					options={{ fps, frame, size }}
+				/>
+			))}
 		</>
 	);
 };
@@ -0,0 +1,72 @@
+import { IHillAudioBars } from "@designcombo/types";
+import { BaseSequence, SequenceItemOptions } from "../base-sequence";
+import {
+	VisualizerStyle,
+	getCurvePath,
+	getBarCount,
+	getVisualizerValues,
+	toColors,
+} from "../lib/visualizer";
+
+/**
+ * Smooth hills rising from the bottom edge
+ * copies: layered hills, each one lower than the last
+ * blendMode: how the copies mix with each other
+ */
+export default function HillAudioBars({
+	item,
+	options,
+}: {
+	item: IHillAudioBars;
+	options: SequenceItemOptions;
+}) {
+	const details = item.details as IHillAudioBars["details"] & VisualizerStyle;
+	const { width, height } = details;
+	const barCount = getBarCount(item);
+	const values = getVisualizerValues(
+		options.frame || 0,
+		barCount,
+		details.smoothing,
+	);
+
+	// Hills without a fill are drawn as outlines
+	const fills = details.fillColor
+		? toColors(details.fillColor, "#ffffff")
+		: details.strokeColor
+			? []
+			: ["#ffffff"];
+	const copies = Math.max(1, details.copies || 1);
+	const strokeWidth = details.strokeColor ? (details.strokeWidth ?? 2) : 0;
+
+	const getHillPath = (copy: number) => {
+		const scale = 1 - copy / (copies + 1);
+		// Copies shift sideways so their peaks don't line up
+		const offset = (copy % 2 ? -1 : 1) * Math.ceil(copy / 2);
+		const step = width / Math.max(1, barCount - 1);
+		const points = values.map((_, index): [number, number] => {
+			const value = values[(index + offset + barCount) % barCount];
+			return [index * step, height - value * scale * height];
+		});
+		return `${getCurvePath(points)} L ${width} ${height} L 0 ${height} Z`;
+	};
+
+	const children = (
+		<svg width={width} height={height} style={{ display: "block" }}>
+			{Array.from({ length: copies }, (_, copy) => (
+				<path
+					key={copy}
+					d={getHillPath(copy)}
+					fill={fills.length ? fills[copy % fills.length] : "none"}
+					stroke={details.strokeColor || "none"}
+					strokeWidth={strokeWidth}
+					style={{
+						mixBlendMode: (details.blendMode ||
+							"normal") as React.CSSProperties["mixBlendMode"],
+					}}
+				/>
+			))}
+		</svg>
+	);
+
+	return BaseSequence({ item, options, children });
+}
@@ -1,4 +1,9 @@
 export { default as Audio } from "./audio";
 export { default as Image } from "./image";
+export { default as Subtitles } from "./subtitle";
 export { default as Text } from "./text";
 export { default as Video } from "./video";
+export { default as LinealAudioBars } from "./lineal-audio-bars";
+export { default as RadialAudioBars } from "./radial-audio-bars";
+export { default as WaveAudioBars } from "./wave-audio-bars";
+export { default as HillAudioBars } from "./hill-audio-bars";
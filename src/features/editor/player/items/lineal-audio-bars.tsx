@@ -0,0 +1,67 @@
+import { ILinealAudioBars } from "@designcombo/types";
+import { BaseSequence, SequenceItemOptions } from "../base-sequence";
+import {
+	VisualizerStyle,
+	getBarCount,
+	getVisualizerValues,
+} from "../lib/visualizer";
+
+/**
+ * Vertical bars side by side. Bars grow from the middle, from the bottom when
+ * placed under, and from the top when inverted
+ */
+export default function LinealAudioBars({
+	item,
+	options,
+}: {
+	item: ILinealAudioBars;
+	options: SequenceItemOptions;
+}) {
+	const details = item.details as ILinealAudioBars["details"] & VisualizerStyle;
+	const { width, height } = details;
+	const thickness = details.lineThickness ?? 5;
+	const barCount = getBarCount(item);
+	const values = getVisualizerValues(
+		options.frame || 0,
+		barCount,
+		details.smoothing,
+	);
+
+	const step = width / barCount;
+	const barWidth = Math.min(thickness, step);
+	const color = details.linealBarColor || "#ffffff";
+
+	const children = (
+		<svg
+			width={width}
+			height={height}
+			style={{
+				display: "block",
+				background: details.backgroundColor || "transparent",
+			}}
+		>
+			{values.map((value, index) => {
+				const barHeight = Math.max(barWidth, value * height);
+				const y =
+					details.placement === "under"
+						? height - barHeight
+						: details.inverted
+							? 0
+							: (height - barHeight) / 2;
+				return (
+					<rect
+						key={index}
+						x={index * step + (step - barWidth) / 2}
+						y={y}
+						width={barWidth}
+						height={barHeight}
+						rx={Math.min(details.roundness ?? 0, barWidth / 2)}
+						fill={color}
+					/>
+				);
+			})}
+		</svg>
+	);
+
+	return BaseSequence({ item, options, children });
+}
@@ -0,0 +1,61 @@
+import { IRadialAudioBars } from "@designcombo/types";
+import { BaseSequence, SequenceItemOptions } from "../base-sequence";
+import {
+	VisualizerStyle,
+	getBarCount,
+	getVisualizerValues,
+} from "../lib/visualizer";
+
+/**
+ * Bars around a circle, growing outwards from its radius
+ */
+export default function RadialAudioBars({
+	item,
+	options,
+}: {
+	item: IRadialAudioBars;
+	options: SequenceItemOptions;
+}) {
+	const details = item.details as IRadialAudioBars["details"] &
+		VisualizerStyle & { linealBarColor?: string };
+	const { width, height } = details;
+	const barCount = getBarCount(item);
+	const values = getVisualizerValues(
+		options.frame || 0,
+		barCount,
+		details.smoothing,
+	);
+
+	const size = Math.min(width, height);
+	const radius = Math.min(details.radius ?? size / 4, size / 2);
+	const maxLength = Math.max(0, size / 2 - radius);
+	// Bars take a little over half of the circumference they share
+	const barWidth = Math.max(1, ((2 * Math.PI * radius) / barCount) * 0.6);
+	// The Elements menu adds radial bars with the lineal color field
+	const color = details.radialBarColor || details.linealBarColor || "#ffffff";
+
+	const children = (
+		<svg width={width} height={height} style={{ display: "block" }}>
+			<g transform={`translate(${width / 2} ${height / 2})`}>
+				{values.map((value, index) => {
+					const angle = (index / barCount) * 2 * Math.PI - Math.PI / 2;
+					const length = Math.max(barWidth, value * maxLength);
+					return (
+						<line
+							key={index}
+							x1={Math.cos(angle) * radius}
+							y1={Math.sin(angle) * radius}
+							x2={Math.cos(angle) * (radius + length)}
+							y2={Math.sin(angle) * (radius + length)}
+							stroke={color}
+							strokeWidth={barWidth}
+							strokeLinecap="round"
+						/>
+					);
+				})}
+			</g>
+		</svg>
+	);
+
+	return BaseSequence({ item, options, children });
+}
@@ -0,0 +1,138 @@
+import React, { useEffect } from "react";
+import {
+	AbsoluteFill,
+	Sequence,
+	continueRender,
+	delayRender,
+	useCurrentFrame,
+} from "remotion";
+import { loadFonts } from "../../utils/fonts";
+import { calculateFrames } from "../../utils/frames";
+import {
+	SubtitleLine,
+	getSubtitleLineColor,
+	needsSpaceBefore,
+} from "../../utils/subtitles";
+import { SequenceItemOptions } from "../base-sequence";
+
+// Keep captions inside the title-safe area of the canvas
+const SAFE_MARGIN_RATIO = 0.08;
+const DEFAULT_FONT_SIZE_RATIO = 0.045;
+
+const justifyByPosition = {
+	top: "flex-start",
+	middle: "center",
+	bottom: "flex-end",
+} as const;
+
+const Caption = ({
+	line,
+	options,
+}: {
+	line: SubtitleLine;
+	options: SequenceItemOptions;
+}) => {
+	const frame = useCurrentFrame();
+	const { fps, size } = options;
+	const { style } = line;
+	const height = size?.height || 1080;
+	const width = size?.width || 1920;
+	const fontSize =
+		style.fontSize || Math.round(height * DEFAULT_FONT_SIZE_RATIO);
+
+	// Frame is relative to the line's sequence
+	const currentTime = line.from + (frame / fps) * 1000;
+
+	return (
+		<AbsoluteFill
+			className="designcombo-scene-item-type-subtitle"
+			style={{
+				pointerEvents: "none",
+				alignItems: "center",
+				justifyContent: justifyByPosition[style.position],
+				padding: `${height * SAFE_MARGIN_RATIO}px ${width * SAFE_MARGIN_RATIO}px`,
+			}}
+		>
+			<div
+				style={{
+					maxWidth: "100%",
+					textAlign: "center",
+					fontFamily: style.fontFamily,
+					fontSize,
+					lineHeight: 1.3,
+					color: getSubtitleLineColor(line),
+					WebkitTextStroke: `${style.borderWidth}px ${style.borderColor}`,
+					paintOrder: "stroke fill",
+				}}
+			>
+				<span
+					style={{
+						backgroundColor: style.backgroundColor,
+						padding: "0.1em 0.3em",
+						borderRadius: "0.2em",
+						boxDecorationBreak: "clone",
+						WebkitBoxDecorationBreak: "clone",
+					}}
+				>
+					{line.words.map((word, index) => {
+						const isSpoken =
+							style.karaoke &&
+							currentTime >= word.from &&
+							currentTime < word.to;
+						return (
+							<React.Fragment key={word.id}>
+								{needsSpaceBefore(line.words, index) && " "}
+								<span
+									style={isSpoken ? { color: style.highlightColor } : undefined}
+								>
+									{word.text.trim()}
+								</span>
+							</React.Fragment>
+						);
+					})}
+				</span>
+			</div>
+		</AbsoluteFill>
+	);
+};
+
+/**
+ * Burned-in captions for the word items of a subtitle track
+ */
+export default function Subtitles({
+	lines,
+	options,
+}: {
+	lines: SubtitleLine[];
+	options: SequenceItemOptions;
+}) {
+	const { fontFamily, fontUrl } = lines[0]?.style || {};
+
+	// The default caption font isn't among the design's fonts, so renders
+	// wait for it here
+	useEffect(() => {
+		if (!fontFamily || !fontUrl) return;
+		const handle = delayRender(`Loading caption font ${fontFamily}`);
+		loadFonts([{ name: fontFamily, url: fontUrl }])
+			.catch((error) => console.error("Failed to load caption font", error))
+			.finally(() => continueRender(handle));
+	}, [fontFamily, fontUrl]);
+
+	return (
+		<>
+			{lines.map((line) => {
+				const { from, durationInFrames } = calculateFrames(line, options.fps);
+				return (
+					<Sequence
+						key={line.id}
+						from={from}
+						durationInFrames={durationInFrames || 1}
+						style={{ pointerEvents: "none" }}
+					>
+						<Caption line={line} options={options} />
+					</Sequence>
+				);
+			})}
+		</>
+	);
+}
@@ -2,6 +2,39 @@ import { IText } from "@designcombo/types";
 import { BaseSequence, SequenceItemOptions } from "../base-sequence";
 import { calculateTextStyles } from "../styles";
 import MotionText from "../motion-text";
+import { useCurrentFrame, useVideoConfig } from "remotion";
+import {
+	getAnimationValues,
+	getItemAnimations,
+	revealText,
+} from "../../utils/animations";
+
+/**
+ * The text with its reveal animations applied, the whole of it while editing
+ * Rendered inside the Sequence, so frames count from the start of the item
+ */
+const RevealText = ({
+	item,
+	editable,
+	...props
+}: {
+	item: IText;
+	editable: boolean;
+} & Omit<React.ComponentProps<typeof MotionText>, "content" | "editable">) => {
+	const frame = useCurrentFrame();
+	const { durationInFrames, fps } = useVideoConfig();
+	const values = getAnimationValues(
+		getItemAnimations(item),
+		frame,
+		durationInFrames,
+		fps,
+	);
+	const content = editable
+		? item.details.text
+		: revealText(item.details.text, values);
+
+	return <MotionText {...props} content={content} editable={editable} />;
+};
 
 export default function Text({
 	item,
@@ -11,13 +44,13 @@ export default function Text({
 	options: SequenceItemOptions;
 }) {
 	const { handleTextChange, onTextBlur, fps, editableTextId } = options;
-	const { id, details, animations } = item as IText;
+	const { id, details } = item as IText;
 
 	const children = (
-		<MotionText
+		<RevealText
 			key={id}
 			id={id}
-			content={details.text}
+			item={item}
 			editable={editableTextId === id}
 			onChange={handleTextChange}
 			onBlur={onTextBlur}
@@ -0,0 +1,87 @@
+import { IWaveAudioBars } from "@designcombo/types";
+import { BaseSequence, SequenceItemOptions } from "../base-sequence";
+import {
+	VisualizerStyle,
+	getBarCount,
+	getVisualizerValues,
+	toColors,
+} from "../lib/visualizer";
+
+/**
+ * Lines waving up and down with the audio while they scroll sideways
+ * offsetPixelSpeed: scroll speed in px per second, negative scrolls left
+ * lineGap: horizontal shift between lines, in px
+ * topRoundness, bottomRoundness: 0 for sharp peaks and troughs, 1 for round
+ */
+export default function WaveAudioBars({
+	item,
+	options,
+}: {
+	item: IWaveAudioBars;
+	options: SequenceItemOptions;
+}) {
+	const details = item.details as IWaveAudioBars["details"] & VisualizerStyle;
+	const { width, height } = details;
+	const { fps } = options;
+	const frame = options.frame || 0;
+	const colors = toColors(details.lineColor, "#ffffff");
+	const lines = details.lines || colors.length;
+	const sections = Math.max(1, getBarCount(item));
+	const values = getVisualizerValues(frame, sections, details.smoothing);
+
+	const step = width / sections;
+	// Peaks and troughs alternate, so the scroll repeats every two sections
+	const period = step * 2;
+	const scroll = (frame / fps) * (details.offsetPixelSpeed || 0);
+
+	const getLinePath = (line: number) => {
+		const total = scroll + line * (details.lineGap || 0);
+		const shift = ((total % period) + period) % period;
+		// Later lines are quieter so they read as echoes
+		const scale = 1 - line / (lines + 1);
+		// Points run past both edges so the ends stay covered while scrolling
+		const points = Array.from({ length: sections + 4 }, (_, index) => {
+			const value = values[index % sections];
+			const direction = index % 2 ? 1 : -1;
+			return {
+				x: (index - 2) * step + shift,
+				y: height / 2 + (direction * value * scale * height) / 2,
+				roundness:
+					direction < 0
+						? (details.topRoundness ?? 0.5)
+						: (details.bottomRoundness ?? 0.5),
+			};
+		});
+
+		let path = `M ${points[0].x} ${points[0].y}`;
+		for (let index = 1; index < points.length; index++) {
+			const previous = points[index - 1];
+			const point = points[index];
+			const out = (step / 2) * previous.roundness;
+			const into = (step / 2) * point.roundness;
+			path += ` C ${previous.x + out} ${previous.y} ${point.x - into} ${point.y} ${point.x} ${point.y}`;
+		}
+		return path;
+	};
+
+	const children = (
+		<svg
+			width={width}
+			height={height}
+			style={{ display: "block", overflow: "hidden" }}
+		>
+			{Array.from({ length: lines }, (_, line) => (
+				<path
+					key={line}
+					d={getLinePath(line)}
+					fill="none"
+					stroke={colors[line % colors.length]}
+					strokeWidth={2}
+					strokeLinecap="round"
+				/>
+			))}
+		</svg>
+	);
+
+	return BaseSequence({ item, options, children });
+}
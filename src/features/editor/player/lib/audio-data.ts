@@ -123,12 +123,16 @@ export class AudioDataManager {
 		this.frameCache.clear(); // Clear frame cache when items are updated
 	}
 
+	// Sources are summed like the mix, clipping at full scale
 	private combineValues = (
 		length: number,
 		sources: Array<number[]>,
 	): number[] => {
 		return Array.from({ length }).map((_, i) => {
-			return sources.reduce((acc, source) => Math.max(acc, source[i]), 0);
+			return Math.min(
+				1,
+				sources.reduce((acc, source) => acc + source[i], 0),
+			);
 		});
 	};
 
@@ -144,8 +148,8 @@ export class AudioDataManager {
 			if (!cache) return Array(this.numberOfSamples).fill(0);
 
 			const frameTime =
-				frame -
-				(this.items[index].display.from * this.fps) / 1000 +
+				(frame - (this.items[index].display.from * this.fps) / 1000) *
+					(this.items[index].playbackRate || 1) +
 				((this.items[index].trim?.from || 0) * this.fps) / 1000;
 
 			if (
@@ -164,7 +168,10 @@ export class AudioDataManager {
 
 			// Update last accessed time
 			cache.lastAccessed = Date.now();
-			return visualizationValues;
+
+			// Weight each source by its volume in the mix
+			const volume = (item.details.volume ?? 100) / 100;
+			return visualizationValues.map((value) => value * volume);
 		});
 
 		const result = this.combineValues(
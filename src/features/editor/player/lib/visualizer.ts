@@ -0,0 +1,138 @@
+import { ITrackItem } from "@designcombo/types";
+import { audioDataManager } from "./audio-data";
+
+export const VISUALIZER_TYPES = [
+	"linealAudioBars",
+	"radialAudioBars",
+	"waveAudioBars",
+	"hillAudioBars",
+];
+
+export const isVisualizer = (item: ITrackItem) =>
+	VISUALIZER_TYPES.includes(item.type);
+
+/**
+ * Style fields the visualizers read on top of the item details
+ * barCount: bars, or points of a curve
+ * smoothing: 0 follows the audio frame by frame, close to 1 eases it
+ * radius: inner radius of radial bars, in px
+ */
+export interface VisualizerStyle {
+	barCount?: number;
+	smoothing?: number;
+	radius?: number;
+}
+
+export const MAX_SMOOTHING = 0.9;
+
+/**
+ * Bars or curve points a visualizer draws, from its style or its kind
+ */
+export const getBarCount = (item: ITrackItem) => {
+	const details = item.details as VisualizerStyle & {
+		width: number;
+		lineThickness?: number;
+		gapSize?: number;
+		sections?: number;
+	};
+	if (details.barCount) return details.barCount;
+	switch (item.type) {
+		case "linealAudioBars": {
+			// As many bars of the set thickness as fit the width
+			const thickness = details.lineThickness ?? 5;
+			const gap = details.gapSize ?? 5;
+			return Math.max(1, Math.floor((details.width + gap) / (thickness + gap)));
+		}
+		case "radialAudioBars":
+			return 64;
+		case "waveAudioBars":
+			return details.sections || 10;
+		default:
+			return 24;
+	}
+};
+
+// Frames averaged at full smoothing, older frames weigh less
+const SMOOTHING_FRAMES = 8;
+
+// Higher bins of the spectrum are almost always silent
+const SPECTRUM_SHARE = 0.25;
+
+/**
+ * Spreads the low part of the spectrum over `count` values between 0 and 1
+ */
+const downsample = (values: number[], count: number) => {
+	const bins = Math.max(count, Math.floor(values.length * SPECTRUM_SHARE));
+	return Array.from({ length: count }, (_, index) => {
+		const start = Math.floor((index * bins) / count);
+		const end = Math.max(start + 1, Math.floor(((index + 1) * bins) / count));
+		let sum = 0;
+		for (let bin = start; bin < end; bin++) sum += values[bin] || 0;
+		// The spectrum is mostly quiet, the square root lifts it into view
+		return Math.min(1, Math.sqrt(sum / (end - start)));
+	});
+};
+
+/**
+ * Levels of the project's audio mix at a composition frame
+ * Smoothing averages previous frames instead of keeping state, so every frame
+ * renders the same in the preview and in a render
+ */
+export const getVisualizerValues = (
+	frame: number,
+	count: number,
+	smoothing = 0,
+) => {
+	const bars = Math.max(1, Math.round(count));
+	const decay = Math.min(Math.max(smoothing, 0), MAX_SMOOTHING);
+	const frames = decay > 0 ? SMOOTHING_FRAMES : 1;
+
+	const result = Array<number>(bars).fill(0);
+	let totalWeight = 0;
+	for (let offset = 0; offset < frames && frame - offset >= 0; offset++) {
+		const weight = decay ** offset;
+		const values = downsample(
+			audioDataManager.getAudioDataForFrame(frame - offset),
+			bars,
+		);
+		for (let index = 0; index < bars; index++) {
+			result[index] += values[index] * weight;
+		}
+		totalWeight += weight;
+	}
+	return totalWeight ? result.map((value) => value / totalWeight) : result;
+};
+
+/**
+ * Colors of a visualizer field, which holds one color or a list
+ */
+export const toColors = (
+	value: string | string[] | null | undefined,
+	fallback: string,
+) => {
+	const colors = (Array.isArray(value) ? value : [value]).filter(
+		(color): color is string => !!color,
+	);
+	return colors.length ? colors : [fallback];
+};
+
+/**
+ * Smooth SVG path through points, as a Catmull-Rom spline
+ */
+export const getCurvePath = (points: [number, number][], tension = 1) => {
+	if (points.length === 0) return "";
+	const [first] = points;
+	let path = `M ${first[0]} ${first[1]}`;
+	for (let index = 0; index < points.length - 1; index++) {
+		const previous = points[index - 1] || points[index];
+		const current = points[index];
+		const next = points[index + 1];
+		const after = points[index + 2] || next;
+		const c1x = current[0] + ((next[0] - previous[0]) / 6) * tension;
+		const c1y = current[1] + ((next[1] - previous[1]) / 6) * tension;
+		const c2x = next[0] - ((after[0] - current[0]) / 6) * tension;
+		const c2y = next[1] - ((after[1] - current[1]) / 6) * tension;
+		path += ` C ${c1x} ${c1y} ${c2x} ${c2y} ${next[0]} ${next[1]}`;
+	}
+	return path;
+};
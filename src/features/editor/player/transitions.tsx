@@ -0,0 +1,91 @@
+import { ISize, ITransition } from "@designcombo/types";
+import type {
+	TransitionPresentation,
+	TransitionPresentationComponentProps,
+} from "@remotion/transitions";
+import { clockWipe } from "@remotion/transitions/clock-wipe";
+import { fade } from "@remotion/transitions/fade";
+import { flip } from "@remotion/transitions/flip";
+import { slide } from "@remotion/transitions/slide";
+import { wipe } from "@remotion/transitions/wipe";
+import { AbsoluteFill } from "remotion";
+import { TransitionDirection, TransitionKind } from "../constants/transitions";
+
+type EmptyProps = Record<string, never>;
+
+/**
+ * The incoming clip grows from 80% while the outgoing one grows past the
+ * frame and fades out
+ */
+const ZoomPresentation = ({
+	children,
+	presentationDirection,
+	presentationProgress,
+}: TransitionPresentationComponentProps<EmptyProps>) => {
+	const isEntering = presentationDirection === "entering";
+	const scale = isEntering
+		? 0.8 + 0.2 * presentationProgress
+		: 1 + 0.2 * presentationProgress;
+	return (
+		<AbsoluteFill
+			style={{
+				transform: `scale(${scale})`,
+				opacity: isEntering ? presentationProgress : 1 - presentationProgress,
+			}}
+		>
+			{children}
+		</AbsoluteFill>
+	);
+};
+
+/**
+ * The incoming clip is revealed by a circle growing from the center
+ */
+const CirclePresentation = ({
+	children,
+	presentationDirection,
+	presentationProgress,
+}: TransitionPresentationComponentProps<EmptyProps>) => {
+	if (presentationDirection === "exiting") {
+		return <AbsoluteFill>{children}</AbsoluteFill>;
+	}
+	// 71% of the diagonal covers the corners of any aspect ratio
+	const radius = 71 * presentationProgress;
+	return (
+		<AbsoluteFill style={{ clipPath: `circle(${radius}% at 50% 50%)` }}>
+			{children}
+		</AbsoluteFill>
+	);
+};
+
+const custom = (
+	component: TransitionPresentation<EmptyProps>["component"],
+): TransitionPresentation<EmptyProps> => ({ component, props: {} });
+
+/**
+ * Presentation for a transition
+ * Kinds this version doesn't know fall back to a fade
+ */
+export function getTransitionPresentation(
+	transition: ITransition,
+	size: ISize,
+): TransitionPresentation<any> {
+	const direction: TransitionDirection = transition.direction || "from-right";
+
+	switch (transition.kind as TransitionKind) {
+		case "slide":
+			return slide({ direction });
+		case "wipe":
+			return wipe({ direction });
+		case "flip":
+			return flip({ direction });
+		case "clock-wipe":
+			return clockWipe({ width: size.width, height: size.height });
+		case "zoom":
+			return custom(ZoomPresentation);
+		case "circle":
+			return custom(CirclePresentation);
+		default:
+			return fade();
+	}
+}
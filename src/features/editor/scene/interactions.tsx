@@ -11,11 +11,44 @@ import {
 } from "../utils/target";
 import useStore from "../store/use-store";
 import StateManager from "@designcombo/state";
-import { getCurrentTime } from "../utils/time";
+import { getCurrentTime, getSafeCurrentFrame } from "../utils/time";
+import { ITrackItem } from "@designcombo/types";
+import { KeyframeProperty } from "../constants/keyframes";
+import {
+	getItemTime,
+	getKeyframes,
+	getStaticValue,
+	isAnimated,
+	setItemProperties,
+} from "../utils/keyframes";
 
 let holdGroupPosition: Record<string, any> | null = null;
 let dragStartEnd = false;
 
+/**
+ * Edits of animated properties become keyframes at the playhead
+ * Returns false when none of the properties is animated
+ */
+const editAnimatedItem = (
+	id: string,
+	values: Partial<Record<KeyframeProperty, number>>,
+) => {
+	const { trackItemsMap, playerRef, fps } = useStore.getState();
+	const item = trackItemsMap[id];
+	if (!item) return false;
+	const keyframes = getKeyframes(item.details);
+	const properties = Object.keys(values) as KeyframeProperty[];
+	if (!properties.some((property) => isAnimated(keyframes, property))) {
+		return false;
+	}
+	setItemProperties(
+		item,
+		values,
+		getItemTime(item, getSafeCurrentFrame(playerRef), fps),
+	);
+	return true;
+};
+
 interface SceneInteractionsProps {
 	stateManager: StateManager;
 	containerRef: React.RefObject<HTMLDivElement>;
@@ -195,6 +228,14 @@ export function SceneInteractions({
 			onDragEnd={({ target, isDrag }) => {
 				if (!isDrag) return;
 				const targetId = getIdFromClassName(target.className) as string;
+				if (
+					editAnimatedItem(targetId, {
+						x: Number.parseFloat(target.style.left),
+						y: Number.parseFloat(target.style.top),
+					})
+				) {
+					return;
+				}
 
 				dispatch(EDIT_OBJECT, {
 					payload: {
@@ -256,6 +297,18 @@ export function SceneInteractions({
 			onScaleEnd={({ target }) => {
 				if (!target.style.transform) return;
 				const targetId = getIdFromClassName(target.className) as string;
+				const transformed = {
+					transform: target.style.transform,
+				} as ITrackItem["details"];
+				if (
+					editAnimatedItem(targetId, {
+						scale: getStaticValue(transformed, "scale"),
+						x: Number.parseFloat(target.style.left),
+						y: Number.parseFloat(target.style.top),
+					})
+				) {
+					return;
+				}
 
 				dispatch(EDIT_OBJECT, {
 					payload: {
@@ -275,6 +328,16 @@ export function SceneInteractions({
 			onRotateEnd={({ target }) => {
 				if (!target.style.transform) return;
 				const targetId = getIdFromClassName(target.className) as string;
+				const transformed = {
+					transform: target.style.transform,
+				} as ITrackItem["details"];
+				if (
+					editAnimatedItem(targetId, {
+						rotation: getStaticValue(transformed, "rotation"),
+					})
+				) {
+					return;
+				}
 				dispatch(EDIT_OBJECT, {
 					payload: {
 						[targetId]: {
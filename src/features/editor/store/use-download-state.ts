@@ -1,26 +1,38 @@
 import { IDesign } from "@designcombo/types";
 import { create } from "zustand";
+import { downloadText } from "@/utils/download";
+import {
+	DEFAULT_EXPORT_SETTINGS,
+	ExportFormat,
+	ExportSettings,
+	getExportSize,
+} from "../utils/export-settings";
+import { cropDesignToRange } from "../utils/export-range";
 interface Output {
 	url: string;
-	type: string;
+	type: ExportFormat;
 }
 
 interface DownloadState {
 	projectId: string;
 	exporting: boolean;
-	exportType: "json" | "mp4";
+	settings: ExportSettings;
 	progress: number;
 	output?: Output;
 	payload?: IDesign;
+	// Render job being polled
+	jobId?: string;
+	error?: string;
 	displayProgressModal: boolean;
 	actions: {
 		setProjectId: (projectId: string) => void;
 		setExporting: (exporting: boolean) => void;
-		setExportType: (exportType: "json" | "mp4") => void;
+		setSettings: (settings: ExportSettings) => void;
 		setProgress: (progress: number) => void;
 		setState: (state: Partial<DownloadState>) => void;
 		setOutput: (output: Output) => void;
 		startExport: () => void;
+		cancelExport: () => Promise<void>;
 		setDisplayProgressModal: (displayProgressModal: boolean) => void;
 	};
 }
@@ -30,51 +42,77 @@ interface DownloadState {
 export const useDownloadState = create<DownloadState>((set, get) => ({
 	projectId: "",
 	exporting: false,
-	exportType: "mp4",
+	settings: DEFAULT_EXPORT_SETTINGS,
 	progress: 0,
 	displayProgressModal: false,
 	actions: {
 		setProjectId: (projectId) => set({ projectId }),
 		setExporting: (exporting) => set({ exporting }),
-		setExportType: (exportType) => set({ exportType }),
+		setSettings: (settings) => set({ settings }),
 		setProgress: (progress) => set({ progress }),
 		setState: (state) => set({ ...state }),
 		setOutput: (output) => set({ output }),
 		setDisplayProgressModal: (displayProgressModal) =>
 			set({ displayProgressModal }),
 		startExport: async () => {
+			const { payload, settings } = get();
+
+			// The design itself needs no rendering
+			if (settings.format === "json" && payload) {
+				const design = settings.range
+					? cropDesignToRange(payload, settings.range)
+					: payload;
+				downloadText(
+					JSON.stringify(design, null, 2),
+					"design.json",
+					"application/json",
+				);
+				return;
+			}
+
 			try {
 				// Set exporting to true at the start
-				set({ exporting: true, displayProgressModal: true });
-
-				// Assume payload to be stored in the state for POST request
-				const { payload } = get();
+				set({
+					exporting: true,
+					displayProgressModal: true,
+					progress: 0,
+					output: undefined,
+					jobId: undefined,
+					error: undefined,
+				});
 
 				if (!payload) throw new Error("Payload is not defined");
 
 				// Step 1: POST request to start rendering
-				const response = await fetch(`/api/render`, {
+				const response = await fetch("/api/render", {
 					method: "POST",
 					headers: {
 						"Content-Type": "application/json",
 					},
 					body: JSON.stringify({
 						design: payload,
+						projectId: get().projectId || undefined,
 						options: {
-							fps: 30,
-							size: payload.size,
-							format: "mp4",
+							...settings,
+							size: getExportSize(payload.size, settings.resolution),
 						},
 					}),
 				});
 
-				if (!response.ok) throw new Error("Failed to submit export request.");
+				if (!response.ok) {
+					const { message } = await response.json().catch(() => ({}));
+					throw new Error(message || "Failed to submit export request.");
+				}
 
 				const jobInfo = await response.json();
 				const videoId = jobInfo.video.id;
+				set({ jobId: videoId });
 
 				// Step 2 & 3: Polling for status updates
 				const checkStatus = async () => {
+					// Cancelled or replaced by another export
+					if (get().jobId !== videoId) return;
+
 					const statusResponse = await fetch(`/api/render/${videoId}`, {
 						headers: {
 							"Content-Type": "application/json",
@@ -85,22 +123,52 @@ export const useDownloadState = create<DownloadState>((set, get) => ({
 						throw new Error("Failed to fetch export status.");
 
 					const statusInfo = await statusResponse.json();
-					const { status, progress, url } = statusInfo.video;
+					const { status, progress, url, error } = statusInfo.video;
 
 					set({ progress });
 
 					if (status === "COMPLETED") {
-						set({ exporting: false, output: { url, type: get().exportType } });
+						set({ exporting: false, output: { url, type: settings.format } });
 					} else if (status === "PENDING") {
-						setTimeout(checkStatus, 2500);
+						setTimeout(() => checkStatus().catch(fail), 2500);
+					} else {
+						set({
+							exporting: false,
+							jobId: undefined,
+							error:
+								status === "CANCELLED"
+									? undefined
+									: error || "Export failed. Please try again.",
+						});
 					}
 				};
 
-				checkStatus();
+				const fail = (error: unknown) => {
+					console.error(error);
+					set({ exporting: false, error: (error as Error).message });
+				};
+
+				checkStatus().catch(fail);
 			} catch (error) {
 				console.error(error);
-				set({ exporting: false });
+				set({ exporting: false, error: (error as Error).message });
 			}
 		},
+		cancelExport: async () => {
+			const { jobId } = get();
+			set({
+				exporting: false,
+				displayProgressModal: false,
+				jobId: undefined,
+				progress: 0,
+			});
+			if (!jobId) return;
+
+			// Local renders stop on the server, remote ones are only abandoned
+			const response = await fetch(`/api/render/${jobId}`, {
+				method: "DELETE",
+			});
+			if (!response.ok) console.warn("Render could not be cancelled");
+		},
 	},
 }));
@@ -57,7 +57,11 @@ interface ProjectStore {
 	updateProjectSettings: (
 		settings: Partial<ProjectData["settings"]>,
 	) => Promise<void>;
-	updateProjectFullEDUs: (fullEDUs: FullEDU[]) => Promise<void>;
+	updateProjectFullEDUs: (
+		fullEDUs: FullEDU[],
+		uploadId: string,
+		language?: string,
+	) => Promise<void>;
 	updateInitialMediaUrl: (url: string) => void;
 	clearInitialMedia: () => Promise<void>;
 	deleteProject: (projectId: string) => Promise<void>;
@@ -77,7 +81,8 @@ interface ProjectStore {
 	) => Promise<void>;
 	syncTranscriptToDatabase: (
 		fullEDUs: FullEDU[],
-		uploadId?: string,
+		uploadId: string,
+		language?: string,
 	) => Promise<void>;
 	forceTimelineSync: () => Promise<void>;
 }
@@ -397,8 +402,12 @@ const useProjectStore = create<ProjectStore>()(
 				debouncedSettingsSync(currentProjectId, userId, settings);
 			},
 
-			// Update project fullEDUs
-			updateProjectFullEDUs: async (fullEDUs: FullEDU[]) => {
+			// Update project fullEDUs, the transcript of one upload
+			updateProjectFullEDUs: async (
+				fullEDUs: FullEDU[],
+				uploadId: string,
+				language?: string,
+			) => {
 				const { currentProjectId, projectData } = get();
 				if (!currentProjectId || !projectData) return;
 
@@ -409,7 +418,7 @@ const useProjectStore = create<ProjectStore>()(
 				set({ projectData: updated });
 
 				// Sync to database
-				await get().syncTranscriptToDatabase(fullEDUs);
+				await get().syncTranscriptToDatabase(fullEDUs, uploadId, language);
 			},
 
 			// Update initial media URL after upload completes
@@ -547,41 +556,25 @@ const useProjectStore = create<ProjectStore>()(
 				debouncedTimelineSync(currentProjectId, userId, timeline);
 			},
 
-			// Sync transcript to database
+			// Sync the transcript of an upload to its transcription
 			syncTranscriptToDatabase: async (
 				fullEDUs: FullEDU[],
-				uploadId?: string,
+				uploadId: string,
+				language?: string,
 			) => {
 				const { projectData, userId } = get();
 				if (!projectData || !userId) return;
 
-				// Use provided uploadId or find the most recent transcribable upload
-				const targetUploadId =
-					uploadId ||
-					projectData.uploads?.find(
-						(u) =>
-							u.contentType?.includes("audio") ||
-							u.contentType?.includes("video"),
-					)?.id;
-
-				if (!targetUploadId) {
-					console.warn("No valid upload found for transcription sync");
-					return;
-				}
-
 				try {
-					await transcriptionActions.saveTranscription(
-						targetUploadId,
-						fullEDUs,
-						{
-							language: "zh", // TODO: Make configurable
-							wordCount: fullEDUs.reduce(
-								(acc, edu) => acc + edu.edu_content.split(/\s+/).length,
-								0,
-							),
-							duration: Math.round(fullEDUs[fullEDUs.length - 1]?.edu_end || 0),
-						},
-					);
+					await transcriptionActions.saveTranscription(uploadId, fullEDUs, {
+						// Without one the transcription keeps its language
+						language,
+						wordCount: fullEDUs.reduce(
+							(acc, edu) => acc + edu.edu_content.split(/\s+/).length,
+							0,
+						),
+						duration: Math.round(fullEDUs[fullEDUs.length - 1]?.edu_end || 0),
+					});
 					set({ lastSyncedAt: new Date() });
 				} catch (error) {
 					console.error("Failed to sync transcript to database:", error);
@@ -0,0 +1,29 @@
+import { create } from "zustand";
+
+// In and out points of the export range, in ms
+interface RangeState {
+	inPoint: number | null;
+	outPoint: number | null;
+	// Setting a point past the other one clears the other point
+	setInPoint: (time: number) => void;
+	setOutPoint: (time: number) => void;
+	clearRange: () => void;
+}
+
+const useRangeStore = create<RangeState>((set) => ({
+	inPoint: null,
+	outPoint: null,
+	setInPoint: (time) =>
+		set(({ outPoint }) => ({
+			inPoint: time,
+			outPoint: outPoint !== null && outPoint <= time ? null : outPoint,
+		})),
+	setOutPoint: (time) =>
+		set(({ inPoint }) => ({
+			outPoint: time,
+			inPoint: inPoint !== null && inPoint >= time ? null : inPoint,
+		})),
+	clearRange: () => set({ inPoint: null, outPoint: null }),
+}));
+
+export default useRangeStore;
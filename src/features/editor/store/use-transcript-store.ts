@@ -1,15 +1,54 @@
 import { create } from "zustand";
-import { FullEDU, TranscriptSegment } from "../transcript/types";
+import { DEFAULT_AUTO_CLEAN_OPTIONS } from "../utils/auto-clean";
+import {
+	assignEDUSpeaker,
+	buildSpeakerRoster,
+	createSpeakerId,
+	mergeSpeakerWords,
+	SPEAKER_COLORS,
+} from "../utils/speakers";
+import {
+	AutoCleanOptions,
+	FullEDU,
+	TimeRange,
+	TranscriptEditMode,
+	TranscriptSegment,
+	TranscriptSource,
+	TranscriptSpeaker,
+	TranscriptView,
+	TranscriptWordSelection,
+} from "../transcript/types";
+import {
+	SourceTimings,
+	TimelineTranscript,
+} from "../utils/timeline-transcript";
 
 interface TranscriptStore {
 	// Source of truth
 	fullEDUs: FullEDU[];
+	uploadId: string | null; // Upload the transcript belongs to, used to persist edits
+	speakers: TranscriptSpeaker[];
+
+	// Transcriptions of the project's uploads
+	sources: TranscriptSource[];
+	view: TranscriptView;
+	// Composition times of the source on display, null when it is not on
+	// the timeline (word times are used as they are)
+	timings: SourceTimings | null;
 
 	// Active states
 	activeEDUIndex: number | null;
 	activeWordGlobalIndex: number | null;
 	isManualSelection: boolean; // Flag to track manual selection
 
+	// Text-based editing
+	editMode: TranscriptEditMode;
+	wordSelection: TranscriptWordSelection | null;
+
+	// Auto clean
+	autoCleanOptions: AutoCleanOptions;
+	autoCleanBatches: string[][]; // Word ids cut by each applied pass, newest last
+
 	// Cached computed properties
 	_flatWordsCache: TranscriptSegment[] | null;
 	_wordIndexMapCache: Map<
@@ -20,18 +59,52 @@ interface TranscriptStore {
 	// Getters for computed properties
 	getFlatWords: () => TranscriptSegment[];
 	getWordIndexMap: () => Map<number, { eduIndex: number; wordIndex: number }>;
+	getSources: () => TranscriptSource[];
 
 	// Actions
-	initEDUs: (edus: FullEDU[]) => void;
+	initEDUs: (
+		edus: FullEDU[],
+		source?: { uploadId: string | null; speakers?: TranscriptSpeaker[] },
+	) => void;
+	setSources: (sources: TranscriptSource[]) => void;
+	upsertSource: (source: TranscriptSource) => void;
+	setSourceTranslation: (
+		uploadId: string,
+		language: string,
+		fullEDUs: FullEDU[],
+	) => void;
+	showSource: (uploadId: string) => void;
+	showTimeline: () => void;
+	setTimelineTranscript: (transcript: TimelineTranscript) => void;
+	applySourceTimings: (timings: SourceTimings | null) => void;
 	setActiveEDUByTime: (currentTimeMs: number) => void;
 	setActiveEDUByIndex: (index: number) => void;
 	clearManualSelection: () => void;
+	setEditMode: (mode: TranscriptEditMode) => void;
+	selectWord: (globalIndex: number, extend?: boolean) => void;
+	clearWordSelection: () => void;
+	setWordsCut: (wordIds: string[], isCut: boolean) => void;
+	replaceEDUs: (edus: FullEDU[]) => void;
+	setAutoCleanOptions: (options: Partial<AutoCleanOptions>) => void;
+	pushAutoCleanBatch: (wordIds: string[]) => void;
+	removeAutoCleanBatch: (wordIds: string[]) => void;
+	updateSpeaker: (
+		id: string,
+		changes: Partial<Omit<TranscriptSpeaker, "id">>,
+	) => void;
+	addSpeaker: (name?: string) => TranscriptSpeaker;
+	mergeSpeakers: (fromId: string, intoId: string) => void;
+	assignEDUSpeaker: (eduIndex: number, speakerId: string) => void;
 
 	// Utilities
+	getWordTimeRange: (word: TranscriptSegment) => TimeRange | null;
+	getEDUTimeRange: (edu: FullEDU) => TimeRange | null;
 	getEDUAtTime: (timeMs: number) => FullEDU | null;
 	getWordAtTime: (
 		timeMs: number,
 	) => { word: TranscriptSegment; eduIndex: number } | null;
+	getSelectedWords: () => TranscriptSegment[];
+	getCutWordIds: () => string[];
 
 	// Cache management
 	invalidateCaches: () => void;
@@ -40,12 +113,27 @@ interface TranscriptStore {
 const useTranscriptStore = create<TranscriptStore>((set, get) => ({
 	// Source of truth
 	fullEDUs: [],
+	uploadId: null,
+	speakers: [],
+
+	// Transcriptions of the project's uploads
+	sources: [],
+	view: "source",
+	timings: null,
 
 	// Active states
 	activeEDUIndex: null,
 	activeWordGlobalIndex: null,
 	isManualSelection: false,
 
+	// Text-based editing
+	editMode: "select",
+	wordSelection: null,
+
+	// Auto clean
+	autoCleanOptions: DEFAULT_AUTO_CLEAN_OPTIONS,
+	autoCleanBatches: [],
+
 	// Cached computed properties
 	_flatWordsCache: null,
 	_wordIndexMapCache: null,
@@ -84,10 +172,140 @@ const useTranscriptStore = create<TranscriptStore>((set, get) => ({
 		return get()._wordIndexMapCache || new Map();
 	},
 
+	// Sources with the edits made to the one on display
+	getSources: () => {
+		const { sources, view, uploadId, fullEDUs, speakers } = get();
+		if (view !== "source" || !uploadId) return sources;
+		return sources.map((source) =>
+			source.uploadId === uploadId ? { ...source, fullEDUs, speakers } : source,
+		);
+	},
+
 	// Actions
-	initEDUs: (edus) => {
+	initEDUs: (edus, source) => {
+		// Without a source the EDUs replace the current transcript's content
+		const uploadId = source ? source.uploadId : get().uploadId;
+		const savedSpeakers = source ? source.speakers : get().speakers;
 		set({
 			fullEDUs: edus.sort((a, b) => a.edu_start - b.edu_start),
+			uploadId,
+			view: source ? "source" : get().view,
+			timings: null,
+			speakers: buildSpeakerRoster(edus, savedSpeakers),
+			wordSelection: null,
+			autoCleanBatches: [],
+			_flatWordsCache: null,
+			_wordIndexMapCache: null,
+		});
+	},
+
+	setSources: (sources) => {
+		set({ sources });
+
+		// Several clips read best in timeline order
+		if (sources.length > 1) {
+			get().showTimeline();
+		} else if (sources.length === 1) {
+			get().showSource(sources[0].uploadId);
+		}
+	},
+
+	upsertSource: (source) => {
+		const { view, uploadId, fullEDUs } = get();
+		set({
+			sources: [
+				...get()
+					.getSources()
+					.filter((entry) => entry.uploadId !== source.uploadId),
+				source,
+			],
+		});
+
+		// Refresh the display when it shows this upload or nothing yet;
+		// the timeline view follows the sources on its own
+		if (
+			view === "source" &&
+			(uploadId === source.uploadId || fullEDUs.length === 0)
+		) {
+			get().showSource(source.uploadId);
+		}
+	},
+
+	setSourceTranslation: (uploadId, language, fullEDUs) => {
+		set({
+			sources: get()
+				.getSources()
+				.map((source) =>
+					source.uploadId === uploadId
+						? {
+								...source,
+								translations: {
+									...source.translations,
+									[language]: fullEDUs,
+								},
+							}
+						: source,
+				),
+		});
+	},
+
+	showSource: (uploadId) => {
+		const sources = get().getSources();
+		const source = sources.find((entry) => entry.uploadId === uploadId);
+		if (!source) return;
+
+		set({ sources });
+		get().initEDUs(source.fullEDUs, {
+			uploadId,
+			speakers: source.speakers,
+		});
+	},
+
+	showTimeline: () => {
+		set({
+			sources: get().getSources(),
+			view: "timeline",
+			uploadId: null,
+			timings: null,
+		});
+	},
+
+	setTimelineTranscript: ({ fullEDUs, speakers }) => {
+		if (get().view !== "timeline") return;
+		set({
+			fullEDUs,
+			speakers,
+			wordSelection: null,
+			autoCleanBatches: [],
+			_flatWordsCache: null,
+			_wordIndexMapCache: null,
+		});
+	},
+
+	applySourceTimings: (timings) => {
+		// Words no item plays are marked unplayed, kept apart from user cuts
+		const needsUpdate = (word: TranscriptSegment) =>
+			!!word.isUnplayed !== (!!timings && !timings.words[word.id]);
+		const fullEDUs = get().fullEDUs.map((edu) =>
+			edu.words.some(needsUpdate)
+				? {
+						...edu,
+						words: edu.words.map((word: TranscriptSegment) =>
+							needsUpdate(word)
+								? { ...word, isUnplayed: !word.isUnplayed || undefined }
+								: word,
+						),
+					}
+				: edu,
+		);
+
+		if (fullEDUs.every((edu, index) => edu === get().fullEDUs[index])) {
+			set({ timings });
+			return;
+		}
+		set({
+			timings,
+			fullEDUs,
 			_flatWordsCache: null,
 			_wordIndexMapCache: null,
 		});
@@ -120,10 +338,136 @@ const useTranscriptStore = create<TranscriptStore>((set, get) => ({
 		set({ isManualSelection: false });
 	},
 
+	setEditMode: (mode) => {
+		set({ editMode: mode });
+	},
+
+	selectWord: (globalIndex, extend = false) => {
+		const current = get().wordSelection;
+		set({
+			wordSelection:
+				extend && current
+					? { anchor: current.anchor, focus: globalIndex }
+					: { anchor: globalIndex, focus: globalIndex },
+		});
+	},
+
+	clearWordSelection: () => {
+		set({ wordSelection: null });
+	},
+
+	setWordsCut: (wordIds, isCut) => {
+		const ids = new Set(wordIds);
+		// Rebuild only the EDUs that contain affected words so React picks up the change
+		const fullEDUs = get().fullEDUs.map((edu) =>
+			edu.words.some((word: TranscriptSegment) => ids.has(word.id))
+				? {
+						...edu,
+						words: edu.words.map((word: TranscriptSegment) =>
+							ids.has(word.id) ? { ...word, isCut } : word,
+						),
+					}
+				: edu,
+		);
+		set({
+			fullEDUs,
+			_flatWordsCache: null,
+			_wordIndexMapCache: null,
+		});
+	},
+
+	replaceEDUs: (edus) => {
+		const replacements = new Map(edus.map((edu) => [edu.edu_index, edu]));
+		set({
+			fullEDUs: get().fullEDUs.map(
+				(edu) => replacements.get(edu.edu_index) || edu,
+			),
+			// Word counts may have changed, global indexes no longer line up
+			wordSelection: null,
+			_flatWordsCache: null,
+			_wordIndexMapCache: null,
+		});
+	},
+
+	setAutoCleanOptions: (options) => {
+		set({ autoCleanOptions: { ...get().autoCleanOptions, ...options } });
+	},
+
+	pushAutoCleanBatch: (wordIds) => {
+		set({ autoCleanBatches: [...get().autoCleanBatches, wordIds] });
+	},
+
+	removeAutoCleanBatch: (wordIds) => {
+		set({
+			autoCleanBatches: get().autoCleanBatches.filter(
+				(batch) => batch !== wordIds,
+			),
+		});
+	},
+
+	updateSpeaker: (id, changes) => {
+		set({
+			speakers: get().speakers.map((speaker) =>
+				speaker.id === id ? { ...speaker, ...changes } : speaker,
+			),
+		});
+	},
+
+	addSpeaker: (name) => {
+		const speakers = get().speakers;
+		const speaker: TranscriptSpeaker = {
+			id: createSpeakerId(speakers),
+			name: name || `Speaker ${speakers.length + 1}`,
+			color: SPEAKER_COLORS[speakers.length % SPEAKER_COLORS.length],
+		};
+		set({ speakers: [...speakers, speaker] });
+		return speaker;
+	},
+
+	mergeSpeakers: (fromId, intoId) => {
+		if (fromId === intoId) return;
+		set({
+			fullEDUs: mergeSpeakerWords(get().fullEDUs, fromId, intoId),
+			speakers: get().speakers.filter((speaker) => speaker.id !== fromId),
+			_flatWordsCache: null,
+			_wordIndexMapCache: null,
+		});
+	},
+
+	assignEDUSpeaker: (eduIndex, speakerId) => {
+		set({
+			fullEDUs: assignEDUSpeaker(get().fullEDUs, eduIndex, speakerId),
+			_flatWordsCache: null,
+			_wordIndexMapCache: null,
+		});
+	},
+
+	getWordTimeRange: (word) => {
+		const timings = get().timings;
+		if (timings) return timings.words[word.id] || null;
+		return { startTime: word.start, endTime: word.end };
+	},
+
+	getEDUTimeRange: (edu) => {
+		const timings = get().timings;
+		if (timings) return timings.edus[edu.edu_index] || null;
+		return { startTime: edu.edu_start, endTime: edu.edu_end };
+	},
+
 	getEDUAtTime: (timeMs) => {
 		// Find EDU where time is within the range
 		const edus = get().fullEDUs;
 
+		const timings = get().timings;
+		if (timings) {
+			return (
+				edus.find((edu) => {
+					const range = timings.edus[edu.edu_index];
+					return range && timeMs >= range.startTime && timeMs < range.endTime;
+				}) || null
+			);
+		}
+
 		// First, try to find an EDU that starts exactly at this time
 		const exactStartMatch = edus.find((edu) => edu.edu_start === timeMs);
 		if (exactStartMatch) return exactStartMatch;
@@ -138,14 +482,19 @@ const useTranscriptStore = create<TranscriptStore>((set, get) => ({
 	getWordAtTime: (timeMs) => {
 		// Find the specific word at this time
 		const edus = get().fullEDUs;
+		const { getWordTimeRange } = get();
 
 		for (let eduIndex = 0; eduIndex < edus.length; eduIndex++) {
 			const edu = edus[eduIndex];
 			if (edu.words && Array.isArray(edu.words)) {
 				for (const word of edu.words) {
 					// Check if word is a TranscriptSegment with timing
-					if (word.start !== undefined && word.end !== undefined) {
-						if (timeMs >= word.start && timeMs < word.end) {
+					const range =
+						word.start !== undefined && word.end !== undefined
+							? getWordTimeRange(word)
+							: null;
+					if (range) {
+						if (timeMs >= range.startTime && timeMs < range.endTime) {
 							return { word, eduIndex };
 						}
 					}
@@ -155,6 +504,24 @@ const useTranscriptStore = create<TranscriptStore>((set, get) => ({
 		return null;
 	},
 
+	getSelectedWords: () => {
+		const selection = get().wordSelection;
+		if (!selection) return [];
+
+		const start = Math.min(selection.anchor, selection.focus);
+		const end = Math.max(selection.anchor, selection.focus);
+		return get()
+			.getFlatWords()
+			.slice(start, end + 1);
+	},
+
+	getCutWordIds: () => {
+		return get()
+			.getFlatWords()
+			.filter((word) => word.isCut)
+			.map((word) => word.id);
+	},
+
 	invalidateCaches: () => {
 		set({
 			_flatWordsCache: null,
@@ -1,4 +1,4 @@
-import { transcribeAction } from "@/app/(edit)/actions/transcribe";
+import { queueTranscriptionAction } from "@/app/(edit)/actions/transcribe";
 import * as transcriptionActions from "@/app/(edit)/actions/transcriptions";
 import * as uploadActions from "@/app/(edit)/actions/uploads";
 import { isTranscribableMedia } from "@/lib/transcription/client-utils";
@@ -58,12 +58,21 @@ interface IUploadStore {
 		string,
 		"idle" | "processing" | "completed" | "failed"
 	>;
+	// Progress (0-100) of background transcription jobs
+	transcriptionProgress: Record<string, number>;
 	transcriptions: Record<string, FullEDU[]>;
-	startTranscription: (uploadId: string, url?: string) => Promise<void>;
+	startTranscription: (
+		uploadId: string,
+		url?: string,
+		options?: { force?: boolean },
+	) => Promise<void>;
+	pollTranscription: (uploadId: string) => Promise<void>;
+	resumeTranscriptions: (uploadIds: string[]) => Promise<void>;
 	completeTranscription: (
 		uploadId: string,
 		edus: FullEDU[],
 		autoSplit?: boolean,
+		persist?: boolean,
 	) => Promise<void>;
 	setTranscriptionStatus: (
 		uploadId: string,
@@ -73,6 +82,57 @@ interface IUploadStore {
 	getTranscription: (uploadId: string) => FullEDU[] | undefined;
 }
 
+interface TranscriptionJobStatus {
+	status: "pending" | "processing" | "completed" | "failed";
+	progress: number;
+	error?: string | null;
+}
+
+const TRANSCRIPTION_POLL_INTERVAL_MS = 2000;
+// Longest wait between polls while the status can't be fetched
+const TRANSCRIPTION_POLL_MAX_BACKOFF_MS = 30000;
+// Consecutive failed polls before the transcription is given up on
+const TRANSCRIPTION_POLL_MAX_FAILURES = 10;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// The job keeps running on the server, so fetch errors back off and retry
+const getPollBackoff = (failures: number) =>
+	Math.min(
+		TRANSCRIPTION_POLL_INTERVAL_MS * 2 ** failures,
+		TRANSCRIPTION_POLL_MAX_BACKOFF_MS,
+	);
+
+class TranscriptionStatusError extends Error {
+	constructor(
+		message: string,
+		public status: number,
+	) {
+		super(message);
+		this.name = "TranscriptionStatusError";
+	}
+}
+
+// Uploads whose transcription status is being polled
+const activeTranscriptionPolls = new Set<string>();
+
+const fetchTranscriptionStatus = async (
+	uploadId: string,
+): Promise<TranscriptionJobStatus> => {
+	const response = await fetch(
+		`/api/transcribe/status?uploadId=${encodeURIComponent(uploadId)}`,
+		{ cache: "no-store" },
+	);
+	const data = await response.json().catch(() => ({}));
+	if (!response.ok || !data.success) {
+		throw new TranscriptionStatusError(
+			data.error || "Failed to get transcription status",
+			response.status,
+		);
+	}
+	return data;
+};
+
 const useUploadStore = create<IUploadStore>()(
 	persist(
 		(set, get) => ({
@@ -390,9 +450,14 @@ const useUploadStore = create<IUploadStore>()(
 
 			// Transcription implementation
 			transcriptionStatus: {},
+			transcriptionProgress: {},
 			transcriptions: {},
 
-			startTranscription: async (uploadId: string, url?: string) => {
+			startTranscription: async (
+				uploadId: string,
+				url?: string,
+				options: { force?: boolean } = {},
+			) => {
 				console.log("🎤 Starting transcription for:", uploadId, "URL:", url);
 
 				set((state) => ({
@@ -400,6 +465,10 @@ const useUploadStore = create<IUploadStore>()(
 						...state.transcriptionStatus,
 						[uploadId]: "processing",
 					},
+					transcriptionProgress: {
+						...state.transcriptionProgress,
+						[uploadId]: 0,
+					},
 				}));
 
 				// If no URL provided, just set status (for mock data case)
@@ -410,63 +479,155 @@ const useUploadStore = create<IUploadStore>()(
 
 				// Show toast notification
 				toast.info("Transcribing audio...", {
-					description: "This may take a moment",
+					description: "You can keep editing while this runs",
 					duration: 5000,
 				});
 
-				try {
-					// TODO: Make language configurable - defaulting to Chinese for now
-					const language = "zh"; // TODO: add language selector in UI
-					console.log(`📝 Calling transcribeAction with language: ${language}`);
+				// TODO: Make language configurable - defaulting to Chinese for now
+				const language = "zh"; // TODO: add language selector in UI
+				console.log(`📝 Queueing transcription with language: ${language}`);
+
+				// The server transcribes in the background, we only poll its status
+				const result = await queueTranscriptionAction(
+					uploadId,
+					language,
+					options,
+				);
+				if (!result.success) {
+					console.error("❌ Failed to queue transcription:", result.error);
+					toast.error("Transcription failed", {
+						description: result.error || "Failed to queue transcription",
+					});
+					get().setTranscriptionStatus(uploadId, "failed");
+					return;
+				}
 
-					const edus = await transcribeAction(url, language);
+				await get().pollTranscription(uploadId);
+			},
 
-					// Show success toast
-					toast.success("Transcription complete", {
-						description: `${edus.length} segments processed`,
-					});
+			pollTranscription: async (uploadId: string) => {
+				// One poller per upload
+				if (activeTranscriptionPolls.has(uploadId)) return;
+				activeTranscriptionPolls.add(uploadId);
 
-					// Use completeTranscription to handle everything including auto-split
-					get().completeTranscription(uploadId, edus, true);
-				} catch (error) {
+				const fail = (error?: string | null) => {
 					console.error("❌ Transcription failed:", error);
+					toast.error("Transcription failed", {
+						description: error || "Failed to transcribe audio",
+					});
+					get().setTranscriptionStatus(uploadId, "failed");
+				};
 
-					// Show error toast
-					let errorMessage = "Failed to transcribe audio";
-					if (error instanceof Error) {
-						console.error("Error details:", error.message);
+				// Fetch errors are retried a while, client errors won't go away
+				let failures = 0;
+				const retry = async (error: unknown) => {
+					if (
+						(error instanceof TranscriptionStatusError &&
+							error.status >= 400 &&
+							error.status < 500) ||
+						failures >= TRANSCRIPTION_POLL_MAX_FAILURES
+					) {
+						fail(
+							error instanceof Error
+								? error.message
+								: (error as string | undefined),
+						);
+						return false;
+					}
 
-						// Check for specific error types
-						if (error.message.includes("authentication")) {
-							errorMessage = "API key issue - check settings";
-							console.error(
-								"🔑 API Key Issue: Please check ELEVENLABS_API_KEY in .env file",
-							);
-						} else if (error.message.includes("language")) {
-							errorMessage = "Language not supported";
-							console.error(
-								"🌐 Language Issue: The specified language may not be supported",
+					failures++;
+					console.warn(
+						`⚠️ Transcription status unavailable, retry ${failures}:`,
+						error,
+					);
+					await wait(getPollBackoff(failures));
+					return true;
+				};
+
+				try {
+					while (true) {
+						let status: TranscriptionJobStatus;
+						try {
+							status = await fetchTranscriptionStatus(uploadId);
+						} catch (error) {
+							if (await retry(error)) continue;
+							return;
+						}
+
+						if (status.status === "completed") {
+							const result =
+								await transcriptionActions.getTranscription(uploadId);
+							if (!result.success || !result.fullEDUs) {
+								if (await retry(result.error)) continue;
+								return;
+							}
+
+							toast.success("Transcription complete", {
+								description: `${result.fullEDUs.length} segments processed`,
+							});
+
+							// Already saved by the job runner
+							await get().completeTranscription(
+								uploadId,
+								result.fullEDUs,
+								true,
+								false,
 							);
+							return;
 						}
-					}
 
-					toast.error("Transcription failed", {
-						description: errorMessage,
-					});
+						if (status.status === "failed") {
+							fail(status.error);
+							return;
+						}
 
-					set((state) => ({
-						transcriptionStatus: {
-							...state.transcriptionStatus,
-							[uploadId]: "failed",
-						},
-					}));
+						failures = 0;
+						// Pending jobs, including ones waiting for a retry, show as processing
+						set((state) => ({
+							transcriptionStatus: {
+								...state.transcriptionStatus,
+								[uploadId]: "processing",
+							},
+							transcriptionProgress: {
+								...state.transcriptionProgress,
+								[uploadId]: status.progress,
+							},
+						}));
+
+						await wait(TRANSCRIPTION_POLL_INTERVAL_MS);
+					}
+				} catch (error) {
+					console.error("❌ Failed to load finished transcription:", error);
+				} finally {
+					activeTranscriptionPolls.delete(uploadId);
 				}
 			},
 
+			resumeTranscriptions: async (uploadIds: string[]) => {
+				await Promise.all(
+					uploadIds.map(async (uploadId) => {
+						try {
+							const status = await fetchTranscriptionStatus(uploadId);
+							if (
+								status.status === "pending" ||
+								status.status === "processing"
+							) {
+								await get().pollTranscription(uploadId);
+							} else {
+								get().setTranscriptionStatus(uploadId, status.status);
+							}
+						} catch {
+							// No transcription job for this upload
+						}
+					}),
+				);
+			},
+
 			completeTranscription: async (
 				uploadId: string,
 				edus: FullEDU[],
 				autoSplit = true,
+				persist = true,
 			) => {
 				set((state) => ({
 					transcriptions: {
@@ -481,11 +642,13 @@ const useUploadStore = create<IUploadStore>()(
 
 				// Load into TranscriptStore for display
 				if (edus.length > 0) {
-					useTranscriptStore.getState().initEDUs(edus);
+					useTranscriptStore
+						.getState()
+						.upsertSource({ uploadId, fullEDUs: edus, speakers: [] });
 
 					// Save to database immediately
 					const projectStore = useProjectStore.getState();
-					if (projectStore.userId) {
+					if (persist && projectStore.userId) {
 						try {
 							// uploadId should already be the database UUID
 							console.log(`📝 Saving transcription for upload ID ${uploadId}`);
@@ -0,0 +1,86 @@
+import { Resizable, ResizableProps } from "@designcombo/timeline";
+import { IDisplay } from "@designcombo/types";
+import { SECONDARY_FONT } from "../../constants/constants";
+import { drawKeyframes } from "./keyframes";
+
+interface AudioBarsProps extends ResizableProps {
+	tScale: number;
+	display: IDisplay;
+}
+
+// Bar heights of the icon, as fractions of its height
+const ICON_BARS = [0.4, 0.8, 1, 0.6, 0.3];
+
+/**
+ * Timeline item of an audio visualizer
+ * Each visualizer kind registers its own subclass so the timeline can find
+ * it by item type
+ */
+class AudioBars extends Resizable {
+	declare id: string;
+	label = "Visualizer";
+
+	constructor(props: AudioBarsProps) {
+		super(props);
+		this.fill = "#3b3152";
+		this.id = props.id;
+		this.borderColor = "transparent";
+		this.stroke = "transparent";
+	}
+
+	public _render(ctx: CanvasRenderingContext2D) {
+		super._render(ctx);
+		this.drawAudioBarsIdentity(ctx);
+		drawKeyframes(ctx, this);
+		this.updateSelected(ctx);
+	}
+
+	public drawAudioBarsIdentity(ctx: CanvasRenderingContext2D) {
+		ctx.save();
+		ctx.translate(-this.width / 2, -this.height / 2);
+
+		// Clip to the item so short items don't overflow
+		ctx.beginPath();
+		ctx.rect(0, 0, this.width, this.height);
+		ctx.clip();
+
+		ctx.fillStyle = "rgba(255, 255, 255, 0.75)";
+		const iconHeight = 12;
+		const top = this.height / 2 - iconHeight / 2;
+		for (const [index, value] of ICON_BARS.entries()) {
+			const barHeight = iconHeight * value;
+			ctx.fillRect(
+				10 + index * 4,
+				top + (iconHeight - barHeight) / 2,
+				2,
+				barHeight,
+			);
+		}
+
+		ctx.font = `400 12px ${SECONDARY_FONT}`;
+		ctx.textAlign = "left";
+		ctx.textBaseline = "middle";
+		ctx.fillText(this.label, 36, this.height / 2);
+		ctx.restore();
+	}
+}
+
+export class LinealAudioBars extends AudioBars {
+	static type = "LinealAudioBars";
+	label = "Lineal bars";
+}
+
+export class RadialAudioBars extends AudioBars {
+	static type = "RadialAudioBars";
+	label = "Radial bars";
+}
+
+export class WaveAudioBars extends AudioBars {
+	static type = "WaveAudioBars";
+	label = "Wave";
+}
+
+export class HillAudioBars extends AudioBars {
+	static type = "HillAudioBars";
+	label = "Hills";
+}
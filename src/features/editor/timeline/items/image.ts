@@ -5,6 +5,7 @@ import {
 	util,
 	Control,
 } from "@designcombo/timeline";
+import { drawKeyframes } from "./keyframes";
 
 interface ImageProps extends ResizableProps {
 	src: string;
@@ -26,6 +27,7 @@ class Image extends Resizable {
 
 	public _render(ctx: CanvasRenderingContext2D) {
 		super._render(ctx);
+		drawKeyframes(ctx, this);
 		this.updateSelected(ctx);
 	}
 
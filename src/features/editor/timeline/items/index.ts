@@ -3,3 +3,9 @@ export { default as Image } from "./image";
 export { default as Text } from "./text";
 export { default as Video } from "./video";
 export { default as Subtitle } from "./subtitle";
+export {
+	LinealAudioBars,
+	RadialAudioBars,
+	WaveAudioBars,
+	HillAudioBars,
+} from "./audio-bars";
@@ -0,0 +1,156 @@
+import { Control, Rect, util } from "@designcombo/timeline";
+import useStore from "../../store/use-store";
+import {
+	getKeyframeTimes,
+	getKeyframes,
+	retimeKeyframes,
+	updateItemKeyframes,
+} from "../../utils/keyframes";
+
+const DIAMOND_SIZE = 8;
+// Distance of the diamonds from the bottom edge of the item
+const DIAMOND_OFFSET = 8;
+const CONTROL_PREFIX = "keyframe:";
+
+interface KeyframeDrag {
+	from: number;
+	to: number;
+}
+
+// Resizable and trimmable items alike
+type KeyframedItem = Rect & {
+	id: string;
+	keyframeDrag?: KeyframeDrag | null;
+	keyframeTimesKey?: string;
+};
+
+const getItemKeyframeTimes = (id: string) => {
+	const item = useStore.getState().trackItemsMap[id];
+	if (!item) return { times: [], duration: 0 };
+	return {
+		times: getKeyframeTimes(getKeyframes(item.details)),
+		duration: item.display.to - item.display.from,
+	};
+};
+
+// Where a keyframe sits across the item, from -0.5 to 0.5
+const getRelativeX = (time: number, duration: number) =>
+	duration > 0 ? time / duration - 0.5 : -0.5;
+
+const getDragTime = (object: KeyframedItem, time: number) =>
+	object.keyframeDrag && Math.abs(object.keyframeDrag.from - time) < 1
+		? object.keyframeDrag.to
+		: time;
+
+/**
+ * Control on a keyframe time, dragging it retimes every keyframe there
+ * The diamond itself is drawn with the item, the control only takes the drag
+ */
+const createKeyframeControl = (time: number) =>
+	new Control({
+		x: 0,
+		y: 0.5,
+		sizeX: DIAMOND_SIZE + 4,
+		sizeY: DIAMOND_SIZE + 4,
+		cursorStyle: "ew-resize",
+		actionName: "keyframe",
+		positionHandler: (dim, finalMatrix, fabricObject) => {
+			const object = fabricObject as KeyframedItem;
+			const { duration } = getItemKeyframeTimes(object.id);
+			const x = getRelativeX(getDragTime(object, time), duration);
+			return util.transformPoint(
+				{ x: x * dim.x, y: dim.y / 2 - DIAMOND_OFFSET },
+				finalMatrix,
+			);
+		},
+		actionHandler: (_, transform, x, y) => {
+			const object = transform.target as KeyframedItem;
+			const { duration } = getItemKeyframeTimes(object.id);
+			const local = util.transformPoint(
+				{ x, y },
+				util.invertTransform(object.calcTransformMatrix()),
+			);
+			// Keyframes snap to frames and stay on the item
+			const frameMs = 1000 / useStore.getState().fps;
+			const to = Math.min(
+				Math.max(
+					Math.round(((local.x / object.width + 0.5) * duration) / frameMs) *
+						frameMs,
+					0,
+				),
+				duration,
+			);
+			object.keyframeDrag = { from: time, to };
+			object.setCoords();
+			object.canvas?.requestRenderAll();
+			// Nothing on the item itself changed, so the timeline has nothing to save
+			return false;
+		},
+		mouseUpHandler: (_, transform) => {
+			const object = transform.target as KeyframedItem;
+			const drag = object.keyframeDrag;
+			object.keyframeDrag = null;
+			if (!drag || Math.abs(drag.to - drag.from) < 1) return false;
+			const item = useStore.getState().trackItemsMap[object.id];
+			if (item) {
+				updateItemKeyframes(
+					object.id,
+					retimeKeyframes(getKeyframes(item.details), drag.from, drag.to),
+				);
+			}
+			return true;
+		},
+		render: () => {},
+	});
+
+/**
+ * Keeps one control per keyframe time on the item
+ */
+const syncKeyframeControls = (object: KeyframedItem, times: number[]) => {
+	const key = times.join(",");
+	if (object.keyframeTimesKey === key) return;
+	object.keyframeTimesKey = key;
+
+	const controls = Object.fromEntries(
+		Object.entries(object.controls).filter(
+			([name]) => !name.startsWith(CONTROL_PREFIX),
+		),
+	);
+	for (const time of times) {
+		controls[`${CONTROL_PREFIX}${time}`] = createKeyframeControl(time);
+	}
+	object.controls = controls;
+	object.setCoords();
+};
+
+/**
+ * Draws the item's keyframes as diamonds along its bottom edge
+ */
+export const drawKeyframes = (
+	ctx: CanvasRenderingContext2D,
+	object: Rect & { id: string },
+) => {
+	const item = object as KeyframedItem;
+	const { times, duration } = getItemKeyframeTimes(item.id);
+	syncKeyframeControls(item, times);
+	if (!times.length) return;
+
+	ctx.save();
+	ctx.fillStyle = "rgba(255, 255, 255, 0.9)";
+	ctx.strokeStyle = "rgba(0, 0, 0, 0.6)";
+	ctx.lineWidth = 1;
+	const half = DIAMOND_SIZE / 2;
+	const y = item.height / 2 - DIAMOND_OFFSET;
+	for (const time of times) {
+		const x = getRelativeX(getDragTime(item, time), duration) * item.width;
+		ctx.beginPath();
+		ctx.moveTo(x, y - half);
+		ctx.lineTo(x + half, y);
+		ctx.lineTo(x, y + half);
+		ctx.lineTo(x - half, y);
+		ctx.closePath();
+		ctx.fill();
+		ctx.stroke();
+	}
+	ctx.restore();
+};
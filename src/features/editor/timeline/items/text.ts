@@ -1,6 +1,7 @@
 import { Control, Resizable, ResizableProps } from "@designcombo/timeline";
 import { IDisplay } from "@designcombo/types";
 import { SECONDARY_FONT } from "../../constants/constants";
+import { drawKeyframes } from "./keyframes";
 
 interface TextProps extends ResizableProps {
 	text: string;
@@ -26,6 +27,7 @@ class Text extends Resizable {
 	public _render(ctx: CanvasRenderingContext2D) {
 		super._render(ctx);
 		this.drawTextIdentity(ctx);
+		drawKeyframes(ctx, this);
 		this.updateSelected(ctx);
 	}
 
@@ -15,6 +15,7 @@ import {
 } from "../../utils/filmstrip";
 import { getFileFromUrl } from "../../utils/file";
 import { SECONDARY_FONT } from "../../constants/constants";
+import { drawKeyframes } from "./keyframes";
 
 // Type declaration for MP4Clip to avoid SSR issues
 type MP4ClipType = any;
@@ -374,6 +375,7 @@ class Video extends Trimmable {
 
 		ctx.restore();
 		// this.drawTextIdentity(ctx);
+		drawKeyframes(ctx, this);
 		this.updateSelected(ctx);
 	}
 
@@ -7,10 +7,17 @@ import {
 	TIMELINE_OFFSET_CANVAS_LEFT,
 } from "../constants/constants";
 import { formatTimelineUnit } from "../utils/format";
+import { timeMsToUnits } from "../utils/timeline";
 import useStore from "../store/use-store";
 import { debounce } from "lodash";
 import { useTimelineOffsetX } from "../hooks/use-timeline-offset";
 
+export interface RulerMarker {
+	id: string;
+	time: number; // ms
+	label: string;
+}
+
 interface RulerProps {
 	height?: number;
 	longLineSize?: number;
@@ -19,6 +26,10 @@ interface RulerProps {
 	textOffsetY?: number;
 	scrollLeft?: number;
 	textFormat?: (scale: number) => string;
+	markers?: RulerMarker[];
+	// Export range points, in ms
+	inPoint?: number | null;
+	outPoint?: number | null;
 	onClick?: (units: number) => void;
 	onScroll?: (scrollLeft: number) => void;
 }
@@ -33,10 +44,13 @@ const Ruler = (props: RulerProps) => {
 		textOffsetY = 17, // Place the text above the lines but inside the canvas
 		textFormat = formatTimelineUnit,
 		scrollLeft = 0,
+		markers,
+		inPoint = null,
+		outPoint = null,
 		onClick,
 		onScroll,
 	} = props;
-	const { scale } = useStore();
+	const { scale, duration } = useStore();
 	const canvasRef = useRef<HTMLCanvasElement | null>(null);
 	const [canvasContext, setCanvasContext] =
 		useState<CanvasRenderingContext2D | null>(null);
@@ -81,7 +95,16 @@ const Ruler = (props: RulerProps) => {
 		if (canvasContext) {
 			resize(canvasRef.current, canvasContext, scrollLeft);
 		}
-	}, [canvasContext, scrollLeft, scale, timelineOffsetX]);
+	}, [
+		canvasContext,
+		scrollLeft,
+		scale,
+		timelineOffsetX,
+		markers,
+		inPoint,
+		outPoint,
+		duration,
+	]);
 
 	const resize = (
 		canvas: HTMLCanvasElement | null,
@@ -186,6 +209,85 @@ const Ruler = (props: RulerProps) => {
 		}
 
 		context.restore();
+
+		if (inPoint !== null || outPoint !== null) {
+			drawRange(context, scrollLeft, width, height);
+		}
+		if (markers?.length) drawMarkers(context, scrollLeft, width, height);
+	};
+
+	const drawRange = (
+		context: CanvasRenderingContext2D,
+		scrollLeft: number,
+		width: number,
+		height: number,
+	) => {
+		const toX = (time: number) =>
+			Math.round(timeMsToUnits(time, scale.zoom) - scrollLeft + offsetX);
+		const startX = toX(inPoint ?? 0);
+		const endX = toX(outPoint ?? duration);
+
+		context.save();
+		context.fillStyle = "rgba(56, 189, 248, 0.15)";
+		context.fillRect(startX, 0, endX - startX, height);
+
+		// Brackets open towards the inside of the range
+		context.fillStyle = "#38bdf8";
+		const drawBracket = (x: number, direction: 1 | -1) => {
+			if (x < -6 || x > width + 6) return;
+			context.fillRect(x, 0, 1, height);
+			context.fillRect(direction === 1 ? x : x - 5, 0, 6, 2);
+			context.fillRect(direction === 1 ? x : x - 5, height - 2, 6, 2);
+		};
+		if (inPoint !== null) drawBracket(startX, 1);
+		if (outPoint !== null) drawBracket(endX, -1);
+		context.restore();
+	};
+
+	const drawMarkers = (
+		context: CanvasRenderingContext2D,
+		scrollLeft: number,
+		width: number,
+		height: number,
+	) => {
+		context.save();
+		context.font = `${SMALL_FONT_SIZE}px ${SECONDARY_FONT}`;
+		context.textBaseline = "top";
+
+		const positions = (markers || [])
+			.map((marker) => ({
+				marker,
+				x: Math.round(
+					timeMsToUnits(marker.time, scale.zoom) - scrollLeft + offsetX,
+				),
+			}))
+			.sort((a, b) => a.x - b.x);
+
+		positions.forEach(({ marker, x }, index) => {
+			if (x < -1 || x > width) return;
+
+			context.fillStyle = "#f59e0b";
+			context.fillRect(x, 0, 1, height);
+			context.beginPath();
+			context.moveTo(x, 0);
+			context.lineTo(x + 6, 0);
+			context.lineTo(x, 6);
+			context.closePath();
+			context.fill();
+
+			// Labels stop before the next marker
+			const nextX = positions[index + 1]?.x ?? width;
+			const maxWidth = nextX - x - 8;
+			if (maxWidth < 12) return;
+			let label = marker.label;
+			while (label && context.measureText(label).width > maxWidth) {
+				label = label.slice(0, -1);
+			}
+			if (label !== marker.label) label = `${label.slice(0, -1)}\u2026`;
+			context.fillText(label, x + 4, 2);
+		});
+
+		context.restore();
 	};
 
 	const handleMouseDown = (event: React.MouseEvent<HTMLCanvasElement>) => {
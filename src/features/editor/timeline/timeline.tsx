@@ -1,4 +1,4 @@
-import { useEffect, useRef, useState, RefObject } from "react";
+import { useEffect, useMemo, useRef, useState, RefObject } from "react";
 import Header from "./header";
 import Ruler from "./ruler";
 import { timeMsToUnits, unitsToTimeMs } from "@designcombo/timeline";
@@ -11,9 +11,20 @@ import {
 	TIMELINE_SEEK,
 } from "@designcombo/timeline";
 import useStore from "../store/use-store";
+import useRangeStore from "../store/use-range-store";
 import Playhead from "./playhead";
 import { useCurrentPlayerFrame } from "../hooks/use-current-frame";
-import { Audio, Image, Text, Video, Subtitle } from "./items";
+import {
+	Audio,
+	Image,
+	Text,
+	Video,
+	Subtitle,
+	LinealAudioBars,
+	RadialAudioBars,
+	WaveAudioBars,
+	HillAudioBars,
+} from "./items";
 import StateManager, { REPLACE_MEDIA } from "@designcombo/state";
 import {
 	TIMELINE_OFFSET_CANVAS_LEFT,
@@ -23,6 +34,7 @@ import { ITrackItem } from "@designcombo/types";
 import { useTimelineOffsetX } from "../hooks/use-timeline-offset";
 import { useStateManagerEvents } from "../hooks/use-state-manager-events";
 import { useTimelineZoom } from "../hooks/use-timeline-zoom";
+import { useChapters } from "../hooks/use-chapters";
 
 CanvasTimeline.registerItems({
 	Text,
@@ -30,6 +42,10 @@ CanvasTimeline.registerItems({
 	Audio,
 	Video,
 	Subtitle,
+	LinealAudioBars,
+	RadialAudioBars,
+	WaveAudioBars,
+	HillAudioBars,
 });
 
 const EMPTY_SIZE = { width: 0, height: 0 };
@@ -45,7 +61,8 @@ const Timeline = ({ stateManager }: { stateManager: StateManager }) => {
 	const canvasRef = useRef<CanvasTimeline | null>(null);
 	const verticalScrollbarVpRef = useRef<HTMLDivElement>(null);
 	const horizontalScrollbarVpRef = useRef<HTMLDivElement>(null);
-	const { scale, playerRef, fps, duration, setState, timeline } = useStore();
+	const { scale, playerRef, fps, duration, setState, timeline, trackItemsMap } =
+		useStore();
 	const currentFrame = useCurrentPlayerFrame(playerRef);
 	const [canvasSize, setCanvasSize] = useState(EMPTY_SIZE);
 	const [size, setSize] = useState<{ width: number; height: number }>(
@@ -54,6 +71,17 @@ const Timeline = ({ stateManager }: { stateManager: StateManager }) => {
 	const timelineOffsetX = useTimelineOffsetX();
 
 	const { setTimeline } = useStore();
+	const { inPoint, outPoint } = useRangeStore();
+	const { chapters } = useChapters();
+	const chapterMarkers = useMemo(
+		() =>
+			chapters.map((chapter) => ({
+				id: chapter.id,
+				time: chapter.start,
+				label: chapter.title,
+			})),
+		[chapters],
+	);
 
 	// Add zoom functionality (handles keyboard shortcuts and wheel zoom)
 	useTimelineZoom({
@@ -111,6 +139,11 @@ const Timeline = ({ stateManager }: { stateManager: StateManager }) => {
 		}
 	};
 
+	// Keyframe diamonds are drawn from the store, redraw when items change
+	useEffect(() => {
+		timeline?.requestRenderAll();
+	}, [trackItemsMap, timeline]);
+
 	useEffect(() => {
 		if (playerRef?.current) {
 			const isPlaying = playerRef?.current.isPlaying();
@@ -244,6 +277,8 @@ const Timeline = ({ stateManager }: { stateManager: StateManager }) => {
 				waveAudioBars: ["audio", "waveAudioBars"],
 				hillAudioBars: ["audio", "hillAudioBars"],
 			},
+			// Adjacent clips of these types get a transition slot between them
+			withTransitions: ["video", "image"],
 			guideLineColor: "#ffffff",
 		});
 
@@ -453,6 +488,9 @@ const Timeline = ({ stateManager }: { stateManager: StateManager }) => {
 				onClick={onClickRuler}
 				scrollLeft={scrollLeft}
 				onScroll={onRulerScroll}
+				markers={chapterMarkers}
+				inPoint={inPoint}
+				outPoint={outPoint}
 			/>
 			<Playhead scrollLeft={scrollLeft} />
 			<div className="flex">
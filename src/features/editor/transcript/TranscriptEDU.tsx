@@ -1,25 +1,92 @@
-import React from "react";
-import { FullEDU } from "../transcript/types";
+import React, { useState } from "react";
+import { Pencil, RotateCcw, Scissors, UserPlus } from "lucide-react";
+import { Textarea } from "@/components/ui/textarea";
+import {
+	DropdownMenu,
+	DropdownMenuContent,
+	DropdownMenuItem,
+	DropdownMenuSeparator,
+	DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+	FullEDU,
+	TimeRange,
+	TranscriptSegment,
+	TranscriptSpeaker,
+} from "../transcript/types";
 import { dispatch } from "@designcombo/events";
 import { TRANSCRIPT_SELECT } from "../constants/events";
+import { getEDUSpeakerId } from "../utils/speakers";
+import { isWordCut } from "../utils/transcript-cuts";
 
 interface TranscriptEDUProps {
 	edu: FullEDU;
 	isActive: boolean;
 	showWords?: boolean;
+	// Composition time of the EDU when it differs from its source time,
+	// null when no item plays it
+	timeRange?: TimeRange | null;
+	// Global index of the first word of this EDU (see getWordIndexMap)
+	wordOffset?: number;
+	// Inclusive global word range currently selected
+	selectionRange?: { start: number; end: number } | null;
+	// Inclusive global word ranges matching the transcript search
+	searchHighlights?: { start: number; end: number; isActive: boolean }[];
+	onWordClick?: (
+		word: TranscriptSegment,
+		globalIndex: number,
+		event: React.MouseEvent,
+	) => void;
+	onToggleCut?: (edu: FullEDU, isCut: boolean) => void;
+	// Speaker roster; enables reassigning the EDU when handlers are given
+	speakers?: TranscriptSpeaker[];
+	onAssignSpeaker?: (edu: FullEDU, speakerId: string) => void;
+	onAssignNewSpeaker?: (edu: FullEDU) => void;
+	// Enables inline text correction
+	onEditText?: (edu: FullEDU, text: string) => void;
 }
 
 const TranscriptEDU: React.FC<TranscriptEDUProps> = ({
 	edu,
 	isActive,
 	showWords = false,
+	timeRange,
+	wordOffset = 0,
+	selectionRange = null,
+	searchHighlights = [],
+	onWordClick,
+	onToggleCut,
+	speakers = [],
+	onAssignSpeaker,
+	onAssignNewSpeaker,
+	onEditText,
 }) => {
+	const [draft, setDraft] = useState<string | null>(null);
+	const isEditing = draft !== null;
+
+	const startEditing = () => {
+		if (onEditText) setDraft(edu.edu_content);
+	};
+
+	const commitEdit = () => {
+		if (draft === null) return;
+		if (draft.trim() && draft !== edu.edu_content) {
+			onEditText?.(edu, draft);
+		}
+		setDraft(null);
+	};
+
+	const range =
+		timeRange === undefined
+			? { startTime: edu.edu_start, endTime: edu.edu_end }
+			: timeRange;
+
 	const handleClick = () => {
 		// Dispatch select event with EDU index
 		dispatch(TRANSCRIPT_SELECT, {
 			payload: {
 				eduIndex: edu.edu_index,
-				time: edu.edu_start,
+				time: range?.startTime,
 			},
 		});
 	};
@@ -35,30 +102,105 @@ const TranscriptEDU: React.FC<TranscriptEDUProps> = ({
 	};
 
 	// Get first word's speaker ID if available
-	const speakerId = edu.words?.[0]?.speaker_id || null;
+	const speakerId = getEDUSpeakerId(edu);
+	const speaker = speakers.find((entry) => entry.id === speakerId);
+	const speakerLabel = speaker?.name || speakerId;
+
+	const words = (edu.words || []) as TranscriptSegment[];
+	const isFullyCut = words.length > 0 && words.every(isWordCut);
+
+	const isSelected = (globalIndex: number) =>
+		!!selectionRange &&
+		globalIndex >= selectionRange.start &&
+		globalIndex <= selectionRange.end;
+
+	const getSearchHighlight = (globalIndex: number) =>
+		searchHighlights.find(
+			(range) => globalIndex >= range.start && globalIndex <= range.end,
+		);
 
 	return (
 		<div
 			className={`
-        p-3 mb-2 rounded cursor-pointer transition-all duration-200
+        group p-3 mb-2 rounded cursor-pointer transition-all duration-200
         ${
 					isActive
 						? "bg-primary/20 border-l-4 border-primary shadow-sm"
 						: "hover:bg-muted border-l-4 border-transparent"
 				}
+        ${isFullyCut ? "opacity-60" : ""}
       `}
 			onClick={handleClick}
 			id={`edu-${edu.edu_index}`}
 		>
 			<div className="flex items-center gap-2 text-xs text-muted-foreground mb-1">
 				<span className="font-mono">
-					{formatTime(edu.edu_start)} - {formatTime(edu.edu_end)}
+					{range
+						? `${formatTime(range.startTime)} - ${formatTime(range.endTime)}`
+						: "Not on timeline"}
 				</span>
-				{speakerId && (
+				{onAssignSpeaker && speakers.length > 0 ? (
 					<>
 						<span className="text-muted-foreground/50">•</span>
-						<span className="font-medium">{speakerId}</span>
+						<DropdownMenu>
+							<DropdownMenuTrigger asChild>
+								<button
+									type="button"
+									className="flex items-center gap-1 font-medium hover:text-foreground"
+									style={speaker ? { color: speaker.color } : undefined}
+									title="Change speaker"
+									onClick={(e) => e.stopPropagation()}
+								>
+									{speaker && (
+										<span
+											className="h-2 w-2 rounded-full"
+											style={{ backgroundColor: speaker.color }}
+										/>
+									)}
+									{speakerLabel || "No speaker"}
+								</button>
+							</DropdownMenuTrigger>
+							<DropdownMenuContent
+								align="start"
+								onClick={(e) => e.stopPropagation()}
+							>
+								{speakers.map((entry) => (
+									<DropdownMenuItem
+										key={entry.id}
+										disabled={entry.id === speakerId}
+										onClick={() => onAssignSpeaker(edu, entry.id)}
+									>
+										<span
+											className="mr-2 h-2.5 w-2.5 rounded-full"
+											style={{ backgroundColor: entry.color }}
+										/>
+										{entry.name}
+									</DropdownMenuItem>
+								))}
+								{onAssignNewSpeaker && (
+									<>
+										<DropdownMenuSeparator />
+										<DropdownMenuItem onClick={() => onAssignNewSpeaker(edu)}>
+											<UserPlus className="mr-2 h-3.5 w-3.5" />
+											New speaker
+										</DropdownMenuItem>
+									</>
+								)}
+							</DropdownMenuContent>
+						</DropdownMenu>
 					</>
+				) : (
+					speakerLabel && (
+						<>
+							<span className="text-muted-foreground/50">•</span>
+							<span
+								className="font-medium"
+								style={speaker ? { color: speaker.color } : undefined}
+							>
+								{speakerLabel}
+							</span>
+						</>
+					)
 				)}
 				{edu.words?.length && (
 					<>
@@ -68,9 +210,93 @@ const TranscriptEDU: React.FC<TranscriptEDUProps> = ({
 						</span>
 					</>
 				)}
+				{onEditText && !isEditing && (
+					<button
+						type="button"
+						className="ml-auto opacity-0 group-hover:opacity-100 hover:text-foreground transition-opacity"
+						title="Edit text"
+						onClick={(e) => {
+							e.stopPropagation();
+							startEditing();
+						}}
+					>
+						<Pencil className="w-3.5 h-3.5" />
+					</button>
+				)}
+				{onToggleCut && words.length > 0 && (
+					<button
+						type="button"
+						className={`${onEditText && !isEditing ? "" : "ml-auto "}opacity-0 group-hover:opacity-100 hover:text-foreground transition-opacity`}
+						title={isFullyCut ? "Restore EDU" : "Cut EDU"}
+						onClick={(e) => {
+							e.stopPropagation();
+							onToggleCut(edu, !isFullyCut);
+						}}
+					>
+						{isFullyCut ? (
+							<RotateCcw className="w-3.5 h-3.5" />
+						) : (
+							<Scissors className="w-3.5 h-3.5" />
+						)}
+					</button>
+				)}
 			</div>
-			<div className="text-sm leading-relaxed">
-				{edu.edu_content}
+			<div
+				className="text-sm leading-relaxed"
+				onDoubleClick={(e) => {
+					e.stopPropagation();
+					startEditing();
+				}}
+			>
+				{isEditing ? (
+					<Textarea
+						autoFocus
+						value={draft}
+						className="min-h-[60px] text-sm"
+						onClick={(e) => e.stopPropagation()}
+						onChange={(e) => setDraft(e.target.value)}
+						onBlur={commitEdit}
+						onKeyDown={(e) => {
+							e.stopPropagation();
+							if (e.key === "Enter" && !e.shiftKey) {
+								e.preventDefault();
+								commitEdit();
+							} else if (e.key === "Escape") {
+								setDraft(null);
+							}
+						}}
+					/>
+				) : onWordClick ? (
+					words.map((word, index) => {
+						const globalIndex = wordOffset + index;
+						const highlight = getSearchHighlight(globalIndex);
+						return (
+							<span
+								key={word.id || index}
+								data-word-index={globalIndex}
+								className={`rounded-sm ${
+									isWordCut(word)
+										? "line-through text-muted-foreground/60"
+										: "hover:bg-primary/10"
+								} ${isSelected(globalIndex) ? "bg-primary/30" : ""} ${
+									highlight
+										? highlight.isActive
+											? "bg-yellow-400 text-black"
+											: "bg-yellow-400/30"
+										: ""
+								}`}
+								onClick={(e) => {
+									e.stopPropagation();
+									onWordClick(word, globalIndex, e);
+								}}
+							>
+								{word.text}
+							</span>
+						);
+					})
+				) : (
+					edu.edu_content
+				)}
 				{showWords && edu.words && (
 					<div className="mt-2 pt-2 border-t border-muted text-xs opacity-70">
 						{edu.words.map((word, index) => (
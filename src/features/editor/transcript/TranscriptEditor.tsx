@@ -1,17 +1,66 @@
-import React, { useEffect, useRef } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { dispatch } from "@designcombo/events";
 import TranscriptEDU from "./TranscriptEDU";
 import useTranscriptStore from "../store/use-transcript-store";
-import useUploadStore from "../store/use-upload-store";
+import useStore from "../store/use-store";
 import { useTranscriptSync } from "../hooks/use-transcript-sync";
+import { useTranscriptTimings } from "../hooks/use-transcript-timings";
+import { useTranscriptCuts } from "../hooks/use-transcript-cuts";
+import { useTranscriptSpeakers } from "../hooks/use-transcript-speakers";
+import { useTranscriptCorrection } from "../hooks/use-transcript-correction";
+import useClickOutside from "../hooks/useClickOutside";
+import { PLAYER_SEEK } from "../constants/events";
 import GenerateSubtitleButton from "./components/generate-subtitle-button";
+import CaptionFileMenu from "./components/caption-file-menu";
+import AutoCleanDialog from "./components/auto-clean-dialog";
+import ChaptersDialog from "./components/chapters-dialog";
+import HighlightDialog from "./components/highlight-dialog";
+import SubtitleLanguagePicker from "./components/subtitle-language-picker";
+import TranscriptCutToolbar from "./components/transcript-cut-toolbar";
+import SpeakerRoster from "./components/speaker-roster";
+import TranscriptSourcePicker from "./components/transcript-source-picker";
+import TranscriptSearchBar from "./components/transcript-search-bar";
+import { getSafeCurrentFrame } from "../utils/time";
+import { isWordCut } from "../utils/transcript-cuts";
+import {
+	TranscriptSearchOptions,
+	getHitIndexAtTime,
+	replaceInEDU,
+	searchTranscript,
+} from "../utils/transcript-search";
+import { FullEDU, TranscriptSegment } from "./types";
 
 const TranscriptEditor: React.FC = () => {
-	const { fullEDUs, activeEDUIndex, initEDUs } = useTranscriptStore();
-	const { transcriptions, transcriptionStatus } = useUploadStore();
+	const {
+		fullEDUs,
+		activeEDUIndex,
+		view,
+		uploadId,
+		editMode,
+		wordSelection,
+		selectWord,
+		clearWordSelection,
+		getSelectedWords,
+		speakers,
+		timings,
+		getWordTimeRange,
+		getEDUTimeRange,
+	} = useTranscriptStore();
+	const { cutWords, restoreWords } = useTranscriptCuts();
+	const { assignEDUSpeaker, assignEDUToNewSpeaker } = useTranscriptSpeakers();
+	const { correctEDUs } = useTranscriptCorrection();
+	const { playerRef, fps } = useStore();
+	const [search, setSearch] = useState<TranscriptSearchOptions>({
+		query: "",
+		mode: "text",
+	});
+	const [activeHitIndex, setActiveHitIndex] = useState(-1);
 	const listRef = useRef<HTMLDivElement>(null);
+	const panelRef = useRef<HTMLDivElement>(null);
 
 	// Enable synchronization
 	useTranscriptSync();
+	useTranscriptTimings();
 
 	// Auto-scroll to active EDU
 	useEffect(() => {
@@ -24,24 +73,177 @@ const TranscriptEditor: React.FC = () => {
 		}
 	}, [activeEDUIndex]);
 
-	// Load transcriptions from upload store when available
+	// The timeline view is derived from the sources, edits go to a source
+	const isEditable = view === "source";
+
+	// Global index of the first word of each EDU
+	const wordOffsets = useMemo(() => {
+		const offsets: number[] = [];
+		let offset = 0;
+		for (const edu of fullEDUs) {
+			offsets.push(offset);
+			offset += edu.words?.length || 0;
+		}
+		return offsets;
+	}, [fullEDUs]);
+
+	const searchResult = useMemo(
+		() =>
+			searchTranscript(
+				fullEDUs.flatMap((edu) => edu.words || []),
+				search,
+			),
+		[fullEDUs, search],
+	);
+	const { hits } = searchResult;
+
+	// Start from the first match at or after the playhead
 	useEffect(() => {
-		// Check if there are any completed transcriptions
-		const completedTranscriptions = Object.entries(transcriptions).filter(
-			([uploadId, edus]) =>
-				transcriptionStatus[uploadId] === "completed" && edus?.length > 0,
+		const timeMs = (getSafeCurrentFrame(playerRef) / fps) * 1000;
+		const words = fullEDUs.flatMap((edu) => edu.words || []);
+		setActiveHitIndex(
+			getHitIndexAtTime(
+				hits,
+				timeMs,
+				(hit) => getWordTimeRange(words[hit.startWordIndex])?.startTime ?? null,
+			),
 		);
+	}, [hits, fullEDUs, getWordTimeRange, playerRef, fps]);
+
+	// Highlighted word ranges of each EDU, by EDU position
+	const searchHighlights = useMemo(() => {
+		const highlights: { start: number; end: number; isActive: boolean }[][] =
+			fullEDUs.map(() => []);
+		hits.forEach((hit, hitIndex) => {
+			fullEDUs.forEach((edu, index) => {
+				const first = wordOffsets[index];
+				const last = first + (edu.words?.length || 0) - 1;
+				if (hit.startWordIndex <= last && hit.endWordIndex >= first) {
+					highlights[index].push({
+						start: hit.startWordIndex,
+						end: hit.endWordIndex,
+						isActive: hitIndex === activeHitIndex,
+					});
+				}
+			});
+		});
+		return highlights;
+	}, [fullEDUs, wordOffsets, hits, activeHitIndex]);
+
+	const handleSearchStep = (direction: 1 | -1) => {
+		if (hits.length === 0) return;
+		const index =
+			activeHitIndex < 0
+				? 0
+				: (activeHitIndex + direction + hits.length) % hits.length;
+		const hit = hits[index];
+		setActiveHitIndex(index);
+		const words = fullEDUs.flatMap((edu) => edu.words || []);
+		const range = getWordTimeRange(words[hit.startWordIndex]);
+		if (range) {
+			dispatch(PLAYER_SEEK, { payload: { time: range.startTime } });
+		}
+		listRef.current
+			?.querySelector(`[data-word-index="${hit.startWordIndex}"]`)
+			?.scrollIntoView({ behavior: "smooth", block: "center" });
+	};
+
+	// Replacements go through the same correction path as manual edits
+	const handleReplaceAll = (replacement: string) => {
+		const changes = fullEDUs.flatMap((edu) => {
+			const text = replaceInEDU(edu, search, replacement);
+			return text === null ? [] : [{ eduIndex: edu.edu_index, text }];
+		});
+		if (changes.length > 0) correctEDUs(changes);
+	};
+
+	const selectionRange = wordSelection
+		? {
+				start: Math.min(wordSelection.anchor, wordSelection.focus),
+				end: Math.max(wordSelection.anchor, wordSelection.focus),
+			}
+		: null;
 
-		// If we have transcriptions from uploads, use the most recent one
-		if (completedTranscriptions.length > 0 && fullEDUs.length === 0) {
-			// Use the first completed transcription (could be enhanced to allow selection)
-			const [, transcriptEDUs] = completedTranscriptions[0];
-			initEDUs(transcriptEDUs);
+	const handleWordClick = (
+		word: TranscriptSegment,
+		globalIndex: number,
+		event: React.MouseEvent,
+	) => {
+		if (editMode === "strike" && isEditable) {
+			if (event.shiftKey && wordSelection) {
+				selectWord(globalIndex, true);
+				cutWords(getSelectedWords().map((selected) => selected.id));
+				clearWordSelection();
+				return;
+			}
+			selectWord(globalIndex);
+			if (isWordCut(word)) {
+				restoreWords([word.id]);
+			} else {
+				cutWords([word.id]);
+			}
+			return;
 		}
-	}, [transcriptions, transcriptionStatus, fullEDUs.length, initEDUs]);
+
+		selectWord(globalIndex, event.shiftKey);
+		const range = getWordTimeRange(word);
+		if (!event.shiftKey && range) {
+			dispatch(PLAYER_SEEK, { payload: { time: range.startTime } });
+		}
+	};
+
+	const handleToggleEDUCut = (edu: FullEDU, isCut: boolean) => {
+		const wordIds = edu.words.map((word: TranscriptSegment) => word.id);
+		if (isCut) {
+			cutWords(wordIds);
+		} else {
+			restoreWords(wordIds);
+		}
+	};
+
+	// Selection only lives while the user works inside the transcript panel
+	useClickOutside(panelRef as React.RefObject<HTMLElement>, clearWordSelection);
+
+	// Delete/Backspace cuts the selected words instead of timeline items
+	useEffect(() => {
+		if (!wordSelection || !isEditable) return;
+
+		const handleKeyDown = (event: KeyboardEvent) => {
+			const activeElement = document.activeElement as HTMLElement | null;
+			if (
+				activeElement &&
+				(activeElement.tagName === "INPUT" ||
+					activeElement.tagName === "TEXTAREA" ||
+					activeElement.isContentEditable)
+			) {
+				return;
+			}
+
+			if (event.key === "Delete" || event.key === "Backspace") {
+				// Capture phase on document runs before the global keybinding listener
+				event.preventDefault();
+				event.stopPropagation();
+				cutWords(getSelectedWords().map((word) => word.id));
+			} else if (event.key === "Escape") {
+				clearWordSelection();
+			}
+		};
+
+		document.addEventListener("keydown", handleKeyDown, true);
+		return () => document.removeEventListener("keydown", handleKeyDown, true);
+	}, [
+		wordSelection,
+		isEditable,
+		cutWords,
+		getSelectedWords,
+		clearWordSelection,
+	]);
 
 	return (
-		<div className="h-full flex flex-col bg-background border-l border-border">
+		<div
+			className="h-full flex flex-col bg-background border-l border-border"
+			ref={panelRef}
+		>
 			{/* Header */}
 			<div className="px-4 py-3 border-b border-border space-y-2">
 				<div>
@@ -52,7 +254,26 @@ const TranscriptEditor: React.FC = () => {
 						</p>
 					)}
 				</div>
+				{fullEDUs.length > 0 && (
+					<TranscriptSearchBar
+						options={search}
+						onOptionsChange={setSearch}
+						hitCount={hits.length}
+						activeHitIndex={activeHitIndex}
+						error={searchResult.error}
+						onStep={handleSearchStep}
+						onReplaceAll={isEditable ? handleReplaceAll : undefined}
+					/>
+				)}
+				<TranscriptSourcePicker />
+				{fullEDUs.length > 0 && isEditable && <TranscriptCutToolbar />}
+				{isEditable && <SpeakerRoster />}
+				{fullEDUs.length > 0 && isEditable && <AutoCleanDialog />}
+				{fullEDUs.length > 0 && isEditable && uploadId && <HighlightDialog />}
 				{fullEDUs.length > 0 && <GenerateSubtitleButton />}
+				{fullEDUs.length > 0 && <SubtitleLanguagePicker />}
+				<ChaptersDialog />
+				<CaptionFileMenu />
 			</div>
 
 			{/* Transcript List */}
@@ -78,6 +299,30 @@ const TranscriptEditor: React.FC = () => {
 								edu={edu}
 								isActive={index === activeEDUIndex}
 								showWords={false}
+								wordOffset={wordOffsets[index]}
+								timeRange={timings ? getEDUTimeRange(edu) : undefined}
+								selectionRange={selectionRange}
+								searchHighlights={searchHighlights[index]}
+								onWordClick={handleWordClick}
+								speakers={speakers}
+								onToggleCut={isEditable ? handleToggleEDUCut : undefined}
+								onAssignSpeaker={
+									isEditable
+										? (target, speakerId) =>
+												assignEDUSpeaker(target.edu_index, speakerId)
+										: undefined
+								}
+								onAssignNewSpeaker={
+									isEditable
+										? (target) => assignEDUToNewSpeaker(target.edu_index)
+										: undefined
+								}
+								onEditText={
+									isEditable
+										? (target, text) =>
+												correctEDUs([{ eduIndex: target.edu_index, text }])
+										: undefined
+								}
 							/>
 						))}
 						{/* Add some padding at the bottom for better scroll experience */}
@@ -0,0 +1,288 @@
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+	DialogTrigger,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { dispatch } from "@designcombo/events";
+import { Undo2, WandSparkles } from "lucide-react";
+import React, { useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+import { PLAYER_SEEK } from "../../constants/events";
+import { FillerWords, OptionsCountrys } from "../../data/language";
+import { useTranscriptCuts } from "../../hooks/use-transcript-cuts";
+import useTranscriptStore from "../../store/use-transcript-store";
+import { findAutoCleanCandidates } from "../../utils/auto-clean";
+
+const languageOptions = OptionsCountrys.filter(
+	(option) => FillerWords[option.code],
+);
+
+// Format milliseconds as MM:SS.s
+const formatTime = (ms: number) => {
+	const minutes = Math.floor(ms / 60000);
+	const seconds = ((ms % 60000) / 1000).toFixed(1);
+	return `${minutes.toString().padStart(2, "0")}:${seconds.padStart(4, "0")}`;
+};
+
+const AutoCleanDialog: React.FC = () => {
+	const {
+		fullEDUs,
+		autoCleanOptions,
+		autoCleanBatches,
+		setAutoCleanOptions,
+		pushAutoCleanBatch,
+		removeAutoCleanBatch,
+		timings,
+		getWordTimeRange,
+	} = useTranscriptStore();
+	const { cutWords, restoreWords } = useTranscriptCuts();
+	const [open, setOpen] = useState(false);
+	// Candidates the user unticked during review
+	const [excludedIds, setExcludedIds] = useState<Set<string>>(new Set());
+	const [thresholdSeconds, setThresholdSeconds] = useState(
+		autoCleanOptions.silenceThresholdMs / 1000,
+	);
+
+	const candidates = useMemo(
+		() => (open ? findAutoCleanCandidates(fullEDUs, autoCleanOptions) : []),
+		[open, fullEDUs, autoCleanOptions],
+	);
+
+	// Start every review with all candidates ticked
+	useEffect(() => {
+		setExcludedIds(new Set());
+	}, [candidates]);
+
+	// Candidates seek to where their first word plays on the timeline
+	const candidateRanges = useMemo(() => {
+		const words = new Map(
+			fullEDUs.flatMap((edu) => edu.words || []).map((word) => [word.id, word]),
+		);
+		return new Map(
+			candidates.map((candidate) => {
+				const word = words.get(candidate.wordIds[0]);
+				return [candidate.id, word ? getWordTimeRange(word) : null];
+			}),
+		);
+	}, [candidates, fullEDUs, timings, getWordTimeRange]);
+
+	const selectedCandidates = candidates.filter(
+		(candidate) => !excludedIds.has(candidate.id),
+	);
+
+	const toggleCandidate = (id: string) => {
+		setExcludedIds((prev) => {
+			const next = new Set(prev);
+			if (next.has(id)) {
+				next.delete(id);
+			} else {
+				next.add(id);
+			}
+			return next;
+		});
+	};
+
+	const undoBatch = (wordIds: string[]) => {
+		// The batch may already be undone, or dropped with its transcript
+		if (!useTranscriptStore.getState().autoCleanBatches.includes(wordIds)) {
+			return;
+		}
+		if (!restoreWords(wordIds)) return;
+
+		removeAutoCleanBatch(wordIds);
+		toast.success("Auto clean undone");
+	};
+
+	const handleApply = () => {
+		const wordIds = selectedCandidates.flatMap(
+			(candidate) => candidate.wordIds,
+		);
+		if (wordIds.length === 0) return;
+
+		// All cuts go through a single timeline update so they undo together
+		if (!cutWords(wordIds)) return;
+
+		pushAutoCleanBatch(wordIds);
+		setOpen(false);
+		toast.success(`Applied ${selectedCandidates.length} cuts`, {
+			action: { label: "Undo", onClick: () => undoBatch(wordIds) },
+		});
+	};
+
+	return (
+		<div className="flex items-center gap-2">
+			<Dialog open={open} onOpenChange={setOpen}>
+				<DialogTrigger asChild>
+					<Button
+						variant="outline"
+						size="sm"
+						className="flex-1"
+						disabled={fullEDUs.length === 0}
+					>
+						<WandSparkles className="w-4 h-4 mr-2" />
+						Auto Clean
+					</Button>
+				</DialogTrigger>
+				<DialogContent className="sm:max-w-[520px]">
+					<DialogHeader>
+						<DialogTitle>Auto clean</DialogTitle>
+						<DialogDescription>
+							Review filler words and long silences before cutting them from the
+							timeline.
+						</DialogDescription>
+					</DialogHeader>
+
+					<div className="space-y-4">
+						<div className="flex items-center justify-between gap-4">
+							<Label>Language</Label>
+							<Select
+								value={autoCleanOptions.language}
+								onValueChange={(language) => setAutoCleanOptions({ language })}
+							>
+								<SelectTrigger className="w-40" size="sm">
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									{languageOptions.map((option) => (
+										<SelectItem key={option.code} value={option.code}>
+											{option.name}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</div>
+
+						<Label>
+							<input
+								type="checkbox"
+								checked={autoCleanOptions.removeFillers}
+								onChange={(e) =>
+									setAutoCleanOptions({ removeFillers: e.target.checked })
+								}
+							/>
+							Filler words
+						</Label>
+
+						<div className="space-y-2">
+							<Label>
+								<input
+									type="checkbox"
+									checked={autoCleanOptions.removeSilences}
+									onChange={(e) =>
+										setAutoCleanOptions({ removeSilences: e.target.checked })
+									}
+								/>
+								Silences longer than {thresholdSeconds.toFixed(1)}s
+							</Label>
+							<Slider
+								value={[thresholdSeconds]}
+								min={0.5}
+								max={5}
+								step={0.1}
+								disabled={!autoCleanOptions.removeSilences}
+								onValueChange={(e) => {
+									setThresholdSeconds(e[0]);
+								}}
+								onValueCommit={(e) => {
+									setAutoCleanOptions({
+										silenceThresholdMs: Math.round(e[0] * 1000),
+									});
+								}}
+							/>
+						</div>
+
+						<div className="max-h-64 overflow-y-auto rounded border border-border">
+							{candidates.length === 0 ? (
+								<p className="p-4 text-center text-sm text-muted-foreground">
+									Nothing to clean up
+								</p>
+							) : (
+								candidates.map((candidate) => {
+									const range = candidateRanges.get(candidate.id);
+									return (
+										<div
+											key={candidate.id}
+											className="flex items-center gap-2 px-3 py-1.5 text-sm hover:bg-muted"
+										>
+											<input
+												type="checkbox"
+												aria-label={`Cut ${candidate.text}`}
+												checked={!excludedIds.has(candidate.id)}
+												onChange={() => toggleCandidate(candidate.id)}
+											/>
+											<button
+												type="button"
+												className="font-mono text-xs text-muted-foreground hover:text-foreground disabled:opacity-50"
+												title={
+													range ? "Seek to this cut" : "Not on the timeline"
+												}
+												disabled={!range}
+												onClick={() =>
+													range &&
+													dispatch(PLAYER_SEEK, {
+														payload: { time: range.startTime },
+													})
+												}
+											>
+												{formatTime(range?.startTime ?? candidate.start)}
+											</button>
+											<span
+												className={
+													candidate.kind === "silence"
+														? "italic text-muted-foreground"
+														: ""
+												}
+											>
+												{candidate.text}
+											</span>
+										</div>
+									);
+								})
+							)}
+						</div>
+					</div>
+
+					<DialogFooter>
+						<Button variant="outline" onClick={() => setOpen(false)}>
+							Cancel
+						</Button>
+						<Button
+							disabled={selectedCandidates.length === 0}
+							onClick={handleApply}
+						>
+							Apply {selectedCandidates.length} cuts
+						</Button>
+					</DialogFooter>
+				</DialogContent>
+			</Dialog>
+			{autoCleanBatches.length > 0 && (
+				<Button
+					variant="outline"
+					size="sm"
+					title="Undo last auto clean"
+					onClick={() =>
+						undoBatch(autoCleanBatches[autoCleanBatches.length - 1])
+					}
+				>
+					<Undo2 className="w-4 h-4" />
+				</Button>
+			)}
+		</div>
+	);
+};
+
+export default AutoCleanDialog;
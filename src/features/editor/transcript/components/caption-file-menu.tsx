@@ -0,0 +1,234 @@
+import { Button } from "@/components/ui/button";
+import {
+	DropdownMenu,
+	DropdownMenuContent,
+	DropdownMenuItem,
+	DropdownMenuSeparator,
+	DropdownMenuSub,
+	DropdownMenuSubContent,
+	DropdownMenuSubTrigger,
+	DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import * as transcriptionActions from "@/app/(edit)/actions/transcriptions";
+import { downloadText } from "@/utils/download";
+import { ITrackItem } from "@designcombo/types";
+import { ChevronDown, FileText } from "lucide-react";
+import React, { useRef } from "react";
+import { toast } from "sonner";
+import useStore from "../../store/use-store";
+import useTranscriptStore from "../../store/use-transcript-store";
+import { FullEDU } from "../types";
+import { loadTimelineGranularly } from "../../utils/granular-dispatch";
+import {
+	SUBTITLE_FORMATS,
+	SubtitleCue,
+	SubtitleFormat,
+	cuesFromSubtitleItems,
+	cuesFromTranscript,
+	cuesToEDUs,
+	getSubtitleFormat,
+	parseSubtitles,
+	serializeSubtitles,
+} from "../../utils/subtitle-formats";
+import { getSubtitleStyle } from "../../utils/subtitles";
+import { generateSubtitleTrackFromTranscript } from "../../utils/transcript-to-timeline";
+
+const MIME_TYPES: Record<SubtitleFormat, string> = {
+	srt: "application/x-subrip",
+	vtt: "text/vtt",
+	ass: "text/x-ssa",
+};
+
+const getSubtitleItems = (): ITrackItem[] => {
+	const { tracks, trackItemsMap } = useStore.getState();
+	const track = tracks.find((t) => t.accepts?.includes("subtitle"));
+	return track
+		? track.items.map((id) => trackItemsMap[id]).filter(Boolean)
+		: [];
+};
+
+const CaptionFileMenu: React.FC = () => {
+	const { fullEDUs, view, initEDUs, getFlatWords } = useTranscriptStore();
+	const { tracks } = useStore();
+	const inputRef = useRef<HTMLInputElement>(null);
+	const hasSubtitleTrack = tracks.some((track) =>
+		track.accepts?.includes("subtitle"),
+	);
+
+	const handleExport = (
+		format: SubtitleFormat,
+		source: "transcript" | "track",
+	) => {
+		const items = source === "track" ? getSubtitleItems() : [];
+		const cues: SubtitleCue[] =
+			source === "track"
+				? cuesFromSubtitleItems(items)
+				: cuesFromTranscript(fullEDUs);
+		if (cues.length === 0) {
+			toast.error("Nothing to export");
+			return;
+		}
+
+		const style = items[0] ? getSubtitleStyle(items[0]) : undefined;
+		const content = serializeSubtitles(
+			format,
+			cues,
+			useStore.getState().size,
+			style,
+		);
+		downloadText(content, `captions.${format}`, MIME_TYPES[format]);
+	};
+
+	// The import replaces the upload's transcription, like a fresh one
+	const saveImport = async (edus: FullEDU[]) => {
+		const store = useTranscriptStore.getState();
+		const { uploadId, speakers } = store;
+		if (!uploadId) return;
+
+		const existing = store
+			.getSources()
+			.find((source) => source.uploadId === uploadId);
+		store.upsertSource({
+			uploadId,
+			fullEDUs: edus,
+			speakers,
+			language: existing?.language,
+		});
+
+		const result = await transcriptionActions.saveTranscription(
+			uploadId,
+			edus,
+			{
+				wordCount: edus.reduce(
+					(acc, edu) => acc + edu.edu_content.split(/\s+/).length,
+					0,
+				),
+				duration: Math.round(edus[edus.length - 1]?.edu_end || 0),
+			},
+		);
+		if (!result.success) {
+			toast.error("Failed to save imported captions", {
+				description: result.error,
+			});
+		}
+	};
+
+	const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+		const file = event.target.files?.[0];
+		event.target.value = "";
+		if (!file) return;
+
+		const format = getSubtitleFormat(file.name);
+		if (!format) {
+			toast.error("Unsupported caption file");
+			return;
+		}
+
+		const cues = parseSubtitles(format, await file.text());
+		if (cues.length === 0) {
+			toast.error("No captions found in file");
+			return;
+		}
+
+		// Align to the existing transcription's word timing when there is one
+		const edus = cuesToEDUs(cues, getFlatWords());
+		initEDUs(edus);
+		await saveImport(edus);
+
+		// Replace the subtitle track with the imported captions
+		const { tracks, trackItemsMap } = useStore.getState();
+		const subtitleTracks = tracks.filter((track) =>
+			track.accepts?.includes("subtitle"),
+		);
+		const removedIds = new Set(subtitleTracks.flatMap((track) => track.items));
+		const keptTracks = tracks.filter(
+			(track) => !subtitleTracks.includes(track),
+		);
+		const keptItems = Object.fromEntries(
+			Object.entries(trackItemsMap).filter(([id]) => !removedIds.has(id)),
+		);
+
+		const { track, items } = generateSubtitleTrackFromTranscript(
+			edus,
+			keptTracks.length,
+			useTranscriptStore.getState().speakers,
+		);
+		const result = loadTimelineGranularly({
+			tracks: [...keptTracks, track],
+			trackItems: {
+				...keptItems,
+				...Object.fromEntries(items.map((item) => [item.id, item])),
+			},
+		});
+
+		if (result.valid) {
+			toast.success(`Imported ${cues.length} captions`);
+		} else {
+			toast.error("Failed to add imported captions to the timeline");
+			console.error("Caption import failed:", result.errors);
+		}
+	};
+
+	return (
+		<>
+			<input
+				ref={inputRef}
+				type="file"
+				accept=".srt,.vtt,.ass,.ssa"
+				className="hidden"
+				onChange={handleImport}
+			/>
+			<DropdownMenu>
+				<DropdownMenuTrigger asChild>
+					<Button variant="outline" size="sm" className="w-full">
+						<FileText className="w-4 h-4 mr-2" />
+						Captions
+						<ChevronDown className="w-4 h-4 ml-auto" />
+					</Button>
+				</DropdownMenuTrigger>
+				<DropdownMenuContent align="start" className="w-56">
+					{/* The timeline view shows composition times, captions go to a source */}
+					<DropdownMenuItem
+						disabled={view !== "source"}
+						onClick={() => inputRef.current?.click()}
+					>
+						Import SRT / VTT / ASS…
+					</DropdownMenuItem>
+					<DropdownMenuSeparator />
+					<DropdownMenuSub>
+						<DropdownMenuSubTrigger disabled={fullEDUs.length === 0}>
+							Export transcript
+						</DropdownMenuSubTrigger>
+						<DropdownMenuSubContent>
+							{SUBTITLE_FORMATS.map((format) => (
+								<DropdownMenuItem
+									key={format}
+									onClick={() => handleExport(format, "transcript")}
+								>
+									.{format}
+								</DropdownMenuItem>
+							))}
+						</DropdownMenuSubContent>
+					</DropdownMenuSub>
+					<DropdownMenuSub>
+						<DropdownMenuSubTrigger disabled={!hasSubtitleTrack}>
+							Export subtitle track
+						</DropdownMenuSubTrigger>
+						<DropdownMenuSubContent>
+							{SUBTITLE_FORMATS.map((format) => (
+								<DropdownMenuItem
+									key={format}
+									onClick={() => handleExport(format, "track")}
+								>
+									.{format}
+								</DropdownMenuItem>
+							))}
+						</DropdownMenuSubContent>
+					</DropdownMenuSub>
+				</DropdownMenuContent>
+			</DropdownMenu>
+		</>
+	);
+};
+
+export default CaptionFileMenu;
@@ -0,0 +1,237 @@
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+	DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { downloadText } from "@/utils/download";
+import { dispatch } from "@designcombo/events";
+import {
+	Copy,
+	Download,
+	ListOrdered,
+	Loader2,
+	Play,
+	Plus,
+	Sparkles,
+	Trash2,
+} from "lucide-react";
+import React, { useState } from "react";
+import { toast } from "sonner";
+import { PLAYER_SEEK } from "../../constants/events";
+import { useChapters } from "../../hooks/use-chapters";
+import useStore from "../../store/use-store";
+import useTranscriptStore from "../../store/use-transcript-store";
+import {
+	getYouTubeChapterIssues,
+	parseChapterTime,
+	toVTTChapters,
+	toYouTubeChapters,
+} from "../../utils/chapters";
+import { getSafeCurrentFrame, timeToString } from "../../utils/time";
+
+const ChaptersDialog: React.FC = () => {
+	const { fullEDUs } = useTranscriptStore();
+	const { playerRef, fps, duration } = useStore();
+	const {
+		chapters,
+		addChapter,
+		updateChapter,
+		removeChapter,
+		generateChapters,
+	} = useChapters();
+	const [open, setOpen] = useState(false);
+	const [isGenerating, setIsGenerating] = useState(false);
+
+	const issues =
+		chapters.length > 0 ? getYouTubeChapterIssues(chapters, duration) : [];
+
+	const handleGenerate = async () => {
+		if (
+			chapters.length > 0 &&
+			!window.confirm("Replace the current chapters?")
+		) {
+			return;
+		}
+		setIsGenerating(true);
+		const generated = await generateChapters();
+		setIsGenerating(false);
+		if (generated) toast.success("Chapters generated");
+	};
+
+	const handleAdd = () => {
+		const time = Math.round((getSafeCurrentFrame(playerRef) / fps) * 1000);
+		if (chapters.some((chapter) => Math.abs(chapter.start - time) < 1000)) {
+			toast.info("A chapter already starts here");
+			return;
+		}
+		addChapter(time);
+	};
+
+	const handleCopyYouTube = async () => {
+		try {
+			await navigator.clipboard.writeText(toYouTubeChapters(chapters));
+			toast.success("Chapters copied for the YouTube description");
+		} catch {
+			toast.error("Failed to copy chapters");
+		}
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={setOpen}>
+			<DialogTrigger asChild>
+				<Button variant="outline" size="sm" className="w-full">
+					<ListOrdered className="w-4 h-4 mr-2" />
+					Chapters{chapters.length > 0 && ` (${chapters.length})`}
+				</Button>
+			</DialogTrigger>
+			<DialogContent className="sm:max-w-[520px]">
+				<DialogHeader>
+					<DialogTitle>Chapters</DialogTitle>
+					<DialogDescription>
+						Split the video into titled sections. Chapters are shown on the
+						timeline ruler and can be exported for YouTube or as WebVTT.
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="space-y-3">
+					<div className="flex items-center gap-2">
+						<Button
+							variant="outline"
+							size="sm"
+							className="flex-1"
+							disabled={isGenerating || fullEDUs.length === 0}
+							onClick={handleGenerate}
+						>
+							{isGenerating ? (
+								<Loader2 className="w-4 h-4 mr-2 animate-spin" />
+							) : (
+								<Sparkles className="w-4 h-4 mr-2" />
+							)}
+							Generate from transcript
+						</Button>
+						<Button variant="outline" size="sm" onClick={handleAdd}>
+							<Plus className="w-4 h-4 mr-2" />
+							Add at playhead
+						</Button>
+					</div>
+
+					<div className="max-h-72 overflow-y-auto rounded border border-border">
+						{chapters.length === 0 ? (
+							<p className="p-4 text-center text-sm text-muted-foreground">
+								No chapters yet
+							</p>
+						) : (
+							chapters.map((chapter) => (
+								<div
+									key={chapter.id}
+									className="flex items-center gap-1 px-2 py-1.5 hover:bg-muted"
+								>
+									<Button
+										variant="ghost"
+										size="icon"
+										className="h-7 w-7"
+										title="Seek to this chapter"
+										onClick={() =>
+											dispatch(PLAYER_SEEK, {
+												payload: { time: chapter.start },
+											})
+										}
+									>
+										<Play className="h-3.5 w-3.5" />
+									</Button>
+									<Input
+										// Remount when the start changes elsewhere
+										key={`${chapter.id}:${chapter.start}`}
+										defaultValue={timeToString({ time: chapter.start })}
+										aria-label="Chapter start"
+										className="h-7 w-20 font-mono text-xs"
+										onBlur={(e) => {
+											const start = parseChapterTime(e.target.value);
+											if (start === null || start === chapter.start) {
+												e.target.value = timeToString({ time: chapter.start });
+												return;
+											}
+											updateChapter(chapter.id, { start });
+										}}
+										onKeyDown={(e) => {
+											if (e.key === "Enter") e.currentTarget.blur();
+										}}
+									/>
+									<Input
+										key={`${chapter.id}:${chapter.title}`}
+										defaultValue={chapter.title}
+										aria-label="Chapter title"
+										className="h-7 flex-1 text-xs"
+										onBlur={(e) => {
+											const title = e.target.value.trim();
+											if (!title) {
+												e.target.value = chapter.title;
+												return;
+											}
+											if (title !== chapter.title) {
+												updateChapter(chapter.id, { title });
+											}
+										}}
+										onKeyDown={(e) => {
+											if (e.key === "Enter") e.currentTarget.blur();
+										}}
+									/>
+									<Button
+										variant="ghost"
+										size="icon"
+										className="h-7 w-7"
+										title="Remove chapter"
+										onClick={() => removeChapter(chapter.id)}
+									>
+										<Trash2 className="h-3.5 w-3.5" />
+									</Button>
+								</div>
+							))
+						)}
+					</div>
+
+					{issues.length > 0 && (
+						<ul className="space-y-0.5 text-xs text-muted-foreground">
+							{issues.map((issue) => (
+								<li key={issue}>{issue}</li>
+							))}
+						</ul>
+					)}
+				</div>
+
+				<DialogFooter>
+					<Button
+						variant="outline"
+						disabled={chapters.length === 0}
+						onClick={handleCopyYouTube}
+					>
+						<Copy className="w-4 h-4 mr-2" />
+						Copy for YouTube
+					</Button>
+					<Button
+						variant="outline"
+						disabled={chapters.length === 0}
+						onClick={() =>
+							downloadText(
+								toVTTChapters(chapters, duration),
+								"chapters.vtt",
+								"text/vtt",
+							)
+						}
+					>
+						<Download className="w-4 h-4 mr-2" />
+						WebVTT
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+};
+
+export default ChaptersDialog;
@@ -8,7 +8,7 @@ import { loadTimelineGranularly } from "../../utils/granular-dispatch";
 import { generateSubtitleTrackFromTranscript } from "../../utils/transcript-to-timeline";
 
 const GenerateSubtitleButton: React.FC = () => {
-	const { fullEDUs } = useTranscriptStore();
+	const { fullEDUs, speakers } = useTranscriptStore();
 	const { tracks, trackItemsMap } = useStore();
 
 	const handleGenerateSubtitles = () => {
@@ -31,6 +31,7 @@ const GenerateSubtitleButton: React.FC = () => {
 		const { track, items } = generateSubtitleTrackFromTranscript(
 			fullEDUs,
 			tracks.length, // Place at the end
+			speakers,
 		);
 
 		// Create the track items map
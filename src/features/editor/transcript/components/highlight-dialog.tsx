@@ -0,0 +1,212 @@
+import * as highlightActions from "@/app/(edit)/actions/highlights";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+	DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { HighlightProposal } from "@/lib/llm/types";
+import { dispatch } from "@designcombo/events";
+import { Clapperboard, Loader2, Sparkles } from "lucide-react";
+import React, { useState } from "react";
+import { toast } from "sonner";
+import { PLAYER_SEEK } from "../../constants/events";
+import { useHighlightProject } from "../../hooks/use-highlight-project";
+import useTranscriptStore from "../../store/use-transcript-store";
+
+const LENGTH_OPTIONS = [
+	{ value: "15-30", label: "15-30 seconds", min: 15000, max: 30000 },
+	{ value: "30-60", label: "30-60 seconds", min: 30000, max: 60000 },
+	{ value: "60-90", label: "60-90 seconds", min: 60000, max: 90000 },
+];
+
+// Format milliseconds as MM:SS
+const formatTime = (ms: number) => {
+	const totalSeconds = Math.round(ms / 1000);
+	const minutes = Math.floor(totalSeconds / 60);
+	const seconds = totalSeconds % 60;
+	return `${minutes.toString().padStart(2, "0")}:${seconds
+		.toString()
+		.padStart(2, "0")}`;
+};
+
+const HighlightDialog: React.FC = () => {
+	const { uploadId, fullEDUs, getEDUTimeRange } = useTranscriptStore();
+	const { createShort } = useHighlightProject();
+	const [open, setOpen] = useState(false);
+	const [count, setCount] = useState(3);
+	const [length, setLength] = useState(LENGTH_OPTIONS[1].value);
+	const [isLoading, setIsLoading] = useState(false);
+	const [creatingIndex, setCreatingIndex] = useState<number | null>(null);
+	const [proposals, setProposals] = useState<HighlightProposal[]>([]);
+
+	const handleFind = async () => {
+		if (!uploadId) return;
+		const target = LENGTH_OPTIONS.find((option) => option.value === length);
+		setIsLoading(true);
+		const result = await highlightActions.suggestHighlights(uploadId, {
+			count,
+			minDurationMs: target?.min,
+			maxDurationMs: target?.max,
+		});
+		setIsLoading(false);
+
+		if (!result.success || !result.highlights) {
+			toast.error("Failed to find highlights", { description: result.error });
+			return;
+		}
+		setProposals(result.highlights);
+	};
+
+	// Play the clip where the timeline has it
+	const handlePreview = (proposal: HighlightProposal) => {
+		const edu = fullEDUs.find(
+			(candidate) => candidate.edu_index === proposal.startEDU,
+		);
+		const range = edu && getEDUTimeRange(edu);
+		if (!range) {
+			toast.info("This clip is not on the timeline");
+			return;
+		}
+		dispatch(PLAYER_SEEK, { payload: { time: range.startTime } });
+	};
+
+	const handleCreate = async (index: number) => {
+		setCreatingIndex(index);
+		const created = await createShort(proposals[index]);
+		setCreatingIndex(null);
+		if (created) setOpen(false);
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={setOpen}>
+			<DialogTrigger asChild>
+				<Button
+					variant="outline"
+					size="sm"
+					className="w-full"
+					disabled={fullEDUs.length === 0}
+				>
+					<Sparkles className="w-4 h-4 mr-2" />
+					Find Highlights
+				</Button>
+			</DialogTrigger>
+			<DialogContent className="sm:max-w-[520px]">
+				<DialogHeader>
+					<DialogTitle>Highlights</DialogTitle>
+					<DialogDescription>
+						Find self-contained moments of the transcript and turn them into
+						vertical shorts with subtitles.
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="space-y-4">
+					<div className="flex items-center justify-between gap-4">
+						<Label htmlFor="highlight-count">Number of clips</Label>
+						<Input
+							id="highlight-count"
+							type="number"
+							min={1}
+							max={10}
+							value={count}
+							className="h-8 w-40"
+							onChange={(e) =>
+								setCount(Math.min(10, Math.max(1, Number(e.target.value) || 1)))
+							}
+						/>
+					</div>
+
+					<div className="flex items-center justify-between gap-4">
+						<Label>Target length</Label>
+						<Select value={length} onValueChange={setLength}>
+							<SelectTrigger className="w-40" size="sm">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{LENGTH_OPTIONS.map((option) => (
+									<SelectItem key={option.value} value={option.value}>
+										{option.label}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+
+					<div className="max-h-72 overflow-y-auto rounded border border-border">
+						{proposals.length === 0 ? (
+							<p className="p-4 text-center text-sm text-muted-foreground">
+								{isLoading ? "Reading the transcript..." : "No highlights yet"}
+							</p>
+						) : (
+							proposals.map((proposal, index) => (
+								<div
+									key={`${proposal.startEDU}-${proposal.endEDU}`}
+									className="space-y-1 border-b border-border px-3 py-2 last:border-b-0"
+								>
+									<div className="flex items-center gap-2">
+										<button
+											type="button"
+											className="font-mono text-xs text-muted-foreground hover:text-foreground"
+											title="Preview this clip"
+											onClick={() => handlePreview(proposal)}
+										>
+											{formatTime(proposal.start)}
+										</button>
+										<span className="flex-1 truncate text-sm font-medium">
+											{proposal.title}
+										</span>
+										<span className="text-xs text-muted-foreground">
+											{Math.round((proposal.end - proposal.start) / 1000)}s
+										</span>
+										<Button
+											variant="outline"
+											size="sm"
+											className="h-7 text-xs"
+											disabled={creatingIndex !== null}
+											onClick={() => handleCreate(index)}
+										>
+											{creatingIndex === index ? (
+												<Loader2 className="w-3.5 h-3.5 mr-1 animate-spin" />
+											) : (
+												<Clapperboard className="w-3.5 h-3.5 mr-1" />
+											)}
+											Create short
+										</Button>
+									</div>
+									<p className="text-xs text-muted-foreground">
+										{proposal.rationale}
+									</p>
+								</div>
+							))
+						)}
+					</div>
+				</div>
+
+				<DialogFooter>
+					<Button variant="outline" onClick={() => setOpen(false)}>
+						Close
+					</Button>
+					<Button disabled={isLoading || !uploadId} onClick={handleFind}>
+						{isLoading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+						{proposals.length > 0 ? "Find again" : "Find highlights"}
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+};
+
+export default HighlightDialog;
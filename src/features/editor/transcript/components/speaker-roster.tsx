@@ -0,0 +1,165 @@
+import { Button } from "@/components/ui/button";
+import {
+	DropdownMenu,
+	DropdownMenuContent,
+	DropdownMenuItem,
+	DropdownMenuLabel,
+	DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { ChevronDown, ChevronRight, Merge, Users } from "lucide-react";
+import React, { useEffect, useMemo, useState } from "react";
+import { useTranscriptSpeakers } from "../../hooks/use-transcript-speakers";
+import useTranscriptStore from "../../store/use-transcript-store";
+import { TranscriptSegment, TranscriptSpeaker } from "../types";
+
+const SpeakerRow: React.FC<{
+	speaker: TranscriptSpeaker;
+	others: TranscriptSpeaker[];
+	wordCount: number;
+}> = ({ speaker, others, wordCount }) => {
+	const { updateSpeaker, mergeSpeakers } = useTranscriptSpeakers();
+	const [name, setName] = useState(speaker.name);
+	const [color, setColor] = useState(speaker.color);
+
+	useEffect(() => setName(speaker.name), [speaker.name]);
+	useEffect(() => setColor(speaker.color), [speaker.color]);
+
+	// Save once editing is done rather than on every keystroke
+	const commitName = () => {
+		const trimmed = name.trim();
+		if (!trimmed) {
+			setName(speaker.name);
+		} else if (trimmed !== speaker.name) {
+			updateSpeaker(speaker.id, { name: trimmed });
+		}
+	};
+
+	const commitColor = () => {
+		if (color !== speaker.color) {
+			updateSpeaker(speaker.id, { color });
+		}
+	};
+
+	return (
+		<div className="flex items-center gap-2">
+			<input
+				type="color"
+				value={color}
+				onChange={(e) => setColor(e.target.value)}
+				onBlur={commitColor}
+				className="h-6 w-6 shrink-0 cursor-pointer rounded border-none bg-transparent p-0"
+				title="Speaker color"
+			/>
+			<Input
+				value={name}
+				onChange={(e) => setName(e.target.value)}
+				onBlur={commitName}
+				onKeyDown={(e) => {
+					if (e.key === "Enter") e.currentTarget.blur();
+					if (e.key === "Escape") {
+						setName(speaker.name);
+						e.currentTarget.blur();
+					}
+				}}
+				className="h-7 text-xs"
+			/>
+			<span className="w-12 shrink-0 text-right text-xs text-muted-foreground">
+				{wordCount} w
+			</span>
+			<DropdownMenu>
+				<DropdownMenuTrigger asChild>
+					<Button
+						variant="ghost"
+						size="icon"
+						className="h-7 w-7 shrink-0"
+						disabled={others.length === 0}
+						title="Merge into another speaker"
+					>
+						<Merge className="h-3.5 w-3.5" />
+					</Button>
+				</DropdownMenuTrigger>
+				<DropdownMenuContent align="end">
+					<DropdownMenuLabel className="text-xs">
+						Merge {speaker.name} into
+					</DropdownMenuLabel>
+					{others.map((other) => (
+						<DropdownMenuItem
+							key={other.id}
+							onClick={() => mergeSpeakers(speaker.id, other.id)}
+						>
+							<span
+								className="mr-2 h-2.5 w-2.5 rounded-full"
+								style={{ backgroundColor: other.color }}
+							/>
+							{other.name}
+						</DropdownMenuItem>
+					))}
+				</DropdownMenuContent>
+			</DropdownMenu>
+		</div>
+	);
+};
+
+/**
+ * Named, colored speakers of the loaded transcription
+ */
+const SpeakerRoster: React.FC = () => {
+	const { speakers, fullEDUs } = useTranscriptStore();
+	const [isOpen, setIsOpen] = useState(false);
+
+	const wordCounts = useMemo(() => {
+		const counts: Record<string, number> = {};
+		for (const edu of fullEDUs) {
+			for (const word of edu.words as TranscriptSegment[]) {
+				if (word.type === "word" && word.speaker_id) {
+					counts[word.speaker_id] = (counts[word.speaker_id] || 0) + 1;
+				}
+			}
+		}
+		return counts;
+	}, [fullEDUs]);
+
+	if (speakers.length === 0) return null;
+
+	return (
+		<div className="rounded border border-border">
+			<button
+				type="button"
+				className="flex w-full items-center gap-2 px-2 py-1.5 text-xs font-medium"
+				onClick={() => setIsOpen((open) => !open)}
+			>
+				{isOpen ? (
+					<ChevronDown className="h-3.5 w-3.5" />
+				) : (
+					<ChevronRight className="h-3.5 w-3.5" />
+				)}
+				<Users className="h-3.5 w-3.5" />
+				Speakers
+				<span className="ml-auto flex -space-x-1">
+					{speakers.map((speaker) => (
+						<span
+							key={speaker.id}
+							className="h-2.5 w-2.5 rounded-full ring-1 ring-background"
+							style={{ backgroundColor: speaker.color }}
+						/>
+					))}
+				</span>
+			</button>
+			{isOpen && (
+				<div className="space-y-1.5 border-t border-border p-2">
+					{speakers.map((speaker) => (
+						<SpeakerRow
+							key={speaker.id}
+							speaker={speaker}
+							others={speakers.filter((other) => other.id !== speaker.id)}
+							wordCount={wordCounts[speaker.id] || 0}
+						/>
+					))}
+				</div>
+			)}
+		</div>
+	);
+};
+
+export default SpeakerRoster;
@@ -0,0 +1,112 @@
+import {
+	Select,
+	SelectContent,
+	SelectGroup,
+	SelectItem,
+	SelectLabel,
+	SelectSeparator,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { Languages, Loader2 } from "lucide-react";
+import React, { useState } from "react";
+import { toast } from "sonner";
+import { OptionsCountrys } from "../../data/language";
+import {
+	ORIGINAL_LANGUAGE,
+	useSubtitleLanguage,
+} from "../../hooks/use-subtitle-language";
+
+const getLanguageName = (code: string) =>
+	OptionsCountrys.find((option) => option.code === code)?.name || code;
+
+/**
+ * Pick the language of the subtitle track
+ * Languages without a translation are translated first
+ */
+const SubtitleLanguagePicker: React.FC = () => {
+	const {
+		languages,
+		spokenLanguages,
+		current,
+		canTranslate,
+		translate,
+		applyLanguage,
+	} = useSubtitleLanguage();
+	const [translating, setTranslating] = useState<string | null>(null);
+
+	if (!canTranslate) return null;
+
+	const untranslated = OptionsCountrys.filter(
+		(option) =>
+			!languages.includes(option.code) &&
+			!spokenLanguages.includes(option.code),
+	);
+
+	const handleChange = async (language: string) => {
+		if (language !== ORIGINAL_LANGUAGE && !languages.includes(language)) {
+			setTranslating(language);
+			const translated = await translate(language);
+			setTranslating(null);
+			if (!translated) return;
+		}
+		if (applyLanguage(language)) {
+			toast.success(
+				language === ORIGINAL_LANGUAGE
+					? "Subtitles show the original transcript"
+					: `Subtitles switched to ${getLanguageName(language)}`,
+			);
+		}
+	};
+
+	const originalLabel =
+		spokenLanguages.length === 1
+			? `Original (${getLanguageName(spokenLanguages[0])})`
+			: "Original";
+
+	return (
+		<Select
+			value={translating || current}
+			onValueChange={handleChange}
+			disabled={translating !== null}
+		>
+			<SelectTrigger className="h-7 w-full text-xs" size="sm">
+				{translating ? (
+					<Loader2 className="h-3.5 w-3.5 animate-spin" />
+				) : (
+					<Languages className="h-3.5 w-3.5" />
+				)}
+				<SelectValue placeholder="Subtitle language" />
+			</SelectTrigger>
+			<SelectContent>
+				<SelectItem value={ORIGINAL_LANGUAGE} className="text-xs">
+					{originalLabel}
+				</SelectItem>
+				{languages.map((code) => (
+					<SelectItem key={code} value={code} className="text-xs">
+						{getLanguageName(code)}
+					</SelectItem>
+				))}
+				{untranslated.length > 0 && (
+					<>
+						<SelectSeparator />
+						<SelectGroup>
+							<SelectLabel className="text-xs">Translate to</SelectLabel>
+							{untranslated.map((option) => (
+								<SelectItem
+									key={option.code}
+									value={option.code}
+									className="text-xs"
+								>
+									{option.name}
+								</SelectItem>
+							))}
+						</SelectGroup>
+					</>
+				)}
+			</SelectContent>
+		</Select>
+	);
+};
+
+export default SubtitleLanguagePicker;
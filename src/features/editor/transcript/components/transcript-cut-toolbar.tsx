@@ -0,0 +1,73 @@
+import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+	MousePointer2,
+	RotateCcw,
+	Scissors,
+	Strikethrough,
+} from "lucide-react";
+import React from "react";
+import { useTranscriptCuts } from "../../hooks/use-transcript-cuts";
+import useTranscriptStore from "../../store/use-transcript-store";
+import { isWordCut } from "../../utils/transcript-cuts";
+import { TranscriptEditMode } from "../types";
+
+const TranscriptCutToolbar: React.FC = () => {
+	const { editMode, setEditMode, wordSelection, getSelectedWords, fullEDUs } =
+		useTranscriptStore();
+	const { cutWords, restoreWords } = useTranscriptCuts();
+
+	const selectedWords = wordSelection ? getSelectedWords() : [];
+	const hasKeptWords = selectedWords.some((word) => !isWordCut(word));
+	const hasCutWords = selectedWords.some(isWordCut);
+	const cutCount = fullEDUs.reduce(
+		(count, edu) => count + edu.words.filter(isWordCut).length,
+		0,
+	);
+
+	return (
+		<div className="flex items-center gap-2">
+			<ToggleGroup
+				type="single"
+				size="sm"
+				variant="outline"
+				value={editMode}
+				onValueChange={(value) => {
+					if (value) setEditMode(value as TranscriptEditMode);
+				}}
+			>
+				<ToggleGroupItem value="select" aria-label="Select words">
+					<MousePointer2 className="w-4 h-4" />
+				</ToggleGroupItem>
+				<ToggleGroupItem value="strike" aria-label="Strike out words">
+					<Strikethrough className="w-4 h-4" />
+				</ToggleGroupItem>
+			</ToggleGroup>
+			<Button
+				variant="outline"
+				size="sm"
+				disabled={!hasKeptWords}
+				onClick={() => cutWords(selectedWords.map((word) => word.id))}
+			>
+				<Scissors className="w-4 h-4 mr-1" />
+				Cut
+			</Button>
+			<Button
+				variant="outline"
+				size="sm"
+				disabled={!hasCutWords}
+				onClick={() => restoreWords(selectedWords.map((word) => word.id))}
+			>
+				<RotateCcw className="w-4 h-4 mr-1" />
+				Restore
+			</Button>
+			{cutCount > 0 && (
+				<span className="ml-auto text-xs text-muted-foreground">
+					{cutCount} cut
+				</span>
+			)}
+		</div>
+	);
+};
+
+export default TranscriptCutToolbar;
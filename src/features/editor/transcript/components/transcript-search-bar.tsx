@@ -0,0 +1,146 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Toggle } from "@/components/ui/toggle";
+import {
+	ChevronDown,
+	ChevronUp,
+	Regex,
+	Replace,
+	Search,
+	X,
+} from "lucide-react";
+import React, { useState } from "react";
+import { TranscriptSearchOptions } from "../../utils/transcript-search";
+
+interface TranscriptSearchBarProps {
+	options: TranscriptSearchOptions;
+	onOptionsChange: (options: TranscriptSearchOptions) => void;
+	hitCount: number;
+	activeHitIndex: number;
+	error?: string;
+	onStep: (direction: 1 | -1) => void;
+	// Enables find-and-replace
+	onReplaceAll?: (replacement: string) => void;
+}
+
+const TranscriptSearchBar: React.FC<TranscriptSearchBarProps> = ({
+	options,
+	onOptionsChange,
+	hitCount,
+	activeHitIndex,
+	error,
+	onStep,
+	onReplaceAll,
+}) => {
+	const [showReplace, setShowReplace] = useState(false);
+	const [replacement, setReplacement] = useState("");
+
+	const hasQuery = options.query.trim().length > 0;
+
+	return (
+		<div className="space-y-1.5">
+			<div className="flex items-center gap-1">
+				<div className="relative flex-1">
+					<Search className="absolute left-2 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-muted-foreground" />
+					<Input
+						value={options.query}
+						placeholder="Search transcript"
+						className="h-7 pl-7 pr-14 text-xs"
+						aria-invalid={!!error}
+						onChange={(e) =>
+							onOptionsChange({ ...options, query: e.target.value })
+						}
+						onKeyDown={(e) => {
+							if (e.key === "Enter") {
+								e.preventDefault();
+								onStep(e.shiftKey ? -1 : 1);
+							} else if (e.key === "Escape") {
+								onOptionsChange({ ...options, query: "" });
+							}
+						}}
+					/>
+					{hasQuery && (
+						<span className="absolute right-2 top-1/2 -translate-y-1/2 text-[10px] text-muted-foreground">
+							{hitCount > 0 ? `${activeHitIndex + 1} of ${hitCount}` : "0 of 0"}
+						</span>
+					)}
+				</div>
+				<Toggle
+					size="sm"
+					className="h-7 min-w-7 px-1"
+					pressed={options.mode === "regex"}
+					onPressedChange={(pressed) =>
+						onOptionsChange({ ...options, mode: pressed ? "regex" : "text" })
+					}
+					aria-label="Regular expression"
+					title="Regular expression"
+				>
+					<Regex className="h-3.5 w-3.5" />
+				</Toggle>
+				<Button
+					variant="ghost"
+					size="icon"
+					className="h-7 w-7"
+					disabled={hitCount === 0}
+					onClick={() => onStep(-1)}
+					title="Previous match"
+				>
+					<ChevronUp className="h-3.5 w-3.5" />
+				</Button>
+				<Button
+					variant="ghost"
+					size="icon"
+					className="h-7 w-7"
+					disabled={hitCount === 0}
+					onClick={() => onStep(1)}
+					title="Next match"
+				>
+					<ChevronDown className="h-3.5 w-3.5" />
+				</Button>
+				{onReplaceAll && (
+					<Button
+						variant="ghost"
+						size="icon"
+						className="h-7 w-7"
+						onClick={() => setShowReplace((show) => !show)}
+						title={showReplace ? "Hide replace" : "Find and replace"}
+					>
+						{showReplace ? (
+							<X className="h-3.5 w-3.5" />
+						) : (
+							<Replace className="h-3.5 w-3.5" />
+						)}
+					</Button>
+				)}
+			</div>
+			{error && <p className="text-[10px] text-destructive">{error}</p>}
+			{showReplace && onReplaceAll && (
+				<div className="flex items-center gap-1">
+					<Input
+						value={replacement}
+						placeholder="Replace with"
+						className="h-7 flex-1 text-xs"
+						onChange={(e) => setReplacement(e.target.value)}
+						onKeyDown={(e) => {
+							if (e.key === "Enter" && hitCount > 0) {
+								e.preventDefault();
+								onReplaceAll(replacement);
+							}
+						}}
+					/>
+					<Button
+						variant="outline"
+						size="sm"
+						className="h-7 text-xs"
+						disabled={hitCount === 0}
+						onClick={() => onReplaceAll(replacement)}
+					>
+						Replace all
+					</Button>
+				</div>
+			)}
+		</div>
+	);
+};
+
+export default TranscriptSearchBar;
@@ -0,0 +1,47 @@
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectSeparator,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { Film, FileAudio } from "lucide-react";
+import React from "react";
+import { useTranscriptSources } from "../../hooks/use-transcript-sources";
+
+/**
+ * Switch between the timeline transcript and the raw transcript of an upload
+ */
+const TranscriptSourcePicker: React.FC = () => {
+	const { options, selected, selectSource } = useTranscriptSources();
+
+	if (options.length === 0) return null;
+
+	return (
+		<Select value={selected || undefined} onValueChange={selectSource}>
+			<SelectTrigger className="h-7 w-full text-xs" size="sm">
+				<SelectValue placeholder="Transcript source" />
+			</SelectTrigger>
+			<SelectContent>
+				<SelectItem value="timeline" className="text-xs">
+					<Film className="h-3.5 w-3.5" />
+					Timeline
+				</SelectItem>
+				<SelectSeparator />
+				{options.map((option) => (
+					<SelectItem
+						key={option.uploadId}
+						value={option.uploadId}
+						className="text-xs"
+					>
+						<FileAudio className="h-3.5 w-3.5" />
+						{option.name}
+					</SelectItem>
+				))}
+			</SelectContent>
+		</Select>
+	);
+};
+
+export default TranscriptSourcePicker;
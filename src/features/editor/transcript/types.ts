@@ -1,5 +1,7 @@
+import type { FullEDU } from "@/lib/llm/types";
+
 // Re-export FullEDU from LLM types for easier imports
-export type { FullEDU } from "@/lib/llm/types";
+export type { FullEDU };
 
 export interface TranscriptStyle {
 	bold?: boolean;
@@ -23,9 +25,72 @@ export interface TranscriptSegment {
 	logprob: number;
 	characters: string | null;
 	isActive?: boolean;
+	isCut?: boolean; // Struck out in text-based editing, removed from the timeline
+	isUnplayed?: boolean; // No clip on the timeline plays it, kept up to date from the timings
 	style?: TranscriptStyle;
 }
 
+/**
+ * A diarized speaker of a transcription, keyed by the provider's speaker_id
+ */
+export interface TranscriptSpeaker {
+	id: string;
+	name: string;
+	color: string;
+}
+
+/**
+ * Transcription of one upload, in source-media time
+ */
+export interface TranscriptSource {
+	uploadId: string;
+	fullEDUs: FullEDU[];
+	speakers: TranscriptSpeaker[];
+	language?: string; // Spoken language code
+	translations?: Record<string, FullEDU[]>; // Same EDUs, by language code
+}
+
+/**
+ * What the transcript panel shows
+ * - timeline: every source mapped through the media items that play it
+ * - source: the raw transcript of one upload
+ */
+export type TranscriptView = "timeline" | "source";
+
+/**
+ * How clicks on transcript words are interpreted
+ * - select: click seeks and selects, shift+click extends the selection
+ * - strike: click toggles the word between kept and cut
+ */
+export type TranscriptEditMode = "select" | "strike";
+
+/**
+ * Inclusive range of global word indexes (see getWordIndexMap)
+ */
+export interface TranscriptWordSelection {
+	anchor: number;
+	focus: number;
+}
+
+/**
+ * A cut proposed by the auto clean pass, reviewed before it is applied
+ */
+export interface AutoCleanCandidate {
+	id: string;
+	kind: "filler" | "silence";
+	wordIds: string[];
+	text: string;
+	start: number;
+	end: number;
+}
+
+export interface AutoCleanOptions {
+	language: string;
+	removeFillers: boolean;
+	removeSilences: boolean;
+	silenceThresholdMs: number;
+}
+
 export interface TranscriptToolbarAction {
 	type:
 		| "bold"
@@ -0,0 +1,272 @@
+import { dispatch } from "@designcombo/events";
+import { EDIT_OBJECT } from "@designcombo/state";
+import {
+	IBasicAnimation,
+	ICompositionAnimation,
+	ITrackItem,
+} from "@designcombo/types";
+import { CSSProperties } from "react";
+import { Easing } from "remotion";
+import {
+	ANIMATION_PRESETS,
+	ANIMATION_REST,
+	AnimationCombo,
+	AnimationEasing,
+	AnimationPresetId,
+	AnimationProperty,
+	AnimationSlot,
+	MAX_COMBO_SHARE,
+} from "../constants/animations";
+
+/**
+ * A preset as the state keeps it on an item, with the frame rate its frames
+ * count in. Renders at another rate rescale them to keep its speed
+ */
+export interface ItemAnimation extends IBasicAnimation {
+	fps?: number;
+}
+
+export type ItemAnimations = Partial<Record<AnimationSlot, ItemAnimation>>;
+
+export type AnimationValues = Record<AnimationProperty, number>;
+
+export interface AnimationOptions {
+	// ms
+	duration: number;
+	easing: AnimationEasing;
+}
+
+const EASINGS: Record<AnimationEasing, (t: number) => number> = {
+	linear: Easing.linear,
+	"ease-in": Easing.in(Easing.cubic),
+	"ease-out": Easing.out(Easing.cubic),
+	"ease-in-out": Easing.inOut(Easing.cubic),
+	back: Easing.out(Easing.back(1.7)),
+	bounce: Easing.bounce,
+};
+
+export const getItemAnimations = (item: ITrackItem): ItemAnimations =>
+	(item.animations as ItemAnimations | undefined) || {};
+
+export const getAnimationPreset = (animation?: IBasicAnimation) =>
+	animation && animation.name in ANIMATION_PRESETS
+		? ANIMATION_PRESETS[animation.name as AnimationPresetId]
+		: undefined;
+
+/**
+ * Presets an item can use in a slot, reveals need text
+ */
+export const getSlotPresets = (slot: AnimationSlot, hasText: boolean) =>
+	(Object.keys(ANIMATION_PRESETS) as AnimationPresetId[]).filter((id) => {
+		const preset = ANIMATION_PRESETS[id];
+		return preset.slots[slot] && (hasText || !preset.textOnly);
+	});
+
+/**
+ * Animation of a preset in the shape the state keeps on items
+ * Entrances run from the preset's values to rest, exits and loops from rest
+ * to them
+ */
+export const createAnimation = (
+	id: AnimationPresetId,
+	slot: AnimationSlot,
+	fps: number,
+	options?: Partial<AnimationOptions>,
+): ItemAnimation => {
+	const preset = ANIMATION_PRESETS[id];
+	const duration = options?.duration ?? preset.duration;
+	const easing = options?.easing ?? preset.easing;
+	return {
+		name: id,
+		fps,
+		composition: (preset.slots[slot] || []).map(({ property, value }) => ({
+			property,
+			from: slot === "in" ? value : ANIMATION_REST[property],
+			to: slot === "in" ? ANIMATION_REST[property] : value,
+			durationInFrames: Math.max(Math.round((duration / 1000) * fps), 1),
+			easing,
+			delay: 0,
+		})),
+	};
+};
+
+/**
+ * Duration and easing of an animation, animations without a frame rate of
+ * their own count in the given one
+ */
+export const getAnimationOptions = (
+	animation: ItemAnimation,
+	fps: number,
+): AnimationOptions => {
+	const [first] = animation.composition;
+	const preset = getAnimationPreset(animation);
+	return {
+		duration: first
+			? (first.durationInFrames / (animation.fps || fps)) * 1000
+			: (preset?.duration ?? 0),
+		easing: (first?.easing as AnimationEasing) || preset?.easing || "linear",
+	};
+};
+
+/**
+ * Animations of a combo, shortened so its entrance and exit fit the item
+ */
+export const createComboAnimations = (
+	combo: AnimationCombo,
+	fps: number,
+	itemDuration?: number,
+): ItemAnimations => {
+	const edges = [combo.presets.in, combo.presets.out].reduce(
+		(total, preset) =>
+			preset ? total + ANIMATION_PRESETS[preset].duration : total,
+		0,
+	);
+	const fit =
+		itemDuration && edges > 0
+			? Math.min((itemDuration * MAX_COMBO_SHARE) / edges, 1)
+			: 1;
+
+	const animations: ItemAnimations = {};
+	for (const slot of ["in", "out", "loop"] as AnimationSlot[]) {
+		const preset = combo.presets[slot];
+		if (!preset) continue;
+		animations[slot] = createAnimation(preset, slot, fps, {
+			duration:
+				slot === "loop" ? undefined : ANIMATION_PRESETS[preset].duration * fit,
+		});
+	}
+	return animations;
+};
+
+/**
+ * Set or clear (with null) the animations of an item in some slots
+ */
+export const setItemAnimations = (
+	id: string,
+	changes: Partial<Record<AnimationSlot, ItemAnimation | null>>,
+) => {
+	const animations: ItemAnimations = {};
+	for (const [slot, animation] of Object.entries(changes)) {
+		animations[slot as AnimationSlot] = animation ?? undefined;
+	}
+	dispatch(EDIT_OBJECT, {
+		payload: {
+			[id]: { animations },
+		},
+	});
+};
+
+const getEasing = (name: string) =>
+	EASINGS[name as AnimationEasing] || Easing.linear;
+
+const interpolateStep = (step: ICompositionAnimation, progress: number) =>
+	step.from + (step.to - step.from) * progress;
+
+/**
+ * Steps of an animation with their frames counted at the given rate
+ */
+const getSteps = (animation: ItemAnimation | undefined, fps: number) => {
+	if (!animation) return [];
+	const scale = animation.fps ? fps / animation.fps : 1;
+	return animation.composition.map((step) => ({
+		...step,
+		durationInFrames: Math.max(step.durationInFrames * scale, 1),
+		delay: step.delay * scale,
+	}));
+};
+
+/**
+ * Values of the animated properties at a frame of an item, played at fps
+ * Exits play like their entrance backwards, so overshooting curves don't
+ * carry an item past where it leaves. Loops rise and fall once per cycle
+ */
+export const getAnimationValues = (
+	animations: ItemAnimations,
+	frame: number,
+	durationInFrames: number,
+	fps: number,
+): AnimationValues => {
+	const values = { ...ANIMATION_REST };
+	const apply = (property: string, value: number) => {
+		const name = property as AnimationProperty;
+		if (!(name in values)) return;
+		if (name === "translateX" || name === "translateY" || name === "rotate") {
+			values[name] += value;
+		} else if (name === "typewriter" || name === "wordReveal") {
+			values[name] = Math.min(values[name], value);
+		} else {
+			values[name] *= value;
+		}
+	};
+
+	for (const step of getSteps(animations.in, fps)) {
+		const length = Math.min(step.durationInFrames, durationInFrames);
+		const progress = Math.min(Math.max((frame - step.delay) / length, 0), 1);
+		apply(
+			step.property,
+			interpolateStep(step, getEasing(step.easing)(progress)),
+		);
+	}
+
+	for (const step of getSteps(animations.out, fps)) {
+		const length = Math.min(step.durationInFrames, durationInFrames);
+		const remaining = Math.min(
+			Math.max((durationInFrames - 1 - frame) / length, 0),
+			1,
+		);
+		apply(
+			step.property,
+			interpolateStep(step, 1 - getEasing(step.easing)(remaining)),
+		);
+	}
+
+	for (const step of getSteps(animations.loop, fps)) {
+		const cycle = (frame % step.durationInFrames) / step.durationInFrames;
+		apply(step.property, interpolateStep(step, Math.sin(Math.PI * cycle)));
+	}
+
+	return values;
+};
+
+/**
+ * Styles of the animated container, slides are sized by the canvas
+ */
+export const getAnimationStyle = (
+	values: AnimationValues,
+	size: { width: number; height: number },
+): CSSProperties => {
+	const transforms = [];
+	if (values.translateX || values.translateY) {
+		transforms.push(
+			`translate(${values.translateX * size.width}px, ${values.translateY * size.height}px)`,
+		);
+	}
+	if (values.scale !== 1) transforms.push(`scale(${values.scale})`);
+	if (values.rotate) transforms.push(`rotate(${values.rotate}deg)`);
+	return {
+		opacity: Math.min(Math.max(values.opacity, 0), 1),
+		transform: transforms.length ? transforms.join(" ") : undefined,
+	};
+};
+
+/**
+ * The part of a text that shows, by characters and then by words
+ */
+export const revealText = (text: string, values: AnimationValues) => {
+	let visible = text;
+	if (values.typewriter < 1) {
+		visible = visible.slice(
+			0,
+			Math.round(visible.length * Math.max(values.typewriter, 0)),
+		);
+	}
+	if (values.wordReveal < 1) {
+		// Split keeping the spaces, so line breaks survive
+		const words = visible.split(/(\s+)/);
+		const count = Math.ceil(
+			Math.ceil(words.length / 2) * Math.max(values.wordReveal, 0),
+		);
+		visible = count > 0 ? words.slice(0, count * 2 - 1).join("") : "";
+	}
+	return visible;
+};
@@ -0,0 +1,143 @@
+import { FillerWords } from "../data/language";
+import {
+	AutoCleanCandidate,
+	AutoCleanOptions,
+	FullEDU,
+	TranscriptSegment,
+} from "../transcript/types";
+import { isWordCut } from "./transcript-cuts";
+
+export const DEFAULT_AUTO_CLEAN_OPTIONS: AutoCleanOptions = {
+	language: "en",
+	removeFillers: true,
+	removeSilences: true,
+	silenceThresholdMs: 1000,
+};
+
+/**
+ * Lowercase and drop punctuation and whitespace so "Um," matches "um" and
+ * multi-word fillers ("you know") match across word segments
+ */
+const normalizeText = (text: string) =>
+	text
+		.toLowerCase()
+		.normalize("NFC")
+		.replace(/[\s\p{P}]/gu, "");
+
+const isSpacing = (segment: TranscriptSegment) => segment.type === "spacing";
+
+/**
+ * Get the filler list for a language code such as "en" or "en-US"
+ */
+export function getFillerWords(language: string): string[] {
+	const code = language.toLowerCase().split(/[-_]/)[0];
+	return FillerWords[code] || [];
+}
+
+/**
+ * Find filler words and phrases among the words that are still kept
+ * Phrases are matched against consecutive words, skipping spacing segments
+ */
+export function findFillerWords(
+	words: TranscriptSegment[],
+	fillers: string[],
+): AutoCleanCandidate[] {
+	const patterns = fillers
+		.map(normalizeText)
+		.filter(Boolean)
+		// Prefer the longest phrase when several fillers match at one position
+		.sort((a, b) => b.length - a.length);
+	if (patterns.length === 0) return [];
+
+	const spoken = words.filter((word) => !isSpacing(word) && !isWordCut(word));
+	const candidates: AutoCleanCandidate[] = [];
+
+	let i = 0;
+	while (i < spoken.length) {
+		let matchedLength = 0;
+
+		for (const pattern of patterns) {
+			let joined = "";
+			let j = i;
+			while (j < spoken.length && joined.length < pattern.length) {
+				joined += normalizeText(spoken[j].text);
+				j++;
+			}
+			if (joined === pattern) {
+				matchedLength = j - i;
+				break;
+			}
+		}
+
+		if (matchedLength === 0) {
+			i++;
+			continue;
+		}
+
+		const matched = spoken.slice(i, i + matchedLength);
+		candidates.push({
+			id: `filler-${matched[0].id}`,
+			kind: "filler",
+			wordIds: matched.map((word) => word.id),
+			text: matched
+				.map((word) => word.text)
+				.join(" ")
+				.trim(),
+			start: matched[0].start,
+			end: matched[matched.length - 1].end,
+		});
+		i += matchedLength;
+	}
+
+	return candidates;
+}
+
+/**
+ * Find spacing segments at least `thresholdMs` long
+ * Short pauses are already folded into neighbouring words by
+ * removeTooShortSegments during transcription
+ */
+export function findLongSilences(
+	words: TranscriptSegment[],
+	thresholdMs: number,
+): AutoCleanCandidate[] {
+	return words
+		.filter(
+			(word) =>
+				isSpacing(word) &&
+				!isWordCut(word) &&
+				word.end - word.start >= thresholdMs,
+		)
+		.map((word) => ({
+			id: `silence-${word.id}`,
+			kind: "silence",
+			wordIds: [word.id],
+			text: `${((word.end - word.start) / 1000).toFixed(1)}s silence`,
+			start: word.start,
+			end: word.end,
+		}));
+}
+
+/**
+ * Build the reviewable cut list for the auto clean pass, sorted by time
+ */
+export function findAutoCleanCandidates(
+	fullEDUs: FullEDU[],
+	options: AutoCleanOptions,
+): AutoCleanCandidate[] {
+	const words: TranscriptSegment[] = fullEDUs.flatMap(
+		(edu) => (edu.words || []) as TranscriptSegment[],
+	);
+
+	const candidates: AutoCleanCandidate[] = [];
+	if (options.removeFillers) {
+		candidates.push(
+			...findFillerWords(words, getFillerWords(options.language)),
+		);
+	}
+	if (options.removeSilences) {
+		candidates.push(...findLongSilences(words, options.silenceThresholdMs));
+	}
+
+	return candidates.sort((a, b) => a.start - b.start);
+}
@@ -0,0 +1,88 @@
+import { Chapter } from "@/utils/project";
+import { toVTT } from "./subtitle-formats";
+import { timeToString } from "./time";
+
+/**
+ * Chapters
+ * Chapter starts are composition times. A chapter ends where the next one
+ * starts, the last one at the end of the video.
+ */
+
+// YouTube ignores chapter lists that break these rules
+const YOUTUBE_MIN_CHAPTERS = 3;
+const YOUTUBE_MIN_CHAPTER_MS = 10000;
+
+export const sortChapters = (chapters: Chapter[]) =>
+	[...chapters].sort((a, b) => a.start - b.start);
+
+/**
+ * Parse "SS", "MM:SS" or "H:MM:SS" into milliseconds
+ * Returns null for anything else
+ */
+export function parseChapterTime(value: string): number | null {
+	const parts = value.trim().split(":");
+	if (parts.length > 3 || parts.some((part) => !/^\d+$/.test(part))) {
+		return null;
+	}
+	return parts.reduce((total, part) => total * 60 + Number(part), 0) * 1000;
+}
+
+/**
+ * Reasons YouTube would reject the chapter list
+ */
+export function getYouTubeChapterIssues(
+	chapters: Chapter[],
+	durationMs: number,
+): string[] {
+	const sorted = sortChapters(chapters);
+	const issues: string[] = [];
+
+	if (sorted.length < YOUTUBE_MIN_CHAPTERS) {
+		issues.push(`YouTube needs at least ${YOUTUBE_MIN_CHAPTERS} chapters`);
+	}
+	if (sorted[0] && sorted[0].start >= 1000) {
+		issues.push("The first chapter is moved to 00:00");
+	}
+	const short = sorted.filter(
+		(chapter, index) =>
+			(sorted[index + 1]?.start ?? durationMs) - chapter.start <
+			YOUTUBE_MIN_CHAPTER_MS,
+	);
+	if (short.length > 0) {
+		issues.push(
+			`Chapters shorter than ${YOUTUBE_MIN_CHAPTER_MS / 1000}s: ${short
+				.map((chapter) => chapter.title)
+				.join(", ")}`,
+		);
+	}
+	return issues;
+}
+
+/**
+ * YouTube description chapter list, one "MM:SS Title" per line
+ */
+export function toYouTubeChapters(chapters: Chapter[]): string {
+	return sortChapters(chapters)
+		.map(
+			(chapter, index) =>
+				// YouTube only detects chapters that start at 00:00
+				`${timeToString({ time: index === 0 ? 0 : chapter.start })} ${chapter.title}`,
+		)
+		.join("\n");
+}
+
+/**
+ * WebVTT chapters track
+ */
+export function toVTTChapters(chapters: Chapter[], durationMs: number): string {
+	const sorted = sortChapters(chapters).filter(
+		(chapter) => chapter.start < durationMs,
+	);
+	return toVTT(
+		sorted.map((chapter, index) => ({
+			start: chapter.start,
+			end: sorted[index + 1]?.start ?? durationMs,
+			text: chapter.title,
+		})),
+	);
+}
@@ -0,0 +1,127 @@
+import { IDesign, ITrackItem } from "@designcombo/types";
+import { shiftKeyframes } from "./keyframes";
+
+/**
+ * Export ranges
+ * Part of the composition an export covers, in ms. Shared by the export
+ * dialog and both render backends
+ */
+
+export interface ExportRange {
+	start: number;
+	end: number;
+}
+
+export type ExportScope = "all" | "range" | "selection";
+
+/**
+ * Range between the in and out points, null when neither is set
+ * A missing in point starts at 0 and a missing out point ends the video
+ */
+export function getMarkedRange(
+	inPoint: number | null,
+	outPoint: number | null,
+	duration: number,
+): ExportRange | null {
+	if (inPoint === null && outPoint === null) return null;
+	const start = Math.max(0, inPoint ?? 0);
+	const end = Math.min(duration, outPoint ?? duration);
+	return end > start ? { start, end } : null;
+}
+
+/**
+ * Span covered by the given items, null when there are none
+ */
+export function getItemsRange(items: ITrackItem[]): ExportRange | null {
+	if (items.length === 0) return null;
+	return {
+		start: Math.min(...items.map((item) => item.display.from)),
+		end: Math.max(...items.map((item) => item.display.to)),
+	};
+}
+
+/**
+ * Keep only the given items, dropping tracks left empty and transitions
+ * whose items were removed
+ */
+export function selectDesignItems(design: IDesign, ids: string[]): IDesign {
+	const selected = new Set(ids.filter((id) => design.trackItemsMap[id]));
+	const transitionsMap = Object.fromEntries(
+		Object.entries(design.transitionsMap || {}).filter(
+			([, transition]) =>
+				selected.has(transition.fromId) && selected.has(transition.toId),
+		),
+	);
+
+	return {
+		...design,
+		tracks: design.tracks
+			.map((track) => ({
+				...track,
+				items: track.items.filter((id) => selected.has(id)),
+			}))
+			.filter((track) => track.items.length > 0),
+		trackItemIds: design.trackItemIds.filter((id) => selected.has(id)),
+		trackItemsMap: Object.fromEntries(
+			[...selected].map((id) => [id, design.trackItemsMap[id]]),
+		),
+		transitionIds: (design.transitionIds || []).filter(
+			(id) => transitionsMap[id],
+		),
+		transitionsMap,
+		structure: design.structure?.filter((entry) => selected.has(entry.id)),
+	};
+}
+
+/**
+ * Cut a design down to a range, shifted so the range starts at 0
+ * Items are trimmed where they cross the range edges; media keeps playing
+ * the same source time. Used for renderers that can't render a frame range
+ */
+export function cropDesignToRange(
+	design: IDesign,
+	{ start, end }: ExportRange,
+): IDesign {
+	const items = design.trackItemIds
+		.map((id) => design.trackItemsMap[id])
+		.filter(
+			(item) => item && item.display.to > start && item.display.from < end,
+		);
+
+	const trackItemsMap: Record<string, ITrackItem> = {};
+	for (const item of items) {
+		const from = Math.max(item.display.from, start);
+		const to = Math.min(item.display.to, end);
+		const cropped = {
+			...item,
+			display: { from: from - start, to: to - start },
+		} as ITrackItem;
+
+		// Keyframes are timed from the item's start, which the crop moves.
+		// An item cut at its start has already entered, so skips its entrance
+		if (from > item.display.from) {
+			cropped.details = shiftKeyframes(item.details, item.display.from - from);
+			if (item.animations?.in) {
+				const { in: _entrance, ...animations } = item.animations;
+				cropped.animations = animations as ITrackItem["animations"];
+			}
+		}
+
+		const trim = (item as any).trim as { from: number; to: number } | undefined;
+		if (item.type === "video" || item.type === "audio") {
+			const rate = item.playbackRate || 1;
+			const trimFrom = trim?.from ?? 0;
+			(cropped as any).trim = {
+				from: trimFrom + (from - item.display.from) * rate,
+				to: trimFrom + (to - item.display.from) * rate,
+			};
+		}
+		trackItemsMap[item.id] = cropped;
+	}
+
+	const cropped = selectDesignItems(
+		{ ...design, trackItemsMap: { ...design.trackItemsMap, ...trackItemsMap } },
+		Object.keys(trackItemsMap),
+	);
+	return { ...cropped, duration: end - start };
+}
@@ -0,0 +1,296 @@
+import { ISize } from "@designcombo/types";
+import { ExportRange } from "./export-range";
+
+/**
+ * Export settings
+ * Shared by the export dialog and the render backend, so both validate
+ * combinations the same way
+ */
+
+export type ExportFormat =
+	| "mp4"
+	| "webm"
+	| "mov"
+	| "gif"
+	| "mp3"
+	| "wav"
+	| "png-sequence"
+	| "png"
+	| "json";
+
+export type VideoCodec = "h264" | "h265" | "vp9" | "prores";
+
+export type ExportResolution = "720p" | "1080p" | "4k";
+
+export type AudioBitrate = "128k" | "192k" | "256k" | "320k";
+
+export interface ExportSettings {
+	format: ExportFormat;
+	codec: VideoCodec;
+	resolution: ExportResolution;
+	fps: number;
+	// Constant rate factor, null for the encoder's default
+	crf: number | null;
+	audioBitrate: AudioBitrate;
+	// Time of the exported frame for still images, in ms
+	stillTime: number;
+	// Part of the composition to export, null for all of it
+	range: ExportRange | null;
+}
+
+export type ExportKind = "video" | "audio" | "image" | "data";
+
+interface FormatInfo {
+	label: string;
+	kind: ExportKind;
+	extension: string;
+	codecs: VideoCodec[];
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, FormatInfo> = {
+	mp4: {
+		label: "MP4",
+		kind: "video",
+		extension: "mp4",
+		codecs: ["h264", "h265"],
+	},
+	webm: { label: "WebM", kind: "video", extension: "webm", codecs: ["vp9"] },
+	mov: { label: "MOV", kind: "video", extension: "mov", codecs: ["prores"] },
+	gif: { label: "GIF", kind: "video", extension: "gif", codecs: [] },
+	mp3: { label: "MP3", kind: "audio", extension: "mp3", codecs: [] },
+	wav: { label: "WAV", kind: "audio", extension: "wav", codecs: [] },
+	"png-sequence": {
+		label: "PNG sequence",
+		kind: "image",
+		extension: "tar",
+		codecs: [],
+	},
+	png: { label: "PNG still", kind: "image", extension: "png", codecs: [] },
+	json: { label: "JSON", kind: "data", extension: "json", codecs: [] },
+};
+
+export const VIDEO_CODECS: Record<
+	VideoCodec,
+	{ label: string; crf: [number, number] | null }
+> = {
+	h264: { label: "H.264", crf: [1, 51] },
+	h265: { label: "H.265", crf: [0, 51] },
+	vp9: { label: "VP9", crf: [0, 63] },
+	// ProRes quality comes from its profile
+	prores: { label: "ProRes", crf: null },
+};
+
+// Height of a landscape export; portrait exports use it as the width
+export const EXPORT_RESOLUTIONS: Record<ExportResolution, number> = {
+	"720p": 720,
+	"1080p": 1080,
+	"4k": 2160,
+};
+
+export const EXPORT_FPS = [24, 25, 30, 60];
+
+// Browsers and most players cap GIF frame delays at 50 fps, and lower
+// rates keep files small
+const GIF_FPS = [10, 15, 24, 25];
+
+export const getFpsOptions = (format: ExportFormat) =>
+	format === "gif" ? GIF_FPS : EXPORT_FPS;
+
+export const AUDIO_BITRATES: AudioBitrate[] = ["128k", "192k", "256k", "320k"];
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+	format: "mp4",
+	codec: "h264",
+	resolution: "1080p",
+	fps: 30,
+	crf: null,
+	audioBitrate: "192k",
+	stillTime: 0,
+	range: null,
+};
+
+export interface ExportPreset {
+	id: string;
+	label: string;
+	settings: Partial<ExportSettings>;
+}
+
+export const EXPORT_PRESETS: ExportPreset[] = [
+	{
+		id: "1080p",
+		label: "1080p H.264",
+		settings: { format: "mp4", codec: "h264", resolution: "1080p", fps: 30 },
+	},
+	{
+		id: "720p",
+		label: "720p H.264 (small)",
+		settings: {
+			format: "mp4",
+			codec: "h264",
+			resolution: "720p",
+			fps: 30,
+			crf: 23,
+		},
+	},
+	{
+		id: "4k",
+		label: "4K H.265",
+		settings: { format: "mp4", codec: "h265", resolution: "4k", fps: 30 },
+	},
+	{
+		id: "cinema",
+		label: "1080p 24 fps",
+		settings: { format: "mp4", codec: "h264", resolution: "1080p", fps: 24 },
+	},
+	{
+		id: "prores",
+		label: "ProRes master",
+		settings: { format: "mov", codec: "prores", resolution: "1080p" },
+	},
+	{
+		id: "webm",
+		label: "WebM VP9",
+		settings: { format: "webm", codec: "vp9", resolution: "1080p" },
+	},
+	{
+		id: "gif",
+		label: "GIF 720p",
+		settings: { format: "gif", resolution: "720p", fps: 15 },
+	},
+	{
+		id: "audio",
+		label: "Audio only (MP3)",
+		settings: { format: "mp3", audioBitrate: "192k" },
+	},
+];
+
+/**
+ * Apply a preset on top of the current settings
+ * The codec follows the format when the preset doesn't set one
+ */
+export function applyExportPreset(
+	settings: ExportSettings,
+	preset: ExportPreset,
+): ExportSettings {
+	const next = withFormat(
+		{ ...settings, ...preset.settings },
+		preset.settings.format || settings.format,
+	);
+	// Keep the frame rate valid when switching to or from GIF
+	const fpsOptions = getFpsOptions(next.format);
+	return fpsOptions.includes(next.fps)
+		? next
+		: { ...next, fps: fpsOptions[fpsOptions.length - 1] };
+}
+
+/**
+ * Change the format, switching to its first codec when the current one
+ * doesn't fit
+ */
+export function withFormat(
+	settings: ExportSettings,
+	format: ExportFormat,
+): ExportSettings {
+	const { codecs } = EXPORT_FORMATS[format];
+	const codec =
+		codecs.length && !codecs.includes(settings.codec)
+			? codecs[0]
+			: settings.codec;
+	const crfRange = VIDEO_CODECS[codec].crf;
+	const crf =
+		crfRange &&
+		settings.crf !== null &&
+		settings.crf >= crfRange[0] &&
+		settings.crf <= crfRange[1]
+			? settings.crf
+			: null;
+	return { ...settings, format, codec, crf };
+}
+
+/**
+ * Output size for a resolution, keeping the project's aspect ratio
+ * The short side gets the resolution's height; both sides are even, as
+ * video encoders require
+ */
+export function getExportSize(
+	size: ISize,
+	resolution: ExportResolution,
+): ISize & { scale: number } {
+	const scale =
+		EXPORT_RESOLUTIONS[resolution] / Math.min(size.width, size.height);
+	const even = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+	return {
+		width: even(size.width * scale),
+		height: even(size.height * scale),
+		scale,
+	};
+}
+
+/**
+ * Problems that make a combination unexportable, empty when it's valid
+ * @param duration - Composition duration in ms
+ */
+export function getExportSettingsIssues(
+	settings: ExportSettings,
+	duration: number,
+): string[] {
+	const issues: string[] = [];
+	const format = EXPORT_FORMATS[settings.format];
+	if (!format) return [`Unknown format: ${settings.format}`];
+	if (format.kind === "data") return issues;
+
+	if (format.codecs.length && !format.codecs.includes(settings.codec)) {
+		issues.push(
+			`${format.label} can't be encoded with ${VIDEO_CODECS[settings.codec]?.label || settings.codec}.`,
+		);
+	}
+
+	const fpsOptions = getFpsOptions(settings.format);
+	if (
+		(format.kind === "video" || settings.format === "png-sequence") &&
+		!fpsOptions.includes(settings.fps)
+	) {
+		issues.push(
+			`${format.label} frame rate must be one of ${fpsOptions.join(", ")} fps.`,
+		);
+	}
+
+	if (settings.format === "gif" && settings.resolution === "4k") {
+		issues.push("GIFs can't be exported in 4K.");
+	}
+
+	if (settings.crf !== null && format.codecs.length) {
+		const range = VIDEO_CODECS[settings.codec]?.crf;
+		if (!range) {
+			issues.push(
+				`${VIDEO_CODECS[settings.codec].label} doesn't use a quality (CRF) value.`,
+			);
+		} else if (settings.crf < range[0] || settings.crf > range[1]) {
+			issues.push(
+				`Quality (CRF) for ${VIDEO_CODECS[settings.codec].label} must be between ${range[0]} and ${range[1]}.`,
+			);
+		}
+	}
+
+	const { range } = settings;
+	if (range && (range.start < 0 || range.end > duration)) {
+		issues.push("The export range must be inside the video.");
+	} else if (range && range.end <= range.start) {
+		issues.push("The export range must end after it starts.");
+	}
+
+	const stillStart = range?.start ?? 0;
+	const stillEnd = range?.end ?? duration;
+	if (
+		settings.format === "png" &&
+		(settings.stillTime < stillStart || settings.stillTime > stillEnd)
+	) {
+		issues.push(
+			range
+				? "The still frame must be inside the export range."
+				: "The still frame must be inside the video.",
+		);
+	}
+
+	return issues;
+}
@@ -10,12 +10,14 @@ export const loadFonts = (fonts: { name: string; url: string }[]) => {
 	return new Promise((resolve, reject) => {
 		Promise.all(promisesList)
 			.then((res) => {
-				res.forEach((uniqueFont) => {
-					if (uniqueFont && uniqueFont.family) {
+				for (const uniqueFont of res) {
+					if (uniqueFont?.family) {
 						document.fonts.add(uniqueFont);
 						resolve(true);
 					}
-				});
+				}
+				// Settle even when no font loaded, renders wait on it
+				resolve(false);
 			})
 			.catch((err) => reject(err));
 	});
@@ -34,7 +36,7 @@ export const getCompactFontData = (fonts: IFont[]): ICompactFont[] => {
 	// lodash groupby
 	const fontsGroupedByFamily = groupBy(fonts, (font) => font.family);
 
-	Object.keys(fontsGroupedByFamily).forEach((family) => {
+	for (const family of Object.keys(fontsGroupedByFamily)) {
 		const fontsInFamily = fontsGroupedByFamily[family];
 		const defaultFont = findDefaultFont(fontsInFamily);
 		const compactFont: ICompactFont = {
@@ -43,7 +45,7 @@ export const getCompactFontData = (fonts: IFont[]): ICompactFont[] => {
 			default: defaultFont,
 		};
 		compactFontsMap[family] = compactFont;
-	});
+	}
 
 	return Object.values(compactFontsMap);
 };
@@ -0,0 +1,51 @@
+import { HighlightProposal } from "@/lib/llm/types";
+import { ProjectMedia } from "@/utils/project";
+import { FullEDU, TranscriptSegment } from "../transcript/types";
+
+/**
+ * Highlight shorts
+ * A highlight becomes a new vertical project whose initial media is the
+ * source trimmed to the clip, captioned with the clip's words
+ */
+
+export const SHORT_SIZE = { width: 1080, height: 1920, name: "9:16" };
+
+/**
+ * EDUs of a highlight, with times relative to the clip start
+ * The short plays the untouched source range, so cut flags are dropped
+ */
+export function getClipEDUs(
+	fullEDUs: FullEDU[],
+	proposal: HighlightProposal,
+): FullEDU[] {
+	return fullEDUs
+		.filter(
+			(edu) =>
+				edu.edu_index >= proposal.startEDU && edu.edu_index <= proposal.endEDU,
+		)
+		.map((edu) => {
+			const words = (edu.words as TranscriptSegment[]).map(
+				({ isActive, isCut, isUnplayed, ...word }) => ({
+					...word,
+					start: Math.max(0, word.start - proposal.start),
+					end: Math.min(proposal.end, word.end) - proposal.start,
+				}),
+			);
+			return {
+				...edu,
+				edu_start: edu.edu_start - proposal.start,
+				edu_end: edu.edu_end - proposal.start,
+				words,
+			};
+		});
+}
+
+/**
+ * Trim and display of the initial media item of a clip project
+ */
+export function getClipPlacement(clip: NonNullable<ProjectMedia["clip"]>) {
+	return {
+		trim: { from: clip.from, to: clip.to },
+		display: { from: 0, to: clip.to - clip.from },
+	};
+}
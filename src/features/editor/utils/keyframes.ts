@@ -0,0 +1,350 @@
+import { dispatch } from "@designcombo/events";
+import { EDIT_OBJECT } from "@designcombo/state";
+import { generateId } from "@designcombo/timeline";
+import { ITrackItem } from "@designcombo/types";
+import { Easing } from "remotion";
+import {
+	DEFAULT_EASING,
+	ItemKeyframes,
+	Keyframe,
+	KeyframeEasing,
+	KeyframeProperty,
+} from "../constants/keyframes";
+
+type Details = ITrackItem["details"];
+
+// Keyframes closer than this, in ms, sit at the same time
+const SAME_TIME = 1;
+
+const EASINGS: Record<KeyframeEasing, (t: number) => number> = {
+	linear: Easing.linear,
+	"ease-in": Easing.in(Easing.cubic),
+	"ease-out": Easing.out(Easing.cubic),
+	"ease-in-out": Easing.inOut(Easing.cubic),
+	hold: () => 0,
+};
+
+export const getKeyframes = (details: Details): ItemKeyframes =>
+	(details as { keyframes?: ItemKeyframes }).keyframes || {};
+
+export const isAnimated = (
+	keyframes: ItemKeyframes,
+	property: KeyframeProperty,
+) => (keyframes[property]?.length ?? 0) > 0;
+
+/**
+ * Time of the playhead from the start of an item, in ms
+ */
+export const getItemTime = (item: ITrackItem, frame: number, fps: number) =>
+	(frame / fps) * 1000 - item.display.from;
+
+const getTransformArgument = (
+	transform: string | undefined,
+	name: "scale" | "rotate",
+) => {
+	const match = transform?.match(new RegExp(`${name}\\(([^)]+)\\)`));
+	return match ? Number.parseFloat(match[1]) : undefined;
+};
+
+const setTransformFunction = (
+	transform: string | undefined,
+	name: "scale" | "rotate",
+	value: string,
+) => {
+	const current = transform && transform !== "none" ? transform : "";
+	const pattern = new RegExp(`${name}\\([^)]*\\)`);
+	if (pattern.test(current))
+		return current.replace(pattern, `${name}(${value})`);
+	return `${current} ${name}(${value})`.trim();
+};
+
+/**
+ * Value of a property from the item details, without keyframes
+ */
+export const getStaticValue = (
+	details: Details,
+	property: KeyframeProperty,
+): number => {
+	switch (property) {
+		case "x":
+			return Number.parseFloat(String(details.left ?? 0)) || 0;
+		case "y":
+			return Number.parseFloat(String(details.top ?? 0)) || 0;
+		case "scale":
+			return (getTransformArgument(details.transform, "scale") ?? 1) * 100;
+		case "rotation":
+			return (
+				getTransformArgument(details.transform, "rotate") ??
+				(Number.parseFloat(String(details.rotate ?? 0)) || 0)
+			);
+		case "opacity":
+			return details.opacity ?? 100;
+		case "blur":
+			return details.blur ?? 0;
+		case "brightness":
+			return details.brightness ?? 100;
+	}
+};
+
+/**
+ * Interpolated value of sorted keyframes at a time
+ * The value holds before the first keyframe and after the last one
+ */
+export const getKeyframeValue = (keyframes: Keyframe[], time: number) => {
+	const first = keyframes[0];
+	const last = keyframes[keyframes.length - 1];
+	if (time <= first.time) return first.value;
+	if (time >= last.time) return last.value;
+
+	const index = keyframes.findIndex((keyframe) => keyframe.time > time) - 1;
+	const from = keyframes[index];
+	const to = keyframes[index + 1];
+	const progress = EASINGS[from.easing] || EASINGS.linear;
+	return (
+		from.value +
+		(to.value - from.value) *
+			progress((time - from.time) / (to.time - from.time))
+	);
+};
+
+export const getPropertyValue = (
+	details: Details,
+	property: KeyframeProperty,
+	time: number,
+) => {
+	const keyframes = getKeyframes(details)[property];
+	return keyframes?.length
+		? getKeyframeValue(keyframes, time)
+		: getStaticValue(details, property);
+};
+
+/**
+ * Details with the animated properties set to their value at a time
+ */
+export const applyKeyframes = (details: Details, time: number): Details => {
+	const keyframes = getKeyframes(details);
+	const properties = (Object.keys(keyframes) as KeyframeProperty[]).filter(
+		(property) => isAnimated(keyframes, property),
+	);
+	if (!properties.length) return details;
+
+	const animated = { ...details };
+	for (const property of properties) {
+		const value = getKeyframeValue(keyframes[property] || [], time);
+		switch (property) {
+			case "x":
+				animated.left = value;
+				break;
+			case "y":
+				animated.top = value;
+				break;
+			case "scale":
+				animated.transform = setTransformFunction(
+					animated.transform,
+					"scale",
+					String(value / 100),
+				);
+				break;
+			case "rotation":
+				animated.transform = setTransformFunction(
+					animated.transform,
+					"rotate",
+					`${value}deg`,
+				);
+				break;
+			default:
+				animated[property] = value;
+		}
+	}
+	return animated;
+};
+
+export const findKeyframeAt = (
+	keyframes: Keyframe[] | undefined,
+	time: number,
+) => keyframes?.find((keyframe) => Math.abs(keyframe.time - time) < SAME_TIME);
+
+const sortByTime = (keyframes: Keyframe[]) =>
+	[...keyframes].sort((a, b) => a.time - b.time);
+
+/**
+ * Adds a keyframe, or sets the value of the one already at that time
+ */
+export const setKeyframe = (
+	keyframes: ItemKeyframes,
+	property: KeyframeProperty,
+	time: number,
+	value: number,
+): ItemKeyframes => {
+	const current = keyframes[property] || [];
+	const existing = findKeyframeAt(current, time);
+	const next = existing
+		? current.map((keyframe) =>
+				keyframe.id === existing.id ? { ...keyframe, value } : keyframe,
+			)
+		: [...current, { id: generateId(), time, value, easing: DEFAULT_EASING }];
+	return { ...keyframes, [property]: sortByTime(next) };
+};
+
+export const updateKeyframe = (
+	keyframes: ItemKeyframes,
+	property: KeyframeProperty,
+	id: string,
+	changes: Partial<Omit<Keyframe, "id">>,
+): ItemKeyframes => ({
+	...keyframes,
+	[property]: sortByTime(
+		(keyframes[property] || []).map((keyframe) =>
+			keyframe.id === id ? { ...keyframe, ...changes } : keyframe,
+		),
+	),
+});
+
+/**
+ * Removes a keyframe. A property without keyframes goes back to its static
+ * value, so the last one leaves it at the value it had there
+ */
+export const removeKeyframe = (
+	keyframes: ItemKeyframes,
+	property: KeyframeProperty,
+	id: string,
+): ItemKeyframes => ({
+	...keyframes,
+	[property]: (keyframes[property] || []).filter(
+		(keyframe) => keyframe.id !== id,
+	),
+});
+
+/**
+ * Distinct times of all keyframes, sorted
+ */
+export const getKeyframeTimes = (keyframes: ItemKeyframes) => {
+	const times: number[] = [];
+	for (const list of Object.values(keyframes)) {
+		for (const { time } of list || []) {
+			if (!times.some((other) => Math.abs(other - time) < SAME_TIME)) {
+				times.push(time);
+			}
+		}
+	}
+	return times.sort((a, b) => a - b);
+};
+
+/**
+ * Moves every keyframe at one time to another, replacing keyframes of the
+ * same property already there
+ */
+export const retimeKeyframes = (
+	keyframes: ItemKeyframes,
+	from: number,
+	to: number,
+): ItemKeyframes => {
+	const next: ItemKeyframes = {};
+	for (const property of Object.keys(keyframes) as KeyframeProperty[]) {
+		const list = keyframes[property] || [];
+		const moving = findKeyframeAt(list, from);
+		next[property] = moving
+			? sortByTime([
+					...list.filter(
+						(keyframe) =>
+							keyframe !== moving && Math.abs(keyframe.time - to) >= SAME_TIME,
+					),
+					{ ...moving, time: to },
+				])
+			: list;
+	}
+	return next;
+};
+
+/**
+ * Shifts keyframes when an item is laid out from an earlier start
+ */
+export const shiftKeyframes = (details: Details, ms: number): Details => {
+	const keyframes = getKeyframes(details);
+	if (!ms || !Object.keys(keyframes).length) return details;
+	const shifted: ItemKeyframes = {};
+	for (const property of Object.keys(keyframes) as KeyframeProperty[]) {
+		shifted[property] = (keyframes[property] || []).map((keyframe) => ({
+			...keyframe,
+			time: keyframe.time + ms,
+		}));
+	}
+	return { ...details, keyframes: shifted };
+};
+
+/**
+ * Keeps a time inside the item, so keyframes land on it
+ */
+export const clampItemTime = (item: ITrackItem, time: number) =>
+	Math.min(Math.max(time, 0), item.display.to - item.display.from);
+
+/**
+ * Sets properties of an item at a time from its start
+ * Animated properties get a keyframe there, the others change their
+ * static value
+ */
+export const setItemProperties = (
+	item: ITrackItem,
+	values: Partial<Record<KeyframeProperty, number>>,
+	time: number,
+) => {
+	let keyframes = getKeyframes(item.details);
+	let transform = item.details.transform;
+	const changes: Partial<Details> = {};
+
+	for (const [property, value] of Object.entries(values) as [
+		KeyframeProperty,
+		number,
+	][]) {
+		if (isAnimated(keyframes, property)) {
+			keyframes = setKeyframe(
+				keyframes,
+				property,
+				clampItemTime(item, time),
+				value,
+			);
+			changes.keyframes = keyframes;
+			continue;
+		}
+		switch (property) {
+			case "x":
+				changes.left = `${value}px`;
+				break;
+			case "y":
+				changes.top = `${value}px`;
+				break;
+			case "scale":
+				transform = setTransformFunction(
+					transform,
+					"scale",
+					String(value / 100),
+				);
+				changes.transform = transform;
+				break;
+			case "rotation":
+				transform = setTransformFunction(transform, "rotate", `${value}deg`);
+				changes.transform = transform;
+				break;
+			default:
+				changes[property] = value;
+		}
+	}
+
+	dispatch(EDIT_OBJECT, {
+		payload: {
+			[item.id]: {
+				details: changes,
+			},
+		},
+	});
+};
+
+export const updateItemKeyframes = (id: string, keyframes: ItemKeyframes) => {
+	dispatch(EDIT_OBJECT, {
+		payload: {
+			[id]: {
+				details: { keyframes },
+			},
+		},
+	});
+};
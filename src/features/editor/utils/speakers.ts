@@ -0,0 +1,119 @@
+import {
+	FullEDU,
+	TranscriptSegment,
+	TranscriptSpeaker,
+} from "../transcript/types";
+
+// Distinct on dark backgrounds, used in order for new speakers
+export const SPEAKER_COLORS = [
+	"#60a5fa",
+	"#f472b6",
+	"#34d399",
+	"#fbbf24",
+	"#a78bfa",
+	"#f87171",
+	"#22d3ee",
+	"#a3e635",
+];
+
+/**
+ * Speaker of an EDU, taken from its first word
+ */
+export const getEDUSpeakerId = (edu: FullEDU): string | null =>
+	edu.words?.[0]?.speaker_id || null;
+
+/**
+ * Speaker ids used by the words of a transcript, in order of appearance
+ */
+export function getSpeakerIds(fullEDUs: FullEDU[]): string[] {
+	const ids = new Set<string>();
+	for (const edu of fullEDUs) {
+		for (const word of edu.words as TranscriptSegment[]) {
+			if (word.speaker_id) ids.add(word.speaker_id);
+		}
+	}
+	return [...ids];
+}
+
+/**
+ * Roster covering every speaker of the transcript
+ * Saved entries keep their name and color, unseen speakers get defaults
+ */
+export function buildSpeakerRoster(
+	fullEDUs: FullEDU[],
+	saved: TranscriptSpeaker[] = [],
+): TranscriptSpeaker[] {
+	const roster = [...saved];
+	for (const id of getSpeakerIds(fullEDUs)) {
+		if (roster.some((speaker) => speaker.id === id)) continue;
+		roster.push({
+			id,
+			name: `Speaker ${roster.length + 1}`,
+			color: SPEAKER_COLORS[roster.length % SPEAKER_COLORS.length],
+		});
+	}
+	return roster;
+}
+
+/**
+ * Id for a speaker added by hand, unique within the roster
+ */
+export function createSpeakerId(roster: TranscriptSpeaker[]): string {
+	let index = roster.length;
+	while (roster.some((speaker) => speaker.id === `speaker_custom_${index}`)) {
+		index++;
+	}
+	return `speaker_custom_${index}`;
+}
+
+/**
+ * Set the speaker of every word matching `matches`
+ * EDUs without matching words are returned unchanged
+ */
+function reassignWords(
+	fullEDUs: FullEDU[],
+	speakerId: string,
+	matches: (edu: FullEDU, word: TranscriptSegment) => boolean,
+): FullEDU[] {
+	return fullEDUs.map((edu) => {
+		const words = edu.words as TranscriptSegment[];
+		if (!words.some((word) => matches(edu, word))) return edu;
+		return {
+			...edu,
+			words: words.map((word) =>
+				matches(edu, word) ? { ...word, speaker_id: speakerId } : word,
+			),
+		};
+	});
+}
+
+/**
+ * Attribute a whole EDU to one speaker
+ */
+export const assignEDUSpeaker = (
+	fullEDUs: FullEDU[],
+	eduIndex: number,
+	speakerId: string,
+) => reassignWords(fullEDUs, speakerId, (edu) => edu.edu_index === eduIndex);
+
+/**
+ * Move every word of `fromId` to `intoId`
+ */
+export const mergeSpeakerWords = (
+	fullEDUs: FullEDU[],
+	fromId: string,
+	intoId: string,
+) => reassignWords(fullEDUs, intoId, (_, word) => word.speaker_id === fromId);
+
+/**
+ * Speaker id of each word, by word id
+ */
+export function getWordSpeakerMap(fullEDUs: FullEDU[]): Map<string, string> {
+	const map = new Map<string, string>();
+	for (const edu of fullEDUs) {
+		for (const word of edu.words as TranscriptSegment[]) {
+			if (word.speaker_id) map.set(word.id, word.speaker_id);
+		}
+	}
+	return map;
+}
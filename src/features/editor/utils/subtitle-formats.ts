@@ -0,0 +1,565 @@
+import { generateId } from "@designcombo/timeline";
+import { ISize, ITrackItem } from "@designcombo/types";
+import { FullEDU, TranscriptSegment } from "../transcript/types";
+import {
+	DEFAULT_SUBTITLE_STYLE,
+	SubtitleStyle,
+	joinSubtitleWords,
+} from "./subtitles";
+import { isWordCut } from "./transcript-cuts";
+
+/**
+ * Caption file import/export (SRT, WebVTT, ASS)
+ * All times are in milliseconds
+ */
+
+export type SubtitleFormat = "srt" | "vtt" | "ass";
+
+export const SUBTITLE_FORMATS: SubtitleFormat[] = ["srt", "vtt", "ass"];
+
+export interface SubtitleCue {
+	start: number;
+	end: number;
+	text: string; // Lines separated by "\n"
+}
+
+export interface SubtitleExportRules {
+	maxCharsPerLine: number;
+	maxLinesPerCue: number;
+	maxCueDurationMs: number;
+	minCueDurationMs: number;
+}
+
+// Common broadcast/YouTube guidance: 42 chars, 2 lines, 1-7 seconds
+export const DEFAULT_EXPORT_RULES: SubtitleExportRules = {
+	maxCharsPerLine: 42,
+	maxLinesPerCue: 2,
+	maxCueDurationMs: 7000,
+	minCueDurationMs: 1000,
+};
+
+interface TimedWord {
+	text: string;
+	start: number;
+	end: number;
+	group?: number; // Words of different groups never share a cue
+}
+
+// A pause this long always ends the cue
+const MAX_WORD_GAP_MS = 1500;
+
+// Cue words are matched to transcript words within this window
+const ALIGN_TOLERANCE_MS = 500;
+
+const CJK_CHAR = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uff00-\uffef]/;
+const CJK_TOKEN =
+	/[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uff00-\uffef]|[^\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uff00-\uffef]+/g;
+
+/**
+ * Split timed words into cues that respect the line-length and duration rules
+ */
+export function buildSubtitleCues(
+	words: TimedWord[],
+	rules: SubtitleExportRules = DEFAULT_EXPORT_RULES,
+): SubtitleCue[] {
+	const cues: SubtitleCue[] = [];
+	let lines: string[][] = [];
+	let cueStart = 0;
+	let cueEnd = 0;
+	let cueGroup: number | undefined;
+
+	const flush = () => {
+		if (lines.length === 0) return;
+		cues.push({
+			start: cueStart,
+			end: cueEnd,
+			text: lines.map((line) => joinSubtitleWords(line)).join("\n"),
+		});
+		lines = [];
+	};
+
+	for (const word of words) {
+		const text = word.text.trim();
+		if (!text) continue;
+
+		if (lines.length > 0) {
+			const currentLine = lines[lines.length - 1];
+			const lineFits =
+				joinSubtitleWords([...currentLine, text]).length <=
+				rules.maxCharsPerLine;
+			const breaksCue =
+				word.group !== cueGroup ||
+				word.start - cueEnd > MAX_WORD_GAP_MS ||
+				word.end - cueStart > rules.maxCueDurationMs ||
+				(!lineFits && lines.length >= rules.maxLinesPerCue);
+
+			if (!breaksCue) {
+				if (lineFits) {
+					currentLine.push(text);
+				} else {
+					lines.push([text]);
+				}
+				cueEnd = word.end;
+				continue;
+			}
+			flush();
+		}
+
+		lines = [[text]];
+		cueStart = word.start;
+		cueEnd = word.end;
+		cueGroup = word.group;
+	}
+	flush();
+
+	// Stretch short cues into the following gap
+	for (let i = 0; i < cues.length; i++) {
+		const cue = cues[i];
+		const nextStart = cues[i + 1]?.start ?? Number.POSITIVE_INFINITY;
+		if (cue.end - cue.start < rules.minCueDurationMs) {
+			cue.end = Math.min(cue.start + rules.minCueDurationMs, nextStart);
+		}
+	}
+
+	return cues;
+}
+
+/**
+ * Cues for the transcript, in source-media time
+ * Cut words are left out
+ */
+export function cuesFromTranscript(
+	fullEDUs: FullEDU[],
+	rules?: SubtitleExportRules,
+): SubtitleCue[] {
+	const words: TimedWord[] = [];
+	for (const edu of fullEDUs) {
+		for (const word of edu.words as TranscriptSegment[]) {
+			if (word.type === "spacing" || isWordCut(word)) continue;
+			words.push({
+				text: word.text,
+				start: word.start,
+				end: word.end,
+				group: edu.edu_index,
+			});
+		}
+	}
+	return buildSubtitleCues(words, rules);
+}
+
+/**
+ * Cues for the word items of a subtitle track, in timeline time
+ */
+export function cuesFromSubtitleItems(
+	items: ITrackItem[],
+	rules?: SubtitleExportRules,
+): SubtitleCue[] {
+	const words = items
+		.map((item) => ({
+			text: (item.details?.text as string) || "",
+			start: item.display.from,
+			end: item.display.to,
+			group: item.details?.eduIndex as number | undefined,
+		}))
+		.sort((a, b) => a.start - b.start);
+	return buildSubtitleCues(words, rules);
+}
+
+// Serializers
+
+const pad = (value: number, length = 2) =>
+	Math.floor(value).toString().padStart(length, "0");
+
+const formatTimestamp = (ms: number, separator: "," | ".") => {
+	const time = Math.max(0, Math.round(ms));
+	const hours = time / 3600000;
+	const minutes = (time % 3600000) / 60000;
+	const seconds = (time % 60000) / 1000;
+	return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(time % 1000, 3)}`;
+};
+
+const formatAssTimestamp = (ms: number) => {
+	const time = Math.max(0, Math.round(ms / 10));
+	const hours = Math.floor(time / 360000);
+	return `${hours}:${pad((time % 360000) / 6000)}:${pad((time % 6000) / 100)}.${pad(time % 100)}`;
+};
+
+export function toSRT(cues: SubtitleCue[]): string {
+	return cues
+		.map(
+			(cue, index) =>
+				`${index + 1}\n${formatTimestamp(cue.start, ",")} --> ${formatTimestamp(cue.end, ",")}\n${cue.text}\n`,
+		)
+		.join("\n");
+}
+
+export function toVTT(cues: SubtitleCue[]): string {
+	const body = cues
+		.map(
+			(cue) =>
+				`${formatTimestamp(cue.start, ".")} --> ${formatTimestamp(cue.end, ".")}\n${cue.text}\n`,
+		)
+		.join("\n");
+	return `WEBVTT\n\n${body}`;
+}
+
+/**
+ * Convert a CSS color ("#rrggbb", "#rgb" or "rgb(a)(...)") to ASS &HAABBGGRR
+ */
+const toAssColor = (color: string) => {
+	let r = 0;
+	let g = 0;
+	let b = 0;
+	let alpha = 1;
+
+	const hex = color.trim().match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+	const rgb = color.match(/rgba?\(([^)]+)\)/i);
+	if (hex) {
+		const value =
+			hex[1].length === 3
+				? hex[1]
+						.split("")
+						.map((c) => c + c)
+						.join("")
+				: hex[1];
+		r = Number.parseInt(value.slice(0, 2), 16);
+		g = Number.parseInt(value.slice(2, 4), 16);
+		b = Number.parseInt(value.slice(4, 6), 16);
+	} else if (rgb) {
+		const parts = rgb[1].split(",").map((part) => Number.parseFloat(part));
+		[r, g, b] = parts;
+		alpha = parts[3] ?? 1;
+	} else if (color === "transparent") {
+		alpha = 0;
+	}
+
+	const hex2 = (value: number) =>
+		Math.round(value).toString(16).padStart(2, "0").toUpperCase();
+	return `&H${hex2((1 - alpha) * 255)}${hex2(b)}${hex2(g)}${hex2(r)}`;
+};
+
+export function toASS(
+	cues: SubtitleCue[],
+	size: ISize,
+	style: SubtitleStyle = DEFAULT_SUBTITLE_STYLE,
+): string {
+	const fontSize = style.fontSize || Math.round(size.height * 0.045);
+	const hasBox = style.backgroundColor !== "transparent";
+	// Numpad alignment: 8 top, 5 middle, 2 bottom
+	const alignment = { top: 8, middle: 5, bottom: 2 }[style.position];
+	const marginV = Math.round(size.height * 0.08);
+	const marginH = Math.round(size.width * 0.08);
+
+	const styleLine = [
+		"Default",
+		style.fontFamily.split("-")[0],
+		fontSize,
+		toAssColor(style.color),
+		toAssColor(style.highlightColor),
+		toAssColor(style.borderColor),
+		toAssColor(hasBox ? style.backgroundColor : "#000000"),
+		0,
+		0,
+		0,
+		0,
+		100,
+		100,
+		0,
+		0,
+		hasBox ? 3 : 1,
+		style.borderWidth,
+		0,
+		alignment,
+		marginH,
+		marginH,
+		marginV,
+		1,
+	].join(",");
+
+	const events = cues
+		.map(
+			(cue) =>
+				`Dialogue: 0,${formatAssTimestamp(cue.start)},${formatAssTimestamp(cue.end)},Default,,0,0,0,,${cue.text.replace(/\n/g, "\\N")}`,
+		)
+		.join("\n");
+
+	return [
+		"[Script Info]",
+		"ScriptType: v4.00+",
+		`PlayResX: ${size.width}`,
+		`PlayResY: ${size.height}`,
+		"WrapStyle: 0",
+		"",
+		"[V4+ Styles]",
+		"Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding",
+		`Style: ${styleLine}`,
+		"",
+		"[Events]",
+		"Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text",
+		events,
+		"",
+	].join("\n");
+}
+
+export function serializeSubtitles(
+	format: SubtitleFormat,
+	cues: SubtitleCue[],
+	size: ISize,
+	style?: SubtitleStyle,
+): string {
+	switch (format) {
+		case "srt":
+			return toSRT(cues);
+		case "vtt":
+			return toVTT(cues);
+		case "ass":
+			return toASS(cues, size, style);
+	}
+}
+
+// Parsers
+
+/**
+ * Parse "hh:mm:ss,mmm", "mm:ss.mmm" or ASS "h:mm:ss.cc" into milliseconds
+ */
+const parseTimestamp = (value: string): number | null => {
+	const match = value
+		.trim()
+		.match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/);
+	if (!match) return null;
+
+	const [, hours = "0", minutes, seconds, fraction = "0"] = match;
+	return (
+		Number(hours) * 3600000 +
+		Number(minutes) * 60000 +
+		Number(seconds) * 1000 +
+		Math.round(Number(`0.${fraction}`) * 1000)
+	);
+};
+
+// Drop HTML-like tags (<i>, <c.yellow>, <00:00:01.000>) and ASS overrides ({\b1})
+const cleanCueText = (text: string) =>
+	text
+		.replace(/<[^>]*>/g, "")
+		.replace(/\{[^}]*\}/g, "")
+		.replace(/\\[Nn]/g, "\n")
+		.replace(/\\h/g, " ")
+		.split("\n")
+		.map((line) => line.trim())
+		.filter(Boolean)
+		.join("\n");
+
+/**
+ * Parse SRT or WebVTT cue blocks
+ */
+export function parseSRT(content: string): SubtitleCue[] {
+	const cues: SubtitleCue[] = [];
+	const blocks = content
+		.replace(/^\ufeff/, "")
+		.replace(/\r\n?/g, "\n")
+		.split(/\n{2,}/);
+
+	for (const block of blocks) {
+		const lines = block.split("\n");
+		const timingIndex = lines.findIndex((line) => line.includes("-->"));
+		if (timingIndex === -1) continue;
+
+		const [startText, endText] = lines[timingIndex].split("-->");
+		const start = parseTimestamp(startText);
+		// WebVTT cue settings follow the end time
+		const end = parseTimestamp(endText.trim().split(/\s+/)[0]);
+		const text = cleanCueText(lines.slice(timingIndex + 1).join("\n"));
+		if (start === null || end === null || !text) continue;
+
+		cues.push({ start, end, text });
+	}
+
+	return cues;
+}
+
+export const parseVTT = parseSRT;
+
+/**
+ * Parse the Dialogue events of an ASS/SSA script
+ */
+export function parseASS(content: string): SubtitleCue[] {
+	const cues: SubtitleCue[] = [];
+	let fields: string[] = [];
+	let inEvents = false;
+
+	for (const rawLine of content.replace(/\r\n?/g, "\n").split("\n")) {
+		const line = rawLine.trim();
+		if (line.startsWith("[")) {
+			inEvents = line.toLowerCase() === "[events]";
+			continue;
+		}
+		if (!inEvents) continue;
+
+		if (line.startsWith("Format:")) {
+			fields = line
+				.slice("Format:".length)
+				.split(",")
+				.map((field) => field.trim().toLowerCase());
+			continue;
+		}
+		if (!line.startsWith("Dialogue:") || fields.length === 0) continue;
+
+		// Text is the last field and may contain commas
+		const values = line.slice("Dialogue:".length).split(",");
+		const textValue = values.slice(fields.length - 1).join(",");
+		const start = parseTimestamp(values[fields.indexOf("start")] || "");
+		const end = parseTimestamp(values[fields.indexOf("end")] || "");
+		const text = cleanCueText(textValue);
+		if (start === null || end === null || !text) continue;
+
+		cues.push({ start, end, text });
+	}
+
+	return cues.sort((a, b) => a.start - b.start);
+}
+
+export function getSubtitleFormat(filename: string): SubtitleFormat | null {
+	const extension = filename.split(".").pop()?.toLowerCase();
+	if (extension === "ssa") return "ass";
+	return SUBTITLE_FORMATS.includes(extension as SubtitleFormat)
+		? (extension as SubtitleFormat)
+		: null;
+}
+
+export function parseSubtitles(
+	format: SubtitleFormat,
+	content: string,
+): SubtitleCue[] {
+	switch (format) {
+		case "srt":
+			return parseSRT(content);
+		case "vtt":
+			return parseVTT(content);
+		case "ass":
+			return parseASS(content);
+	}
+}
+
+// Import
+
+const normalizeToken = (text: string) =>
+	text.toLowerCase().replace(/[\s\p{P}]/gu, "");
+
+/**
+ * Split cue text into word tokens, one per character for CJK runs
+ */
+const tokenize = (text: string): string[] =>
+	text
+		.split(/\s+/)
+		.flatMap((token) =>
+			CJK_CHAR.test(token) ? (token.match(CJK_TOKEN) ?? []) : [token],
+		)
+		.filter(Boolean);
+
+const createWord = (
+	text: string,
+	start: number,
+	end: number,
+	source?: TranscriptSegment,
+): TranscriptSegment => ({
+	id: source?.id || generateId(),
+	text,
+	type: "word",
+	start,
+	end,
+	speaker_id: source?.speaker_id ?? null,
+	logprob: source?.logprob ?? 0,
+	characters: null,
+	...(source?.isCut ? { isCut: true } : {}),
+});
+
+/**
+ * Give each token of a cue word-level timing
+ * Tokens matching a transcript word in the cue's window take its timing
+ * (and id, so timeline links survive); the rest are interpolated
+ */
+function alignCueWords(
+	cue: SubtitleCue,
+	transcriptWords: TranscriptSegment[],
+	used: Set<string>,
+): TranscriptSegment[] {
+	const tokens = tokenize(cue.text.replace(/\n/g, " "));
+	const candidates = transcriptWords.filter(
+		(word) =>
+			!used.has(word.id) &&
+			word.end > cue.start - ALIGN_TOLERANCE_MS &&
+			word.start < cue.end + ALIGN_TOLERANCE_MS,
+	);
+
+	const matches: (TranscriptSegment | null)[] = [];
+	let cursor = 0;
+	for (const token of tokens) {
+		const normalized = normalizeToken(token);
+		let match: TranscriptSegment | null = null;
+		for (let i = cursor; i < candidates.length; i++) {
+			if (normalizeToken(candidates[i].text) === normalized) {
+				match = candidates[i];
+				cursor = i + 1;
+				break;
+			}
+		}
+		if (match) used.add(match.id);
+		matches.push(match);
+	}
+
+	// Interpolate unmatched tokens between their matched neighbours,
+	// weighting by token length
+	const words: TranscriptSegment[] = [];
+	let i = 0;
+	while (i < tokens.length) {
+		const match = matches[i];
+		if (match) {
+			words.push(createWord(tokens[i], match.start, match.end, match));
+			i++;
+			continue;
+		}
+
+		let j = i;
+		while (j < tokens.length && !matches[j]) j++;
+		const spanStart = i > 0 ? words[words.length - 1].end : cue.start;
+		const spanEnd =
+			j < tokens.length ? (matches[j] as TranscriptSegment).start : cue.end;
+		const run = tokens.slice(i, j);
+		const totalLength = run.reduce((sum, token) => sum + token.length, 0);
+		const span = Math.max(0, spanEnd - spanStart);
+
+		let time = spanStart;
+		for (const token of run) {
+			const duration = (span * token.length) / totalLength;
+			words.push(createWord(token, time, time + duration));
+			time += duration;
+		}
+		i = j;
+	}
+
+	return words;
+}
+
+/**
+ * Turn imported cues into transcript EDUs, one per cue
+ */
+export function cuesToEDUs(
+	cues: SubtitleCue[],
+	transcriptWords: TranscriptSegment[] = [],
+): FullEDU[] {
+	const spokenWords = transcriptWords
+		.filter((word) => word.type !== "spacing")
+		.sort((a, b) => a.start - b.start);
+	const used = new Set<string>();
+
+	return cues.map((cue, index) => {
+		const words = alignCueWords(cue, spokenWords, used);
+		return {
+			edu_index: index,
+			edu_content: joinSubtitleWords(cue.text.split(/\s+/)),
+			edu_start: words[0]?.start ?? cue.start,
+			edu_end: words[words.length - 1]?.end ?? cue.end,
+			words,
+		};
+	});
+}
@@ -0,0 +1,233 @@
+import { dispatch } from "@designcombo/events";
+import { EDIT_OBJECT } from "@designcombo/state";
+import { ITrack, ITrackItem } from "@designcombo/types";
+import useStore from "../store/use-store";
+import { FullEDU, TranscriptSpeaker } from "../transcript/types";
+import { getWordSpeakerMap } from "./speakers";
+
+/**
+ * Caption styling shared by every word item of a subtitle track
+ * Stored on each item's details so it travels with the design
+ */
+export interface SubtitleStyle {
+	fontFamily: string;
+	fontUrl?: string;
+	fontSize?: number; // px, defaults to a fraction of the canvas height
+	color: string;
+	borderWidth: number; // Outline
+	borderColor: string;
+	backgroundColor: string; // Box behind the caption, "transparent" for none
+	karaoke: boolean;
+	highlightColor: string; // Spoken word when karaoke is on
+	position: "top" | "middle" | "bottom";
+	lineMode: "edu" | "length";
+	maxCharsPerLine: number;
+	maxLineDurationMs: number;
+	colorBySpeaker: boolean; // Text color from the speaker roster
+	speakerColors: Record<string, string>; // speaker_id -> color
+}
+
+export const DEFAULT_SUBTITLE_STYLE: SubtitleStyle = {
+	fontFamily: "Roboto-Bold",
+	fontUrl:
+		"https://fonts.gstatic.com/s/roboto/v29/KFOlCnqEu92Fr1MmWUlvAx05IsDqlA.ttf",
+	color: "#ffffff",
+	borderWidth: 4,
+	borderColor: "#000000",
+	backgroundColor: "transparent",
+	karaoke: true,
+	highlightColor: "#facc15",
+	position: "bottom",
+	lineMode: "edu",
+	maxCharsPerLine: 42,
+	maxLineDurationMs: 5000,
+	colorBySpeaker: false,
+	speakerColors: {},
+};
+
+export interface SubtitleWord {
+	id: string;
+	text: string;
+	from: number;
+	to: number;
+	speakerId?: string;
+}
+
+export interface SubtitleLine {
+	id: string;
+	from: number;
+	to: number;
+	words: SubtitleWord[];
+	style: SubtitleStyle;
+	speakerId?: string;
+}
+
+// A pause this long always starts a new caption line
+const MAX_WORD_GAP_MS = 1500;
+
+// Scripts written without spaces between words
+export const NO_SPACE_SCRIPT =
+	/[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uff00-\uffef]/;
+
+export const getSubtitleStyle = (item: ITrackItem): SubtitleStyle => {
+	const details = (item.details || {}) as Partial<SubtitleStyle>;
+	const style = { ...DEFAULT_SUBTITLE_STYLE };
+	for (const key of Object.keys(style) as (keyof SubtitleStyle)[]) {
+		if (details[key] !== undefined) {
+			(style as any)[key] = details[key];
+		}
+	}
+	if (details.fontSize) style.fontSize = details.fontSize;
+	return style;
+};
+
+/**
+ * Join word texts, inserting spaces except between CJK characters
+ */
+export function joinSubtitleWords(texts: string[]): string {
+	let result = "";
+	for (const text of texts) {
+		const word = text.trim();
+		if (!word) continue;
+		if (
+			result &&
+			!(NO_SPACE_SCRIPT.test(result.slice(-1)) && NO_SPACE_SCRIPT.test(word[0]))
+		) {
+			result += " ";
+		}
+		result += word;
+	}
+	return result;
+}
+
+/**
+ * Whether a space is rendered before the word at `index` of a line
+ */
+export const needsSpaceBefore = (words: SubtitleWord[], index: number) =>
+	index > 0 &&
+	joinSubtitleWords([words[index - 1].text, words[index].text]).includes(" ");
+
+/**
+ * Text color of a caption line, from its speaker when enabled
+ */
+export const getSubtitleLineColor = ({ style, speakerId }: SubtitleLine) =>
+	(style.colorBySpeaker && speakerId && style.speakerColors[speakerId]) ||
+	style.color;
+
+/**
+ * Group the word items of one subtitle track into caption lines
+ * Lines break on EDU boundaries (edu mode), on the character and duration
+ * limits (length mode), on long pauses and when the speaker changes
+ */
+export function groupSubtitleLines(items: ITrackItem[]): SubtitleLine[] {
+	const sorted = items
+		.filter((item) => (item.details?.text || "").trim())
+		.sort((a, b) => a.display.from - b.display.from);
+
+	const lines: SubtitleLine[] = [];
+	let current: SubtitleLine | null = null;
+	let currentEduIndex: number | undefined;
+
+	for (const item of sorted) {
+		const style = getSubtitleStyle(item);
+		const eduIndex = item.details?.eduIndex as number | undefined;
+		const word: SubtitleWord = {
+			id: item.id,
+			text: item.details.text,
+			from: item.display.from,
+			to: item.display.to,
+			speakerId: item.details?.speakerId,
+		};
+
+		if (current) {
+			const text = joinSubtitleWords([
+				...current.words.map((w) => w.text),
+				word.text,
+			]);
+			const useEduBoundary = style.lineMode === "edu" && eduIndex !== undefined;
+			const startsNewLine =
+				word.from - current.to > MAX_WORD_GAP_MS ||
+				word.speakerId !== current.speakerId ||
+				(useEduBoundary
+					? eduIndex !== currentEduIndex
+					: text.length > style.maxCharsPerLine ||
+						word.to - current.from > style.maxLineDurationMs);
+
+			if (!startsNewLine) {
+				current.words.push(word);
+				current.to = Math.max(current.to, word.to);
+				continue;
+			}
+			lines.push(current);
+		}
+
+		current = {
+			id: `line-${item.id}`,
+			from: word.from,
+			to: word.to,
+			words: [word],
+			style,
+			speakerId: word.speakerId,
+		};
+		currentEduIndex = eduIndex;
+	}
+	if (current) lines.push(current);
+
+	return lines;
+}
+
+/**
+ * Get the ids of every item on the subtitle track holding `trackItem`
+ */
+export function getSubtitleTrackItemIds(
+	tracks: ITrack[],
+	trackItem: ITrackItem,
+): string[] {
+	const track = tracks.find((t) => t.items.includes(trackItem.id));
+	return track ? track.items : [trackItem.id];
+}
+
+/**
+ * Apply a style change to the whole subtitle track holding `trackItem`
+ */
+export function updateSubtitleStyle(
+	trackItem: ITrackItem,
+	style: Partial<SubtitleStyle>,
+) {
+	const ids = getSubtitleTrackItemIds(useStore.getState().tracks, trackItem);
+	const payload: Record<string, { details: Partial<SubtitleStyle> }> = {};
+	for (const id of ids) {
+		payload[id] = { details: style };
+	}
+	dispatch(EDIT_OBJECT, { payload });
+}
+
+/**
+ * Copy speaker assignments and roster colors onto every subtitle item
+ */
+export function syncSubtitleSpeakers(
+	fullEDUs: FullEDU[],
+	speakers: TranscriptSpeaker[],
+) {
+	const { tracks, trackItemsMap } = useStore.getState();
+	const wordSpeakers = getWordSpeakerMap(fullEDUs);
+	const speakerColors = Object.fromEntries(
+		speakers.map((speaker) => [speaker.id, speaker.color]),
+	);
+
+	const payload: Record<string, { details: Record<string, unknown> }> = {};
+	for (const track of tracks) {
+		if (!track.accepts?.includes("subtitle")) continue;
+		for (const id of track.items) {
+			const wordId = trackItemsMap[id]?.details?.wordId;
+			if (!wordId) continue;
+			payload[id] = {
+				details: { speakerId: wordSpeakers.get(wordId), speakerColors },
+			};
+		}
+	}
+
+	if (Object.keys(payload).length > 0) {
+		dispatch(EDIT_OBJECT, { payload });
+	}
+}
@@ -0,0 +1,199 @@
+import { ITrackItem } from "@designcombo/types";
+import {
+	FullEDU,
+	TimeRange,
+	TranscriptSegment,
+	TranscriptSource,
+	TranscriptSpeaker,
+} from "../transcript/types";
+import { buildSpeakerRoster } from "./speakers";
+import { isMediaItem, mapSourceRangeToTimeline } from "./transcript-cuts";
+
+/**
+ * Timeline transcript
+ * Every upload's transcript is mapped through the media items that play it,
+ * so words carry composition times and appear in timeline order. Words
+ * outside an item's trim are left out and an upload used by several items
+ * appears once per item. Ids are prefixed to stay unique across clips.
+ */
+
+export interface TimelineTranscript {
+	fullEDUs: FullEDU[];
+	speakers: TranscriptSpeaker[];
+}
+
+/**
+ * Composition time of a source's words and EDUs on the current timeline
+ * Words no item plays have no entry; a word played by several items takes
+ * the earliest
+ */
+export interface SourceTimings {
+	words: Record<string, TimeRange>;
+	edus: Record<number, TimeRange>;
+}
+
+const prefixId = (prefix: string, id: string) => `${prefix}:${id}`;
+
+/**
+ * Media items playing one of the given urls, in timeline order
+ */
+export const getSourceItems = (
+	urls: string[],
+	trackItemsMap: Record<string, ITrackItem>,
+): ITrackItem[] =>
+	Object.values(trackItemsMap)
+		.filter((item) => isMediaItem(item) && urls.includes(item.details?.src))
+		.sort((a, b) => a.display.from - b.display.from);
+
+/**
+ * Composition range of a word in a media item
+ * A word counts as played when at least half of it is inside the trim
+ */
+function mapWordThroughItem(
+	word: TranscriptSegment,
+	item: ITrackItem,
+): TimeRange | null {
+	// Zero-length segments still have a position
+	const end = Math.max(word.end, word.start + 1);
+	const range = mapSourceRangeToTimeline(item, {
+		startTime: word.start,
+		endTime: end,
+	});
+	if (!range) return null;
+
+	const played = (range.endTime - range.startTime) * (item.playbackRate || 1);
+	return played * 2 >= end - word.start ? range : null;
+}
+
+/**
+ * Map a source transcript onto the items that play it
+ */
+export function buildSourceTimings(
+	fullEDUs: FullEDU[],
+	items: ITrackItem[],
+): SourceTimings {
+	const timings: SourceTimings = { words: {}, edus: {} };
+
+	for (const edu of fullEDUs) {
+		let eduRange: TimeRange | null = null;
+
+		for (const word of edu.words as TranscriptSegment[]) {
+			for (const item of items) {
+				const range = mapWordThroughItem(word, item);
+				if (!range) continue;
+
+				timings.words[word.id] = {
+					startTime: Math.round(range.startTime),
+					endTime: Math.round(range.endTime),
+				};
+				break;
+			}
+
+			const range = timings.words[word.id];
+			if (!range || word.type === "spacing") continue;
+			eduRange = eduRange
+				? {
+						startTime: Math.min(eduRange.startTime, range.startTime),
+						endTime: Math.max(eduRange.endTime, range.endTime),
+					}
+				: { ...range };
+		}
+
+		if (eduRange) timings.edus[edu.edu_index] = eduRange;
+	}
+
+	return timings;
+}
+
+/**
+ * Map one EDU through a media item
+ * Returns null when none of its words are played
+ */
+function mapEDUThroughItem(
+	edu: FullEDU,
+	item: ITrackItem,
+	uploadId: string,
+): FullEDU | null {
+	const words = (edu.words || []) as TranscriptSegment[];
+	const mapped: TranscriptSegment[] = [];
+
+	for (const word of words) {
+		const range = mapSourceRangeToTimeline(item, {
+			startTime: word.start,
+			endTime: word.end,
+		});
+		if (!range) continue;
+		mapped.push({
+			...word,
+			// Played here, whatever the source view last derived
+			isUnplayed: undefined,
+			id: prefixId(item.id, word.id),
+			start: Math.round(range.startTime),
+			end: Math.round(range.endTime),
+			speaker_id: word.speaker_id && prefixId(uploadId, word.speaker_id),
+		});
+	}
+
+	if (!mapped.some((word) => word.type !== "spacing")) return null;
+
+	return {
+		...edu,
+		edu_content:
+			mapped.length === words.length
+				? edu.edu_content
+				: mapped
+						.map((word) => word.text)
+						.join("")
+						.trim(),
+		edu_start: mapped[0].start,
+		edu_end: mapped[mapped.length - 1].end,
+		words: mapped,
+	};
+}
+
+/**
+ * Merge the transcripts of every upload on the timeline
+ * @param uploadUrls - Media urls of each upload, used to find its items
+ */
+export function buildTimelineTranscript(
+	sources: TranscriptSource[],
+	uploadUrls: Record<string, string[]>,
+	trackItemsMap: Record<string, ITrackItem>,
+): TimelineTranscript {
+	const fullEDUs: FullEDU[] = [];
+	// A video and its detached audio play the same words at the same time
+	const played = new Set<string>();
+
+	for (const source of sources) {
+		const items = getSourceItems(
+			uploadUrls[source.uploadId] || [],
+			trackItemsMap,
+		);
+
+		for (const item of items) {
+			for (const edu of source.fullEDUs) {
+				const mapped = mapEDUThroughItem(edu, item, source.uploadId);
+				if (!mapped) continue;
+
+				const key = `${source.uploadId}:${edu.edu_index}@${mapped.edu_start}`;
+				if (played.has(key)) continue;
+				played.add(key);
+				fullEDUs.push(mapped);
+			}
+		}
+	}
+
+	const speakers = sources.flatMap((source) =>
+		buildSpeakerRoster(source.fullEDUs, source.speakers).map((speaker) => ({
+			...speaker,
+			id: prefixId(source.uploadId, speaker.id),
+		})),
+	);
+
+	return {
+		fullEDUs: fullEDUs
+			.sort((a, b) => a.edu_start - b.edu_start)
+			.map((edu, index) => ({ ...edu, edu_index: index })),
+		speakers,
+	};
+}
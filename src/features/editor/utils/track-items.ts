@@ -1,7 +1,18 @@
 import { ITrackItemsMap, ITransition, ITrackItem } from "@designcombo/types";
+import { shiftKeyframes } from "./keyframes";
 
 type GroupElement = ITrackItem | ITransition;
 
+export type TransitionSeriesElement =
+	| { type: "clip"; item: ITrackItem; durationInFrames: number }
+	| { type: "transition"; transition: ITransition; durationInFrames: number };
+
+export interface TransitionSeriesLayout {
+	// First frame of the series in the composition
+	from: number;
+	elements: TransitionSeriesElement[];
+}
+
 export const groupTrackItems = (data: {
 	trackItemIds: string[];
 	transitionsMap: Record<string, ITransition>;
@@ -78,3 +89,115 @@ export const groupTrackItems = (data: {
 
 	return groups;
 };
+
+const isTransition = (element: GroupElement): element is ITransition =>
+	!("display" in element);
+
+const toFrames = (ms: number, fps: number) => Math.round((ms / 1000) * fps);
+
+/**
+ * Re-time a clip for its place in a transition series
+ * The clip is padded by `lead` and `tail` ms and its display becomes
+ * relative to the start of its series sequence. Media plays the source
+ * around its trim in the padding where the source has it
+ */
+const padClip = (item: ITrackItem, lead: number, tail: number): ITrackItem => {
+	const duration = item.display.to - item.display.from;
+	// Keyframes are timed from the start of the item, which the lead moves
+	if (item.type !== "video" && item.type !== "audio") {
+		return {
+			...item,
+			details: shiftKeyframes(item.details, lead),
+			display: { from: 0, to: lead + duration + tail },
+		};
+	}
+
+	const rate = item.playbackRate || 1;
+	const trim = (item as any).trim as { from: number; to: number } | undefined;
+	const trimFrom = trim?.from ?? 0;
+	const trimTo = trim?.to ?? duration * rate;
+	const sourceDuration = (item as any).duration as number | undefined;
+	const before = Math.min(lead, trimFrom / rate);
+	const after = sourceDuration
+		? Math.max(0, Math.min(tail, (sourceDuration - trimTo) / rate))
+		: tail;
+
+	return {
+		...item,
+		details: shiftKeyframes(item.details, before),
+		display: { from: lead - before, to: lead + duration + after },
+		trim: { from: trimFrom - before * rate, to: trimTo + after * rate },
+	} as ITrackItem;
+};
+
+/**
+ * Lay out a group from `groupTrackItems` for a TransitionSeries
+ * Transitions are centred on the cut like on the timeline: each clip is
+ * padded with half of each neighbouring transition, so clips keep their
+ * timeline position instead of being pulled earlier by the overlap
+ */
+export const getTransitionSeriesLayout = (
+	group: GroupElement[],
+	fps: number,
+): TransitionSeriesLayout => {
+	// Items removed since the transition was made leave holes in the chain
+	const clips = group
+		.filter(
+			(element): element is ITrackItem => !!element && !isTransition(element),
+		)
+		.sort((a, b) => a.display.from - b.display.from);
+	// The transition after each clip but the last
+	const transitions = clips
+		.slice(0, -1)
+		.map((item, index) =>
+			group
+				.filter(isTransition)
+				.find(
+					(transition) =>
+						transition.fromId === item.id &&
+						transition.toId === clips[index + 1].id,
+				),
+		);
+
+	const clipFrames = clips.map(
+		(item) => toFrames(item.display.to, fps) - toFrames(item.display.from, fps),
+	);
+	// A transition can't be longer than either of its clips
+	const transitionFrames = transitions.map((transition, index) =>
+		transition
+			? Math.max(
+					1,
+					Math.min(
+						toFrames(transition.duration, fps),
+						clipFrames[index],
+						clipFrames[index + 1],
+					),
+				)
+			: 0,
+	);
+
+	const elements: TransitionSeriesElement[] = [];
+	clips.forEach((item, index) => {
+		const before = transitionFrames[index - 1];
+		const after = transitionFrames[index];
+		const lead = before ? before - Math.floor(before / 2) : 0;
+		const tail = after ? Math.floor(after / 2) : 0;
+		const toMs = (frames: number) => (frames / fps) * 1000;
+
+		elements.push({
+			type: "clip",
+			item: padClip(item, toMs(lead), toMs(tail)),
+			durationInFrames: clipFrames[index] + lead + tail,
+		});
+		const transition = transitions[index];
+		if (after && transition) {
+			elements.push({
+				type: "transition",
+				transition,
+				durationInFrames: after,
+			});
+		}
+	});
+
+	return { from: toFrames(clips[0]?.display.from ?? 0, fps), elements };
+};
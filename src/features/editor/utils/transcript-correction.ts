@@ -0,0 +1,232 @@
+import { FullEDU, TranscriptSegment } from "../transcript/types";
+import { NO_SPACE_SCRIPT } from "./subtitles";
+
+/**
+ * Original words and the corrected tokens that replace them
+ */
+interface AlignedGroup {
+	originals: TranscriptSegment[];
+	tokens: string[];
+}
+
+export interface EDUCorrection {
+	edu: FullEDU;
+	// Ids of original words that no longer exist
+	removedWordIds: string[];
+}
+
+const normalizeToken = (text: string) =>
+	text.toLowerCase().replace(/[\s\p{P}]/gu, "");
+
+/**
+ * Split corrected text into word tokens
+ * Whitespace separates words; text in scripts written without spaces is
+ * segmented with Intl.Segmenter. Punctuation stays attached to its word.
+ */
+export function tokenizeTranscriptText(text: string): string[] {
+	const tokens: string[] = [];
+	const segmenter = new Intl.Segmenter(undefined, { granularity: "word" });
+
+	for (const chunk of text.trim().split(/\s+/)) {
+		if (!chunk) continue;
+		if (!NO_SPACE_SCRIPT.test(chunk)) {
+			tokens.push(chunk);
+			continue;
+		}
+
+		const chunkStart = tokens.length;
+		for (const { segment, isWordLike } of segmenter.segment(chunk)) {
+			if (isWordLike || tokens.length === chunkStart) {
+				tokens.push(segment);
+			} else {
+				tokens[tokens.length - 1] += segment;
+			}
+		}
+	}
+
+	return tokens;
+}
+
+/**
+ * Align original words to corrected tokens with a word-level edit distance
+ * Matches and substitutions pair one word with one token; everything
+ * between two such pairs forms a group that is re-timed together
+ */
+function alignTokens(
+	words: TranscriptSegment[],
+	tokens: string[],
+): AlignedGroup[] {
+	const a = words.map((word) => normalizeToken(word.text));
+	const b = tokens.map(normalizeToken);
+
+	// cost[i][j]: edit distance between a[i..] and b[j..]
+	const cost = Array.from({ length: a.length + 1 }, () =>
+		new Array<number>(b.length + 1).fill(0),
+	);
+	for (let i = a.length; i >= 0; i--) {
+		for (let j = b.length; j >= 0; j--) {
+			if (i === a.length) cost[i][j] = b.length - j;
+			else if (j === b.length) cost[i][j] = a.length - i;
+			else
+				cost[i][j] = Math.min(
+					cost[i + 1][j + 1] + (a[i] === b[j] ? 0 : 1),
+					cost[i + 1][j] + 1,
+					cost[i][j + 1] + 1,
+				);
+		}
+	}
+
+	const groups: AlignedGroup[] = [];
+	let pending: AlignedGroup = { originals: [], tokens: [] };
+	const flushPending = () => {
+		if (pending.originals.length > 0 || pending.tokens.length > 0) {
+			groups.push(pending);
+		}
+		pending = { originals: [], tokens: [] };
+	};
+
+	let i = 0;
+	let j = 0;
+	while (i < a.length || j < b.length) {
+		if (
+			i < a.length &&
+			j < b.length &&
+			cost[i][j] === cost[i + 1][j + 1] + (a[i] === b[j] ? 0 : 1)
+		) {
+			flushPending();
+			groups.push({ originals: [words[i]], tokens: [tokens[j]] });
+			i++;
+			j++;
+		} else if (i < a.length && cost[i][j] === cost[i + 1][j] + 1) {
+			pending.originals.push(words[i++]);
+		} else {
+			pending.tokens.push(tokens[j++]);
+		}
+	}
+	flushPending();
+
+	// Inserted tokens share the time of a neighbouring word
+	const merged: AlignedGroup[] = [];
+	for (const group of groups) {
+		const previous = merged[merged.length - 1];
+		if (group.originals.length === 0 && previous) {
+			previous.tokens.push(...group.tokens);
+		} else if (previous && previous.originals.length === 0) {
+			merged[merged.length - 1] = {
+				originals: group.originals,
+				tokens: [...previous.tokens, ...group.tokens],
+			};
+		} else {
+			merged.push({ ...group, tokens: [...group.tokens] });
+		}
+	}
+	return merged;
+}
+
+/**
+ * Split the time of a group's original words across its tokens,
+ * proportionally to token length
+ */
+function retimeGroup(
+	group: AlignedGroup,
+	span: { start: number; end: number },
+	createId: (base: string) => string,
+): TranscriptSegment[] {
+	const { originals, tokens } = group;
+	if (tokens.length === 0) return [];
+
+	// Unchanged word keeps its object
+	if (originals.length === 1 && tokens.length === 1) {
+		const [word] = originals;
+		return [word.text === tokens[0] ? word : { ...word, text: tokens[0] }];
+	}
+
+	const template = originals[0];
+	const start = template?.start ?? span.start;
+	const end = originals[originals.length - 1]?.end ?? span.end;
+	const totalLength = tokens.reduce((sum, token) => sum + token.length, 0);
+	const isCut = originals.length > 0 && originals.every((word) => word.isCut);
+
+	let cursor = start;
+	return tokens.map((token, index) => {
+		const wordEnd =
+			index === tokens.length - 1
+				? end
+				: cursor + ((end - start) * token.length) / totalLength;
+		const word: TranscriptSegment = {
+			...(template || {
+				type: "word",
+				speaker_id: null,
+				logprob: 0,
+				characters: null,
+			}),
+			// Reuse original ids first so links to subtitles and cuts survive
+			id: originals[index]?.id || createId(template?.id || "word"),
+			text: token,
+			type: "word",
+			start: Math.round(cursor),
+			end: Math.round(wordEnd),
+			isCut,
+		};
+		cursor = wordEnd;
+		return word;
+	});
+}
+
+/**
+ * Apply corrected text to an EDU, keeping word timings
+ * Corrected tokens are aligned to the original words; replaced, split and
+ * merged words share the original time proportionally. Spacing segments
+ * that still sit between two words are kept.
+ * @param existingIds - Ids used anywhere in the transcript, new ids avoid them
+ */
+export function correctEDUText(
+	edu: FullEDU,
+	text: string,
+	existingIds: Set<string>,
+): EDUCorrection {
+	const segments = (edu.words || []) as TranscriptSegment[];
+	const originals = segments.filter((word) => word.type !== "spacing");
+	const spacings = segments.filter((word) => word.type === "spacing");
+	const tokens = tokenizeTranscriptText(text);
+
+	const usedIds = new Set(existingIds);
+	const createId = (base: string) => {
+		let index = 1;
+		while (usedIds.has(`${base}-${index}`)) index++;
+		const id = `${base}-${index}`;
+		usedIds.add(id);
+		return id;
+	};
+
+	const span = { start: edu.edu_start, end: edu.edu_end };
+	const words = alignTokens(originals, tokens).flatMap((group) =>
+		retimeGroup(group, span, createId),
+	);
+
+	const withSpacing: TranscriptSegment[] = [];
+	for (const [index, word] of words.entries()) {
+		const previous = words[index - 1];
+		if (previous) {
+			withSpacing.push(
+				...spacings.filter(
+					(spacing) =>
+						spacing.start >= previous.end && spacing.end <= word.start,
+				),
+			);
+		}
+		withSpacing.push(word);
+	}
+
+	const keptIds = new Set(words.map((word) => word.id));
+	return {
+		edu: {
+			...edu,
+			edu_content: text.trim().replace(/\s+/g, " "),
+			words: withSpacing,
+		},
+		removedWordIds: originals
+			.map((word) => word.id)
+			.filter((id) => !keptIds.has(id)),
+	};
+}
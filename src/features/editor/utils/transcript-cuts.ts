@@ -0,0 +1,442 @@
+import { generateId } from "@designcombo/timeline";
+import { ITrack, ITrackItem, ITransition } from "@designcombo/types";
+import { FullEDU, TimeRange, TranscriptSegment } from "../transcript/types";
+
+/**
+ * Text-based editing helpers
+ * Transcript word times are source-media times (ms). Media items map source
+ * time to composition time through their trim, display and playbackRate:
+ *   composition = display.from + (source - trim.from) / playbackRate
+ */
+
+// Tolerance for comparing millisecond positions produced by float math
+const EPSILON_MS = 1;
+
+export interface TimelineSnapshot {
+	tracks: ITrack[];
+	trackItemsMap: Record<string, ITrackItem>;
+	transitionsMap: Record<string, ITransition>;
+}
+
+/**
+ * Whether a word shows as cut, struck out by the user or not played by any
+ * clip. Only user cuts are ranges to remove
+ */
+export const isWordCut = (word: TranscriptSegment) =>
+	!!word.isCut || !!word.isUnplayed;
+
+/**
+ * EDUs as they are saved, without the flags the view derives
+ */
+export const getStoredEDUs = (fullEDUs: FullEDU[]): FullEDU[] =>
+	fullEDUs.map((edu) => ({
+		...edu,
+		words: (edu.words as TranscriptSegment[]).map(
+			({ isActive, isUnplayed, ...word }) => word,
+		),
+	}));
+
+export const isMediaItem = (item: ITrackItem) =>
+	item.type === "video" || item.type === "audio";
+
+// Media items playing the transcript's upload, the only ones words can cut
+const isSourceItem = (item: ITrackItem, urls: string[]) =>
+	isMediaItem(item) && urls.includes(item.details?.src);
+
+const getPlaybackRate = (item: ITrackItem) => item.playbackRate || 1;
+
+const getTrim = (item: ITrackItem) => {
+	const trim = (item as any).trim as { from: number; to: number } | undefined;
+	return {
+		from: trim?.from ?? 0,
+		to:
+			trim?.to ?? (item.display.to - item.display.from) * getPlaybackRate(item),
+	};
+};
+
+/**
+ * Merge overlapping or touching ranges, sorted by start time
+ */
+export function mergeTimeRanges(ranges: TimeRange[]): TimeRange[] {
+	const sorted = ranges
+		.filter((range) => range.endTime - range.startTime > 0)
+		.sort((a, b) => a.startTime - b.startTime);
+
+	const merged: TimeRange[] = [];
+	for (const range of sorted) {
+		const last = merged[merged.length - 1];
+		if (last && range.startTime <= last.endTime + EPSILON_MS) {
+			last.endTime = Math.max(last.endTime, range.endTime);
+		} else {
+			merged.push({ ...range });
+		}
+	}
+	return merged;
+}
+
+/**
+ * Collect the source-time ranges covered by the given words
+ * Consecutive words are merged into a single range so the gap between them
+ * is removed as well
+ */
+export function getWordRanges(
+	fullEDUs: FullEDU[],
+	wordIds: Set<string>,
+): TimeRange[] {
+	const ranges: TimeRange[] = [];
+	let current: TimeRange | null = null;
+
+	for (const edu of fullEDUs) {
+		for (const word of edu.words as TranscriptSegment[]) {
+			if (wordIds.has(word.id)) {
+				if (current) {
+					current.endTime = word.end;
+				} else {
+					current = { startTime: word.start, endTime: word.end };
+				}
+			} else if (current) {
+				ranges.push(current);
+				current = null;
+			}
+		}
+	}
+	if (current) ranges.push(current);
+
+	return mergeTimeRanges(ranges);
+}
+
+/**
+ * Map a source-time range onto the composition for a media item
+ * Returns null when the item does not play any part of the range
+ */
+export function mapSourceRangeToTimeline(
+	item: ITrackItem,
+	range: TimeRange,
+): TimeRange | null {
+	const trim = getTrim(item);
+	const start = Math.max(range.startTime, trim.from);
+	const end = Math.min(range.endTime, trim.to);
+	if (end - start <= 0) return null;
+
+	const rate = getPlaybackRate(item);
+	return {
+		startTime: item.display.from + (start - trim.from) / rate,
+		endTime: item.display.from + (end - trim.from) / rate,
+	};
+}
+
+/**
+ * Amount of removed time that lies before the given composition time
+ */
+const removedBefore = (time: number, ranges: TimeRange[]) =>
+	ranges.reduce(
+		(total, range) =>
+			total + Math.max(0, Math.min(time, range.endTime) - range.startTime),
+		0,
+	);
+
+/**
+ * Split a media item around the removed composition ranges
+ * The first kept piece reuses the original id
+ */
+function cutMediaItem(item: ITrackItem, ranges: TimeRange[]): ITrackItem[] {
+	const trim = getTrim(item);
+	const rate = getPlaybackRate(item);
+	const kept: TimeRange[] = [];
+	let cursor = item.display.from;
+
+	for (const range of ranges) {
+		if (range.endTime <= item.display.from) continue;
+		if (range.startTime >= item.display.to) break;
+		if (range.startTime > cursor) {
+			kept.push({ startTime: cursor, endTime: range.startTime });
+		}
+		cursor = Math.max(cursor, range.endTime);
+	}
+	if (cursor < item.display.to) {
+		kept.push({ startTime: cursor, endTime: item.display.to });
+	}
+
+	return kept
+		.filter((piece) => piece.endTime - piece.startTime > EPSILON_MS)
+		.map((piece, index) => {
+			const from = piece.startTime - removedBefore(piece.startTime, ranges);
+			return {
+				...item,
+				id: index === 0 ? item.id : generateId(),
+				display: {
+					from,
+					to: from + (piece.endTime - piece.startTime),
+				},
+				trim: {
+					from: trim.from + (piece.startTime - item.display.from) * rate,
+					to: trim.from + (piece.endTime - item.display.from) * rate,
+				},
+			} as ITrackItem;
+		});
+}
+
+/**
+ * Ripple-delete source-time ranges from the items playing the given urls
+ * Items after a removed range are shifted left, other media is moved whole
+ * and non-media items are shortened where they overlap a removed range
+ */
+export function removeSourceRanges(
+	snapshot: TimelineSnapshot,
+	sourceRanges: TimeRange[],
+	urls: string[],
+): TimelineSnapshot {
+	const { tracks, trackItemsMap, transitionsMap } = snapshot;
+
+	// Collect the composition ranges covered by the source ranges
+	const timelineRanges: TimeRange[] = [];
+	for (const item of Object.values(trackItemsMap)) {
+		if (!isSourceItem(item, urls)) continue;
+		for (const range of sourceRanges) {
+			const mapped = mapSourceRangeToTimeline(item, range);
+			if (mapped) timelineRanges.push(mapped);
+		}
+	}
+	const ranges = mergeTimeRanges(timelineRanges);
+	if (ranges.length === 0) return snapshot;
+
+	const nextItemsMap: Record<string, ITrackItem> = {};
+	const replacements: Record<string, string[]> = {};
+
+	for (const item of Object.values(trackItemsMap)) {
+		if (isSourceItem(item, urls)) {
+			const pieces = cutMediaItem(item, ranges);
+			replacements[item.id] = pieces.map((piece) => piece.id);
+			for (const piece of pieces) {
+				nextItemsMap[piece.id] = piece;
+			}
+			continue;
+		}
+
+		if (isMediaItem(item)) {
+			// Unrelated clips keep their length, they only follow the ripple
+			const shift = removedBefore(item.display.from, ranges);
+			replacements[item.id] = [item.id];
+			nextItemsMap[item.id] = {
+				...item,
+				display: {
+					from: item.display.from - shift,
+					to: item.display.to - shift,
+				},
+			};
+			continue;
+		}
+
+		const from = item.display.from - removedBefore(item.display.from, ranges);
+		const to = item.display.to - removedBefore(item.display.to, ranges);
+		if (to - from <= EPSILON_MS) {
+			replacements[item.id] = [];
+			continue;
+		}
+		replacements[item.id] = [item.id];
+		nextItemsMap[item.id] = { ...item, display: { from, to } };
+	}
+
+	return {
+		tracks: tracks.map((track) => ({
+			...track,
+			items: track.items.flatMap((id) => replacements[id] ?? [id]),
+		})),
+		trackItemsMap: nextItemsMap,
+		transitionsMap: filterTransitions(transitionsMap, nextItemsMap),
+	};
+}
+
+/**
+ * Re-insert previously removed source-time ranges
+ * The restored media is placed right after the piece that precedes it in
+ * source time (or before the piece that follows it), everything later is
+ * shifted right and contiguous pieces are merged back together
+ */
+export function restoreSourceRanges(
+	snapshot: TimelineSnapshot,
+	sourceRanges: TimeRange[],
+	urls: string[],
+): TimelineSnapshot {
+	let result = snapshot;
+	// Restore from the end so earlier insertion points stay valid
+	for (const range of [...mergeTimeRanges(sourceRanges)].reverse()) {
+		result = restoreSourceRange(result, range, urls);
+	}
+	return mergeContiguousPieces(result);
+}
+
+function restoreSourceRange(
+	snapshot: TimelineSnapshot,
+	range: TimeRange,
+	urls: string[],
+): TimelineSnapshot {
+	const { tracks, trackItemsMap, transitionsMap } = snapshot;
+
+	// Group pieces by track and source so each source is restored once
+	const groups = new Map<string, { trackId: string; pieces: ITrackItem[] }>();
+	for (const track of tracks) {
+		for (const id of track.items) {
+			const item = trackItemsMap[id];
+			if (!item || !isSourceItem(item, urls)) continue;
+			const key = `${track.id}::${item.details.src}`;
+			const group = groups.get(key) || { trackId: track.id, pieces: [] };
+			group.pieces.push(item);
+			groups.set(key, group);
+		}
+	}
+
+	// Find where each group should receive the restored piece
+	const insertions = new Map<
+		number,
+		Array<{ trackId: string; item: ITrackItem }>
+	>();
+	for (const { trackId, pieces } of groups.values()) {
+		const alreadyPlayed = pieces.some(
+			(piece) =>
+				Math.min(getTrim(piece).to, range.endTime) -
+					Math.max(getTrim(piece).from, range.startTime) >
+				EPSILON_MS,
+		);
+		if (alreadyPlayed) continue;
+
+		const before = pieces
+			.filter((piece) => getTrim(piece).to <= range.startTime + EPSILON_MS)
+			.sort((a, b) => getTrim(b).to - getTrim(a).to)[0];
+		const after = pieces
+			.filter((piece) => getTrim(piece).from >= range.endTime - EPSILON_MS)
+			.sort((a, b) => getTrim(a).from - getTrim(b).from)[0];
+		const anchor = before || after;
+		if (!anchor) continue;
+
+		const position = before ? before.display.to : after.display.from;
+		const item = {
+			...anchor,
+			id: generateId(),
+			display: {
+				from: position,
+				to:
+					position +
+					(range.endTime - range.startTime) / getPlaybackRate(anchor),
+			},
+			trim: { from: range.startTime, to: range.endTime },
+		} as ITrackItem;
+		const key = Math.round(position);
+		insertions.set(key, [...(insertions.get(key) || []), { trackId, item }]);
+	}
+	if (insertions.size === 0) return snapshot;
+
+	let nextItemsMap = { ...trackItemsMap };
+	let nextTracks = tracks;
+
+	// Insert from the latest point so earlier positions are not shifted yet
+	const sortedInsertions = [...insertions.entries()]
+		.sort(([a], [b]) => b - a)
+		.map(([, restored]) => restored);
+
+	for (const restored of sortedInsertions) {
+		const position = restored[0].item.display.from;
+		const duration = Math.max(
+			...restored.map(({ item }) => item.display.to - item.display.from),
+		);
+
+		// Shift everything that starts at or after the insertion point
+		const shiftedMap: Record<string, ITrackItem> = {};
+		for (const item of Object.values(nextItemsMap)) {
+			if (item.display.from >= position - EPSILON_MS) {
+				shiftedMap[item.id] = {
+					...item,
+					display: {
+						from: item.display.from + duration,
+						to: item.display.to + duration,
+					},
+				};
+			} else if (!isMediaItem(item) && item.display.to > position) {
+				shiftedMap[item.id] = {
+					...item,
+					display: { ...item.display, to: item.display.to + duration },
+				};
+			} else {
+				shiftedMap[item.id] = item;
+			}
+		}
+		for (const { item } of restored) {
+			shiftedMap[item.id] = item;
+		}
+		nextItemsMap = shiftedMap;
+
+		nextTracks = nextTracks.map((track) => {
+			const additions = restored
+				.filter(({ trackId }) => trackId === track.id)
+				.map(({ item }) => item.id);
+			if (additions.length === 0) return track;
+			return {
+				...track,
+				items: [...track.items, ...additions].sort(
+					(a, b) =>
+						(nextItemsMap[a]?.display.from ?? 0) -
+						(nextItemsMap[b]?.display.from ?? 0),
+				),
+			};
+		});
+	}
+
+	return {
+		tracks: nextTracks,
+		trackItemsMap: nextItemsMap,
+		transitionsMap,
+	};
+}
+
+/**
+ * Merge media pieces on the same track that continue each other both in
+ * composition time and in source time
+ */
+function mergeContiguousPieces(snapshot: TimelineSnapshot): TimelineSnapshot {
+	const nextItemsMap = { ...snapshot.trackItemsMap };
+
+	const tracks = snapshot.tracks.map((track) => {
+		const items: string[] = [];
+		for (const id of track.items) {
+			const item = nextItemsMap[id];
+			const previous = nextItemsMap[items[items.length - 1]];
+			if (
+				item &&
+				previous &&
+				isMediaItem(item) &&
+				isMediaItem(previous) &&
+				item.details.src === previous.details.src &&
+				getPlaybackRate(item) === getPlaybackRate(previous) &&
+				Math.abs(item.display.from - previous.display.to) <= EPSILON_MS &&
+				Math.abs(getTrim(item).from - getTrim(previous).to) <= EPSILON_MS
+			) {
+				nextItemsMap[previous.id] = {
+					...previous,
+					display: { from: previous.display.from, to: item.display.to },
+					trim: { from: getTrim(previous).from, to: getTrim(item).to },
+				} as ITrackItem;
+				delete nextItemsMap[id];
+				continue;
+			}
+			items.push(id);
+		}
+		return { ...track, items };
+	});
+
+	return {
+		tracks,
+		trackItemsMap: nextItemsMap,
+		transitionsMap: filterTransitions(snapshot.transitionsMap, nextItemsMap),
+	};
+}
+
+const filterTransitions = (
+	transitionsMap: Record<string, ITransition>,
+	trackItemsMap: Record<string, ITrackItem>,
+) =>
+	Object.fromEntries(
+		Object.entries(transitionsMap).filter(
+			([, transition]) =>
+				trackItemsMap[transition.fromId] && trackItemsMap[transition.toId],
+		),
+	);
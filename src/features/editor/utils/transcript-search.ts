@@ -0,0 +1,193 @@
+import { FullEDU, TranscriptSegment } from "../transcript/types";
+import { NO_SPACE_SCRIPT } from "./subtitles";
+
+export type TranscriptSearchMode = "text" | "regex";
+
+export interface TranscriptSearchOptions {
+	query: string;
+	mode: TranscriptSearchMode;
+}
+
+/**
+ * One match, as a run of words
+ * Word indexes are global indexes into getFlatWords()
+ */
+export interface TranscriptSearchHit {
+	startWordIndex: number;
+	endWordIndex: number; // Inclusive
+	start: number;
+	end: number;
+}
+
+export interface TranscriptSearchResult {
+	hits: TranscriptSearchHit[];
+	error?: string;
+}
+
+const stripDiacritics = (text: string) =>
+	text.normalize("NFD").replace(/\p{M}/gu, "");
+
+/**
+ * Lowercase and strip diacritics so "Résumé" matches "resume"
+ */
+export const normalizeSearchText = (text: string) =>
+	stripDiacritics(text).toLowerCase();
+
+const escapeRegExp = (text: string) =>
+	text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Compile the query against normalized text
+ * Regular expressions keep their case, lowercasing would turn escapes like
+ * \D into \d, and match case-insensitively instead
+ * Throws on an invalid regular expression
+ */
+const buildSearchPattern = ({ query, mode }: TranscriptSearchOptions) =>
+	mode === "regex"
+		? new RegExp(stripDiacritics(query), "giu")
+		: new RegExp(
+				normalizeSearchText(query.trim())
+					.split(/\s+/)
+					.map(escapeRegExp)
+					.join("\\s*"),
+				"gu",
+			);
+
+/**
+ * Normalized transcript text with the character range of every word
+ */
+function buildSearchText(words: TranscriptSegment[]) {
+	let text = "";
+	const ranges: { index: number; from: number; to: number }[] = [];
+
+	words.forEach((word, index) => {
+		if (word.type === "spacing") return;
+		const normalized = normalizeSearchText(word.text.trim());
+		if (!normalized) return;
+
+		const previous = text.slice(-1);
+		if (
+			text &&
+			!(NO_SPACE_SCRIPT.test(previous) && NO_SPACE_SCRIPT.test(normalized[0]))
+		) {
+			text += " ";
+		}
+		ranges.push({
+			index,
+			from: text.length,
+			to: text.length + normalized.length,
+		});
+		text += normalized;
+	});
+
+	return { text, ranges };
+}
+
+/**
+ * Find a phrase or regular expression in the transcript words
+ * Matching is case and diacritic insensitive; whitespace in a phrase
+ * matches any word break
+ */
+export function searchTranscript(
+	words: TranscriptSegment[],
+	options: TranscriptSearchOptions,
+): TranscriptSearchResult {
+	if (!options.query.trim()) return { hits: [] };
+
+	let pattern: RegExp;
+	try {
+		pattern = buildSearchPattern(options);
+	} catch (error) {
+		return {
+			hits: [],
+			error: error instanceof Error ? error.message : "Invalid expression",
+		};
+	}
+
+	const { text, ranges } = buildSearchText(words);
+	const hits: TranscriptSearchHit[] = [];
+
+	for (const match of text.matchAll(pattern)) {
+		// Empty matches can't be highlighted
+		if (!match[0] || match.index === undefined) continue;
+		const from = match.index;
+		const to = from + match[0].length;
+
+		const covered = ranges.filter(
+			(range) => range.from < to && range.to > from,
+		);
+		if (covered.length === 0) continue;
+
+		const first = words[covered[0].index];
+		const last = words[covered[covered.length - 1].index];
+		hits.push({
+			startWordIndex: covered[0].index,
+			endWordIndex: covered[covered.length - 1].index,
+			start: first.start,
+			end: last.end,
+		});
+	}
+
+	return { hits };
+}
+
+/**
+ * Index of the hit played first at or after `timeMs`, wrapping to the one
+ * played earliest
+ * Clips can play the transcript out of order, so every hit is checked
+ * @param getStart - Composition time of a hit, null when it isn't played
+ */
+export function getHitIndexAtTime(
+	hits: TranscriptSearchHit[],
+	timeMs: number,
+	getStart: (hit: TranscriptSearchHit) => number | null,
+): number {
+	if (hits.length === 0) return -1;
+	let next = { index: -1, start: Number.POSITIVE_INFINITY };
+	let earliest = { index: 0, start: Number.POSITIVE_INFINITY };
+	for (const [index, hit] of hits.entries()) {
+		const start = getStart(hit);
+		if (start === null) continue;
+		if (start < earliest.start) earliest = { index, start };
+		if (start >= timeMs && start < next.start) next = { index, start };
+	}
+	return next.index >= 0 ? next.index : earliest.index;
+}
+
+/**
+ * Replace every match inside one EDU's text
+ * Returns null when the EDU has no match
+ */
+export function replaceInEDU(
+	edu: FullEDU,
+	options: TranscriptSearchOptions,
+	replacement: string,
+): string | null {
+	if (!options.query.trim()) return null;
+
+	// Search the EDU text with the same rules, mapping normalized positions
+	// back to the original characters
+	const original = edu.edu_content;
+	let normalized = "";
+	const offsets: number[] = [];
+	for (let index = 0; index < original.length; index++) {
+		const char = normalizeSearchText(original[index]);
+		for (let n = 0; n < char.length; n++) offsets.push(index);
+		normalized += char;
+	}
+	offsets.push(original.length);
+
+	let result = "";
+	let cursor = 0;
+	let matched = false;
+	for (const match of normalized.matchAll(buildSearchPattern(options))) {
+		if (!match[0] || match.index === undefined) continue;
+		matched = true;
+		const from = offsets[match.index];
+		const to = offsets[match.index + match[0].length];
+		result += original.slice(cursor, from) + replacement;
+		cursor = to;
+	}
+
+	return matched ? result + original.slice(cursor) : null;
+}
@@ -1,4 +1,4 @@
-import { FullEDU } from "@/features/editor/transcript/types";
+import { FullEDU, TranscriptSpeaker } from "@/features/editor/transcript/types";
 import { generateId } from "@designcombo/timeline";
 import { ITrack, ITrackItem } from "@designcombo/types";
 
@@ -6,8 +6,14 @@ import { ITrack, ITrackItem } from "@designcombo/types";
  * Convert fullEDUs words to subtitle timeline items
  * Each word becomes an individual timeline item
  */
-export function wordsToSubtitleItems(fullEDUs: FullEDU[]): ITrackItem[] {
+export function wordsToSubtitleItems(
+	fullEDUs: FullEDU[],
+	speakers: TranscriptSpeaker[] = [],
+): ITrackItem[] {
 	const subtitleItems: ITrackItem[] = [];
+	const speakerColors = Object.fromEntries(
+		speakers.map((speaker) => [speaker.id, speaker.color]),
+	);
 
 	for (const edu of fullEDUs) {
 		for (const word of edu.words) {
@@ -22,6 +28,9 @@ export function wordsToSubtitleItems(fullEDUs: FullEDU[]): ITrackItem[] {
 				details: {
 					text: word.text,
 					wordId: word.id, // Link back to transcript
+					eduIndex: edu.edu_index, // Caption line grouping
+					speakerId: word.speaker_id || undefined,
+					speakerColors,
 				},
 				// Additional properties for timeline rendering
 				playbackRate: 1,
@@ -53,11 +62,12 @@ export function createSubtitleTrack(items: ITrackItem[], index = 1): ITrack {
 export function generateSubtitleTrackFromTranscript(
 	fullEDUs: FullEDU[],
 	trackIndex = 1,
+	speakers: TranscriptSpeaker[] = [],
 ): {
 	track: ITrack;
 	items: ITrackItem[];
 } {
-	const items = wordsToSubtitleItems(fullEDUs);
+	const items = wordsToSubtitleItems(fullEDUs, speakers);
 	const track = createSubtitleTrack(items, trackIndex);
 
 	return { track, items };
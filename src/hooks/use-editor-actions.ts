@@ -10,6 +10,7 @@ import {
 	HISTORY_REDO,
 } from "@designcombo/state";
 import useStore from "@/features/editor/store/use-store";
+import useRangeStore from "@/features/editor/store/use-range-store";
 import {
 	PLAYER_PLAY,
 	PLAYER_PAUSE,
@@ -163,6 +164,25 @@ export function useEditorActions() {
 		console.log("Toggle snapping not yet implemented");
 	}, []);
 
+	const handleSetRangePoint = useCallback(
+		(point: "in" | "out") => {
+			if (!playerRef?.current) return;
+			const currentFrame = playerRef.current.getCurrentFrame() || 0;
+			const currentTimeMs = (currentFrame / fps) * 1000;
+			const { setInPoint, setOutPoint } = useRangeStore.getState();
+			if (point === "in") {
+				setInPoint(currentTimeMs);
+			} else {
+				setOutPoint(currentTimeMs);
+			}
+		},
+		[playerRef, fps],
+	);
+
+	const handleClearRange = useCallback(() => {
+		useRangeStore.getState().clearRange();
+	}, []);
+
 	useActionHandler("toggle-play", handleTogglePlay, isActive);
 	useActionHandler("seek-forward", handleSeek, isActive);
 	useActionHandler("seek-backward", handleSeekBackward, isActive);
@@ -193,4 +213,7 @@ export function useEditorActions() {
 	useActionHandler("undo", handleUndo, isActive);
 	useActionHandler("redo", handleRedo, isActive);
 	useActionHandler("toggle-snapping", handleToggleSnapping, isActive);
+	useActionHandler("set-in-point", () => handleSetRangePoint("in"), isActive);
+	useActionHandler("set-out-point", () => handleSetRangePoint("out"), isActive);
+	useActionHandler("clear-range", handleClearRange, isActive);
 }
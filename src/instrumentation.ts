@@ -0,0 +1,16 @@
+export async function register() {
+	// Resume queued transcription jobs when the server starts
+	if (process.env.NEXT_RUNTIME === "nodejs") {
+		const { getTranscriptionJobRunner } = await import(
+			"@/lib/transcription/job-runner"
+		);
+		await getTranscriptionJobRunner().start();
+
+		// Resume queued renders when rendering on this server
+		const { renderConfig } = await import("@/lib/render/config");
+		if (renderConfig.backend === "local") {
+			const { getRenderJobRunner } = await import("@/lib/render/job-runner");
+			await getRenderJobRunner().start();
+		}
+	}
+}
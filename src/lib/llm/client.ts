@@ -0,0 +1,77 @@
+/**
+ * LLM Client
+ * Structured generation behind a swappable client, so operations can run
+ * against a deterministic stub instead of a provider
+ */
+
+import { generateObject } from "ai";
+import type { z } from "zod";
+import { createFixtureLLMClient, getFixtureOptionsFromEnv } from "./fixtures";
+import type { ModelMessage } from "./types";
+
+type GenerateObjectOptions = Parameters<typeof generateObject>[0];
+
+export interface ObjectRequest<T> {
+	model: GenerateObjectOptions["model"];
+	messages: ModelMessage[];
+	schema: z.ZodType<T>;
+	providerOptions?: GenerateObjectOptions["providerOptions"];
+}
+
+export interface LLMClient {
+	generateObject<T>(request: ObjectRequest<T>): Promise<T>;
+}
+
+/**
+ * Client backed by the AI SDK providers resolved in config.ts
+ */
+export const aiSdkClient: LLMClient = {
+	async generateObject<T>(request: ObjectRequest<T>) {
+		const result = await generateObject({
+			model: request.model,
+			messages: request.messages,
+			schema: request.schema,
+			providerOptions: request.providerOptions,
+		});
+		return result.object as T;
+	},
+};
+
+/**
+ * Deterministic client for tests and offline runs
+ * `respond` receives every request and returns the object to hand back;
+ * it is still validated against the request schema
+ */
+export function createStubLLMClient(
+	respond: (request: ObjectRequest<unknown>) => unknown,
+): LLMClient {
+	return {
+		async generateObject<T>(request: ObjectRequest<T>) {
+			return request.schema.parse(
+				respond(request as ObjectRequest<unknown>),
+			) as T;
+		},
+	};
+}
+
+/**
+ * Default client, wrapped in fixtures when LLM_FIXTURES is set
+ */
+const createDefaultClient = (): LLMClient => {
+	const fixtures = getFixtureOptionsFromEnv();
+	return fixtures ? createFixtureLLMClient(aiSdkClient, fixtures) : aiSdkClient;
+};
+
+let activeClient: LLMClient | null = null;
+
+export const getLLMClient = () => {
+	activeClient ??= createDefaultClient();
+	return activeClient;
+};
+
+/**
+ * Replace the client used by operations, null restores the default
+ */
+export const setLLMClient = (client: LLMClient | null) => {
+	activeClient = client;
+};
@@ -0,0 +1,104 @@
+/**
+ * LLM Configuration
+ * Provider and model of every operation, read from the environment
+ *
+ * Each operation falls back to LLM_PROVIDER / LLM_MODEL and then to its
+ * built-in default:
+ *   LLM_<OPERATION>_PROVIDER  openai | google | openai-compatible
+ *   LLM_<OPERATION>_MODEL     model id
+ *   LLM_<OPERATION>_BASE_URL  OpenAI-compatible endpoint, e.g. a local server
+ *   LLM_<OPERATION>_API_KEY   key for that endpoint, often not needed locally
+ */
+
+import { createGoogleGenerativeAI } from "@ai-sdk/google";
+import { createOpenAI } from "@ai-sdk/openai";
+import type { LanguageModel } from "ai";
+
+export type LLMOperation = "split" | "group" | "translate" | "summarize";
+
+export type LLMProvider = "openai" | "google" | "openai-compatible";
+
+const LLM_PROVIDERS: LLMProvider[] = ["openai", "google", "openai-compatible"];
+
+export interface LLMModelConfig {
+	provider: LLMProvider;
+	model: string;
+	baseUrl?: string;
+	apiKey?: string;
+}
+
+/**
+ * Built-in defaults per operation
+ * - split: paragraphs of an article
+ * - group: transcript words and article paragraphs into EDUs
+ * - translate: transcript translation
+ * - summarize: highlights and chapters
+ */
+const DEFAULT_MODELS: Record<LLMOperation, LLMModelConfig> = {
+	split: { provider: "google", model: "gemini-2.5-pro" },
+	group: { provider: "openai", model: "gpt-5-mini" },
+	translate: { provider: "openai", model: "gpt-5-mini" },
+	summarize: { provider: "openai", model: "gpt-5-mini" },
+};
+
+const readEnv = (operation: LLMOperation, key: string): string | undefined =>
+	process.env[`LLM_${operation.toUpperCase()}_${key}`] ||
+	process.env[`LLM_${key}`] ||
+	undefined;
+
+/**
+ * Resolved provider and model of an operation
+ */
+export function getModelConfig(operation: LLMOperation): LLMModelConfig {
+	const provider = readEnv(operation, "PROVIDER");
+	if (provider && !LLM_PROVIDERS.includes(provider as LLMProvider)) {
+		throw new Error(`Unknown LLM provider: ${provider}`);
+	}
+
+	const baseUrl = readEnv(operation, "BASE_URL");
+	const defaults = DEFAULT_MODELS[operation];
+	const resolvedProvider =
+		(provider as LLMProvider | undefined) ||
+		// A base URL alone means a local OpenAI-compatible server
+		(baseUrl ? "openai-compatible" : defaults.provider);
+
+	const model = readEnv(operation, "MODEL");
+	if (!model && resolvedProvider !== defaults.provider) {
+		throw new Error(
+			`Set LLM_${operation.toUpperCase()}_MODEL or LLM_MODEL for the ${resolvedProvider} provider`,
+		);
+	}
+	if (resolvedProvider === "openai-compatible" && !baseUrl) {
+		throw new Error(
+			`Set LLM_${operation.toUpperCase()}_BASE_URL or LLM_BASE_URL for the openai-compatible provider`,
+		);
+	}
+
+	return {
+		provider: resolvedProvider,
+		model: model || defaults.model,
+		baseUrl,
+		apiKey: readEnv(operation, "API_KEY"),
+	};
+}
+
+/**
+ * Language model of an operation
+ */
+export function getModel(operation: LLMOperation): LanguageModel {
+	const { provider, model, baseUrl, apiKey } = getModelConfig(operation);
+
+	switch (provider) {
+		case "google":
+			return createGoogleGenerativeAI({ baseURL: baseUrl, apiKey })(model);
+		case "openai":
+			return createOpenAI({ baseURL: baseUrl, apiKey })(model);
+		case "openai-compatible":
+			// Local servers implement chat completions, not the responses API
+			return createOpenAI({
+				name: "openai-compatible",
+				baseURL: baseUrl,
+				apiKey: apiKey || "not-needed",
+			}).chat(model);
+	}
+}
@@ -0,0 +1,92 @@
+/**
+ * LLM Fixtures
+ * Records provider responses to disk and replays them, so operations run
+ * offline and deterministically once a recording exists
+ *
+ * Recordings are keyed by a hash of the messages and the response schema;
+ * the model is left out so a recording replays under any configuration
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { z } from "zod";
+import type { LLMClient, ObjectRequest } from "./client";
+
+export type LLMFixtureMode = "record" | "replay";
+
+export interface LLMFixtureOptions {
+	mode: LLMFixtureMode;
+	directory: string;
+}
+
+interface FixtureEntry {
+	messages: ObjectRequest<unknown>["messages"];
+	response: unknown;
+}
+
+export const DEFAULT_FIXTURES_DIR = "src/lib/llm/debug/fixtures";
+
+/**
+ * Recording key of a request
+ */
+export function getFixtureKey<T>(request: ObjectRequest<T>): string {
+	return createHash("sha256")
+		.update(
+			JSON.stringify({
+				messages: request.messages,
+				schema: z.toJSONSchema(request.schema),
+			}),
+		)
+		.digest("hex");
+}
+
+/**
+ * Wrap a client so its responses are recorded or replayed
+ * Replay throws when a request has no recording instead of reaching the
+ * provider
+ */
+export function createFixtureLLMClient(
+	inner: LLMClient,
+	{ mode, directory }: LLMFixtureOptions,
+): LLMClient {
+	return {
+		async generateObject<T>(request: ObjectRequest<T>) {
+			const key = getFixtureKey(request);
+			const filePath = path.join(directory, `${key}.json`);
+
+			if (mode === "replay") {
+				let entry: FixtureEntry;
+				try {
+					entry = JSON.parse(await readFile(filePath, "utf8"));
+				} catch {
+					throw new Error(
+						`No LLM fixture recorded for request ${key} in ${directory}`,
+					);
+				}
+				return request.schema.parse(entry.response) as T;
+			}
+
+			const response = await inner.generateObject(request);
+			const entry: FixtureEntry = { messages: request.messages, response };
+			await mkdir(directory, { recursive: true });
+			await writeFile(filePath, JSON.stringify(entry, null, 2));
+			return response;
+		},
+	};
+}
+
+/**
+ * Fixture options from LLM_FIXTURES / LLM_FIXTURES_DIR, null when disabled
+ */
+export function getFixtureOptionsFromEnv(): LLMFixtureOptions | null {
+	const mode = process.env.LLM_FIXTURES;
+	if (!mode) return null;
+	if (mode !== "record" && mode !== "replay") {
+		throw new Error(`LLM_FIXTURES must be "record" or "replay", got ${mode}`);
+	}
+	return {
+		mode,
+		directory: process.env.LLM_FIXTURES_DIR || DEFAULT_FIXTURES_DIR,
+	};
+}
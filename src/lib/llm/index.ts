@@ -11,9 +11,15 @@ if (process.env.NODE_ENV === "production") {
 
 // Export text operations
 export { processArticle } from "./operations/text-operations";
+export { extractHighlights } from "./operations/highlight-operations";
+export { generateChapters } from "./operations/chapter-operations";
+export { translateEDUs } from "./operations/translation-operations";
 
 // Export types (these are safe for client as they're just TypeScript types)
 // export type { ParagraphSplitResult } from "./types";
 
 // Namespace exports for organized access
 export * as TextOps from "./operations/text-operations";
+export * as HighlightOps from "./operations/highlight-operations";
+export * as ChapterOps from "./operations/chapter-operations";
+export * as TranslationOps from "./operations/translation-operations";
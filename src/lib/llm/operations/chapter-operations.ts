@@ -0,0 +1,123 @@
+/**
+ * Chapter Operations
+ * Split an EDU transcript into titled chapters
+ */
+
+import { range } from "lodash";
+import { LLMClient, getLLMClient } from "../client";
+import { getModel } from "../config";
+import { CHAPTER_PROMPTS } from "../prompts/chapters";
+import { formatNumberedTranscript } from "../prompts/transcript";
+import {
+	ChapterProposal,
+	ChapterResult,
+	ChapterSchema,
+	FullEDU,
+} from "../types";
+
+// YouTube ignores chapters shorter than this
+export const MIN_CHAPTER_MS = 10000;
+
+/**
+ * Check that chapters follow the transcript order and are long enough
+ * The first chapter is moved to the first EDU instead of failing, since
+ * models often skip a short intro
+ */
+function validateChapters(
+	result: ChapterResult,
+	edus: FullEDU[],
+): { isValid: boolean; chapters: ChapterProposal[]; error?: string } {
+	const byIndex = new Map(edus.map((edu) => [edu.edu_index, edu]));
+	const end = edus[edus.length - 1].edu_end;
+
+	if (result.chapters.length === 0) {
+		return { isValid: false, chapters: [], error: "No chapters" };
+	}
+
+	const chapters: ChapterProposal[] = [];
+	for (const [index, chapter] of result.chapters.entries()) {
+		const edu = index === 0 ? edus[0] : byIndex.get(chapter.start_edu);
+		if (!edu) {
+			return {
+				isValid: false,
+				chapters: [],
+				error: `Unknown EDU ${chapter.start_edu}`,
+			};
+		}
+		if (!chapter.title.trim()) {
+			return { isValid: false, chapters: [], error: "Empty chapter title" };
+		}
+
+		const previous = chapters[chapters.length - 1];
+		if (previous && edu.edu_start <= previous.start) {
+			return {
+				isValid: false,
+				chapters: [],
+				error: `Chapter "${chapter.title}" is out of order`,
+			};
+		}
+		if (previous && edu.edu_start - previous.start < MIN_CHAPTER_MS) {
+			return {
+				isValid: false,
+				chapters: [],
+				error: `Chapter "${previous.title}" is too short`,
+			};
+		}
+
+		chapters.push({
+			title: chapter.title.trim(),
+			startEDU: edu.edu_index,
+			start: edu.edu_start,
+		});
+	}
+
+	const last = chapters[chapters.length - 1];
+	if (chapters.length > 1 && end - last.start < MIN_CHAPTER_MS) {
+		return {
+			isValid: false,
+			chapters: [],
+			error: `Chapter "${last.title}" is too short`,
+		};
+	}
+
+	return { isValid: true, chapters };
+}
+
+/**
+ * Segment a transcript into chapters
+ * @param client - Optional client override, e.g. a stub in tests
+ */
+export async function generateChapters(
+	fullEDUs: FullEDU[],
+	client: LLMClient = getLLMClient(),
+): Promise<ChapterProposal[]> {
+	const edus = fullEDUs
+		.filter((edu) => edu.edu_content.trim())
+		.sort((a, b) => a.edu_start - b.edu_start);
+	if (edus.length === 0) {
+		throw new Error("Transcript is empty");
+	}
+
+	const transcript = formatNumberedTranscript(edus);
+	const maxRetries = 3;
+	for (const retryCount of range(0, maxRetries)) {
+		const result = await client.generateObject({
+			model: getModel("summarize"),
+			messages: CHAPTER_PROMPTS.SEGMENT_CHAPTERS(
+				transcript,
+				MIN_CHAPTER_MS / 1000,
+				retryCount,
+			),
+			schema: ChapterSchema,
+		});
+
+		const { isValid, chapters, error } = validateChapters(result, edus);
+		if (isValid) {
+			return chapters;
+		}
+		console.warn(
+			`Chapter validation failed (attempt ${retryCount + 1}/${maxRetries}): ${error}`,
+		);
+	}
+	throw new Error(`Failed to generate chapters after ${maxRetries} attempts`);
+}
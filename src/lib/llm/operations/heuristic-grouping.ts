@@ -0,0 +1,93 @@
+/**
+ * Heuristic EDU Grouping
+ * Deterministic grouping of transcript words into EDUs, used when the LLM
+ * can't produce a valid grouping or when grouping runs without an LLM
+ */
+
+import { TranscriptSegment } from "@/features/editor/transcript/types";
+import { FullEDU } from "../types";
+
+export interface HeuristicGroupingOptions {
+	// Silence between two words that always ends an EDU
+	pauseMs: number;
+	// Shorter silence that ends an EDU at a comma-like mark
+	clausePauseMs: number;
+	// Words an EDU needs before a comma-like mark may end it
+	minClauseWords: number;
+	maxWords: number;
+	maxDurationMs: number;
+}
+
+export const DEFAULT_HEURISTIC_GROUPING_OPTIONS: HeuristicGroupingOptions = {
+	pauseMs: 700,
+	clausePauseMs: 250,
+	minClauseWords: 4,
+	maxWords: 20,
+	maxDurationMs: 8000,
+};
+
+const SENTENCE_END = /[.!?。！？…]["'”’)\]]*$/u;
+const CLAUSE_END = /[,;:，；：、]["'”’)\]]*$/u;
+
+/**
+ * Whether an EDU should end after `word`
+ * @param pause - Silence before the next word, the span of a spacing segment
+ */
+function endsEDU(
+	words: TranscriptSegment[],
+	word: TranscriptSegment,
+	next: TranscriptSegment,
+	pause: number,
+	options: HeuristicGroupingOptions,
+): boolean {
+	const text = word.text.trim();
+	if (SENTENCE_END.test(text)) return true;
+	if (pause >= options.pauseMs) return true;
+	if (next.speaker_id !== word.speaker_id) return true;
+	if (
+		CLAUSE_END.test(text) &&
+		(words.length >= options.minClauseWords || pause >= options.clausePauseMs)
+	) {
+		return true;
+	}
+	if (words.length >= options.maxWords) return true;
+	return next.end - words[0].start > options.maxDurationMs;
+}
+
+const toFullEDU = (words: TranscriptSegment[], index: number): FullEDU => ({
+	edu_index: index,
+	edu_content: words.map((word) => word.text).join(""),
+	edu_start: words[0].start,
+	edu_end: words[words.length - 1].end,
+	words,
+});
+
+/**
+ * Group words into EDUs at punctuation, pauses and speaker changes, capped
+ * by word count and duration
+ * Only word segments are grouped; spacing and audio events are skipped the
+ * same way the LLM grouping skips them
+ */
+export function groupEDUsHeuristically(
+	segments: TranscriptSegment[],
+	overrides: Partial<HeuristicGroupingOptions> = {},
+): FullEDU[] {
+	const options = { ...DEFAULT_HEURISTIC_GROUPING_OPTIONS, ...overrides };
+	const words = segments.filter((segment) => segment.type === "word");
+	const fullEDUs: FullEDU[] = [];
+	let current: TranscriptSegment[] = [];
+
+	words.forEach((word, index) => {
+		current.push(word);
+		const next = words[index + 1];
+		if (
+			!next ||
+			endsEDU(current, word, next, Math.max(0, next.start - word.end), options)
+		) {
+			fullEDUs.push(toFullEDU(current, fullEDUs.length));
+			current = [];
+		}
+	});
+
+	return fullEDUs;
+}
@@ -0,0 +1,141 @@
+/**
+ * Highlight Operations
+ * Propose self-contained short clips from an EDU transcript
+ */
+
+import { range } from "lodash";
+import { LLMClient, getLLMClient } from "../client";
+import { getModel } from "../config";
+import { HIGHLIGHT_PROMPTS } from "../prompts/highlights";
+import { formatNumberedTranscript } from "../prompts/transcript";
+import {
+	FullEDU,
+	HighlightOptions,
+	HighlightProposal,
+	HighlightResult,
+	HighlightSchema,
+} from "../types";
+
+export const DEFAULT_HIGHLIGHT_OPTIONS: HighlightOptions = {
+	count: 3,
+	minDurationMs: 30000,
+	maxDurationMs: 60000,
+};
+
+// Models are loose with lengths, clips this far outside the target still pass
+const DURATION_TOLERANCE = 0.2;
+
+/**
+ * Turn the model's clips into proposals, dropping the ones that break
+ * the rules
+ */
+function validateHighlights(
+	result: HighlightResult,
+	edus: FullEDU[],
+	options: HighlightOptions,
+): { proposals: HighlightProposal[]; errors: string[] } {
+	const byIndex = new Map(edus.map((edu) => [edu.edu_index, edu]));
+	const minDuration = options.minDurationMs * (1 - DURATION_TOLERANCE);
+	const maxDuration = options.maxDurationMs * (1 + DURATION_TOLERANCE);
+
+	const proposals: HighlightProposal[] = [];
+	const errors: string[] = [];
+
+	for (const clip of result.clips) {
+		const first = byIndex.get(clip.start_edu);
+		const last = byIndex.get(clip.end_edu);
+		if (!first || !last || clip.start_edu > clip.end_edu) {
+			errors.push(
+				`"${clip.title}": invalid EDU range ${clip.start_edu}-${clip.end_edu}`,
+			);
+			continue;
+		}
+
+		const duration = last.edu_end - first.edu_start;
+		if (duration < minDuration || duration > maxDuration) {
+			errors.push(
+				`"${clip.title}": ${Math.round(duration / 1000)}s is outside the target length`,
+			);
+			continue;
+		}
+
+		const overlaps = proposals.some(
+			(proposal) =>
+				clip.start_edu <= proposal.endEDU && clip.end_edu >= proposal.startEDU,
+		);
+		if (overlaps) {
+			errors.push(`"${clip.title}": overlaps another clip`);
+			continue;
+		}
+
+		proposals.push({
+			title: clip.title.trim(),
+			rationale: clip.rationale.trim(),
+			startEDU: clip.start_edu,
+			endEDU: clip.end_edu,
+			start: first.edu_start,
+			end: last.edu_end,
+		});
+	}
+
+	return {
+		proposals: proposals.sort((a, b) => a.start - b.start),
+		errors,
+	};
+}
+
+/**
+ * Propose highlight clips of a target length
+ * Retries until the model returns the requested number of valid clips and
+ * falls back to the best attempt
+ * @param client - Optional client override, e.g. a stub in tests
+ */
+export async function extractHighlights(
+	fullEDUs: FullEDU[],
+	options: Partial<HighlightOptions> = {},
+	client: LLMClient = getLLMClient(),
+): Promise<HighlightProposal[]> {
+	const resolved = { ...DEFAULT_HIGHLIGHT_OPTIONS, ...options };
+	const edus = fullEDUs.filter((edu) => edu.edu_content.trim());
+	if (edus.length === 0) {
+		throw new Error("Transcript is empty");
+	}
+
+	const duration = edus[edus.length - 1].edu_end - edus[0].edu_start;
+	if (duration < resolved.minDurationMs) {
+		throw new Error("Transcript is shorter than the target clip length");
+	}
+
+	const transcript = formatNumberedTranscript(edus);
+	const maxRetries = 3;
+	let best: HighlightProposal[] = [];
+	let lastErrors: string[] = [];
+
+	for (const retryCount of range(0, maxRetries)) {
+		const result = await client.generateObject({
+			model: getModel("summarize"),
+			messages: HIGHLIGHT_PROMPTS.EXTRACT_HIGHLIGHTS(
+				transcript,
+				resolved,
+				retryCount,
+			),
+			schema: HighlightSchema,
+		});
+
+		const { proposals, errors } = validateHighlights(result, edus, resolved);
+		if (proposals.length >= resolved.count) {
+			return proposals.slice(0, resolved.count);
+		}
+		if (proposals.length > best.length) best = proposals;
+
+		lastErrors = errors;
+		console.warn(
+			`Highlight validation failed (attempt ${retryCount + 1}/${maxRetries}): ${errors.join("; ")}`,
+		);
+	}
+
+	if (best.length > 0) return best;
+	throw new Error(
+		`Failed to extract highlights after ${maxRetries} attempts. Last errors: ${lastErrors.join("; ")}`,
+	);
+}
@@ -4,9 +4,13 @@
  */
 
 import { TranscriptSegment } from "@/features/editor/transcript/types";
-import { ModelMessage, generateObject } from "ai";
+import { timeToString } from "@/features/editor/utils/time";
+import { NoObjectGeneratedError } from "ai";
 import { range } from "lodash";
+import { LLMClient, getLLMClient } from "../client";
+import { getModel } from "../config";
 import { TEXT_PROMPTS } from "../prompts/text";
+import { groupEDUsHeuristically } from "./heuristic-grouping";
 import {
 	EDU,
 	EDUSResult,
@@ -14,44 +18,68 @@ import {
 	FullEDU,
 	GroupEDUSResult,
 	GroupEDUSchema,
-	MODELS,
 	ParagraphSplitResult,
 	ParagraphSplitSchema,
 } from "../types";
 
+/**
+ * The LLM's groupings kept failing validation
+ */
+export class EDUGroupingError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "EDUGroupingError";
+	}
+}
+
 interface LLMSegment {
 	text: string;
 	index: number;
 }
 
+/**
+ * How transcript words are grouped into EDUs
+ * - llm: LLM grouping, falling back to heuristics for slices it can't group
+ * - heuristic: heuristics only, no LLM requests
+ */
+export type EDUGroupingMode = "llm" | "heuristic";
+
+export interface GroupEDUsOptions {
+	mode?: EDUGroupingMode;
+	// Optional client override, e.g. recorded fixtures
+	client?: LLMClient;
+	// Collects non-fatal issues such as heuristic fallbacks
+	warnings?: string[];
+}
+
 /**
  * Split an article into paragraphs using LLM
  * @param article - The article text to split
- * @param model - Optional model override (defaults to gpt-4o or env variable)
+ * @param client - Client the request goes through
  * @returns Array of paragraphs
  */
 async function splitParagraphs(
 	article: string,
+	client: LLMClient,
 	retryCount = 0,
 ): Promise<ParagraphSplitResult> {
 	const messages = TEXT_PROMPTS.PARAGRAPH_SPLIT(article);
 
-	const result = await generateObject({
-		model: MODELS.split,
+	return client.generateObject({
+		model: getModel("split"),
 		messages,
 		schema: ParagraphSplitSchema,
 	});
-
-	return result.object;
 }
 
 async function splitParagraphsWithRetry(
 	article: string,
+	client: LLMClient,
 ): Promise<ParagraphSplitResult> {
 	const maxRetries = 2;
 	for (const retryCount of range(0, maxRetries)) {
 		console.log("Attempting to split paragraphs with retry:", retryCount);
-		const paragraphs = await splitParagraphs(article, retryCount);
+		const paragraphs = await splitParagraphs(article, client, retryCount);
 		console.log("Paragraphs generated:", paragraphs);
 		const postProcessedArticle = paragraphs.paragraphs.join("");
 		if (postProcessedArticle === article) {
@@ -64,12 +92,13 @@ async function splitParagraphsWithRetry(
 
 async function splitParagraphsIntoEDUs(
 	paragraph: string,
+	client: LLMClient,
 	retryCount = 0,
 ): Promise<EDUSResult> {
 	const messages = TEXT_PROMPTS.EDU_CREATION(paragraph);
 
-	const result = await generateObject({
-		model: MODELS.text,
+	return client.generateObject({
+		model: getModel("group"),
 		messages,
 		schema: EDUSchema,
 		providerOptions: {
@@ -79,19 +108,18 @@ async function splitParagraphsIntoEDUs(
 			},
 		},
 	});
-
-	return result.object;
 }
 
 async function splitParagraphsIntoEDUsWithRetry(
 	paragraph: string,
 	segments: TranscriptSegment[],
+	client: LLMClient,
 ): Promise<EDUSResult> {
 	const maxRetries = 3; // TODO: make the max retries configurable
 	let lastValidationError = "";
 
 	for (const retryCount of range(0, maxRetries)) {
-		const edus = await splitParagraphsIntoEDUs(paragraph, retryCount);
+		const edus = await splitParagraphsIntoEDUs(paragraph, client, retryCount);
 		console.log("EDUs generated:", edus);
 		const validationResult = validateEDUs(edus, paragraph, segments);
 
@@ -250,17 +278,26 @@ function validateEDUs(
 	};
 }
 
+/**
+ * Split an article into paragraphs and then into EDUs
+ * @param client - Optional client override, e.g. recorded fixtures
+ */
 export async function processArticle(
 	article: string,
 	segments: TranscriptSegment[],
+	client: LLMClient = getLLMClient(),
 ): Promise<EDUSResult> {
-	const paragraphs = await splitParagraphsWithRetry(article);
+	const paragraphs = await splitParagraphsWithRetry(article, client);
 	const finalEDUs: EDU[] = [];
 	let currentIndex = 0;
 
 	for (const paragraph of paragraphs.paragraphs) {
 		// TODO: add try catch here
-		const edus = await splitParagraphsIntoEDUsWithRetry(paragraph, segments);
+		const edus = await splitParagraphsIntoEDUsWithRetry(
+			paragraph,
+			segments,
+			client,
+		);
 		for (const edu of edus.edus) {
 			edu.index = currentIndex;
 			currentIndex++;
@@ -272,25 +309,29 @@ export async function processArticle(
 
 async function groupEDUsSlice(
 	segments: TranscriptSegment[],
+	client: LLMClient,
 ): Promise<{ unprocessedWords: TranscriptSegment[]; fullEDUs: FullEDU[] }> {
 	const processedSegments = prepareSegmentsForGrouping(segments);
-	const edus = await groupEDUsSliceWithRetry(processedSegments);
+	const edus = await groupEDUsSliceWithRetry(processedSegments, client);
 	const { fullEDUs, unprocessedWords } = createFullEDUs(edus, segments);
 	return { unprocessedWords: unprocessedWords, fullEDUs: fullEDUs };
 }
 
 async function groupEDUsSliceWithRetry(
 	segments: LLMSegment[],
+	client: LLMClient,
 ): Promise<GroupEDUSResult> {
 	const maxRetries = 3;
 	for (const retryCount of range(0, maxRetries)) {
-		const edus = await groupEDUsByLLM(segments);
+		const edus = await groupEDUsByLLM(segments, client);
 		const isValid = validateGroupEDUs(edus, segments);
 		if (isValid) {
 			return edus;
 		}
 	}
-	throw new Error("Failed to group EDUs after 3 attempts");
+	throw new EDUGroupingError(
+		`Failed to group EDUs after ${maxRetries} attempts`,
+	);
 }
 
 function createFullEDUs(
@@ -426,16 +467,49 @@ function findNearestWordBoundary(
 	return leftDiff <= rightDiff ? wordBoundaries[left] : wordBoundaries[right];
 }
 
+/**
+ * Group transcript words into EDUs
+ * A slice whose LLM groupings keep failing validation is grouped
+ * heuristically and noted in `warnings`. Other errors, such as a missing
+ * model configuration or fixture, are thrown
+ */
 export async function groupEDUs(
 	segments: TranscriptSegment[],
+	{
+		mode = "llm",
+		client = getLLMClient(),
+		warnings = [],
+	}: GroupEDUsOptions = {},
 ): Promise<FullEDU[]> {
+	if (mode === "heuristic") {
+		return recoverEDUs(groupEDUsHeuristically(segments), segments);
+	}
+
 	let wordOnlySegments = segments.filter((segment) => segment.type === "word");
 	const sliceWindow = 500;
 	const finalEDUs: FullEDU[] = [];
 	while (wordOnlySegments.length > 0) {
+		const slice = wordOnlySegments.slice(0, sliceWindow);
 		const { fullEDUs, unprocessedWords } = await groupEDUsSlice(
-			wordOnlySegments.slice(0, sliceWindow),
-		);
+			slice,
+			client,
+		).catch((error) => {
+			// Configuration, network and fixture errors are not the slice's fault
+			if (
+				!(error instanceof EDUGroupingError) &&
+				!NoObjectGeneratedError.isInstance(error)
+			) {
+				throw error;
+			}
+			console.error("LLM EDU grouping failed, using heuristics:", error);
+			warnings.push(
+				`EDUs from ${timeToString({ time: slice[0].start })} to ${timeToString({ time: slice[slice.length - 1].end })} were grouped heuristically: ${error instanceof Error ? error.message : String(error)}`,
+			);
+			return {
+				fullEDUs: groupEDUsHeuristically(slice),
+				unprocessedWords: [] as TranscriptSegment[],
+			};
+		});
 
 		console.log(
 			"Full EDUs:",
@@ -572,17 +646,16 @@ function prepareSegmentsForGrouping(
 
 async function groupEDUsByLLM(
 	segments: LLMSegment[],
+	client: LLMClient,
 ): Promise<GroupEDUSResult> {
 	const paragraph = segments.map((segment) => segment.text).join("");
 	console.log("Paragraph:", paragraph);
 	const messages = TEXT_PROMPTS.GROUP_EDUS(paragraph);
-	const result = await generateObject({
-		model: MODELS.text,
+	return client.generateObject({
+		model: getModel("group"),
 		messages,
 		schema: GroupEDUSchema,
 	});
-
-	return result.object;
 }
 
 function validateGroupEDUs(
@@ -0,0 +1,162 @@
+/**
+ * Translation Operations
+ * Translate a transcript while keeping its EDU boundaries and timings
+ */
+
+import { TranscriptSegment } from "@/features/editor/transcript/types";
+import { chunk, range } from "lodash";
+import { LLMClient, getLLMClient } from "../client";
+import { getModel } from "../config";
+import { TRANSLATION_PROMPTS } from "../prompts/translation";
+import {
+	FullEDU,
+	TranslationLanguage,
+	TranslationResult,
+	TranslationSchema,
+} from "../types";
+
+// EDUs per request, small enough for the model to keep the numbering
+const BATCH_SIZE = 60;
+
+// Languages written without spaces get one timed segment per character
+const NO_SPACE_LANGUAGES = ["zh", "ja", "th"];
+
+function validateTranslation(
+	result: TranslationResult,
+	edus: FullEDU[],
+): boolean {
+	const texts = new Map(result.edus.map((edu) => [edu.edu_index, edu.text]));
+	if (texts.size !== result.edus.length || texts.size !== edus.length) {
+		console.error(
+			`Translation has ${result.edus.length} EDUs, expected ${edus.length}`,
+		);
+		return false;
+	}
+	const missing = edus.filter((edu) => !texts.get(edu.edu_index)?.trim());
+	if (missing.length > 0) {
+		console.error(
+			"Translation misses EDUs:",
+			missing.map((edu) => edu.edu_index),
+		);
+		return false;
+	}
+	return true;
+}
+
+async function translateBatchWithRetry(
+	edus: FullEDU[],
+	language: TranslationLanguage,
+	client: LLMClient,
+): Promise<Map<number, string>> {
+	const input = edus.map((edu) => ({
+		edu_index: edu.edu_index,
+		text: edu.edu_content.trim(),
+	}));
+	const maxRetries = 3;
+	for (const retryCount of range(0, maxRetries)) {
+		const result = await client.generateObject({
+			model: getModel("translate"),
+			messages: TRANSLATION_PROMPTS.TRANSLATE_EDUS(
+				input,
+				language.name,
+				retryCount,
+			),
+			schema: TranslationSchema,
+		});
+		if (validateTranslation(result, edus)) {
+			return new Map(
+				result.edus.map((edu) => [edu.edu_index, edu.text.trim()]),
+			);
+		}
+	}
+	throw new Error("Failed to translate EDUs after 3 attempts");
+}
+
+/**
+ * Spread translated text over the time its EDU was spoken
+ * Word timings are unknown after translation, so each token gets a share of
+ * the span proportional to its length
+ */
+function createTranslatedWords(
+	edu: FullEDU,
+	text: string,
+	language: TranslationLanguage,
+): TranscriptSegment[] {
+	const spoken = (edu.words as TranscriptSegment[]).filter(
+		(word) => word.type !== "spacing",
+	);
+	const start = spoken[0]?.start ?? edu.edu_start;
+	const end = spoken[spoken.length - 1]?.end ?? edu.edu_end;
+	const speakerId = spoken[0]?.speaker_id ?? null;
+
+	const tokens = NO_SPACE_LANGUAGES.includes(language.code)
+		? Array.from(text.replace(/\s+/g, ""))
+		: text.split(/\s+/).filter(Boolean);
+	const totalLength = tokens.reduce((total, token) => total + token.length, 0);
+
+	const words: TranscriptSegment[] = [];
+	let cursor = start;
+	tokens.forEach((token, index) => {
+		const wordEnd =
+			index === tokens.length - 1
+				? end
+				: Math.round(cursor + ((end - start) * token.length) / totalLength);
+		const id = `${language.code}-${edu.edu_index}-${index}`;
+
+		if (index > 0 && !NO_SPACE_LANGUAGES.includes(language.code)) {
+			words.push({
+				id: `${id}-space`,
+				text: " ",
+				type: "spacing",
+				start: cursor,
+				end: cursor,
+				speaker_id: speakerId,
+				logprob: 0,
+				characters: null,
+			});
+		}
+		words.push({
+			id,
+			text: token,
+			type: "word",
+			start: cursor,
+			end: wordEnd,
+			speaker_id: speakerId,
+			logprob: 0,
+			characters: null,
+		});
+		cursor = wordEnd;
+	});
+
+	return words;
+}
+
+/**
+ * Translate EDUs into another language
+ * Every EDU keeps its index, start and end; EDUs without speech are kept
+ * as they are
+ * @param client - Optional client override, e.g. a stub in tests
+ */
+export async function translateEDUs(
+	fullEDUs: FullEDU[],
+	language: TranslationLanguage,
+	client: LLMClient = getLLMClient(),
+): Promise<FullEDU[]> {
+	const spoken = fullEDUs.filter((edu) => edu.edu_content.trim());
+	const translations = new Map<number, string>();
+
+	for (const batch of chunk(spoken, BATCH_SIZE)) {
+		const texts = await translateBatchWithRetry(batch, language, client);
+		for (const [index, text] of texts) translations.set(index, text);
+	}
+
+	return fullEDUs.map((edu) => {
+		const text = translations.get(edu.edu_index);
+		if (text === undefined) return edu;
+		return {
+			...edu,
+			edu_content: text,
+			words: createTranslatedWords(edu, text, language),
+		};
+	});
+}
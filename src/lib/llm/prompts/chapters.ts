@@ -0,0 +1,65 @@
+/**
+ * Chapter Prompts
+ * Prompt templates for splitting a transcript into titled chapters
+ */
+
+import type { ModelMessage } from "../types";
+
+/**
+ * Build messages for chapter segmentation
+ * @param transcript - One numbered EDU per line: `[index] (start-end s) text`
+ * @param minChapterSeconds - Shortest chapter allowed
+ */
+export function buildChapterMessages(
+	transcript: string,
+	minChapterSeconds: number,
+	retryCount = 0,
+): ModelMessage[] {
+	return [
+		{
+			role: "user",
+			content: [
+				{
+					type: "text",
+					text: `You are an experienced video editor. Your task is to split a video into chapters, like the chapters shown on YouTube, and give each chapter a title.
+
+Here is the transcript, split into numbered Elementary Discourse Units (EDUs) with their start and end time in seconds:
+
+<transcript>
+${transcript}
+</transcript>
+
+Follow these guidelines to complete the task:
+
+1. Boundaries: Start a new chapter where the topic changes. Each chapter is given by the EDU it starts with (start_edu) and runs until the next chapter starts.
+2. First chapter: The first chapter must start with the first EDU of the transcript.
+3. Order: Chapters must be listed in the order of the transcript, with increasing start_edu.
+4. Length: Each chapter must last at least ${minChapterSeconds} seconds. Prefer fewer, meaningful chapters over many short ones; a typical chapter lasts a few minutes.
+5. Title: Give each chapter a short, descriptive title (max 6 words) in the language of the transcript. Do not number the titles.
+6. Use only the EDU numbers shown in the transcript.
+
+Output format:
+
+{{
+"chapters": [
+{{
+  "title": "...",
+  "start_edu": 0
+}}
+]
+}}
+${
+	retryCount > 0
+		? `
+Your previous answer did not respect the rules above. Check the order, length and EDU numbers of every chapter before answering.`
+		: ""
+}`,
+				},
+			],
+		},
+	];
+}
+
+export const CHAPTER_PROMPTS = {
+	SEGMENT_CHAPTERS: buildChapterMessages,
+} as const;
@@ -0,0 +1,71 @@
+/**
+ * Highlight Prompts
+ * Prompt templates for picking short clips out of a transcript
+ */
+
+import type { HighlightOptions, ModelMessage } from "../types";
+
+/**
+ * Build messages for highlight extraction
+ * @param transcript - One numbered EDU per line: `[index] (start-end s) text`
+ */
+export function buildHighlightMessages(
+	transcript: string,
+	{ count, minDurationMs, maxDurationMs }: HighlightOptions,
+	retryCount = 0,
+): ModelMessage[] {
+	const minSeconds = Math.round(minDurationMs / 1000);
+	const maxSeconds = Math.round(maxDurationMs / 1000);
+
+	return [
+		{
+			role: "user",
+			content: [
+				{
+					type: "text",
+					text: `You are an experienced short-form video editor. Your task is to find the best moments of a long recording that work as standalone vertical shorts (TikTok, YouTube Shorts, Reels).
+
+Here is the transcript, split into numbered Elementary Discourse Units (EDUs) with their start and end time in seconds:
+
+<transcript>
+${transcript}
+</transcript>
+
+Follow these guidelines to complete the task:
+
+1. Selection: Propose exactly ${count} clips. Each clip is a continuous run of EDUs, from start_edu to end_edu (both inclusive).
+2. Length: Each clip must last between ${minSeconds} and ${maxSeconds} seconds, measured from the start of start_edu to the end of end_edu.
+3. Self-contained: A viewer who has not seen the rest of the recording must understand the clip. Start at the beginning of a thought and end when it is complete. Do not start with a reference to something said earlier ("as I said", "that", "so") unless it is clear on its own.
+4. Hook: Prefer clips whose first sentence grabs attention — a strong claim, a surprising fact, a question or an emotional moment.
+5. No overlap: Clips must not share any EDU.
+6. Title: Give each clip a short, catchy title (max 8 words) in the language of the transcript.
+7. Rationale: Explain in one or two sentences why the clip works as a short.
+8. Use only the EDU numbers shown in the transcript.
+
+Output format:
+
+{{
+"clips": [
+{{
+  "title": "...",
+  "rationale": "...",
+  "start_edu": 12,
+  "end_edu": 18
+}}
+]
+}}
+${
+	retryCount > 0
+		? `
+Your previous answer did not respect the rules above. Check every clip's length and EDU numbers before answering.`
+		: ""
+}`,
+				},
+			],
+		},
+	];
+}
+
+export const HIGHLIGHT_PROMPTS = {
+	EXTRACT_HIGHLIGHTS: buildHighlightMessages,
+} as const;
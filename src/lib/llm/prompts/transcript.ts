@@ -0,0 +1,20 @@
+/**
+ * Transcript formatting shared by prompts that refer to EDUs by number
+ */
+
+import type { FullEDU } from "../types";
+
+/**
+ * One line per spoken EDU: `[edu_index] (start-end) text`, times in seconds
+ */
+export function formatNumberedTranscript(edus: FullEDU[]): string {
+	return edus
+		.filter((edu) => edu.edu_content.trim())
+		.map(
+			(edu) =>
+				`[${edu.edu_index}] (${(edu.edu_start / 1000).toFixed(1)}-${(
+					edu.edu_end / 1000
+				).toFixed(1)}) ${edu.edu_content.trim()}`,
+		)
+		.join("\n");
+}
@@ -0,0 +1,65 @@
+/**
+ * Translation Prompts
+ * Prompt templates for translating a transcript EDU by EDU
+ */
+
+import type { ModelMessage } from "../types";
+
+/**
+ * Build messages for EDU translation
+ * @param edus - EDUs to translate, as `{ edu_index, text }` pairs
+ * @param language - Name of the target language
+ */
+export function buildTranslationMessages(
+	edus: { edu_index: number; text: string }[],
+	language: string,
+	retryCount = 0,
+): ModelMessage[] {
+	return [
+		{
+			role: "user",
+			content: [
+				{
+					type: "text",
+					text: `You are a professional subtitle translator. Your task is to translate the following transcript into ${language}.
+
+The transcript is split into numbered Elementary Discourse Units (EDUs). Each EDU is shown on screen as subtitles while it is spoken, so every EDU must be translated on its own:
+
+<edus>
+${JSON.stringify(edus, null, 2)}
+</edus>
+
+Follow these guidelines to complete the task:
+
+1. One to one: Return exactly one translation for every EDU, with the same edu_index. Never merge, split, skip or reorder EDUs.
+2. Meaning: Translate the meaning naturally, as a native ${language} speaker would say it. Keep the tone and register of the speaker.
+3. Length: Keep each translation about as long as the original so it fits the time the EDU is on screen.
+4. Context: EDUs may end mid-sentence. Translate them so that consecutive EDUs read as one sentence, moving words between neighbouring EDUs only when the grammar of ${language} requires it.
+5. Names: Keep names, brands and technical terms that are not normally translated.
+6. Output only the translation text, without notes or quotes.
+
+Output format:
+
+{{
+"edus": [
+{{
+  "edu_index": 0,
+  "text": "..."
+}}
+]
+}}
+${
+	retryCount > 0
+		? `
+Your previous answer did not contain exactly one translation for every EDU. Check every edu_index before answering.`
+		: ""
+}`,
+				},
+			],
+		},
+	];
+}
+
+export const TRANSLATION_PROMPTS = {
+	TRANSLATE_EDUS: buildTranslationMessages,
+} as const;
@@ -3,8 +3,6 @@
  * Type definitions and schemas for LLM operations
  */
 
-import { google } from "@ai-sdk/google";
-import { openai } from "@ai-sdk/openai";
 import { z } from "zod";
 /**
  * Schema for paragraph splitting operation
@@ -49,15 +47,87 @@ export const FullEDU = z.object({
 });
 
 export type FullEDU = z.infer<typeof FullEDU>;
+
+/**
+ * Schema for highlight extraction
+ * EDU indexes are inclusive and refer to the numbered transcript
+ */
+export const HighlightClip = z.object({
+	title: z.string(),
+	rationale: z.string(),
+	start_edu: z.number(),
+	end_edu: z.number(),
+});
+
+export type HighlightClip = z.infer<typeof HighlightClip>;
+
+export const HighlightSchema = z.object({
+	clips: z.array(HighlightClip),
+});
+
+export type HighlightResult = z.infer<typeof HighlightSchema>;
+
+export interface HighlightOptions {
+	count: number;
+	minDurationMs: number;
+	maxDurationMs: number;
+}
+
+/**
+ * A validated highlight, in source-media time
+ */
+export interface HighlightProposal {
+	title: string;
+	rationale: string;
+	startEDU: number; // edu_index, inclusive
+	endEDU: number; // edu_index, inclusive
+	start: number;
+	end: number;
+}
+
+/**
+ * Schema for chapter segmentation
+ * Each chapter runs from its start EDU to the next chapter's
+ */
+export const ChapterSchema = z.object({
+	chapters: z.array(
+		z.object({
+			title: z.string(),
+			start_edu: z.number(),
+		}),
+	),
+});
+
+export type ChapterResult = z.infer<typeof ChapterSchema>;
+
 /**
- * Common model configurations
- * These can be overridden per operation
+ * A validated chapter, in the time of the EDUs it was made from
  */
-export const MODELS = {
-	split: google("gemini-2.5-pro"),
-	text: openai("gpt-5-mini"),
-	fast: openai("o3-mini"),
-} as const;
+export interface ChapterProposal {
+	title: string;
+	startEDU: number; // edu_index
+	start: number;
+}
+
+/**
+ * Schema for transcript translation
+ * One translated text per EDU, keyed by the EDU number it translates
+ */
+export const TranslationSchema = z.object({
+	edus: z.array(
+		z.object({
+			edu_index: z.number(),
+			text: z.string(),
+		}),
+	),
+});
+
+export type TranslationResult = z.infer<typeof TranslationSchema>;
+
+export interface TranslationLanguage {
+	code: string;
+	name: string;
+}
 
 /**
  * Model message type from AI SDK
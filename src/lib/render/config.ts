@@ -0,0 +1,31 @@
+/**
+ * Render Configuration
+ * Chooses between the remote render API and rendering on this server
+ */
+
+export type RenderBackend = "remote" | "local";
+
+export const renderConfig = {
+	// "local" renders with @remotion/renderer instead of the remote API
+	backend: (process.env.RENDER_BACKEND === "local"
+		? "local"
+		: "remote") as RenderBackend,
+
+	// Remote render API
+	remoteUrl: process.env.RENDER_API_URL || "https://api.combo.sh/v1/render",
+	remoteToken: process.env.COMBO_SH_JWT,
+
+	// Output of `npm run render:bundle`, or a URL of a hosted bundle
+	serveUrl: process.env.RENDER_SERVE_URL || ".cache/remotion-bundle",
+
+	// Rendered files, served back through /api/render/[id]/file
+	outputDirectory: process.env.RENDER_OUTPUT_DIR || ".cache/renders",
+
+	// Jobs rendered at the same time; each one already uses several cores
+	maxConcurrentJobs: Number.parseInt(process.env.MAX_RENDER_JOBS || "1", 10),
+
+	// Browser tabs per job, defaults to half the cores
+	concurrency: process.env.RENDER_CONCURRENCY
+		? Number.parseInt(process.env.RENDER_CONCURRENCY, 10)
+		: null,
+};
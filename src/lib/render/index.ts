@@ -0,0 +1,9 @@
+/**
+ * Render Service
+ * Server-only video rendering, remote or on this server
+ */
+
+export { renderConfig } from "./config";
+export type { RenderBackend } from "./config";
+export { getRenderJobSettings, toRenderStatus } from "./jobs";
+export type { RenderStatus } from "./jobs";
@@ -0,0 +1,188 @@
+/**
+ * Render Job Runner
+ * Renders pending RenderJob rows on this server. Job state lives in the
+ * database, so queued and interrupted renders resume after a restart.
+ */
+
+import { rm } from "node:fs/promises";
+import type { IDesign } from "@designcombo/types";
+import { CancelSignal, makeCancelSignal } from "@remotion/renderer";
+import {
+	claimRenderJob,
+	completeRenderJob,
+	getPendingRenderJobs,
+	getRenderJobById,
+	requeueStaleRenderJobs,
+	updateRenderJob,
+	updateRenderJobProgress,
+} from "@/db/queries/renders";
+import type { RenderJob } from "@/db/schema";
+import { getRenderJobSettings } from "./jobs";
+import { renderConfig } from "./config";
+import { getRenderOutputPath, renderDesign } from "./renderer";
+
+// How often the queue is checked for due jobs
+const POLL_INTERVAL_MS = 5000;
+
+// Skip progress writes smaller than this many percent
+const PROGRESS_STEP = 2;
+
+// "rendering" jobs started longer ago than this were cut off
+const STALE_JOB_MS = 60 * 60 * 1000;
+
+/**
+ * Polls the RenderJob table and renders due jobs with bounded concurrency
+ */
+export class RenderJobRunner {
+	private activeJobs = new Map<string, () => void>();
+	private started: Promise<void> | null = null;
+	private polling = false;
+
+	/**
+	 * Start polling, requeueing renders interrupted by a previous shutdown
+	 */
+	start(): Promise<void> {
+		if (!this.started) {
+			this.started = this.initialize();
+		}
+		return this.started;
+	}
+
+	/**
+	 * Check the queue now instead of waiting for the next interval
+	 */
+	async wake(): Promise<void> {
+		await this.start();
+		await this.poll();
+	}
+
+	/**
+	 * Stop a job rendering in this process
+	 * The job row is cancelled by the caller; this only stops the renderer
+	 */
+	cancel(jobId: string): boolean {
+		const cancel = this.activeJobs.get(jobId);
+		cancel?.();
+		return !!cancel;
+	}
+
+	private async initialize() {
+		try {
+			// Old "rendering" rows were cut off, recent ones may render elsewhere
+			const requeued = await requeueStaleRenderJobs(
+				new Date(Date.now() - STALE_JOB_MS),
+			);
+			if (requeued.length > 0) {
+				console.log(`Requeued ${requeued.length} interrupted renders`);
+			}
+		} catch (error) {
+			console.error("Failed to requeue interrupted renders:", error);
+		}
+
+		const timer = setInterval(() => void this.poll(), POLL_INTERVAL_MS);
+		timer.unref?.();
+	}
+
+	private async poll() {
+		if (this.polling) return;
+		this.polling = true;
+
+		try {
+			const capacity = renderConfig.maxConcurrentJobs - this.activeJobs.size;
+			if (capacity <= 0) return;
+
+			const pending = await getPendingRenderJobs(capacity);
+			for (const { id } of pending) {
+				const job = await claimRenderJob(id);
+				if (!job) continue; // Claimed or cancelled meanwhile
+
+				const { cancelSignal, cancel } = makeCancelSignal();
+				this.activeJobs.set(job.id, cancel);
+				void this.run(job, cancelSignal, cancel).finally(() => {
+					this.activeJobs.delete(job.id);
+				});
+			}
+		} catch (error) {
+			console.error("Failed to poll render queue:", error);
+		} finally {
+			this.polling = false;
+		}
+	}
+
+	private async run(
+		job: RenderJob,
+		cancelSignal: CancelSignal,
+		cancel: () => void,
+	) {
+		const settings = getRenderJobSettings(job);
+		const outputPath = getRenderOutputPath(job.id, settings.format);
+		let reportedProgress = 0;
+
+		const onProgress = (progress: number) => {
+			if (progress < 100 && progress - reportedProgress < PROGRESS_STEP) return;
+			reportedProgress = progress;
+			updateRenderJobProgress(job.id, progress)
+				.then((updated) => {
+					// Cancelled from another process, which can't stop this render
+					if (!updated) cancel();
+				})
+				.catch((error) =>
+					console.error("Failed to record render progress:", error),
+				);
+		};
+
+		try {
+			console.log(`Rendering job ${job.id} as ${settings.format}`);
+
+			const outputSize = await renderDesign(job.design as IDesign, settings, {
+				outputPath,
+				onProgress,
+				cancelSignal,
+			});
+
+			const completed = await completeRenderJob(job.id, {
+				outputPath,
+				outputSize,
+			});
+			if (!completed) {
+				// Cancelled after the render finished
+				await rm(outputPath, { force: true });
+				console.log(`Render job ${job.id} cancelled`);
+			}
+		} catch (error) {
+			await rm(outputPath, { force: true }).catch(() => {});
+
+			// A cancelled job was already marked by the request that cancelled it
+			const current = await getRenderJobById(job.id).catch(() => undefined);
+			if (current?.status === "cancelled") {
+				console.log(`Render job ${job.id} cancelled`);
+				return;
+			}
+
+			console.error(`Render job ${job.id} failed:`, error);
+			await updateRenderJob(job.id, {
+				status: "failed",
+				errorMessage:
+					error instanceof Error ? error.message : "Rendering failed",
+				completedAt: new Date(),
+			}).catch((updateError) =>
+				console.error("Failed to record render failure:", updateError),
+			);
+		}
+	}
+}
+
+/**
+ * Singleton instance
+ */
+let runnerInstance: RenderJobRunner | null = null;
+
+/**
+ * Get or create the job runner
+ */
+export function getRenderJobRunner(): RenderJobRunner {
+	if (!runnerInstance) {
+		runnerInstance = new RenderJobRunner();
+	}
+	return runnerInstance;
+}
@@ -0,0 +1,47 @@
+/**
+ * Render jobs as seen by the client and the renderer
+ */
+
+import type { RenderJob } from "@/db/schema";
+import {
+	DEFAULT_EXPORT_SETTINGS,
+	ExportFormat,
+	ExportSettings,
+} from "@/features/editor/utils/export-settings";
+
+/**
+ * Job status in the shape of the remote render API, which the export
+ * progress modal polls
+ */
+export interface RenderStatus {
+	id: string;
+	status: "PENDING" | "COMPLETED" | "FAILED" | "CANCELLED";
+	progress: number;
+	url?: string;
+	error?: string;
+}
+
+const STATUS: Record<string, RenderStatus["status"]> = {
+	pending: "PENDING",
+	rendering: "PENDING",
+	completed: "COMPLETED",
+	failed: "FAILED",
+	cancelled: "CANCELLED",
+};
+
+export const toRenderStatus = (job: RenderJob): RenderStatus => ({
+	id: job.id,
+	status: STATUS[job.status] || "PENDING",
+	progress: job.progress,
+	url: job.status === "completed" ? `/api/render/${job.id}/file` : undefined,
+	error: job.errorMessage || undefined,
+});
+
+/**
+ * Export settings of a job, filling settings added after it was queued
+ */
+export const getRenderJobSettings = (job: RenderJob): ExportSettings => ({
+	...DEFAULT_EXPORT_SETTINGS,
+	...job.options,
+	format: job.format as ExportFormat,
+});
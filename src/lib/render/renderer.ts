@@ -0,0 +1,180 @@
+/**
+ * Local Renderer
+ * Renders a design to a video, audio or image file with @remotion/renderer
+ */
+
+import { execFile } from "node:child_process";
+import { existsSync } from "node:fs";
+import { mkdir, mkdtemp, rm, stat } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { promisify } from "node:util";
+import {
+	EXPORT_FORMATS,
+	ExportFormat,
+	ExportSettings,
+	VIDEO_CODECS,
+	getExportSize,
+} from "@/features/editor/utils/export-settings";
+import {
+	DESIGN_COMPOSITION_ID,
+	DesignCompositionProps,
+} from "@/remotion/constants";
+import type { IDesign } from "@designcombo/types";
+import {
+	CancelSignal,
+	Codec,
+	renderFrames,
+	renderMedia,
+	renderStill,
+	selectComposition,
+} from "@remotion/renderer";
+import { renderConfig } from "./config";
+
+const execFileAsync = promisify(execFile);
+
+export interface RenderDesignOptions {
+	outputPath: string;
+	// Called with progress (0-100) as frames are rendered and encoded
+	onProgress?: (progress: number) => void;
+	cancelSignal?: CancelSignal;
+}
+
+/**
+ * Where a job's output is written
+ */
+export const getRenderOutputPath = (jobId: string, format: ExportFormat) =>
+	path.resolve(
+		renderConfig.outputDirectory,
+		`${jobId}.${EXPORT_FORMATS[format].extension}`,
+	);
+
+const getServeUrl = () => {
+	const { serveUrl } = renderConfig;
+	if (/^https?:\/\//.test(serveUrl)) return serveUrl;
+
+	const bundlePath = path.resolve(serveUrl);
+	if (!existsSync(bundlePath)) {
+		throw new Error(
+			`Remotion bundle not found at ${bundlePath}. Run "npm run render:bundle" first.`,
+		);
+	}
+	return bundlePath;
+};
+
+/**
+ * Remotion codec of a video or audio export
+ */
+const getCodec = ({ format, codec }: ExportSettings): Codec => {
+	switch (format) {
+		case "gif":
+		case "mp3":
+		case "wav":
+			return format;
+		default:
+			return codec;
+	}
+};
+
+/**
+ * Render a design, returning the size of the written file in bytes
+ * PNG sequences are written as a tar archive of numbered frames
+ * Only the frames inside the settings' range are rendered when it has one
+ */
+export async function renderDesign(
+	design: IDesign,
+	settings: ExportSettings,
+	{ outputPath, onProgress, cancelSignal }: RenderDesignOptions,
+): Promise<number> {
+	const serveUrl = getServeUrl();
+	// Item timings are in ms, so the frame rate can change freely
+	const inputProps: DesignCompositionProps = {
+		design: { ...design, fps: settings.fps },
+	};
+	const { scale } = getExportSize(design.size, settings.resolution);
+	const { kind } = EXPORT_FORMATS[settings.format];
+
+	const composition = await selectComposition({
+		serveUrl,
+		id: DESIGN_COMPOSITION_ID,
+		inputProps,
+	});
+
+	const fpsPerMs = settings.fps / 1000;
+	const lastFrame = composition.durationInFrames - 1;
+	// Frames are rendered up to, not including, the range end
+	const frameRange: [number, number] | null = settings.range
+		? [
+				Math.min(lastFrame, Math.round(settings.range.start * fpsPerMs)),
+				Math.min(
+					lastFrame,
+					Math.max(
+						Math.round(settings.range.start * fpsPerMs),
+						Math.round(settings.range.end * fpsPerMs) - 1,
+					),
+				),
+			]
+		: null;
+	const frameCount = frameRange
+		? frameRange[1] - frameRange[0] + 1
+		: composition.durationInFrames;
+
+	await mkdir(path.dirname(outputPath), { recursive: true });
+
+	if (settings.format === "png") {
+		await renderStill({
+			composition,
+			serveUrl,
+			inputProps,
+			output: outputPath,
+			frame: Math.min(lastFrame, Math.round(settings.stillTime * fpsPerMs)),
+			imageFormat: "png",
+			scale,
+			cancelSignal,
+		});
+	} else if (settings.format === "png-sequence") {
+		const framesDir = await mkdtemp(path.join(os.tmpdir(), "render-frames-"));
+		try {
+			await renderFrames({
+				composition,
+				serveUrl,
+				inputProps,
+				outputDir: framesDir,
+				imageFormat: "png",
+				scale,
+				frameRange,
+				concurrency: renderConfig.concurrency,
+				cancelSignal,
+				onStart: () => {},
+				onFrameUpdate: (framesRendered) =>
+					onProgress?.(Math.round((framesRendered / frameCount) * 100)),
+			});
+			await execFileAsync("tar", ["-cf", outputPath, "-C", framesDir, "."]);
+		} finally {
+			await rm(framesDir, { recursive: true, force: true });
+		}
+	} else {
+		const codec = getCodec(settings);
+		const usesCrf = kind === "video" && !!VIDEO_CODECS[settings.codec]?.crf;
+		await renderMedia({
+			composition,
+			serveUrl,
+			codec,
+			outputLocation: outputPath,
+			inputProps,
+			scale,
+			crf: usesCrf ? settings.crf : null,
+			proResProfile: codec === "prores" ? "hq" : undefined,
+			audioBitrate:
+				settings.format === "gif" || settings.format === "wav"
+					? null
+					: settings.audioBitrate,
+			frameRange,
+			concurrency: renderConfig.concurrency,
+			cancelSignal,
+			onProgress: ({ progress }) => onProgress?.(Math.round(progress * 100)),
+		});
+	}
+
+	return (await stat(outputPath)).size;
+}
@@ -0,0 +1,131 @@
+/**
+ * Transcription result cache
+ * Stores provider responses on disk keyed by a hash of the media content
+ * and everything that changes the result, so re-uploads and duplicated
+ * projects don't bill the provider again
+ */
+
+import { createHash } from "node:crypto";
+import {
+	mkdir,
+	readFile,
+	readdir,
+	rm,
+	stat,
+	writeFile,
+} from "node:fs/promises";
+import path from "node:path";
+import { TranscriptionOptions, TranscriptionResponse } from "./types";
+
+interface CacheEntry {
+	createdAt: number;
+	response: TranscriptionResponse;
+}
+
+export interface TranscriptionCacheOptions {
+	directory: string;
+	ttlSeconds: number;
+}
+
+// Sort object keys so equal options always serialize the same way
+const stableStringify = (value: unknown): string => {
+	if (Array.isArray(value)) {
+		return `[${value.map(stableStringify).join(",")}]`;
+	}
+	if (value && typeof value === "object") {
+		const entries = Object.entries(value)
+			.filter(([, entryValue]) => entryValue !== undefined)
+			.sort(([a], [b]) => a.localeCompare(b));
+		return `{${entries
+			.map(
+				([key, entryValue]) =>
+					`${JSON.stringify(key)}:${stableStringify(entryValue)}`,
+			)
+			.join(",")}}`;
+	}
+	return JSON.stringify(value);
+};
+
+/**
+ * Build the cache key for a media file transcribed with `options`
+ */
+export async function getTranscriptionCacheKey(
+	media: Blob,
+	provider: string,
+	options: TranscriptionOptions,
+): Promise<string> {
+	const contentHash = createHash("sha256")
+		.update(Buffer.from(await media.arrayBuffer()))
+		.digest("hex");
+
+	return createHash("sha256")
+		.update(
+			stableStringify({
+				contentHash,
+				provider,
+				language: options.language,
+				diarize: options.diarize,
+				wordTimestamps: options.wordTimestamps,
+				modelId: options.modelId,
+				providerOptions: options.providerOptions,
+			}),
+		)
+		.digest("hex");
+}
+
+/**
+ * Filesystem cache with TTL eviction
+ * Expired entries are removed when read and swept on every write
+ */
+export class TranscriptionCache {
+	constructor(private options: TranscriptionCacheOptions) {}
+
+	private getEntryPath(key: string): string {
+		return path.join(this.options.directory, `${key}.json`);
+	}
+
+	private isExpired(createdAt: number): boolean {
+		return Date.now() - createdAt > this.options.ttlSeconds * 1000;
+	}
+
+	async get(key: string): Promise<TranscriptionResponse | null> {
+		const entryPath = this.getEntryPath(key);
+		try {
+			const entry = JSON.parse(await readFile(entryPath, "utf8")) as CacheEntry;
+			if (this.isExpired(entry.createdAt)) {
+				await rm(entryPath, { force: true });
+				return null;
+			}
+			return entry.response;
+		} catch {
+			// Missing or unreadable entries are cache misses
+			return null;
+		}
+	}
+
+	async set(key: string, response: TranscriptionResponse): Promise<void> {
+		await mkdir(this.options.directory, { recursive: true });
+		const entry: CacheEntry = { createdAt: Date.now(), response };
+		await writeFile(this.getEntryPath(key), JSON.stringify(entry));
+		await this.evictExpired();
+	}
+
+	async delete(key: string): Promise<void> {
+		await rm(this.getEntryPath(key), { force: true });
+	}
+
+	/**
+	 * Remove entries older than the TTL
+	 */
+	async evictExpired(): Promise<void> {
+		const files = await readdir(this.options.directory).catch(() => []);
+		for (const file of files) {
+			if (!file.endsWith(".json")) continue;
+			const filePath = path.join(this.options.directory, file);
+			const stats = await stat(filePath).catch(() => null);
+			if (stats && this.isExpired(stats.mtimeMs)) {
+				await rm(filePath, { force: true });
+			}
+		}
+	}
+}
@@ -0,0 +1,227 @@
+/**
+ * Chunked transcription helpers
+ * Splits long media into overlapping audio chunks and stitches the
+ * per-chunk word lists back into one timeline
+ */
+
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { RenderInternals } from "@remotion/renderer";
+import { TranscriptSegment } from "@/features/editor/transcript/types";
+import { TranscriptionError, TranscriptionErrorType } from "./types";
+
+/**
+ * A slice of the source audio, times in milliseconds
+ */
+export interface AudioChunk {
+	index: number;
+	startMs: number;
+	durationMs: number;
+	blob: Blob;
+}
+
+export interface ChunkingOptions {
+	chunkDurationMs: number;
+	overlapMs: number;
+}
+
+/**
+ * Segments returned for one chunk, already offset to source time
+ */
+export interface ChunkTranscript {
+	startMs: number;
+	durationMs: number;
+	segments: TranscriptSegment[];
+}
+
+// Mono 16 kHz speech audio keeps chunks far below provider limits
+// (48 kbps is ~21 MB per hour)
+const CHUNK_AUDIO_ARGS = ["-vn", "-ac", "1", "-ar", "16000", "-b:a", "48k"];
+
+// Words closer than this across a seam are treated as the same word
+const SEAM_TOLERANCE_MS = 200;
+
+const runFf = async (bin: "ffmpeg" | "ffprobe", args: string[]) => {
+	try {
+		const { stdout } = await RenderInternals.callFf({
+			bin,
+			args,
+			indent: false,
+			logLevel: "error",
+			binariesDirectory: null,
+			cancelSignal: undefined,
+		});
+		return stdout;
+	} catch (error) {
+		throw new TranscriptionError(
+			TranscriptionErrorType.INVALID_AUDIO,
+			`Failed to process media with ${bin}`,
+			error,
+		);
+	}
+};
+
+const getMediaDurationMs = async (filePath: string): Promise<number> => {
+	const output = await runFf("ffprobe", [
+		"-v",
+		"error",
+		"-show_entries",
+		"format=duration",
+		"-of",
+		"default=noprint_wrappers=1:nokey=1",
+		filePath,
+	]);
+	const seconds = Number.parseFloat(output.trim());
+	if (!Number.isFinite(seconds) || seconds <= 0) {
+		throw new TranscriptionError(
+			TranscriptionErrorType.INVALID_AUDIO,
+			"Could not determine media duration",
+		);
+	}
+	return seconds * 1000;
+};
+
+/**
+ * Split media into overlapping mp3 chunks
+ * Each chunk after the first starts `overlapMs` before the previous one ends
+ */
+export async function splitAudioIntoChunks(
+	input: Blob,
+	options: ChunkingOptions,
+): Promise<AudioChunk[]> {
+	const { chunkDurationMs, overlapMs } = options;
+	if (chunkDurationMs <= overlapMs) {
+		throw new TranscriptionError(
+			TranscriptionErrorType.PROVIDER_ERROR,
+			"Chunk duration must be longer than the overlap",
+		);
+	}
+
+	const workDir = await mkdtemp(path.join(tmpdir(), "transcription-"));
+	try {
+		const inputPath = path.join(workDir, "input");
+		await writeFile(inputPath, Buffer.from(await input.arrayBuffer()));
+
+		const durationMs = await getMediaDurationMs(inputPath);
+		const chunks: AudioChunk[] = [];
+
+		for (
+			let startMs = 0, index = 0;
+			startMs < durationMs;
+			startMs += chunkDurationMs - overlapMs, index++
+		) {
+			const chunkLength = Math.min(chunkDurationMs, durationMs - startMs);
+			const outputPath = path.join(workDir, `chunk-${index}.mp3`);
+
+			await runFf("ffmpeg", [
+				"-ss",
+				(startMs / 1000).toFixed(3),
+				"-t",
+				(chunkLength / 1000).toFixed(3),
+				"-i",
+				inputPath,
+				...CHUNK_AUDIO_ARGS,
+				"-y",
+				outputPath,
+			]);
+
+			chunks.push({
+				index,
+				startMs,
+				durationMs: chunkLength,
+				blob: new Blob([await readFile(outputPath)], { type: "audio/mpeg" }),
+			});
+
+			// The last chunk reached the end of the media
+			if (startMs + chunkLength >= durationMs) break;
+		}
+
+		return chunks;
+	} finally {
+		await rm(workDir, { recursive: true, force: true });
+	}
+}
+
+/**
+ * Run `task` over `items` with at most `limit` running at once,
+ * keeping results in input order
+ */
+export async function mapWithConcurrency<T, R>(
+	items: T[],
+	limit: number,
+	task: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+	const results: R[] = new Array(items.length);
+	let next = 0;
+
+	const worker = async () => {
+		while (next < items.length) {
+			const index = next++;
+			results[index] = await task(items[index], index);
+		}
+	};
+
+	await Promise.all(
+		Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker),
+	);
+	return results;
+}
+
+const normalizeText = (text: string) =>
+	text.toLowerCase().replace(/[\s\p{P}]/gu, "");
+
+/**
+ * Stitch chunk transcripts into one segment list
+ * Overlaps are split at their midpoint: the earlier chunk keeps segments
+ * centred before it, the later chunk those after. Words repeated right at
+ * the seam are dropped and ids are reassigned in order.
+ */
+export function stitchChunkTranscripts(
+	chunks: ChunkTranscript[],
+): TranscriptSegment[] {
+	const sorted = [...chunks].sort((a, b) => a.startMs - b.startMs);
+	const stitched: TranscriptSegment[] = [];
+
+	sorted.forEach((chunk, index) => {
+		const previous = sorted[index - 1];
+		const next = sorted[index + 1];
+		const seamStart = previous
+			? (chunk.startMs + previous.startMs + previous.durationMs) / 2
+			: Number.NEGATIVE_INFINITY;
+		const seamEnd = next
+			? (next.startMs + chunk.startMs + chunk.durationMs) / 2
+			: Number.POSITIVE_INFINITY;
+
+		for (const segment of chunk.segments) {
+			const midpoint = (segment.start + segment.end) / 2;
+			if (midpoint < seamStart || midpoint >= seamEnd) continue;
+
+			const last = stitched[stitched.length - 1];
+			if (last) {
+				// Never start a chunk with spacing after spacing
+				if (segment.type === "spacing" && last.type === "spacing") continue;
+
+				// Same word transcribed on both sides of the seam
+				const isDuplicate =
+					segment.start < seamStart + SEAM_TOLERANCE_MS &&
+					segment.start < last.end + SEAM_TOLERANCE_MS &&
+					normalizeText(segment.text) === normalizeText(last.text);
+				if (isDuplicate) continue;
+			}
+
+			// Keep timestamps monotonic across the seam
+			const start = last ? Math.max(segment.start, last.end) : segment.start;
+			stitched.push({
+				...segment,
+				start,
+				end: Math.max(segment.end, start),
+			});
+		}
+	});
+
+	return stitched.map((segment, index) => ({
+		...segment,
+		id: `seg-${index + 1}`,
+	}));
+}
@@ -3,6 +3,7 @@
  * Manages configuration for different transcription providers
  */
 
+import type { EDUGroupingMode } from "../llm/operations/text-operations";
 import {
 	TranscriptionProvider,
 	TranscriptionProviderConfig,
@@ -31,7 +32,8 @@ export function getProviderConfig(
 			};
 
 		case TranscriptionProvider.OPENAI: {
-			// Future implementation
+			// OpenAI Whisper API or any compatible server (whisper.cpp,
+			// faster-whisper) when WHISPER_API_URL points elsewhere
 			// OpenAI Whisper supports fewer formats than ElevenLabs
 			const openAIFormats = SUPPORTED_TRANSCRIPTION_FORMATS.filter((format) =>
 				[
@@ -40,16 +42,25 @@ export function getProviderConfig(
 					"audio/x-m4a",
 					"audio/wav",
 					"audio/webm",
+					"video/mp4",
+					"video/webm",
 				].includes(format),
 			);
+			const baseUrl = (
+				process.env.WHISPER_API_URL || "https://api.openai.com/v1"
+			).replace(/\/+$/, "");
 			return {
 				provider: TranscriptionProvider.OPENAI,
-				apiKey: process.env.OPENAI_API_KEY,
-				apiUrl: "https://api.openai.com/v1/audio/transcriptions",
-				maxFileSizeMB: 25,
+				apiKey: process.env.WHISPER_API_KEY || process.env.OPENAI_API_KEY,
+				apiUrl: `${baseUrl}/audio/transcriptions`,
+				maxFileSizeMB: Number.parseInt(
+					process.env.WHISPER_MAX_FILE_SIZE_MB || "25",
+					10,
+				),
 				supportedFormats: openAIFormats,
 				defaultOptions: {
-					modelId: "whisper-1",
+					modelId: process.env.WHISPER_MODEL || "whisper-1",
+					wordTimestamps: true,
 				},
 			};
 		}
@@ -99,6 +110,11 @@ export function getDefaultProvider(): TranscriptionProvider {
 		return TranscriptionProvider.ELEVENLABS;
 	}
 
+	// Fall back to a Whisper-compatible server
+	if (isProviderConfigured(TranscriptionProvider.OPENAI)) {
+		return TranscriptionProvider.OPENAI;
+	}
+
 	throw new Error("No transcription provider configured");
 }
 
@@ -109,6 +125,14 @@ export function isProviderConfigured(provider: TranscriptionProvider): boolean {
 	try {
 		const config = getProviderConfig(provider);
 
+		// Local Whisper servers usually run without an API key
+		if (
+			provider === TranscriptionProvider.OPENAI &&
+			process.env.WHISPER_API_URL
+		) {
+			return true;
+		}
+
 		return !!config.apiKey;
 	} catch {
 		return false;
@@ -139,12 +163,29 @@ export const transcriptionConfig = {
 		10,
 	),
 
+	// Chunking for media above the provider's file size limit
+	chunkDurationSeconds: Number.parseInt(
+		process.env.TRANSCRIPTION_CHUNK_SECONDS || "600",
+		10,
+	),
+	chunkOverlapSeconds: Number.parseInt(
+		process.env.TRANSCRIPTION_CHUNK_OVERLAP_SECONDS || "5",
+		10,
+	),
+
 	// Cache configuration
 	enableCache: process.env.TRANSCRIPTION_CACHE_ENABLED === "true",
 	cacheTTLSeconds: Number.parseInt(
 		process.env.TRANSCRIPTION_CACHE_TTL || "3600",
 		10,
 	),
+	cacheDirectory:
+		process.env.TRANSCRIPTION_CACHE_DIR || ".cache/transcriptions",
+
+	// "heuristic" groups EDUs without the LLM
+	eduGrouping: (process.env.TRANSCRIPTION_EDU_GROUPING === "heuristic"
+		? "heuristic"
+		: "llm") as EDUGroupingMode,
 
 	// Feature flags
 	enableAutoLanguageDetection: process.env.TRANSCRIPTION_AUTO_LANG === "true",
@@ -0,0 +1,227 @@
+/**
+ * Transcription Job Runner
+ * Processes pending Transcription rows in the background so transcription
+ * and EDU grouping don't block a server action. Job state lives in the
+ * database, so queued and interrupted jobs resume after a restart.
+ */
+
+import {
+	claimTranscription,
+	getPendingTranscriptions,
+	requeueStaleTranscriptions,
+	updateTranscription,
+	updateTranscriptionProgress,
+} from "@/db/queries/transcriptions";
+import type { Transcription, Upload } from "@/db/schema";
+import { getTranscriptionOrchestrator } from "./orchestrator";
+import {
+	TranscriptionError,
+	TranscriptionErrorType,
+	transcriptionConfig,
+} from "./server";
+import { countEDUWords, edusToSegments } from "./stored-edus";
+
+// How often the queue is checked for due jobs
+const POLL_INTERVAL_MS = 5000;
+
+// Skip progress writes smaller than this many percent
+const PROGRESS_STEP = 5;
+
+// "processing" jobs started longer ago than this were cut off
+const STALE_JOB_MS = 30 * 60 * 1000;
+
+// Errors that won't go away by trying again
+const PERMANENT_ERRORS = new Set([
+	TranscriptionErrorType.AUTHENTICATION_ERROR,
+	TranscriptionErrorType.INVALID_AUDIO,
+	TranscriptionErrorType.UNSUPPORTED_FORMAT,
+	TranscriptionErrorType.LANGUAGE_NOT_SUPPORTED,
+]);
+
+/**
+ * Map a transcription failure to a user-facing message
+ */
+function getTranscriptionErrorMessage(
+	error: unknown,
+	language: string,
+): string {
+	if (!(error instanceof TranscriptionError)) {
+		return "An unexpected error occurred during transcription.";
+	}
+
+	switch (error.type) {
+		case TranscriptionErrorType.AUTHENTICATION_ERROR:
+			return "Transcription service authentication failed. Please check API configuration.";
+		case TranscriptionErrorType.QUOTA_EXCEEDED:
+			return "Transcription quota exceeded. Please try again later.";
+		case TranscriptionErrorType.UNSUPPORTED_FORMAT:
+			return "Media format not supported for transcription.";
+		case TranscriptionErrorType.LANGUAGE_NOT_SUPPORTED:
+			return `Language '${language}' is not supported for transcription.`;
+		default:
+			return "Transcription failed. Please try again.";
+	}
+}
+
+const isRetryable = (error: unknown) =>
+	!(error instanceof TranscriptionError && PERMANENT_ERRORS.has(error.type));
+
+/**
+ * Polls the Transcription table and runs due jobs with bounded concurrency
+ */
+export class TranscriptionJobRunner {
+	private activeJobs = new Set<string>();
+	private started: Promise<void> | null = null;
+	private polling = false;
+
+	/**
+	 * Start polling, requeueing jobs interrupted by a previous shutdown
+	 */
+	start(): Promise<void> {
+		if (!this.started) {
+			this.started = this.initialize();
+		}
+		return this.started;
+	}
+
+	/**
+	 * Check the queue now instead of waiting for the next interval
+	 */
+	async wake(): Promise<void> {
+		await this.start();
+		await this.poll();
+	}
+
+	private async initialize() {
+		try {
+			// Old "processing" rows were cut off, recent ones may run elsewhere
+			const requeued = await requeueStaleTranscriptions(
+				new Date(Date.now() - STALE_JOB_MS),
+			);
+			if (requeued.length > 0) {
+				console.log(`Requeued ${requeued.length} interrupted transcriptions`);
+			}
+		} catch (error) {
+			console.error("Failed to requeue interrupted transcriptions:", error);
+		}
+
+		const timer = setInterval(() => void this.poll(), POLL_INTERVAL_MS);
+		timer.unref?.();
+	}
+
+	private async poll() {
+		if (this.polling) return;
+		this.polling = true;
+
+		try {
+			const capacity =
+				transcriptionConfig.maxConcurrentJobs - this.activeJobs.size;
+			if (capacity <= 0) return;
+
+			const pending = await getPendingTranscriptions(capacity);
+			for (const { transcription, upload } of pending) {
+				const job = await claimTranscription(transcription.id);
+				if (!job) continue; // Claimed by another worker
+
+				this.activeJobs.add(job.id);
+				void this.run(job, upload).finally(() => {
+					this.activeJobs.delete(job.id);
+				});
+			}
+		} catch (error) {
+			console.error("Failed to poll transcription queue:", error);
+		} finally {
+			this.polling = false;
+		}
+	}
+
+	private async run(job: Transcription, upload: Upload) {
+		const attempt = job.attempts + 1;
+		let reportedProgress = 0;
+
+		const onProgress = (progress: number) => {
+			if (progress < 100 && progress - reportedProgress < PROGRESS_STEP) return;
+			reportedProgress = progress;
+			updateTranscriptionProgress(job.id, progress).catch((error) =>
+				console.error("Failed to record transcription progress:", error),
+			);
+		};
+
+		try {
+			console.log(
+				`Transcribing upload ${upload.id} (attempt ${attempt}/${transcriptionConfig.maxRetries + 1})`,
+			);
+
+			const response = await getTranscriptionOrchestrator().transcribe(
+				upload.fileUrl,
+				{
+					language: job.language,
+					diarize: true,
+					wordTimestamps: true,
+					onProgress,
+					skipCache: job.skipCache,
+				},
+			);
+			const { edus } = response;
+			for (const warning of response.warnings || []) {
+				console.warn(`Transcription job ${job.id}: ${warning}`);
+			}
+
+			await updateTranscription(job.id, {
+				segments: edusToSegments(edus),
+				wordCount: countEDUWords(edus),
+				duration: Math.round(edus[edus.length - 1]?.edu_end || 0),
+				provider: response.metadata?.provider.toLowerCase(),
+				status: "completed",
+				progress: 100,
+				attempts: attempt,
+				errorMessage: null,
+				completedAt: new Date(),
+			});
+		} catch (error) {
+			console.error(`Transcription job ${job.id} failed:`, error);
+
+			const errorMessage = getTranscriptionErrorMessage(error, job.language);
+			const retry =
+				isRetryable(error) && attempt <= transcriptionConfig.maxRetries;
+
+			await updateTranscription(
+				job.id,
+				retry
+					? {
+							status: "pending",
+							progress: 0,
+							attempts: attempt,
+							errorMessage,
+							// Back off exponentially between attempts
+							runAfter: new Date(
+								Date.now() +
+									transcriptionConfig.retryDelayMs * 2 ** (attempt - 1),
+							),
+						}
+					: {
+							status: "failed",
+							attempts: attempt,
+							errorMessage,
+						},
+			).catch((updateError) =>
+				console.error("Failed to record transcription failure:", updateError),
+			);
+		}
+	}
+}
+
+/**
+ * Singleton instance
+ */
+let runnerInstance: TranscriptionJobRunner | null = null;
+
+/**
+ * Get or create the job runner
+ */
+export function getTranscriptionJobRunner(): TranscriptionJobRunner {
+	if (!runnerInstance) {
+		runnerInstance = new TranscriptionJobRunner();
+	}
+	return runnerInstance;
+}
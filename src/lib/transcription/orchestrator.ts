@@ -4,16 +4,26 @@
  */
 
 import { TranscriptSegment } from "@/features/editor/transcript/types";
-import { groupEDUs } from "../llm/operations/text-operations";
+import { EDUGroupingMode, groupEDUs } from "../llm/operations/text-operations";
 import { FullEDU } from "../llm/types";
+import { TranscriptionCache, getTranscriptionCacheKey } from "./cache";
 import type { TranscriptionService } from "./interface";
+import {
+	mapWithConcurrency,
+	splitAudioIntoChunks,
+	stitchChunkTranscripts,
+} from "./chunking";
 import {
 	TranscriptionError,
 	TranscriptionErrorType,
 	getTranscriptionService,
+	transcriptionConfig,
 } from "./server";
 import { TranscriptionOptions, TranscriptionResponse } from "./types";
 
+// Share of the progress taken by the provider, the rest is EDU grouping
+const TRANSCRIBED_PROGRESS = 70;
+
 /**
  * Options for orchestrated transcription workflow
  */
@@ -24,6 +34,15 @@ export interface OrchestratorOptions {
 	wordTimestamps?: boolean;
 	modelId?: string;
 	providerOptions?: Record<string, any>;
+
+	// Called with overall progress (0-100) as the workflow advances
+	onProgress?: (progress: number) => void;
+
+	// Ignore a cached result and transcribe again
+	skipCache?: boolean;
+
+	// EDU grouping, defaults to TRANSCRIPTION_EDU_GROUPING
+	eduGrouping?: EDUGroupingMode;
 }
 
 /**
@@ -50,9 +69,16 @@ export interface OrchestratorResponse {
  */
 export class TranscriptionOrchestrator {
 	private transcriptionService: TranscriptionService;
+	private cache: TranscriptionCache | null;
 
 	constructor() {
 		this.transcriptionService = getTranscriptionService();
+		this.cache = transcriptionConfig.enableCache
+			? new TranscriptionCache({
+					directory: transcriptionConfig.cacheDirectory,
+					ttlSeconds: transcriptionConfig.cacheTTLSeconds,
+				})
+			: null;
 	}
 
 	/**
@@ -68,15 +94,20 @@ export class TranscriptionOrchestrator {
 
 		try {
 			// Get transcription from configured provider
-			const response = await this.getTranscription(input, options);
+			const response = await this.getTranscription(input, options, warnings);
+			options.onProgress?.(TRANSCRIBED_PROGRESS);
 
 			const segments = removeTooShortSegments(response.segments);
 
 			// Group segments into Elementary Discourse Units (EDUs)
-			const fullEDUs = await groupEDUs(segments);
+			const fullEDUs = await groupEDUs(segments, {
+				mode: options.eduGrouping || transcriptionConfig.eduGrouping,
+				warnings,
+			});
 			console.log(
 				`Grouped ${segments.length} segments into ${fullEDUs.length} EDUs`,
 			);
+			options.onProgress?.(100);
 
 			// Return transcription result with metadata
 			return {
@@ -105,11 +136,12 @@ export class TranscriptionOrchestrator {
 	}
 
 	/**
-	 * Get transcription from configured provider
+	 * Get transcription from the cache or the configured provider
 	 */
 	private async getTranscription(
 		input: string | Blob,
 		options: OrchestratorOptions,
+		warnings: string[],
 	): Promise<TranscriptionResponse> {
 		// Map orchestrator options to transcription options
 		const transcriptionOptions: TranscriptionOptions = {
@@ -120,6 +152,67 @@ export class TranscriptionOrchestrator {
 			providerOptions: options.providerOptions,
 		};
 
+		if (!this.cache) {
+			return this.transcribeMedia(
+				input,
+				transcriptionOptions,
+				warnings,
+				options.onProgress,
+			);
+		}
+
+		// The cache key needs the media content
+		const media =
+			typeof input === "string" ? await this.fetchMedia(input) : input;
+		const cacheKey = await getTranscriptionCacheKey(
+			media,
+			this.transcriptionService.getProviderName(),
+			transcriptionOptions,
+		);
+
+		if (!options.skipCache) {
+			const cached = await this.cache.get(cacheKey);
+			if (cached) {
+				console.log("Using cached transcription");
+				return cached;
+			}
+		}
+
+		const response = await this.transcribeMedia(
+			media,
+			transcriptionOptions,
+			warnings,
+			options.onProgress,
+		);
+
+		// A failed write only costs a future cache hit
+		await this.cache
+			.set(cacheKey, response)
+			.catch((error) => console.error("Failed to cache transcription:", error));
+
+		return response;
+	}
+
+	/**
+	 * Transcribe with the configured provider
+	 * Media above the provider's size limit is transcribed in chunks
+	 */
+	private async transcribeMedia(
+		input: string | Blob,
+		transcriptionOptions: TranscriptionOptions,
+		warnings: string[],
+		onProgress?: (progress: number) => void,
+	): Promise<TranscriptionResponse> {
+		const media = await this.resolveOversizedInput(input);
+		if (media) {
+			return this.transcribeInChunks(
+				media,
+				transcriptionOptions,
+				warnings,
+				onProgress,
+			);
+		}
+
 		// Call transcription service
 		const response = await this.transcriptionService.transcribe(
 			input,
@@ -134,6 +227,110 @@ export class TranscriptionOrchestrator {
 		return response;
 	}
 
+	/**
+	 * Return the media as a Blob when it is too large for the provider,
+	 * or null when it can be sent as-is
+	 */
+	private async resolveOversizedInput(
+		input: string | Blob,
+	): Promise<Blob | null> {
+		const maxSize = this.transcriptionService.getMaxFileSize();
+
+		if (typeof input !== "string") {
+			return input.size > maxSize ? input : null;
+		}
+
+		// Check the size without downloading when the server reports it
+		const head = await fetch(input, { method: "HEAD" }).catch(() => null);
+		const contentLength = Number(head?.headers.get("content-length"));
+		if (contentLength > 0 && contentLength <= maxSize) {
+			return null;
+		}
+
+		const blob = await this.fetchMedia(input);
+		return blob.size > maxSize ? blob : null;
+	}
+
+	/**
+	 * Download media from a URL
+	 */
+	private async fetchMedia(url: string): Promise<Blob> {
+		const response = await fetch(url);
+		if (!response.ok) {
+			throw new TranscriptionError(
+				TranscriptionErrorType.NETWORK_ERROR,
+				`Failed to fetch media from URL: ${response.statusText}`,
+			);
+		}
+		return response.blob();
+	}
+
+	/**
+	 * Transcribe overlapping chunks with bounded concurrency and stitch
+	 * the results into one segment list in source time
+	 */
+	private async transcribeInChunks(
+		media: Blob,
+		options: TranscriptionOptions,
+		warnings: string[],
+		onProgress?: (progress: number) => void,
+	): Promise<TranscriptionResponse> {
+		const chunks = await splitAudioIntoChunks(media, {
+			chunkDurationMs: transcriptionConfig.chunkDurationSeconds * 1000,
+			overlapMs: transcriptionConfig.chunkOverlapSeconds * 1000,
+		});
+		console.log(`Transcribing ${chunks.length} chunks`);
+		let finishedChunks = 0;
+
+		const responses = await mapWithConcurrency(
+			chunks,
+			transcriptionConfig.maxConcurrentJobs,
+			async (chunk) => {
+				const response = await this.transcriptionService.transcribe(
+					chunk.blob,
+					options,
+				);
+				console.log(
+					`Chunk ${chunk.index + 1}/${chunks.length}: ${response.segments.length} segments`,
+				);
+				finishedChunks++;
+				onProgress?.(
+					Math.round((finishedChunks / chunks.length) * TRANSCRIBED_PROGRESS),
+				);
+				return response;
+			},
+		);
+
+		const segments = stitchChunkTranscripts(
+			chunks.map((chunk, index) => ({
+				startMs: chunk.startMs,
+				durationMs: chunk.durationMs,
+				segments: responses[index].segments.map((segment) => ({
+					...segment,
+					start: segment.start + chunk.startMs,
+					end: segment.end + chunk.startMs,
+				})),
+			})),
+		);
+
+		if (options.diarize !== false && chunks.length > 1) {
+			warnings.push(
+				"Speakers were identified per chunk and may not match across chunks",
+			);
+		}
+
+		const lastChunk = chunks[chunks.length - 1];
+		return {
+			segments,
+			duration: lastChunk.startMs + lastChunk.durationMs,
+			detectedLanguage: responses[0]?.detectedLanguage,
+			metadata: {
+				...responses[0]?.metadata,
+				chunks: chunks.length,
+			},
+		};
+	}
+
 	/**
 	 * Get provider information
 	 */
@@ -0,0 +1,320 @@
+/**
+ * Whisper Transcription Service Provider
+ * Implementation of TranscriptionService for the OpenAI audio transcription
+ * API and compatible servers (whisper.cpp, faster-whisper, LocalAI, ...)
+ */
+
+import { BaseTranscriptionService } from "../interface";
+import {
+	TranscriptionOptions,
+	TranscriptionResponse,
+	TranscriptionError,
+	TranscriptionErrorType,
+	LanguageCode,
+	COMMON_LANGUAGE_CODES,
+} from "../types";
+import { TranscriptSegment } from "@/features/editor/transcript/types";
+
+/**
+ * Whisper specific configuration
+ */
+interface WhisperConfig {
+	/** Optional for local servers that don't check keys */
+	apiKey?: string;
+	/** Full URL of the transcriptions endpoint */
+	apiUrl: string;
+	modelId?: string;
+	maxFileSizeMB?: number;
+	supportedFormats?: string[];
+}
+
+/**
+ * Word entry of a verbose_json response (times in seconds)
+ */
+interface WhisperWord {
+	word: string;
+	start: number;
+	end: number;
+}
+
+interface WhisperSegment {
+	start: number;
+	end: number;
+	text: string;
+	avg_logprob?: number;
+}
+
+interface WhisperVerboseResponse {
+	text: string;
+	language?: string;
+	duration?: number;
+	words?: WhisperWord[];
+	segments?: WhisperSegment[];
+}
+
+/**
+ * Whisper-API-compatible implementation of the TranscriptionService
+ */
+export class WhisperTranscriptionService extends BaseTranscriptionService {
+	private apiKey?: string;
+	private apiUrl: string;
+	private modelId: string;
+
+	constructor(config: WhisperConfig) {
+		super();
+
+		if (!config.apiUrl) {
+			throw new TranscriptionError(
+				TranscriptionErrorType.PROVIDER_ERROR,
+				"Whisper API URL is required",
+			);
+		}
+
+		this.apiKey = config.apiKey;
+		this.apiUrl = config.apiUrl;
+		this.modelId = config.modelId || "whisper-1";
+
+		// OpenAI limits uploads to 25MB, local servers may allow more
+		this.maxFileSizeMB = config.maxFileSizeMB || 25;
+		this.supportedFormats = config.supportedFormats || [];
+
+		// Whisper is multilingual
+		this.supportedLanguages = Object.keys(
+			COMMON_LANGUAGE_CODES,
+		) as LanguageCode[];
+	}
+
+	async transcribe(
+		input: Blob | string,
+		options: TranscriptionOptions,
+	): Promise<TranscriptionResponse> {
+		try {
+			// Validate language if provided
+			if (options.language) {
+				this.validateLanguage(options.language);
+			}
+
+			// Convert URL to Blob if needed
+			let audioBlob: Blob;
+			if (typeof input === "string") {
+				audioBlob = await this.urlToBlob(input);
+			} else {
+				audioBlob = input;
+			}
+
+			// Validate input
+			await this.validateInput(audioBlob);
+
+			const formData = new FormData();
+			formData.append("file", audioBlob, this.getFileName(audioBlob));
+			formData.append("model", options.modelId || this.modelId);
+			formData.append("response_format", "verbose_json");
+			formData.append("timestamp_granularities[]", "word");
+			formData.append("timestamp_granularities[]", "segment");
+			if (options.language) {
+				formData.append("language", options.language);
+			}
+			// Allow provider-specific options (prompt, temperature, ...)
+			for (const [key, value] of Object.entries(
+				options.providerOptions || {},
+			)) {
+				formData.append(key, String(value));
+			}
+
+			const response = await fetch(this.apiUrl, {
+				method: "POST",
+				headers: this.apiKey
+					? { Authorization: `Bearer ${this.apiKey}` }
+					: undefined,
+				body: formData,
+			});
+
+			if (!response.ok) {
+				throw this.createHttpError(response.status, await response.text());
+			}
+
+			const transcription = (await response.json()) as WhisperVerboseResponse;
+
+			if (!transcription.words || transcription.words.length === 0) {
+				throw new TranscriptionError(
+					TranscriptionErrorType.PROVIDER_ERROR,
+					"Whisper response has no word timestamps",
+				);
+			}
+
+			return {
+				segments: this.convertToSegments(
+					transcription.words,
+					transcription.segments || [],
+				),
+				duration:
+					transcription.duration !== undefined
+						? transcription.duration * 1000
+						: undefined,
+				detectedLanguage: transcription.language || options.language,
+				metadata: {
+					provider: "whisper",
+					modelId: options.modelId || this.modelId,
+				},
+			};
+		} catch (error) {
+			// Handle and wrap errors
+			if (error instanceof TranscriptionError) {
+				throw error;
+			}
+
+			if (error instanceof Error) {
+				if (
+					error.message.includes("network") ||
+					error.message.includes("fetch")
+				) {
+					throw new TranscriptionError(
+						TranscriptionErrorType.NETWORK_ERROR,
+						"Network error during transcription",
+						error,
+					);
+				}
+
+				throw new TranscriptionError(
+					TranscriptionErrorType.PROVIDER_ERROR,
+					`Whisper transcription failed: ${error.message}`,
+					error,
+				);
+			}
+
+			throw new TranscriptionError(
+				TranscriptionErrorType.PROVIDER_ERROR,
+				"Unknown error during transcription",
+			);
+		}
+	}
+
+	/**
+	 * Map an HTTP error status to a TranscriptionError
+	 */
+	private createHttpError(status: number, body: string): TranscriptionError {
+		if (status === 401 || status === 403) {
+			return new TranscriptionError(
+				TranscriptionErrorType.AUTHENTICATION_ERROR,
+				"Invalid or expired API key",
+				body,
+			);
+		}
+
+		if (status === 429) {
+			return new TranscriptionError(
+				TranscriptionErrorType.QUOTA_EXCEEDED,
+				"API rate limit exceeded",
+				body,
+			);
+		}
+
+		if (status === 413) {
+			return new TranscriptionError(
+				TranscriptionErrorType.INVALID_AUDIO,
+				"File size exceeds the server limit",
+				body,
+			);
+		}
+
+		return new TranscriptionError(
+			TranscriptionErrorType.PROVIDER_ERROR,
+			`Whisper transcription failed with status ${status}`,
+			body,
+		);
+	}
+
+	/**
+	 * Convert Whisper words to standard TranscriptSegment format
+	 * Gaps between words become "spacing" segments like ElevenLabs returns
+	 */
+	private convertToSegments(
+		words: WhisperWord[],
+		segments: WhisperSegment[],
+	): TranscriptSegment[] {
+		const result: TranscriptSegment[] = [];
+
+		// Whisper only scores segments, so words take their segment's logprob
+		const getLogprob = (word: WhisperWord) =>
+			segments.find(
+				(segment) => word.start >= segment.start && word.start < segment.end,
+			)?.avg_logprob || 0;
+
+		for (const word of words) {
+			const previous = result[result.length - 1];
+			const start = word.start * 1000; // Convert seconds to milliseconds
+			const end = word.end * 1000; // Convert seconds to milliseconds
+
+			if (previous && start > previous.end) {
+				result.push({
+					id: `seg-${result.length + 1}`,
+					text: " ",
+					start: previous.end,
+					end: start,
+					type: "spacing",
+					speaker_id: null,
+					logprob: 0,
+					characters: null,
+				});
+			}
+
+			result.push({
+				id: `seg-${result.length + 1}`,
+				text: word.word.trim(),
+				start,
+				end,
+				type: "word",
+				speaker_id: null, // Whisper has no diarization
+				logprob: getLogprob(word),
+				characters: null,
+			});
+		}
+
+		return result;
+	}
+
+	/**
+	 * Whisper servers infer the format from the file extension
+	 */
+	private getFileName(blob: Blob): string {
+		const subtype = blob.type.split("/")[1]?.split(";")[0];
+		const extension =
+			{
+				mpeg: "mp3",
+				"x-m4a": "m4a",
+				"x-wav": "wav",
+				quicktime: "mov",
+				"x-msvideo": "avi",
+			}[subtype || ""] || subtype;
+		return `audio.${extension || "mp3"}`;
+	}
+
+	getProviderName(): string {
+		return "Whisper";
+	}
+
+	async isAvailable(): Promise<boolean> {
+		try {
+			// Compatible servers expose the models list next to /audio
+			const modelsUrl = this.apiUrl.replace(
+				/\/audio\/transcriptions\/?$/,
+				"/models",
+			);
+			const response = await fetch(modelsUrl, {
+				headers: this.apiKey
+					? { Authorization: `Bearer ${this.apiKey}` }
+					: undefined,
+			});
+			return response.ok;
+		} catch {
+			return false;
+		}
+	}
+
+	/**
+	 * Get Whisper model options
+	 */
+	getAvailableModels(): string[] {
+		return ["whisper-1"]; // Local servers accept their own model names
+	}
+}
@@ -18,6 +18,7 @@ import {
 } from "./config";
 import { TranscriptionService } from "./interface";
 import { ElevenLabsTranscriptionService } from "./providers/elevenlabs";
+import { WhisperTranscriptionService } from "./providers/whisper";
 import {
 	TranscriptionError,
 	TranscriptionErrorType,
@@ -64,11 +65,20 @@ export function createTranscriptionService(
 			break;
 
 		case TranscriptionProvider.OPENAI:
-			// Future implementation
-			throw new TranscriptionError(
-				TranscriptionErrorType.PROVIDER_ERROR,
-				"OpenAI provider not yet implemented",
-			);
+			if (!isProviderConfigured(selectedProvider) || !config.apiUrl) {
+				throw new TranscriptionError(
+					TranscriptionErrorType.AUTHENTICATION_ERROR,
+					"Whisper API key or WHISPER_API_URL not configured",
+				);
+			}
+			service = new WhisperTranscriptionService({
+				apiKey: config.apiKey,
+				apiUrl: config.apiUrl,
+				modelId: config.defaultOptions?.modelId,
+				maxFileSizeMB: config.maxFileSizeMB,
+				supportedFormats: config.supportedFormats,
+			});
+			break;
 
 		case TranscriptionProvider.GOOGLE:
 			// Future implementation
@@ -0,0 +1,59 @@
+/**
+ * Conversion between EDUs and the `segments` column of a Transcription row
+ * Each stored segment is one EDU with its word-level timestamps
+ */
+
+import type { Transcription } from "@/db/schema";
+import type { FullEDU } from "@/features/editor/transcript/types";
+
+/**
+ * Convert EDUs to the stored segments format
+ */
+export function edusToSegments(fullEDUs: FullEDU[]) {
+	return fullEDUs.map((edu) => ({
+		id: `edu-${edu.edu_index}`,
+		text: edu.edu_content,
+		start: edu.edu_start,
+		end: edu.edu_end,
+		speaker_id: null,
+		confidence: null,
+		words: edu.words, // Include word-level timestamps
+	})) as unknown as Transcription["segments"];
+}
+
+/**
+ * Convert stored segments back to EDUs
+ */
+export function segmentsToEDUs(segments: Transcription["segments"]): FullEDU[] {
+	return (segments as any[]).map((segment, index) => ({
+		edu_index: index,
+		edu_content: segment.text,
+		edu_start: segment.start,
+		edu_end: segment.end,
+		words: segment.words || [],
+	}));
+}
+
+/**
+ * Convert the stored translations of a transcription to EDUs by language
+ */
+export function translationsToEDUs(
+	translations: Transcription["translations"],
+): Record<string, FullEDU[]> {
+	return Object.fromEntries(
+		Object.entries(translations || {}).map(([language, segments]) => [
+			language,
+			segmentsToEDUs(segments as Transcription["segments"]),
+		]),
+	);
+}
+
+/**
+ * Count whitespace separated words across EDUs
+ */
+export function countEDUWords(fullEDUs: FullEDU[]): number {
+	return fullEDUs.reduce(
+		(acc, edu) => acc + edu.edu_content.split(/\s+/).length,
+		0,
+	);
+}
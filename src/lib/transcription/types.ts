@@ -10,7 +10,7 @@ import { TranscriptSegment } from "@/features/editor/transcript/types";
  */
 export enum TranscriptionProvider {
 	ELEVENLABS = "elevenlabs",
-	OPENAI = "openai", // Future support
+	OPENAI = "openai", // OpenAI Whisper API or a compatible server
 	GOOGLE = "google", // Future support
 }
 
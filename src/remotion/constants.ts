@@ -0,0 +1,8 @@
+import type { IDesign } from "@designcombo/types";
+
+// Composition the render backend selects from the bundle
+export const DESIGN_COMPOSITION_ID = "design";
+
+export type DesignCompositionProps = {
+	design: IDesign | null;
+};
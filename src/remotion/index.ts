@@ -0,0 +1,9 @@
+/**
+ * Remotion entry point for server-side renders
+ * Bundled with `npm run render:bundle`
+ */
+
+import { registerRoot } from "remotion";
+import { RenderRoot } from "./root";
+
+registerRoot(RenderRoot);
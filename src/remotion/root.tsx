@@ -0,0 +1,115 @@
+import Composition from "@/features/editor/player/composition";
+import useStore from "@/features/editor/store/use-store";
+import type { IDesign } from "@designcombo/types";
+import { useEffect, useMemo, useState } from "react";
+import {
+	AbsoluteFill,
+	CalculateMetadataFunction,
+	Composition as RemotionComposition,
+	continueRender,
+	delayRender,
+} from "remotion";
+import { DESIGN_COMPOSITION_ID, DesignCompositionProps } from "./constants";
+
+const getDesignDuration = (design: IDesign) =>
+	design.duration ||
+	Math.max(
+		0,
+		...Object.values(design.trackItemsMap).map((item) => item.display.to),
+	);
+
+/**
+ * Fonts used by the design's items, loaded before the first frame
+ */
+const getDesignFonts = (design: IDesign) => {
+	const fonts = new Map<string, string>();
+	for (const item of Object.values(design.trackItemsMap)) {
+		const { fontFamily, fontUrl } = (item.details || {}) as {
+			fontFamily?: string;
+			fontUrl?: string;
+		};
+		if (fontFamily && fontUrl) fonts.set(fontFamily, fontUrl);
+	}
+	return [...fonts].map(([name, url]) => ({ name, url }));
+};
+
+const calculateMetadata: CalculateMetadataFunction<DesignCompositionProps> = ({
+	props,
+}) => {
+	const { design } = props;
+	if (!design) throw new Error("No design to render");
+
+	return {
+		fps: design.fps,
+		width: design.size.width,
+		height: design.size.height,
+		durationInFrames: Math.max(
+			1,
+			Math.round((getDesignDuration(design) / 1000) * design.fps),
+		),
+	};
+};
+
+/**
+ * The editor's player composition, fed from the design instead of the
+ * editor state
+ */
+const DesignComposition = ({ design }: DesignCompositionProps) => {
+	const [fontsHandle] = useState(() => delayRender("Loading fonts"));
+
+	// The composition reads the timeline store, so fill it before it renders
+	useMemo(() => {
+		if (!design) return;
+		useStore.setState({
+			fps: design.fps,
+			size: design.size,
+			duration: getDesignDuration(design),
+			tracks: design.tracks,
+			trackItemIds: design.trackItemIds,
+			trackItemsMap: design.trackItemsMap,
+			transitionIds: design.transitionIds,
+			transitionsMap: design.transitionsMap,
+			structure: design.structure || [],
+			background: design.background || { type: "color", value: "#000000" },
+			activeIds: [],
+		});
+	}, [design]);
+
+	useEffect(() => {
+		const fonts = design ? getDesignFonts(design) : [];
+		// A font that fails to load falls back instead of blocking the render
+		Promise.all(
+			fonts.map(({ name, url }) =>
+				new FontFace(name, `url(${url})`)
+					.load()
+					.then((font) => document.fonts.add(font))
+					.catch((error) => console.warn(`Font ${name} failed:`, error)),
+			),
+		).finally(() => continueRender(fontsHandle));
+	}, [design, fontsHandle]);
+
+	const background = design?.background;
+	return (
+		<AbsoluteFill
+			style={{
+				backgroundColor:
+					background?.type === "color" ? background.value : "#000000",
+			}}
+		>
+			<Composition />
+		</AbsoluteFill>
+	);
+};
+
+export const RenderRoot = () => (
+	<RemotionComposition
+		id={DESIGN_COMPOSITION_ID}
+		component={DesignComposition}
+		defaultProps={{ design: null }}
+		calculateMetadata={calculateMetadata}
+		durationInFrames={1}
+		fps={30}
+		width={1920}
+		height={1080}
+	/>
+);
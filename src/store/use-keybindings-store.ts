@@ -20,6 +20,9 @@ export const defaultKeybindings: KeybindingConfig = {
 	end: "goto-end",
 	s: "split-element",
 	n: "toggle-snapping",
+	i: "set-in-point",
+	o: "set-out-point",
+	"alt+x": "clear-range",
 	"ctrl+a": "select-all",
 	"ctrl+d": "duplicate-selected",
 	"ctrl+c": "copy-selected",
@@ -158,7 +161,20 @@ export const useKeybindingsStore = create<KeybindingsState>()(
 		}),
 		{
 			name: "opencut-keybindings",
-			version: 2,
+			version: 3,
+			// Bind actions added since the state was saved, unless their key is taken
+			migrate: (persisted, version) => {
+				const state = persisted as KeybindingsState;
+				if (version < 3 && state?.keybindings) {
+					const bound = new Set(Object.values(state.keybindings));
+					for (const [key, action] of Object.entries(defaultKeybindings)) {
+						if (!bound.has(action) && !state.keybindings[key as ShortcutKey]) {
+							state.keybindings[key as ShortcutKey] = action;
+						}
+					}
+				}
+				return state;
+			},
 		},
 	),
 );
@@ -5,7 +5,7 @@ export const download = (url: string, filename: string) => {
 			const url = window.URL.createObjectURL(blob);
 			const link = document.createElement("a");
 			link.href = url;
-			link.setAttribute("download", `${filename}.mp4`); // Specify the filename for the downloaded video
+			link.setAttribute("download", filename);
 			document.body.appendChild(link);
 			link.click();
 			link.parentNode?.removeChild(link);
@@ -13,3 +13,20 @@ export const download = (url: string, filename: string) => {
 		})
 		.catch((error) => console.error("Download error:", error));
 };
+
+export const downloadText = (
+	content: string,
+	filename: string,
+	type = "text/plain",
+) => {
+	const url = window.URL.createObjectURL(
+		new Blob([content], { type: `${type};charset=utf-8` }),
+	);
+	const link = document.createElement("a");
+	link.href = url;
+	link.setAttribute("download", filename);
+	document.body.appendChild(link);
+	link.click();
+	link.parentNode?.removeChild(link);
+	window.URL.revokeObjectURL(url);
+};
@@ -3,12 +3,25 @@
  * Handles project storage, loading, and data preparation
  */
 
-import { FullEDU } from "@/features/editor/transcript/types";
+import {
+	FullEDU,
+	TranscriptSource,
+	TranscriptSpeaker,
+} from "@/features/editor/transcript/types";
+import type { ExportSettings } from "@/features/editor/utils/export-settings";
 
 // ============================================
 // Types and Interfaces
 // ============================================
 
+/**
+ * Transcript of a highlight short, with times relative to the clip start
+ */
+export interface ClipTranscript {
+	fullEDUs: FullEDU[];
+	speakers: TranscriptSpeaker[];
+}
+
 export interface ProjectMedia {
 	url: string;
 	type: "video" | "audio" | "image";
@@ -17,6 +30,17 @@ export interface ProjectMedia {
 	fileSize?: number;
 	duration?: number;
 	isPending?: boolean; // Indicates if the media upload is still pending
+	clip?: { from: number; to: number }; // Source range to add, in ms
+	subtitles?: ClipTranscript; // Captions to add once the clip is on the timeline
+}
+
+/**
+ * A titled section of the video, starting at a composition time
+ */
+export interface Chapter {
+	id: string;
+	title: string;
+	start: number; // ms
 }
 
 export interface ProjectUpload {
@@ -50,8 +74,12 @@ export interface ProjectData {
 		width?: number;
 		height?: number;
 		background?: { type: string; value: string };
+		chapters?: Chapter[];
+		exportSettings?: ExportSettings;
+		clipTranscript?: ClipTranscript; // A short has no upload of its own to keep it
 	};
 	fullEDUs?: FullEDU[]; // EDU-structured transcript storage
+	transcripts?: TranscriptSource[]; // Transcription of each upload
 	createdAt: string;
 	updatedAt: string;
 }
@@ -444,6 +472,7 @@ export function prepareProjectDataForEditor(projectData: ProjectData | null) {
 		transitions: projectData.timeline?.transitionsMap || {},
 		compositions: projectData.timeline?.compositions || [],
 		fullEDUs: projectData.fullEDUs || [],
+		transcripts: projectData.transcripts || [],
 		settings: projectData.settings || {},
 		uploads: projectData.uploads || [],
 	};